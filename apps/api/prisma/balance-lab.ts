@@ -0,0 +1,203 @@
+// Headless combat balance lab
+// Runs a scenario (two armies and a defence layout) through thousands of seeded
+// battles and prints win rates, time-to-kill and per-unit efficiency
+//
+// Usage:
+//   pnpm balance-lab --scenario scenario.json [--definitions defs.json]
+//                    [--trials 1000] [--seed 1] [--sweep unit:militia.damage=10:40:5] [--csv]
+//
+// Scenario JSON (see BalanceScenario in @nova-fall/game-logic):
+//   { "attacker": { "militia": 10 }, "defender": { "guard": 4 },
+//     "buildings": [{ "buildingTypeId": "turret", "position": { "x": 25, "z": 20 } }],
+//     "hqMaxHealth": 1000, "arena": { "nodeType": "MINING", "tier": 1 } }
+//
+// Without --definitions, unit and building definitions are read from the database.
+// They are keyed by their linked item ID (e.g. "militia"), and cost is the item's HQ price.
+//
+// Sweeps take either a range (from:to:step) or a list (10,20,40)
+
+import { config } from 'dotenv';
+import { readFileSync } from 'fs';
+import { resolve, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { parseArgs } from 'util';
+
+// Load .env from apps/api directory
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+config({ path: resolve(__dirname, '../.env') });
+
+import { PrismaClient } from '@prisma/client';
+import {
+  BALANCE_STATS,
+  balanceReportToCsv,
+  balanceSweepToCsv,
+  formatBalanceReport,
+  formatBalanceSweep,
+  runBalanceTrials,
+  sweepBalanceStat,
+  type BalanceDefinitions,
+  type BalanceScenario,
+  type BalanceStat,
+  type BalanceSweep,
+} from '@nova-fall/game-logic';
+import type {
+  AbilityDefinition,
+  BuildingCategory,
+  TargetPriorityPreset,
+  UnitCategory,
+} from '@nova-fall/shared';
+
+// Paths are relative to where pnpm was run, not apps/api
+function readJson<T>(path: string): T {
+  const cwd = process.env.INIT_CWD ?? process.cwd();
+  return JSON.parse(readFileSync(resolve(cwd, path), 'utf8')) as T;
+}
+
+/**
+ * Parse "unit:militia.damage=10:40:5" or "building:turret.range=4,6,8"
+ */
+function parseSweep(spec: string): BalanceSweep {
+  const match = /^(unit|building):([^.=]+)\.(\w+)=(.+)$/.exec(spec);
+  if (!match) {
+    throw new Error(`Invalid sweep "${spec}", expected <unit|building>:<id>.<stat>=<values>`);
+  }
+  const [, target, id, stat, range] = match as unknown as [
+    string,
+    'unit' | 'building',
+    string,
+    string,
+    string,
+  ];
+
+  if (!BALANCE_STATS.includes(stat as BalanceStat)) {
+    throw new Error(`Unknown stat "${stat}", expected one of: ${BALANCE_STATS.join(', ')}`);
+  }
+
+  let values: number[];
+  if (range.includes(':')) {
+    const [from, to, step = 1] = range.split(':').map(Number);
+    if (from === undefined || to === undefined || !(step > 0)) {
+      throw new Error(`Invalid sweep range "${range}", expected from:to:step`);
+    }
+    values = [];
+    for (let value = from; value <= to + 1e-9; value += step) {
+      values.push(Math.round(value * 1000) / 1000);
+    }
+  } else {
+    values = range.split(',').map(Number);
+  }
+
+  if (values.length === 0 || values.some((v) => !Number.isFinite(v))) {
+    throw new Error(`Invalid sweep values "${range}"`);
+  }
+  return { target, id, stat: stat as BalanceStat, values };
+}
+
+/**
+ * Load unit and building definitions from the database, keyed by linked item ID
+ */
+async function loadDefinitions(): Promise<BalanceDefinitions> {
+  const prisma = new PrismaClient();
+  const [units, buildings, items] = await Promise.all([
+    prisma.unitDefinition.findMany(),
+    prisma.buildingDefinition.findMany(),
+    prisma.itemDefinition.findMany({
+      where: { OR: [{ unitDefinitionId: { not: null } }, { buildingDefinitionId: { not: null } }] },
+      select: { itemId: true, hqCost: true, unitDefinitionId: true, buildingDefinitionId: true },
+    }),
+  ]).finally(() => prisma.$disconnect());
+
+  const itemFor = (definitionId: string) =>
+    items.find(
+      (i) => i.unitDefinitionId === definitionId || i.buildingDefinitionId === definitionId
+    );
+
+  return {
+    units: units.map((def) => {
+      const item = itemFor(def.id);
+      return {
+        id: item?.itemId ?? def.id,
+        name: def.name,
+        ...(item?.hqCost && { cost: item.hqCost }),
+        health: def.health,
+        shield: def.shield,
+        shieldRange: def.shieldRange,
+        damage: def.damage,
+        armor: def.armor,
+        speed: def.speed,
+        range: def.range,
+        attackSpeed: def.attackSpeed,
+        projectileSpeed: def.projectileSpeed,
+        splashRadius: def.splashRadius,
+        revealRadius: def.revealRadius,
+        category: def.category as UnitCategory,
+        targetPriority: def.targetPriority as TargetPriorityPreset,
+        abilities: def.abilities as unknown as AbilityDefinition[],
+        tileSize: def.tileSize,
+      };
+    }),
+    buildings: buildings.map((def) => {
+      const item = itemFor(def.id);
+      return {
+        id: item?.itemId ?? def.id,
+        name: def.name,
+        ...(item?.hqCost && { cost: item.hqCost }),
+        width: def.width,
+        height: def.height,
+        health: def.health,
+        shield: def.shield,
+        shieldRange: def.shieldRange,
+        armor: def.armor,
+        damage: def.damage,
+        range: def.range,
+        attackSpeed: def.attackSpeed,
+        projectileSpeed: def.projectileSpeed,
+        splashRadius: def.splashRadius,
+        category: def.category as BuildingCategory,
+        targetPriority: def.targetPriority as TargetPriorityPreset,
+        abilities: def.abilities as unknown as AbilityDefinition[],
+      };
+    }),
+  };
+}
+
+async function main() {
+  const { values: args } = parseArgs({
+    options: {
+      scenario: { type: 'string' },
+      definitions: { type: 'string' },
+      trials: { type: 'string', default: '1000' },
+      seed: { type: 'string', default: '1' },
+      sweep: { type: 'string' },
+      csv: { type: 'boolean', default: false },
+    },
+  });
+
+  if (!args.scenario) {
+    throw new Error('Missing --scenario <file>');
+  }
+  const trials = Number(args.trials);
+  const seed = Number(args.seed);
+  if (!Number.isInteger(trials) || trials <= 0 || !Number.isInteger(seed)) {
+    throw new Error('--trials must be a positive integer and --seed an integer');
+  }
+
+  const scenario = readJson<BalanceScenario>(args.scenario);
+  const definitions = args.definitions
+    ? readJson<BalanceDefinitions>(args.definitions)
+    : await loadDefinitions();
+
+  if (args.sweep) {
+    const rows = sweepBalanceStat(scenario, definitions, parseSweep(args.sweep), { trials, seed });
+    console.log(args.csv ? balanceSweepToCsv(rows) : formatBalanceSweep(rows));
+  } else {
+    const report = runBalanceTrials(scenario, definitions, { trials, seed });
+    console.log(args.csv ? balanceReportToCsv(report) : formatBalanceReport(report));
+  }
+}
+
+main().catch((e) => {
+  console.error('❌ Balance lab failed:', e instanceof Error ? e.message : e);
+  process.exit(1);
+});
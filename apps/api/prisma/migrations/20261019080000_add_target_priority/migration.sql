@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "BuildingDefinition" ADD COLUMN     "targetPriority" TEXT NOT NULL DEFAULT 'balanced';
+
+-- AlterTable
+ALTER TABLE "UnitDefinition" ADD COLUMN     "targetPriority" TEXT NOT NULL DEFAULT 'balanced';
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "BuildingDefinition" ADD COLUMN     "abilities" JSONB NOT NULL DEFAULT '[]';
+
+-- AlterTable
+ALTER TABLE "UnitDefinition" ADD COLUMN     "abilities" JSONB NOT NULL DEFAULT '[]';
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "BuildingDefinition" ADD COLUMN     "projectileSpeed" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "splashRadius" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "UnitDefinition" ADD COLUMN     "projectileSpeed" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "splashRadius" DOUBLE PRECISION NOT NULL DEFAULT 0;
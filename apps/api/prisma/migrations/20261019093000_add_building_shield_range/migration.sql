@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "BuildingDefinition" ADD COLUMN     "shieldRange" DOUBLE PRECISION NOT NULL DEFAULT 0;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "UnitDefinition" ADD COLUMN     "revealRadius" DOUBLE PRECISION NOT NULL DEFAULT 0;
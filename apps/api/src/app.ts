@@ -11,6 +11,7 @@ import { sessionRoutes } from './modules/sessions/index.js';
 import { gameRoutes } from './modules/game/index.js';
 import { marketRoutes } from './modules/market/index.js';
 import { transferRoutes } from './modules/transfers/index.js';
+import { battleRoutes } from './modules/battles/index.js';
 import { blueprintRoutes } from './modules/blueprints/index.js';
 import { uploadRoutes } from './modules/uploads/index.js';
 import { itemRoutes } from './modules/items/index.js';
@@ -53,6 +54,7 @@ export async function buildApp() {
   await app.register(gameRoutes);
   await app.register(marketRoutes);
   await app.register(transferRoutes);
+  await app.register(battleRoutes);
   await app.register(blueprintRoutes);
   await app.register(uploadRoutes);
   await app.register(itemRoutes);
@@ -1,4 +1,5 @@
 import Redis from 'ioredis';
+import type { CombatRunnerConfig } from '@nova-fall/game-logic';
 import { config } from '../config/index.js';
 
 export const redis = new Redis(config.redis.url, {
@@ -32,3 +33,18 @@ export async function scheduleCraftingJob(nodeId: string, completesAt: number):
   const delay = Math.max(0, completesAt - Date.now());
   await publisherRedis.publish('crafting:schedule', JSON.stringify({ nodeId, delay, completesAt }));
 }
+
+/**
+ * Queue a battle forecast on the worker, which stores the result under cacheKey
+ * and clears pendingKey. A forecast takes most of a second, too long for a request.
+ */
+export async function scheduleForecastJob(job: {
+  cacheKey: string;
+  pendingKey: string;
+  cacheTtl: number;
+  config: CombatRunnerConfig;
+  runs: number;
+  seed: number;
+}): Promise<void> {
+  await publisherRedis.publish('forecast:schedule', JSON.stringify(job));
+}
@@ -0,0 +1,12 @@
+export { battleRoutes } from './routes.js';
+export {
+  declareAttack,
+  amendAttack,
+  cancelAttack,
+  getPlayerBattles,
+  getBattleById,
+  getBattleReplay,
+  getBattleReport,
+  setTargetPriorities,
+} from './service.js';
+export * from './types.js';
@@ -0,0 +1,429 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { verifyAccessToken } from '../../lib/jwt.js';
+import { AppError } from '../../plugins/error-handler.js';
+import { prisma } from '../../lib/prisma.js';
+import {
+  declareAttack,
+  amendAttack,
+  cancelAttack,
+  getPlayerBattles,
+  getBattleById,
+  getBattleReplay,
+  getBattleReport,
+  setTargetPriorities,
+  setConsumables,
+  getBaseLayout,
+  setBaseLayout,
+  getBattleForecast,
+} from './service.js';
+import type {
+  DeclareAttackRequest,
+  AmendAttackRequest,
+  SetTargetPrioritiesRequest,
+  SetConsumablesRequest,
+  SetBaseLayoutRequest,
+} from './types.js';
+
+interface AuthenticatedRequest extends FastifyRequest {
+  userId: string;
+  playerId?: string;
+  sessionPlayerId?: string;
+  gameSessionId?: string;
+}
+
+export async function battleRoutes(app: FastifyInstance) {
+  // Middleware to require authentication
+  const requireAuth = async (request: FastifyRequest, _reply: FastifyReply) => {
+    const authHeader = request.headers.authorization;
+    if (!authHeader?.startsWith('Bearer ')) {
+      throw AppError.unauthorized('Missing authorization header');
+    }
+
+    const token = authHeader.substring(7);
+    const payload = await verifyAccessToken(token);
+
+    if (!payload?.sub) {
+      throw AppError.unauthorized('Invalid or expired token');
+    }
+
+    (request as AuthenticatedRequest).userId = payload.sub;
+  };
+
+  // Middleware to require a player profile (without an active session, for finished games)
+  const requirePlayer = async (request: FastifyRequest, _reply: FastifyReply) => {
+    const req = request as AuthenticatedRequest;
+    const user = await prisma.user.findUnique({
+      where: { id: req.userId },
+      select: { player: { select: { id: true } } },
+    });
+
+    if (!user?.player) {
+      throw AppError.badRequest('No player profile found');
+    }
+
+    req.playerId = user.player.id;
+  };
+
+  // Middleware to require active game session
+  const requireActiveSession = async (request: FastifyRequest, _reply: FastifyReply) => {
+    const req = request as AuthenticatedRequest;
+    if (!req.userId) {
+      throw AppError.unauthorized('Authentication required');
+    }
+
+    // Get player and their active session
+    const user = await prisma.user.findUnique({
+      where: { id: req.userId },
+      include: {
+        player: {
+          include: {
+            gameSessions: {
+              where: {
+                gameSession: {
+                  status: 'ACTIVE',
+                },
+              },
+              include: {
+                gameSession: true,
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!user?.player) {
+      throw AppError.badRequest('No player profile found');
+    }
+
+    req.playerId = user.player.id;
+
+    // Find active session (ACTIVE status, not LOBBY/COMPLETED/ABANDONED)
+    const activeSessionPlayer = user.player.gameSessions.find(
+      (gsp) => gsp.gameSession.status === 'ACTIVE'
+    );
+
+    if (!activeSessionPlayer) {
+      throw AppError.badRequest('No active game session. Join or start a game first.');
+    }
+
+    req.sessionPlayerId = activeSessionPlayer.id;
+    req.gameSessionId = activeSessionPlayer.gameSessionId;
+  };
+
+  /**
+   * GET /battles
+   * List active incoming and outgoing battles for the current player
+   */
+  app.get('/battles', {
+    preHandler: [requireAuth, requireActiveSession],
+  }, async (request) => {
+    const req = request as AuthenticatedRequest;
+
+    if (!req.playerId || !req.gameSessionId) {
+      throw AppError.badRequest('Session context required');
+    }
+
+    return getPlayerBattles(req.playerId, req.gameSessionId);
+  });
+
+  /**
+   * GET /battles/:id
+   * Get a battle the current player is involved in
+   */
+  app.get('/battles/:id', {
+    preHandler: [requireAuth, requireActiveSession],
+  }, async (request) => {
+    const req = request as AuthenticatedRequest;
+    const { id } = request.params as { id: string };
+
+    if (!req.playerId) {
+      throw AppError.badRequest('Player context required');
+    }
+
+    const battle = await getBattleById(req.playerId, id);
+    if (!battle) {
+      throw AppError.notFound('Battle not found');
+    }
+
+    return { battle };
+  });
+
+  /**
+   * GET /battles/:id/replay
+   * Get the replay log of a resolved battle (participants only, the log holds the full defence)
+   * Doesn't need an active session, so replays stay watchable after the game ends
+   */
+  app.get('/battles/:id/replay', {
+    preHandler: [requireAuth, requirePlayer],
+  }, async (request) => {
+    const req = request as AuthenticatedRequest;
+    const { id } = request.params as { id: string };
+
+    if (!req.playerId) {
+      throw AppError.badRequest('Player context required');
+    }
+
+    const replay = await getBattleReplay(req.playerId, id);
+    if (!replay) {
+      throw AppError.notFound('Replay not found');
+    }
+
+    return replay;
+  });
+
+  /**
+   * GET /battles/:id/report
+   * Get the per-unit report of a resolved battle (participants only)
+   */
+  app.get('/battles/:id/report', {
+    preHandler: [requireAuth, requirePlayer],
+  }, async (request) => {
+    const req = request as AuthenticatedRequest;
+    const { id } = request.params as { id: string };
+
+    if (!req.playerId) {
+      throw AppError.badRequest('Player context required');
+    }
+
+    const report = await getBattleReport(req.playerId, id);
+    if (!report) {
+      throw AppError.notFound('Battle report not found');
+    }
+
+    return report;
+  });
+
+  /**
+   * POST /battles
+   * Declare an attack on an adjacent enemy node from a staging node
+   */
+  app.post('/battles', {
+    preHandler: [requireAuth, requireActiveSession],
+  }, async (request) => {
+    const req = request as AuthenticatedRequest;
+    const body = request.body as DeclareAttackRequest;
+
+    if (!req.playerId || !req.gameSessionId) {
+      throw AppError.badRequest('Session context required');
+    }
+
+    if (!body.originNodeId || !body.targetNodeId || !body.units) {
+      throw AppError.badRequest('Missing originNodeId, targetNodeId, or units');
+    }
+
+    const result = await declareAttack(req.playerId, req.gameSessionId, body);
+
+    if ('error' in result) {
+      throw AppError.badRequest(result.error);
+    }
+
+    return {
+      battle: result.battle,
+      message: 'Attack declared',
+    };
+  });
+
+  /**
+   * PATCH /battles/:id
+   * Replace the attack force while the battle is in preparation
+   */
+  app.patch('/battles/:id', {
+    preHandler: [requireAuth, requireActiveSession],
+  }, async (request) => {
+    const req = request as AuthenticatedRequest;
+    const { id } = request.params as { id: string };
+    const body = request.body as AmendAttackRequest;
+
+    if (!req.playerId || !req.gameSessionId) {
+      throw AppError.badRequest('Session context required');
+    }
+
+    if (!body.units) {
+      throw AppError.badRequest('Missing units');
+    }
+
+    const result = await amendAttack(req.playerId, req.gameSessionId, id, body);
+
+    if ('error' in result) {
+      throw AppError.badRequest(result.error);
+    }
+
+    return {
+      battle: result.battle,
+      message: 'Attack force updated',
+    };
+  });
+
+  /**
+   * PUT /battles/:id/target-priorities
+   * Set target priority presets for your side before combat starts
+   */
+  app.put('/battles/:id/target-priorities', {
+    preHandler: [requireAuth, requireActiveSession],
+  }, async (request) => {
+    const req = request as AuthenticatedRequest;
+    const { id } = request.params as { id: string };
+    const body = request.body as SetTargetPrioritiesRequest;
+
+    if (!req.playerId) {
+      throw AppError.badRequest('Player context required');
+    }
+
+    if (!body.priorities || typeof body.priorities !== 'object') {
+      throw AppError.badRequest('Missing priorities');
+    }
+
+    const result = await setTargetPriorities(req.playerId, id, body);
+
+    if ('error' in result) {
+      throw AppError.badRequest(result.error);
+    }
+
+    return {
+      battle: result.battle,
+      message: 'Target priorities updated',
+    };
+  });
+
+  /**
+   * PUT /battles/:id/consumables
+   * Load consumables for combat during preparation
+   */
+  app.put('/battles/:id/consumables', {
+    preHandler: [requireAuth, requireActiveSession],
+  }, async (request) => {
+    const req = request as AuthenticatedRequest;
+    const { id } = request.params as { id: string };
+    const body = request.body as SetConsumablesRequest;
+
+    if (!req.playerId || !req.gameSessionId) {
+      throw AppError.badRequest('Session context required');
+    }
+
+    if (!body.consumables || typeof body.consumables !== 'object') {
+      throw AppError.badRequest('Missing consumables');
+    }
+
+    const result = await setConsumables(req.playerId, req.gameSessionId, id, body);
+
+    if ('error' in result) {
+      throw AppError.badRequest(result.error);
+    }
+
+    return {
+      battle: result.battle,
+      message: 'Consumables updated',
+    };
+  });
+
+  /**
+   * GET /battles/:id/layout
+   * Get the defended node's base layout (defender only)
+   */
+  app.get('/battles/:id/layout', {
+    preHandler: [requireAuth, requireActiveSession],
+  }, async (request) => {
+    const req = request as AuthenticatedRequest;
+    const { id } = request.params as { id: string };
+
+    if (!req.playerId) {
+      throw AppError.badRequest('Player context required');
+    }
+
+    const layout = await getBaseLayout(req.playerId, id);
+    if (!layout) {
+      throw AppError.notFound('Battle not found');
+    }
+
+    return { layout };
+  });
+
+  /**
+   * PUT /battles/:id/layout
+   * Place, move or remove the defended node's buildings during preparation
+   */
+  app.put('/battles/:id/layout', {
+    preHandler: [requireAuth, requireActiveSession],
+  }, async (request) => {
+    const req = request as AuthenticatedRequest;
+    const { id } = request.params as { id: string };
+    const body = request.body as SetBaseLayoutRequest;
+
+    if (!req.playerId || !req.gameSessionId) {
+      throw AppError.badRequest('Session context required');
+    }
+
+    if (!Array.isArray(body.buildings) || body.buildings.some((b) => !b.position)) {
+      throw AppError.badRequest('Missing buildings or building positions');
+    }
+
+    const result = await setBaseLayout(req.playerId, req.gameSessionId, id, body);
+
+    if ('error' in result) {
+      throw AppError.badRequest(result.error);
+    }
+
+    return {
+      layout: result.layout,
+      message: 'Base layout updated',
+    };
+  });
+
+  /**
+   * GET /battles/:id/forecast?runs=20
+   * Odds of the battle from seeded simulations of the attack force against the
+   * visible defences. Cached per set of forces, fresh runs are rate limited and
+   * simulated by the worker - the response is pending until they're done
+   */
+  app.get('/battles/:id/forecast', {
+    preHandler: [requireAuth, requireActiveSession],
+  }, async (request) => {
+    const req = request as AuthenticatedRequest;
+    const { id } = request.params as { id: string };
+    const { runs } = request.query as { runs?: string };
+
+    if (!req.playerId) {
+      throw AppError.badRequest('Player context required');
+    }
+
+    const result = await getBattleForecast(req.playerId, id, runs ? Number(runs) : undefined);
+    if (!result) {
+      throw AppError.notFound('Battle not found');
+    }
+
+    if ('error' in result) {
+      throw result.rateLimited
+        ? AppError.tooManyRequests(result.error)
+        : AppError.badRequest(result.error);
+    }
+
+    return result;
+  });
+
+  /**
+   * DELETE /battles/:id
+   * Cancel an attack during preparation and return units to the staging node
+   */
+  app.delete('/battles/:id', {
+    preHandler: [requireAuth, requireActiveSession],
+  }, async (request) => {
+    const req = request as AuthenticatedRequest;
+    const { id } = request.params as { id: string };
+
+    if (!req.playerId || !req.gameSessionId) {
+      throw AppError.badRequest('Session context required');
+    }
+
+    const result = await cancelAttack(req.playerId, req.gameSessionId, id);
+
+    if ('error' in result) {
+      throw AppError.badRequest(result.error);
+    }
+
+    return {
+      battle: result.battle,
+      message: 'Attack cancelled, units and consumables returned',
+    };
+  });
+}
@@ -0,0 +1,348 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Battle } from '@prisma/client';
+
+// Mock Prisma - must be hoisted
+vi.mock('../../lib/prisma.js', () => ({
+  prisma: {
+    battle: {
+      findUnique: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      findFirst: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    node: {
+      findUnique: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      update: vi.fn(),
+    },
+    building: {
+      findMany: vi.fn(),
+      update: vi.fn(),
+      create: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    itemDefinition: {
+      findMany: vi.fn(),
+    },
+    buildingDefinition: {
+      findMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}));
+
+// The battles service also schedules forecasts and publishes battle events
+vi.mock('../../lib/redis.js', () => ({
+  redis: { get: vi.fn(), set: vi.fn() },
+  scheduleForecastJob: vi.fn(),
+}));
+vi.mock('../../lib/events.js', () => ({
+  publishBattleStart: vi.fn(),
+  publishBattleUpdate: vi.fn(),
+  publishNodeUpdate: vi.fn(),
+}));
+
+// Import the mocks after setting up
+import { prisma } from '../../lib/prisma.js';
+import { publishNodeUpdate } from '../../lib/events.js';
+const mockPrisma = vi.mocked(prisma);
+
+// Import service after mock is set up
+import { amendAttack, setBaseLayout, setConsumables } from './service.js';
+
+// Test data helpers
+function createMockBattle(overrides: Partial<Battle> = {}) {
+  const battle: Battle = {
+    id: 'battle-1',
+    nodeId: 'node-target',
+    attackerId: 'player-1',
+    defenderId: 'player-2',
+    originNodeId: 'node-staging',
+    attackForce: { units: [{ itemId: 'marine', unitTypeId: 'udef-marine', count: 5 }] },
+    defenseState: { units: [], buildings: [], hqMaxHealth: 1000 },
+    initiatedAt: new Date(),
+    prepEndsAt: new Date(Date.now() + 20 * 60 * 60 * 1000),
+    forcesLockedAt: new Date(Date.now() + 19 * 60 * 60 * 1000),
+    combatStartedAt: null,
+    combatEndsAt: null,
+    resolvedAt: null,
+    status: 'PREP_PHASE',
+    result: null,
+    events: [],
+    report: null,
+    createdAt: new Date(),
+    updatedAt: new Date('2026-01-01T00:00:00Z'),
+    ...overrides,
+  };
+  return {
+    ...battle,
+    node: { id: battle.nodeId, name: 'Target', type: 'SETTLEMENT', tier: 1, regionId: null },
+    attacker: { displayName: 'Attacker' },
+    defender: { displayName: 'Defender' },
+  };
+}
+
+const UNIT_ITEMS = [
+  { itemId: 'marine', name: 'Marine', unitDefinitionId: 'udef-marine' },
+  { itemId: 'tank', name: 'Tank', unitDefinitionId: 'udef-tank' },
+];
+
+describe('Battle Preparation Service', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+
+    // Transactions run against the same mocks
+    mockPrisma.$transaction.mockImplementation(((fn: (tx: typeof prisma) => unknown) =>
+      fn(prisma)) as never);
+    mockPrisma.battle.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.battle.findFirst.mockResolvedValue(null);
+    mockPrisma.building.findMany.mockResolvedValue([]);
+    mockPrisma.itemDefinition.findMany.mockResolvedValue([]);
+    mockPrisma.buildingDefinition.findMany.mockResolvedValue([]);
+  });
+
+  describe('amendAttack', () => {
+    it('draws added units from and returns removed ones to the staging node', async () => {
+      const battle = createMockBattle();
+      mockPrisma.battle.findUnique.mockResolvedValueOnce(battle as never);
+      mockPrisma.itemDefinition.findMany.mockResolvedValueOnce(UNIT_ITEMS as never);
+      mockPrisma.node.findUnique.mockResolvedValueOnce({
+        ownerId: 'player-1',
+        storage: { marine: 1, tank: 4 },
+      } as never);
+      mockPrisma.battle.findUniqueOrThrow.mockResolvedValueOnce(battle as never);
+
+      const result = await amendAttack('player-1', 'session-1', 'battle-1', {
+        units: { marine: 3, tank: 2 },
+      });
+
+      expect(result).not.toHaveProperty('error');
+      expect(mockPrisma.node.update).toHaveBeenCalledWith({
+        where: { id: 'node-staging' },
+        data: { storage: { marine: 3, tank: 2 } },
+      });
+      expect(publishNodeUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({ nodeId: 'node-staging', sessionId: 'session-1' })
+      );
+    });
+
+    it('rejects units the staging node does not hold', async () => {
+      mockPrisma.battle.findUnique.mockResolvedValueOnce(createMockBattle() as never);
+      mockPrisma.itemDefinition.findMany.mockResolvedValueOnce(UNIT_ITEMS as never);
+      mockPrisma.node.findUnique.mockResolvedValueOnce({
+        ownerId: 'player-1',
+        storage: { tank: 1 },
+      } as never);
+
+      const result = await amendAttack('player-1', 'session-1', 'battle-1', {
+        units: { marine: 5, tank: 2 },
+      });
+
+      expect(result).toEqual({ error: 'Insufficient tank at staging node: have 1, need 2' });
+      expect(mockPrisma.battle.updateMany).not.toHaveBeenCalled();
+      expect(mockPrisma.node.update).not.toHaveBeenCalled();
+    });
+
+    it('fails without touching storage when another amend changed the battle first', async () => {
+      const battle = createMockBattle();
+      mockPrisma.battle.findUnique.mockResolvedValueOnce(battle as never);
+      mockPrisma.itemDefinition.findMany.mockResolvedValueOnce(UNIT_ITEMS as never);
+      mockPrisma.node.findUnique.mockResolvedValueOnce({
+        ownerId: 'player-1',
+        storage: { marine: 10 },
+      } as never);
+      // The guarded write no longer matches the version this amend read
+      mockPrisma.battle.updateMany.mockResolvedValueOnce({ count: 0 });
+
+      const result = await amendAttack('player-1', 'session-1', 'battle-1', {
+        units: { marine: 8 },
+      });
+
+      expect(result).toEqual({ error: 'The battle changed meanwhile, try again' });
+      expect(mockPrisma.battle.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'battle-1', status: 'PREP_PHASE', updatedAt: battle.updatedAt },
+        })
+      );
+      expect(mockPrisma.node.update).not.toHaveBeenCalled();
+      expect(publishNodeUpdate).not.toHaveBeenCalled();
+    });
+
+    it('rejects amends once the lock time has passed', async () => {
+      mockPrisma.battle.findUnique.mockResolvedValueOnce(
+        createMockBattle({ forcesLockedAt: new Date(Date.now() - 1000) }) as never
+      );
+
+      const result = await amendAttack('player-1', 'session-1', 'battle-1', {
+        units: { marine: 3 },
+      });
+
+      expect(result).toEqual({ error: 'Forces are locked for this battle' });
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('setConsumables', () => {
+    it('draws the defender consumables from the defended node', async () => {
+      const battle = createMockBattle({
+        defenseState: { units: [], buildings: [], hqMaxHealth: 1000, consumables: { emp_bomb: 2 } },
+      });
+      mockPrisma.battle.findUnique.mockResolvedValueOnce(battle as never);
+      mockPrisma.node.findUnique.mockResolvedValueOnce({
+        ownerId: 'player-2',
+        storage: { emp_bomb: 1 },
+      } as never);
+      mockPrisma.battle.findUniqueOrThrow.mockResolvedValueOnce(battle as never);
+
+      const result = await setConsumables('player-2', 'session-1', 'battle-1', {
+        consumables: { emp_bomb: 3 },
+      });
+
+      expect(result).not.toHaveProperty('error');
+      expect(mockPrisma.node.update).toHaveBeenCalledWith({
+        where: { id: 'node-target' },
+        data: { storage: { emp_bomb: 0 } },
+      });
+    });
+
+    it('fails without touching storage when the battle changed since it was read', async () => {
+      const battle = createMockBattle();
+      mockPrisma.battle.findUnique.mockResolvedValueOnce(battle as never);
+      mockPrisma.node.findUnique.mockResolvedValueOnce({
+        ownerId: 'player-1',
+        storage: { emp_bomb: 5 },
+      } as never);
+      mockPrisma.battle.updateMany.mockResolvedValueOnce({ count: 0 });
+
+      const result = await setConsumables('player-1', 'session-1', 'battle-1', {
+        consumables: { emp_bomb: 2 },
+      });
+
+      expect(result).toEqual({ error: 'The battle changed meanwhile, try again' });
+      expect(mockPrisma.battle.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'battle-1', status: 'PREP_PHASE', updatedAt: battle.updatedAt },
+        })
+      );
+      expect(mockPrisma.node.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('setBaseLayout', () => {
+    const TURRET_ITEM = { itemId: 'turret', name: 'Turret', buildingDefinitionId: 'bdef-turret' };
+    const TURRET_DEF = {
+      id: 'bdef-turret',
+      name: 'Turret',
+      width: 1,
+      height: 1,
+      category: 'turret',
+      health: 500,
+    };
+
+    function createMockBuilding(overrides: Record<string, unknown> = {}) {
+      return {
+        id: 'building-1',
+        typeId: 'bdef-turret',
+        gridX: 10,
+        gridY: 10,
+        isConstructing: false,
+        productionQueue: null,
+        ...overrides,
+      };
+    }
+
+    it('returns left out buildings to the defended node storage', async () => {
+      mockPrisma.battle.findUnique.mockResolvedValueOnce(createMockBattle() as never);
+      mockPrisma.building.findMany.mockResolvedValueOnce([createMockBuilding()] as never);
+      mockPrisma.itemDefinition.findMany.mockResolvedValueOnce([TURRET_ITEM] as never);
+      mockPrisma.buildingDefinition.findMany.mockResolvedValueOnce([TURRET_DEF] as never);
+      mockPrisma.node.findUnique.mockResolvedValueOnce({
+        ownerId: 'player-2',
+        storage: {},
+      } as never);
+      mockPrisma.node.findUniqueOrThrow.mockResolvedValueOnce({ storage: { turret: 1 } } as never);
+
+      const result = await setBaseLayout('player-2', 'session-1', 'battle-1', { buildings: [] });
+
+      expect(result).not.toHaveProperty('error');
+      expect(mockPrisma.building.deleteMany).toHaveBeenCalledWith({
+        where: { nodeId: 'node-target', id: { in: ['building-1'] } },
+      });
+      expect(mockPrisma.node.update).toHaveBeenCalledWith({
+        where: { id: 'node-target' },
+        data: { storage: { turret: 1 } },
+      });
+    });
+
+    it.each([
+      ['an economic building', { id: 'refinery-1', typeId: 'refinery' }, 'refinery'],
+      ['a building under construction', { isConstructing: true }, 'Turret'],
+      ['a factory with a production queue', { productionQueue: [{ itemId: 'marine' }] }, 'Turret'],
+    ])('refuses to remove %s', async (_label, overrides, name) => {
+      mockPrisma.battle.findUnique.mockResolvedValueOnce(createMockBattle() as never);
+      mockPrisma.building.findMany.mockResolvedValueOnce([createMockBuilding(overrides)] as never);
+      mockPrisma.itemDefinition.findMany.mockResolvedValueOnce([TURRET_ITEM] as never);
+      mockPrisma.buildingDefinition.findMany.mockResolvedValueOnce([TURRET_DEF] as never);
+
+      const result = await setBaseLayout('player-2', 'session-1', 'battle-1', { buildings: [] });
+
+      expect(result).toEqual({ error: `${name} can't be removed` });
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('keeps buildings it cannot remove when they stay in the layout', async () => {
+      const factory = createMockBuilding({ productionQueue: [{ itemId: 'marine' }] });
+      mockPrisma.battle.findUnique.mockResolvedValueOnce(createMockBattle() as never);
+      mockPrisma.building.findMany.mockResolvedValueOnce([factory] as never);
+      mockPrisma.itemDefinition.findMany.mockResolvedValueOnce([TURRET_ITEM] as never);
+      mockPrisma.buildingDefinition.findMany.mockResolvedValueOnce([TURRET_DEF] as never);
+      mockPrisma.node.findUnique.mockResolvedValueOnce({
+        ownerId: 'player-2',
+        storage: {},
+      } as never);
+      mockPrisma.node.findUniqueOrThrow.mockResolvedValueOnce({ storage: {} } as never);
+
+      const result = await setBaseLayout('player-2', 'session-1', 'battle-1', {
+        buildings: [{ id: factory.id, position: { x: 12, z: 10 } }],
+      });
+
+      expect(result).not.toHaveProperty('error');
+      expect(mockPrisma.building.deleteMany).toHaveBeenCalledWith({
+        where: { nodeId: 'node-target', id: { in: [] } },
+      });
+      expect(mockPrisma.building.update).toHaveBeenCalledWith({
+        where: { id: factory.id },
+        data: { gridX: 12, gridY: 10 },
+      });
+    });
+
+    it('leaves the layout alone when the lock time passed during the save', async () => {
+      mockPrisma.battle.findUnique.mockResolvedValueOnce(createMockBattle() as never);
+      mockPrisma.building.findMany.mockResolvedValueOnce([createMockBuilding()] as never);
+      mockPrisma.itemDefinition.findMany.mockResolvedValueOnce([TURRET_ITEM] as never);
+      mockPrisma.buildingDefinition.findMany.mockResolvedValueOnce([TURRET_DEF] as never);
+      mockPrisma.node.findUnique.mockResolvedValueOnce({
+        ownerId: 'player-2',
+        storage: {},
+      } as never);
+      mockPrisma.battle.findFirst.mockResolvedValueOnce({ id: 'battle-1' } as never);
+
+      const result = await setBaseLayout('player-2', 'session-1', 'battle-1', { buildings: [] });
+
+      expect(result).toEqual({ error: 'Forces are locked for this battle' });
+      expect(mockPrisma.battle.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            id: 'battle-1',
+            OR: [
+              { status: { not: 'PREP_PHASE' } },
+              { forcesLockedAt: { lte: expect.any(Date) as Date } },
+            ],
+          },
+        })
+      );
+      expect(mockPrisma.building.deleteMany).not.toHaveBeenCalled();
+      expect(mockPrisma.node.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,1350 @@
+import { createHash } from 'crypto';
+import { prisma } from '../../lib/prisma.js';
+import { redis, scheduleForecastJob } from '../../lib/redis.js';
+import { publishBattleStart, publishBattleUpdate, publishNodeUpdate } from '../../lib/events.js';
+import {
+  generateArenaLayout,
+  isPassableCategory,
+  seedFromString,
+  validateBaseLayout,
+  type ArenaGenerationOptions,
+  type BattleReport,
+  type CombatBuildingConfig,
+  type CombatConsumableStock,
+  type CombatLogEntry,
+  type CombatRunnerConfig,
+  type CombatUnitGroup,
+} from '@nova-fall/game-logic';
+import {
+  COMBAT,
+  TARGET_PRIORITY_PRESETS,
+  applyQualityBonus,
+  getConsumableDefinition,
+  type AbilityDefinition,
+  type ArenaPosition,
+  type BattleAttackForce,
+  type BattleDefenseState,
+  type BattleUnitGroup,
+  type BuildingCategory,
+  type ItemStorage,
+  type TargetPriorityPreset,
+  type UnitCategory,
+} from '@nova-fall/shared';
+import {
+  ACTIVE_BATTLE_STATUSES,
+  type AmendAttackRequest,
+  type BaseLayoutResponse,
+  type BattleForecastResponse,
+  type CachedBattleForecast,
+  type BattleListResponse,
+  type BattleReplayResponse,
+  type BattleReportResponse,
+  type BattleResponse,
+  type DeclareAttackRequest,
+  type SetBaseLayoutRequest,
+  type SetConsumablesRequest,
+  type SetTargetPrioritiesRequest,
+} from './types.js';
+
+const battleInclude = {
+  node: { select: { name: true } },
+  attacker: { select: { displayName: true } },
+  defender: { select: { displayName: true } },
+} as const;
+
+/**
+ * Format a battle record for API response
+ * The attack force and each side's target priorities and consumables are only shown to that side
+ */
+function formatBattle(
+  battle: {
+    id: string;
+    nodeId: string;
+    originNodeId: string;
+    attackerId: string;
+    defenderId: string | null;
+    attackForce: unknown;
+    defenseState: unknown;
+    status: BattleResponse['status'];
+    result: BattleResponse['result'];
+    initiatedAt: Date;
+    prepEndsAt: Date;
+    forcesLockedAt: Date | null;
+    combatStartedAt: Date | null;
+    combatEndsAt: Date | null;
+    resolvedAt: Date | null;
+    node: { name: string };
+    attacker: { displayName: string };
+    defender: { displayName: string } | null;
+  },
+  viewerId: string
+): BattleResponse {
+  const isAttacker = viewerId === battle.attackerId;
+  const side = (isAttacker ? battle.attackForce : battle.defenseState) as
+    | BattleAttackForce
+    | BattleDefenseState;
+
+  return {
+    id: battle.id,
+    nodeId: battle.nodeId,
+    nodeName: battle.node.name,
+    originNodeId: battle.originNodeId,
+    attackerId: battle.attackerId,
+    attackerName: battle.attacker.displayName,
+    defenderId: battle.defenderId,
+    defenderName: battle.defender?.displayName ?? null,
+    status: battle.status,
+    result: battle.result,
+    attackForce: isAttacker ? (battle.attackForce as BattleAttackForce).units : null,
+    targetPriorities: side.targetPriorities ?? {},
+    consumables: side.consumables ?? {},
+    initiatedAt: battle.initiatedAt.toISOString(),
+    prepEndsAt: battle.prepEndsAt.toISOString(),
+    forcesLockedAt: battle.forcesLockedAt?.toISOString() ?? null,
+    combatStartedAt: battle.combatStartedAt?.toISOString() ?? null,
+    combatEndsAt: battle.combatEndsAt?.toISOString() ?? null,
+    resolvedAt: battle.resolvedAt?.toISOString() ?? null,
+  };
+}
+
+/**
+ * Resolve requested unit items to battle unit groups
+ * Only items linked to a unit definition can join an attack force
+ */
+async function resolveUnitGroups(
+  units: Record<string, number>
+): Promise<{ groups: BattleUnitGroup[] } | { error: string }> {
+  const entries = Object.entries(units).filter(([, count]) => count > 0);
+  if (entries.length === 0) {
+    return { error: 'Attack force must contain at least one unit' };
+  }
+  for (const [itemId, count] of entries) {
+    if (!Number.isInteger(count)) {
+      return { error: `Invalid unit count for ${itemId}` };
+    }
+  }
+
+  const items = await prisma.itemDefinition.findMany({
+    where: { itemId: { in: entries.map(([itemId]) => itemId) } },
+    select: { itemId: true, name: true, unitDefinitionId: true },
+  });
+  const itemsById = new Map(items.map((i) => [i.itemId, i]));
+
+  const groups: BattleUnitGroup[] = [];
+  for (const [itemId, count] of entries) {
+    const item = itemsById.get(itemId);
+    if (!item?.unitDefinitionId) {
+      return { error: `${item?.name ?? itemId} is not a combat unit` };
+    }
+    groups.push({ itemId, unitTypeId: item.unitDefinitionId, count });
+  }
+
+  return { groups };
+}
+
+/**
+ * Sum unit groups into an itemId -> count map
+ */
+function countByItem(groups: BattleUnitGroup[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const group of groups) {
+    counts.set(group.itemId, (counts.get(group.itemId) ?? 0) + group.count);
+  }
+  return counts;
+}
+
+/**
+ * Apply an itemId -> count change to storage, drawing positive deltas and returning negative ones
+ * Returns an error if the storage doesn't hold enough of an item
+ */
+function applyStorageDelta(
+  storage: ItemStorage,
+  previous: Map<string, number>,
+  next: Map<string, number>,
+  label: string
+): { storage: ItemStorage } | { error: string } {
+  const result = { ...storage };
+  for (const itemId of new Set([...previous.keys(), ...next.keys()])) {
+    const delta = (next.get(itemId) ?? 0) - (previous.get(itemId) ?? 0);
+    const available = result[itemId] ?? 0;
+    if (delta > available) {
+      return { error: `Insufficient ${itemId} at ${label}: have ${available}, need ${delta}` };
+    }
+    result[itemId] = available - delta;
+  }
+  return { storage: result };
+}
+
+/**
+ * Random preparation time: PREP_TIME_BASE ± PREP_TIME_VARIANCE
+ */
+function rollPrepDuration(): number {
+  const variance = (Math.random() * 2 - 1) * COMBAT.PREP_TIME_VARIANCE;
+  return Math.round(COMBAT.PREP_TIME_BASE + variance);
+}
+
+/**
+ * Declare an attack on an adjacent enemy node
+ * Units are drawn from the staging node's storage and held by the battle
+ */
+export async function declareAttack(
+  playerId: string,
+  sessionId: string,
+  request: DeclareAttackRequest
+): Promise<{ battle: BattleResponse } | { error: string }> {
+  const { originNodeId, targetNodeId } = request;
+
+  const [originNode, targetNode] = await Promise.all([
+    prisma.node.findFirst({ where: { id: originNodeId, gameSessionId: sessionId } }),
+    prisma.node.findFirst({ where: { id: targetNodeId, gameSessionId: sessionId } }),
+  ]);
+
+  if (!originNode) {
+    return { error: 'Staging node not found in this session' };
+  }
+  if (!targetNode) {
+    return { error: 'Target node not found in this session' };
+  }
+  if (originNode.ownerId !== playerId) {
+    return { error: 'You do not own the staging node' };
+  }
+  if (!targetNode.ownerId) {
+    return { error: 'Target node is not owned by another player' };
+  }
+  if (targetNode.ownerId === playerId) {
+    return { error: 'You cannot attack your own node' };
+  }
+
+  const connection = await prisma.nodeConnection.findFirst({
+    where: {
+      OR: [
+        { fromNodeId: originNodeId, toNodeId: targetNodeId },
+        { fromNodeId: targetNodeId, toNodeId: originNodeId },
+      ],
+    },
+    select: { id: true },
+  });
+  if (!connection) {
+    return { error: 'Target node must be adjacent to the staging node' };
+  }
+
+  const now = new Date();
+  if (targetNode.attackImmunityUntil && targetNode.attackImmunityUntil > now) {
+    return { error: 'Target node is immune to attacks after a recent battle' };
+  }
+  if (targetNode.attackCooldownUntil && targetNode.attackCooldownUntil > now) {
+    return {
+      error: `Target node cannot be attacked until ${targetNode.attackCooldownUntil.toISOString()}`,
+    };
+  }
+
+  const resolved = await resolveUnitGroups(request.units);
+  if ('error' in resolved) {
+    return resolved;
+  }
+
+  const prepEndsAt = new Date(now.getTime() + rollPrepDuration());
+  const forcesLockedAt = new Date(prepEndsAt.getTime() - COMBAT.FORCES_LOCK_BEFORE);
+  const attackForce: BattleAttackForce = { units: resolved.groups };
+  // Defender snapshot is taken when forces lock
+  const defenseState: BattleDefenseState = { units: [], buildings: [], hqMaxHealth: 0 };
+
+  const result = await prisma.$transaction(async (tx) => {
+    const existingBattle = await tx.battle.findFirst({
+      where: { nodeId: targetNodeId, status: { in: [...ACTIVE_BATTLE_STATUSES] } },
+      select: { id: true },
+    });
+    if (existingBattle) {
+      return { error: 'Target node is already under attack' };
+    }
+
+    const staging = await tx.node.findUniqueOrThrow({
+      where: { id: originNodeId },
+      select: { storage: true },
+    });
+    const storage = { ...(staging.storage as ItemStorage) };
+
+    for (const [itemId, count] of countByItem(resolved.groups)) {
+      const available = storage[itemId] ?? 0;
+      if (available < count) {
+        return {
+          error: `Insufficient ${itemId} at staging node: have ${available}, need ${count}`,
+        };
+      }
+      storage[itemId] = available - count;
+    }
+
+    // Guard on status so concurrent declarations can't both claim the node
+    const { count } = await tx.node.updateMany({
+      where: {
+        id: targetNodeId,
+        ownerId: targetNode.ownerId,
+        status: { notIn: ['CONTESTED', 'UNDER_ATTACK'] },
+      },
+      data: { status: 'CONTESTED' },
+    });
+    if (count === 0) {
+      return { error: 'Target node is already under attack' };
+    }
+
+    await tx.node.update({ where: { id: originNodeId }, data: { storage } });
+
+    const battle = await tx.battle.create({
+      data: {
+        nodeId: targetNodeId,
+        attackerId: playerId,
+        defenderId: targetNode.ownerId,
+        originNodeId,
+        attackForce: attackForce as object,
+        defenseState: defenseState as object,
+        prepEndsAt,
+        forcesLockedAt,
+      },
+      include: battleInclude,
+    });
+
+    return { battle, storage };
+  });
+
+  if (result.error !== undefined) {
+    return { error: result.error };
+  }
+
+  await publishNodeUpdate({
+    nodeId: originNodeId,
+    changes: { storage: result.storage as Record<string, number> },
+    sessionId,
+  });
+  await publishNodeUpdate({
+    nodeId: targetNodeId,
+    changes: { status: 'CONTESTED' },
+    sessionId,
+  });
+  await publishBattleStart({
+    battleId: result.battle.id,
+    nodeId: targetNodeId,
+    attackerId: playerId,
+    defenderId: targetNode.ownerId,
+    prepEndsAt: prepEndsAt.toISOString(),
+    sessionId,
+  });
+
+  return { battle: formatBattle(result.battle, playerId) };
+}
+
+/**
+ * Replace the attack force during the preparation phase
+ * Units are returned to or drawn from the staging node to match the new force
+ */
+export async function amendAttack(
+  playerId: string,
+  sessionId: string,
+  battleId: string,
+  request: AmendAttackRequest
+): Promise<{ battle: BattleResponse } | { error: string }> {
+  const battle = await prisma.battle.findUnique({ where: { id: battleId } });
+
+  if (!battle || battle.attackerId !== playerId) {
+    return { error: 'Battle not found' };
+  }
+  if (
+    battle.status !== 'PREP_PHASE' ||
+    (battle.forcesLockedAt && battle.forcesLockedAt <= new Date())
+  ) {
+    return { error: 'Forces are locked for this battle' };
+  }
+
+  const resolved = await resolveUnitGroups(request.units);
+  if ('error' in resolved) {
+    return resolved;
+  }
+
+  const previous = countByItem((battle.attackForce as unknown as BattleAttackForce).units);
+  const next = countByItem(resolved.groups);
+
+  const result = await prisma.$transaction(async (tx) => {
+    const staging = await tx.node.findUnique({
+      where: { id: battle.originNodeId },
+      select: { ownerId: true, storage: true },
+    });
+    if (staging?.ownerId !== playerId) {
+      return { error: 'You no longer own the staging node' };
+    }
+
+    const drawn = applyStorageDelta(staging.storage as ItemStorage, previous, next, 'staging node');
+    if ('error' in drawn) {
+      return { error: drawn.error };
+    }
+    const { storage } = drawn;
+
+    // Guard on the read version too: the delta is against the force read above, so
+    // forces locking or a concurrent amend meanwhile must fail instead of drawing twice
+    const { count } = await tx.battle.updateMany({
+      where: { id: battleId, status: 'PREP_PHASE', updatedAt: battle.updatedAt },
+      data: {
+        attackForce: {
+          ...(battle.attackForce as unknown as BattleAttackForce),
+          units: resolved.groups,
+        } as object,
+      },
+    });
+    if (count === 0) {
+      return { error: 'The battle changed meanwhile, try again' };
+    }
+
+    await tx.node.update({ where: { id: battle.originNodeId }, data: { storage } });
+    const updated = await tx.battle.findUniqueOrThrow({
+      where: { id: battleId },
+      include: battleInclude,
+    });
+
+    return { battle: updated, storage };
+  });
+
+  if ('error' in result) {
+    return { error: result.error };
+  }
+
+  await publishNodeUpdate({
+    nodeId: battle.originNodeId,
+    changes: { storage: result.storage as Record<string, number> },
+    sessionId,
+  });
+
+  return { battle: formatBattle(result.battle, playerId) };
+}
+
+/**
+ * Load consumables for combat during the preparation phase
+ * The attacker draws them from the staging node and the defender from the
+ * defended node; changing the load returns or draws the difference
+ */
+export async function setConsumables(
+  playerId: string,
+  sessionId: string,
+  battleId: string,
+  request: SetConsumablesRequest
+): Promise<{ battle: BattleResponse } | { error: string }> {
+  const battle = await prisma.battle.findUnique({ where: { id: battleId } });
+
+  if (!battle || (battle.attackerId !== playerId && battle.defenderId !== playerId)) {
+    return { error: 'Battle not found' };
+  }
+  if (
+    battle.status !== 'PREP_PHASE' ||
+    (battle.forcesLockedAt && battle.forcesLockedAt <= new Date())
+  ) {
+    return { error: 'Forces are locked for this battle' };
+  }
+
+  const next = new Map<string, number>();
+  for (const [itemId, count] of Object.entries(request.consumables)) {
+    if (!getConsumableDefinition(itemId)) {
+      return { error: `${itemId} is not a combat consumable` };
+    }
+    if (!Number.isInteger(count) || count < 0) {
+      return { error: `Invalid consumable count for ${itemId}` };
+    }
+    if (count > 0) next.set(itemId, count);
+  }
+
+  const isAttacker = battle.attackerId === playerId;
+  const nodeId = isAttacker ? battle.originNodeId : battle.nodeId;
+  const side = (isAttacker ? battle.attackForce : battle.defenseState) as unknown as
+    | BattleAttackForce
+    | BattleDefenseState;
+  const previous = new Map(Object.entries(side.consumables ?? {}));
+  const consumables = Object.fromEntries(next);
+
+  const result = await prisma.$transaction(async (tx) => {
+    const node = await tx.node.findUnique({
+      where: { id: nodeId },
+      select: { ownerId: true, storage: true },
+    });
+    if (node?.ownerId !== playerId) {
+      return { error: isAttacker ? 'You no longer own the staging node' : 'Battle not found' };
+    }
+
+    const label = isAttacker ? 'staging node' : 'defended node';
+    const drawn = applyStorageDelta(node.storage as ItemStorage, previous, next, label);
+    if ('error' in drawn) {
+      return { error: drawn.error };
+    }
+
+    // Guard on the read version too: the delta is against the consumables read above,
+    // so forces locking or a concurrent change meanwhile must fail instead of drawing twice
+    const { count } = await tx.battle.updateMany({
+      where: { id: battleId, status: 'PREP_PHASE', updatedAt: battle.updatedAt },
+      data: isAttacker
+        ? { attackForce: { ...(side as BattleAttackForce), consumables } as object }
+        : { defenseState: { ...(side as BattleDefenseState), consumables } as object },
+    });
+    if (count === 0) {
+      return { error: 'The battle changed meanwhile, try again' };
+    }
+
+    await tx.node.update({ where: { id: nodeId }, data: { storage: drawn.storage } });
+    const updated = await tx.battle.findUniqueOrThrow({
+      where: { id: battleId },
+      include: battleInclude,
+    });
+
+    return { battle: updated, storage: drawn.storage };
+  });
+
+  if ('error' in result) {
+    return { error: result.error };
+  }
+
+  await publishNodeUpdate({
+    nodeId,
+    changes: { storage: result.storage as Record<string, number> },
+    sessionId,
+  });
+
+  return { battle: formatBattle(result.battle, playerId) };
+}
+
+/**
+ * Cancel an attack during the preparation phase
+ * The attack force and both sides' consumables return to where they came from
+ */
+export async function cancelAttack(
+  playerId: string,
+  sessionId: string,
+  battleId: string
+): Promise<{ battle: BattleResponse } | { error: string }> {
+  const battle = await prisma.battle.findUnique({ where: { id: battleId } });
+
+  if (!battle || battle.attackerId !== playerId) {
+    return { error: 'Battle not found' };
+  }
+  if (battle.status !== 'PREP_PHASE') {
+    return { error: 'Attacks can only be cancelled during preparation' };
+  }
+
+  const attackForce = battle.attackForce as unknown as BattleAttackForce;
+  const committed = countByItem(attackForce.units);
+  for (const [itemId, count] of Object.entries(attackForce.consumables ?? {})) {
+    committed.set(itemId, (committed.get(itemId) ?? 0) + count);
+  }
+  const defenderConsumables = (battle.defenseState as unknown as BattleDefenseState).consumables;
+
+  const result = await prisma.$transaction(async (tx) => {
+    // Guard on status so the attack can't be cancelled once forces lock
+    const { count } = await tx.battle.updateMany({
+      where: { id: battleId, status: 'PREP_PHASE' },
+      data: { status: 'CANCELLED', resolvedAt: new Date() },
+    });
+    if (count === 0) {
+      return { error: 'Attacks can only be cancelled during preparation' };
+    }
+
+    const staging = await tx.node.findUniqueOrThrow({
+      where: { id: battle.originNodeId },
+      select: { ownerId: true, storage: true },
+    });
+
+    // Units and consumables only go home if the staging node is still ours
+    let storage: ItemStorage | null = null;
+    if (staging.ownerId === playerId) {
+      storage = { ...(staging.storage as ItemStorage) };
+      for (const [itemId, count] of committed) {
+        storage[itemId] = (storage[itemId] ?? 0) + count;
+      }
+      await tx.node.update({ where: { id: battle.originNodeId }, data: { storage } });
+    }
+
+    // The defender's consumables go back into the defended node
+    let nodeStorage: ItemStorage | null = null;
+    if (defenderConsumables && Object.keys(defenderConsumables).length > 0) {
+      const node = await tx.node.findUniqueOrThrow({
+        where: { id: battle.nodeId },
+        select: { storage: true },
+      });
+      nodeStorage = { ...(node.storage as ItemStorage) };
+      for (const [itemId, count] of Object.entries(defenderConsumables)) {
+        nodeStorage[itemId] = (nodeStorage[itemId] ?? 0) + count;
+      }
+    }
+
+    await tx.node.update({
+      where: { id: battle.nodeId },
+      data: { status: 'CLAIMED', ...(nodeStorage && { storage: nodeStorage }) },
+    });
+    const updated = await tx.battle.findUniqueOrThrow({
+      where: { id: battleId },
+      include: battleInclude,
+    });
+
+    return { battle: updated, storage, nodeStorage };
+  });
+
+  if ('error' in result) {
+    return { error: result.error };
+  }
+
+  if (result.storage) {
+    await publishNodeUpdate({
+      nodeId: battle.originNodeId,
+      changes: { storage: result.storage as Record<string, number> },
+      sessionId,
+    });
+  }
+  await publishNodeUpdate({
+    nodeId: battle.nodeId,
+    changes: {
+      status: 'CLAIMED',
+      ...(result.nodeStorage && { storage: result.nodeStorage as Record<string, number> }),
+    },
+    sessionId,
+  });
+  await publishBattleUpdate({
+    battleId,
+    status: 'CANCELLED',
+    data: { nodeId: battle.nodeId },
+    sessionId,
+  });
+
+  return { battle: formatBattle(result.battle, playerId) };
+}
+
+/**
+ * Set the target priority presets for the player's side before combat starts
+ * Attackers key presets by unit definition; defenders also by building ID
+ */
+export async function setTargetPriorities(
+  playerId: string,
+  battleId: string,
+  request: SetTargetPrioritiesRequest
+): Promise<{ battle: BattleResponse } | { error: string }> {
+  const battle = await prisma.battle.findUnique({ where: { id: battleId } });
+
+  if (!battle || (battle.attackerId !== playerId && battle.defenderId !== playerId)) {
+    return { error: 'Battle not found' };
+  }
+  if (battle.status !== 'PREP_PHASE' && battle.status !== 'FORCES_LOCKED') {
+    return { error: 'Target priorities can only be set before combat' };
+  }
+
+  for (const [id, preset] of Object.entries(request.priorities)) {
+    if (!TARGET_PRIORITY_PRESETS.includes(preset)) {
+      return { error: `Invalid target priority for ${id}` };
+    }
+  }
+
+  let data: { attackForce: object } | { defenseState: object };
+  if (battle.attackerId === playerId) {
+    const attackForce = battle.attackForce as unknown as BattleAttackForce;
+    const unitTypeIds = new Set(attackForce.units.map((g) => g.unitTypeId));
+    const unknown = Object.keys(request.priorities).find((id) => !unitTypeIds.has(id));
+    if (unknown) {
+      return { error: `${unknown} is not part of the attack force` };
+    }
+    data = { attackForce: { ...attackForce, targetPriorities: request.priorities } };
+  } else {
+    // The garrison is only snapshotted when forces lock, so defender keys can't be checked yet
+    const defenseState = battle.defenseState as unknown as BattleDefenseState;
+    data = { defenseState: { ...defenseState, targetPriorities: request.priorities } };
+  }
+
+  // Guard on status so a battle entering combat meanwhile isn't changed
+  const { count } = await prisma.battle.updateMany({
+    where: { id: battleId, status: { in: ['PREP_PHASE', 'FORCES_LOCKED'] } },
+    data,
+  });
+  if (count === 0) {
+    return { error: 'Target priorities can only be set before combat' };
+  }
+
+  const updated = await prisma.battle.findUniqueOrThrow({
+    where: { id: battleId },
+    include: battleInclude,
+  });
+  return { battle: formatBattle(updated, playerId) };
+}
+
+/**
+ * Options a node's arena is generated from
+ * Seeded from the node so it is fought over on the same ground every time
+ */
+function getArenaOptions(node: {
+  id: string;
+  type: string;
+  tier: number;
+  regionId: string | null;
+}): ArenaGenerationOptions {
+  return {
+    nodeType: node.type,
+    tier: node.tier,
+    regionId: node.regionId,
+    seed: seedFromString(node.id),
+  };
+}
+
+function isForcesLocked(battle: { status: string; forcesLockedAt: Date | null }): boolean {
+  return (
+    battle.status !== 'PREP_PHASE' ||
+    (battle.forcesLockedAt !== null && battle.forcesLockedAt <= new Date())
+  );
+}
+
+/**
+ * Whether the layout editor may take a building off the node
+ * It has to go back into storage as an item, so economic buildings, ones still
+ * under construction and factories with a production queue stay where they are
+ */
+function isRemovableBuilding(
+  building: { typeId: string; isConstructing: boolean; productionQueue: unknown },
+  itemTypeIds: Set<string>
+): boolean {
+  return (
+    !building.isConstructing &&
+    building.productionQueue === null &&
+    itemTypeIds.has(building.typeId)
+  );
+}
+
+/**
+ * Building definitions that an item places, out of the given ones
+ */
+async function getItemTypeIds(typeIds: string[]): Promise<Set<string>> {
+  const items = await prisma.itemDefinition.findMany({
+    where: { buildingDefinitionId: { in: typeIds } },
+    select: { buildingDefinitionId: true },
+  });
+  return new Set(items.flatMap((i) => (i.buildingDefinitionId ? [i.buildingDefinitionId] : [])));
+}
+
+/**
+ * Current layout of a defended node, with the building items it could still place
+ */
+async function buildBaseLayout(
+  node: { id: string; type: string; tier: number; regionId: string | null },
+  locked: boolean
+): Promise<BaseLayoutResponse> {
+  const [{ storage }, rows] = await Promise.all([
+    prisma.node.findUniqueOrThrow({ where: { id: node.id }, select: { storage: true } }),
+    prisma.building.findMany({
+      where: { nodeId: node.id, isActive: true },
+      select: {
+        id: true,
+        typeId: true,
+        gridX: true,
+        gridY: true,
+        isConstructing: true,
+        productionQueue: true,
+      },
+      orderBy: { createdAt: 'asc' },
+    }),
+  ]);
+  const itemTypeIds = await getItemTypeIds(rows.map((b) => b.typeId));
+
+  const stored = storage as ItemStorage;
+  const items = await prisma.itemDefinition.findMany({
+    where: { itemId: { in: Object.keys(stored) }, buildingDefinitionId: { not: null } },
+    select: { itemId: true, name: true, buildingDefinitionId: true },
+  });
+  const definitions = await prisma.buildingDefinition.findMany({
+    where: {
+      id: {
+        in: [
+          ...rows.map((b) => b.typeId),
+          ...items.flatMap((i) => (i.buildingDefinitionId ? [i.buildingDefinitionId] : [])),
+        ],
+      },
+    },
+    select: { id: true, name: true, width: true, height: true, category: true, modelPath: true },
+  });
+  const definitionsById = new Map(definitions.map((d) => [d.id, d]));
+
+  const buildings = rows.map((b) => {
+    const def = definitionsById.get(b.typeId);
+    return {
+      id: b.id,
+      buildingTypeId: b.typeId,
+      name: def?.name ?? b.typeId,
+      position: { x: b.gridX, z: b.gridY },
+      width: def?.width ?? 1,
+      height: def?.height ?? 1,
+      passable: isPassableCategory(def?.category ?? 'structure'),
+      modelPath: def?.modelPath ?? null,
+      removable: isRemovableBuilding(b, itemTypeIds),
+    };
+  });
+
+  const available: BaseLayoutResponse['available'] = [];
+  for (const item of items) {
+    const def = item.buildingDefinitionId ? definitionsById.get(item.buildingDefinitionId) : null;
+    const count = stored[item.itemId] ?? 0;
+    if (!def || count <= 0) continue;
+    available.push({
+      itemId: item.itemId,
+      buildingTypeId: def.id,
+      name: item.name,
+      count,
+      width: def.width,
+      height: def.height,
+      passable: isPassableCategory(def.category),
+      modelPath: def.modelPath,
+    });
+  }
+
+  const arena = getArenaOptions(node);
+  return {
+    arena,
+    arenaLayout: generateArenaLayout(
+      arena,
+      buildings.map(({ position, width, height, passable }) => ({
+        position,
+        width,
+        height,
+        passable,
+      }))
+    ),
+    buildings,
+    available,
+    locked,
+  };
+}
+
+/**
+ * Get the defended node's base layout for the layout editor
+ */
+export async function getBaseLayout(
+  playerId: string,
+  battleId: string
+): Promise<BaseLayoutResponse | null> {
+  const battle = await prisma.battle.findUnique({
+    where: { id: battleId },
+    include: { node: { select: { id: true, type: true, tier: true, regionId: true } } },
+  });
+
+  if (!battle || battle.defenderId !== playerId) {
+    return null;
+  }
+
+  return buildBaseLayout(battle.node, isForcesLocked(battle));
+}
+
+/**
+ * Replace the defended node's base layout during the preparation phase
+ * Buildings already on the node can be moved, new ones are drawn from the
+ * node's storage and buildings left out of the layout go back into it.
+ * The layout is frozen once forces lock and snapshotted for combat.
+ */
+export async function setBaseLayout(
+  playerId: string,
+  sessionId: string,
+  battleId: string,
+  request: SetBaseLayoutRequest
+): Promise<{ layout: BaseLayoutResponse } | { error: string }> {
+  const battle = await prisma.battle.findUnique({
+    where: { id: battleId },
+    include: { node: { select: { id: true, type: true, tier: true, regionId: true } } },
+  });
+
+  if (!battle || battle.defenderId !== playerId) {
+    return { error: 'Battle not found' };
+  }
+  if (isForcesLocked(battle)) {
+    return { error: 'Forces are locked for this battle' };
+  }
+
+  const existing = await prisma.building.findMany({
+    where: { nodeId: battle.nodeId, isActive: true },
+    select: {
+      id: true,
+      typeId: true,
+      gridX: true,
+      gridY: true,
+      isConstructing: true,
+      productionQueue: true,
+    },
+  });
+  const existingById = new Map(existing.map((b) => [b.id, b]));
+
+  const newItemIds = request.buildings.flatMap((p) => (p.id || !p.itemId ? [] : [p.itemId]));
+  const items = await prisma.itemDefinition.findMany({
+    where: {
+      OR: [
+        { itemId: { in: newItemIds } },
+        { buildingDefinitionId: { in: existing.map((b) => b.typeId) } },
+      ],
+    },
+    select: { itemId: true, name: true, buildingDefinitionId: true },
+  });
+  const itemsById = new Map(items.map((i) => [i.itemId, i]));
+
+  // Resolve every placement to a building definition
+  const placements: { id?: string; itemId?: string; typeId: string; position: ArenaPosition }[] =
+    [];
+  const kept = new Set<string>();
+  for (const placement of request.buildings) {
+    if (placement.id) {
+      const building = existingById.get(placement.id);
+      if (!building || kept.has(building.id)) {
+        return { error: `Building ${placement.id} is not on this node` };
+      }
+      kept.add(building.id);
+      placements.push({ id: building.id, typeId: building.typeId, position: placement.position });
+      continue;
+    }
+
+    const item = placement.itemId ? itemsById.get(placement.itemId) : undefined;
+    if (!item?.buildingDefinitionId) {
+      return { error: `${item?.name ?? placement.itemId ?? 'Placement'} is not a building` };
+    }
+    placements.push({
+      itemId: item.itemId,
+      typeId: item.buildingDefinitionId,
+      position: placement.position,
+    });
+  }
+
+  const definitions = await prisma.buildingDefinition.findMany({
+    where: {
+      id: { in: [...new Set([...placements, ...existing].map((p) => p.typeId))] },
+    },
+    select: { id: true, name: true, width: true, height: true, category: true, health: true },
+  });
+  const definitionsById = new Map(definitions.map((d) => [d.id, d]));
+
+  // Only buildings that can go back into storage may be left out
+  const itemTypeIds = new Set(
+    items.flatMap((i) => (i.buildingDefinitionId ? [i.buildingDefinitionId] : []))
+  );
+  const removed = existing.filter((b) => !kept.has(b.id));
+  const fixed = removed.find((b) => !isRemovableBuilding(b, itemTypeIds));
+  if (fixed) {
+    return { error: `${definitionsById.get(fixed.typeId)?.name ?? fixed.typeId} can't be removed` };
+  }
+
+  const footprints = placements.map((p) => {
+    const def = definitionsById.get(p.typeId);
+    return {
+      position: p.position,
+      width: def?.width ?? 1,
+      height: def?.height ?? 1,
+      passable: isPassableCategory(def?.category ?? 'structure'),
+    };
+  });
+  const { problems } = validateBaseLayout(footprints, getArenaOptions(battle.node));
+  const [problem] = problems;
+  if (problem) {
+    const placement = problem.index !== null ? placements[problem.index] : undefined;
+    const name = placement
+      ? (definitionsById.get(placement.typeId)?.name ?? placement.typeId)
+      : null;
+    return { error: name ? `${name}: ${problem.message}` : problem.message };
+  }
+
+  // Removed buildings go back into storage as the first item linked to their definition
+  const returned = new Map<string, number>();
+  for (const building of removed) {
+    const item = items.find((i) => i.buildingDefinitionId === building.typeId);
+    if (item) returned.set(item.itemId, (returned.get(item.itemId) ?? 0) + 1);
+  }
+  const drawn = new Map<string, number>();
+  for (const placement of placements) {
+    if (placement.itemId) drawn.set(placement.itemId, (drawn.get(placement.itemId) ?? 0) + 1);
+  }
+
+  const result = await prisma.$transaction(async (tx) => {
+    const node = await tx.node.findUnique({
+      where: { id: battle.nodeId },
+      select: { ownerId: true, storage: true },
+    });
+    if (node?.ownerId !== playerId) {
+      return { error: 'Battle not found' };
+    }
+
+    const updated = applyStorageDelta(
+      node.storage as ItemStorage,
+      returned,
+      drawn,
+      'defended node'
+    );
+    if ('error' in updated) {
+      return { error: updated.error };
+    }
+
+    // Forces locking meanwhile snapshots the layout, so it can't change any more
+    const locked = await tx.battle.findFirst({
+      where: {
+        id: battleId,
+        OR: [{ status: { not: 'PREP_PHASE' } }, { forcesLockedAt: { lte: new Date() } }],
+      },
+      select: { id: true },
+    });
+    if (locked) {
+      return { error: 'Forces are locked for this battle' };
+    }
+
+    await tx.building.deleteMany({
+      where: { nodeId: battle.nodeId, id: { in: removed.map((b) => b.id) } },
+    });
+    for (const placement of placements) {
+      const { x, z } = placement.position;
+      if (placement.id) {
+        const before = existingById.get(placement.id);
+        if (before?.gridX === x && before.gridY === z) continue;
+        await tx.building.update({ where: { id: placement.id }, data: { gridX: x, gridY: z } });
+        continue;
+      }
+      const health = definitionsById.get(placement.typeId)?.health ?? 0;
+      await tx.building.create({
+        data: {
+          typeId: placement.typeId,
+          health,
+          maxHealth: health,
+          gridX: x,
+          gridY: z,
+          nodeId: battle.nodeId,
+        },
+      });
+    }
+    await tx.node.update({ where: { id: battle.nodeId }, data: { storage: updated.storage } });
+
+    return { storage: updated.storage };
+  });
+
+  if ('error' in result) {
+    return { error: result.error };
+  }
+
+  await publishNodeUpdate({
+    nodeId: battle.nodeId,
+    changes: { storage: result.storage as Record<string, number> },
+    sessionId,
+  });
+
+  return { layout: await buildBaseLayout(battle.node, false) };
+}
+
+// Forecast runs when none are asked for, and the most that can be
+const FORECAST_DEFAULT_RUNS = 20;
+const FORECAST_MAX_RUNS = 50;
+
+// Defender ID used when a battle targets an unowned node
+const NEUTRAL_DEFENDER_ID = 'neutral';
+
+// Forecasts are cached per battle, run count and inputs, so unchanged forces are only simulated once
+const FORECAST_CACHE_PREFIX = 'battle:forecast:';
+const FORECAST_CACHE_TTL = 30 * 60; // 30 minutes in seconds
+
+// How long a forecast may wait on the worker before it can be queued again
+const FORECAST_PENDING_TTL = 2 * 60; // 2 minutes in seconds
+
+// Fresh (uncached) forecasts each player can run per window
+const FORECAST_RATE_PREFIX = 'battle:forecast-rate:';
+const FORECAST_RATE_LIMIT = 5;
+const FORECAST_RATE_WINDOW = 10 * 60; // 10 minutes in seconds
+
+/**
+ * Runner config for forecasting a battle: the attacker's committed force
+ * against the defences they can see. The garrison, traps and the defender's
+ * prep choices stay hidden, and veterancy isn't applied.
+ */
+async function buildForecastConfig(battle: {
+  id: string;
+  attackerId: string;
+  defenderId: string | null;
+  attackForce: unknown;
+  node: { id: string; type: string; tier: number; regionId: string | null };
+}): Promise<CombatRunnerConfig> {
+  const attackForce = battle.attackForce as BattleAttackForce;
+  const groups = attackForce.units;
+  const targetPriorities = attackForce.targetPriorities ?? {};
+
+  const [unitDefs, items, rows] = await Promise.all([
+    prisma.unitDefinition.findMany({ where: { id: { in: groups.map((g) => g.unitTypeId) } } }),
+    prisma.itemDefinition.findMany({
+      where: { itemId: { in: groups.map((g) => g.itemId) } },
+      select: { itemId: true, quality: true },
+    }),
+    prisma.building.findMany({
+      where: { nodeId: battle.node.id, isActive: true, isConstructing: false },
+      select: { id: true, typeId: true, gridX: true, gridY: true },
+      orderBy: { createdAt: 'asc' },
+    }),
+  ]);
+  const unitDefsById = new Map(unitDefs.map((d) => [d.id, d]));
+  const qualityByItem = new Map(items.map((i) => [i.itemId, i.quality]));
+
+  const attackerUnits: CombatUnitGroup[] = [];
+  for (const group of groups) {
+    const def = unitDefsById.get(group.unitTypeId);
+    if (!def || group.count <= 0) continue;
+    attackerUnits.push({
+      itemId: group.itemId,
+      unitTypeId: group.unitTypeId,
+      count: group.count,
+      stats: {
+        ...applyQualityBonus(def, qualityByItem.get(group.itemId) ?? 'COMMON'),
+        shieldRange: def.shieldRange,
+        speed: def.speed,
+        range: def.range,
+        attackSpeed: def.attackSpeed,
+        projectileSpeed: def.projectileSpeed,
+        splashRadius: def.splashRadius,
+        revealRadius: def.revealRadius,
+      },
+      category: def.category as UnitCategory,
+      targetPriority:
+        targetPriorities[group.unitTypeId] ?? (def.targetPriority as TargetPriorityPreset),
+      abilities: def.abilities as unknown as AbilityDefinition[],
+      tileSize: def.tileSize,
+    });
+  }
+
+  const buildingDefs = await prisma.buildingDefinition.findMany({
+    where: { id: { in: rows.map((b) => b.typeId) } },
+  });
+  const buildingDefsById = new Map(buildingDefs.map((d) => [d.id, d]));
+
+  const buildings: CombatBuildingConfig[] = [];
+  for (const b of rows) {
+    const def = buildingDefsById.get(b.typeId);
+    // Traps are hidden from the attacker
+    if (!def || isPassableCategory(def.category)) continue;
+    buildings.push({
+      id: b.id,
+      buildingTypeId: b.typeId,
+      position: { x: b.gridX, z: b.gridY },
+      rotation: 0,
+      width: def.width,
+      height: def.height,
+      health: def.health,
+      shield: def.shield,
+      shieldRange: def.shieldRange,
+      armor: def.armor,
+      damage: def.damage,
+      range: def.range,
+      attackSpeed: def.attackSpeed,
+      projectileSpeed: def.projectileSpeed,
+      splashRadius: def.splashRadius,
+      category: def.category as BuildingCategory,
+      targetPriority: def.targetPriority as TargetPriorityPreset,
+      abilities: def.abilities as unknown as AbilityDefinition[],
+    });
+  }
+
+  const attackerConsumables: CombatConsumableStock[] = [];
+  for (const [itemId, count] of Object.entries(attackForce.consumables ?? {})) {
+    const consumable = getConsumableDefinition(itemId);
+    if (consumable && count > 0) attackerConsumables.push({ itemId, count, consumable });
+  }
+
+  return {
+    battleId: battle.id,
+    attackerId: battle.attackerId,
+    defenderId: battle.defenderId ?? NEUTRAL_DEFENDER_ID,
+    nodeId: battle.node.id,
+    nodeType: battle.node.type,
+    layout: generateArenaLayout(
+      getArenaOptions(battle.node),
+      buildings.map((b) => ({
+        position: b.position,
+        width: b.width ?? 1,
+        height: b.height ?? 1,
+      }))
+    ),
+    hqMaxHealth: COMBAT.HQ_BASE_HEALTH * (1 + (battle.node.tier - 1) * 0.5),
+    durationMs: COMBAT.COMBAT_DURATION,
+    seed: 0,
+    attackerUnits,
+    defenderUnits: [],
+    buildings,
+    attackerConsumables,
+  };
+}
+
+/**
+ * Count a fresh forecast against the player's rate limit
+ * Returns false if they've run too many recently
+ */
+async function takeForecastSlot(playerId: string): Promise<boolean> {
+  const key = FORECAST_RATE_PREFIX + playerId;
+  const count = await redis.incr(key);
+  if (count === 1) {
+    await redis.expire(key, FORECAST_RATE_WINDOW);
+  }
+  return count <= FORECAST_RATE_LIMIT;
+}
+
+/**
+ * Forecast a battle in preparation by simulating it many times over
+ * Both sides see the same odds. Runs are seeded from the battle, so the same
+ * forces always get the same forecast. The worker runs the simulations; until
+ * it has cached them the forecast is pending, and clients poll again
+ */
+export async function getBattleForecast(
+  playerId: string,
+  battleId: string,
+  runs = FORECAST_DEFAULT_RUNS
+): Promise<BattleForecastResponse | { error: string; rateLimited?: boolean } | null> {
+  const battle = await prisma.battle.findUnique({
+    where: { id: battleId },
+    include: { node: { select: { id: true, type: true, tier: true, regionId: true } } },
+  });
+
+  if (!battle || (battle.attackerId !== playerId && battle.defenderId !== playerId)) {
+    return null;
+  }
+  if (battle.status !== 'PREP_PHASE' && battle.status !== 'FORCES_LOCKED') {
+    return { error: 'Battles can only be forecast before combat' };
+  }
+  if (!battle.attackForce) {
+    return { error: 'Battle has no attack force to forecast' };
+  }
+  if (!Number.isInteger(runs) || runs < 1 || runs > FORECAST_MAX_RUNS) {
+    return { error: `Runs must be a whole number from 1 to ${FORECAST_MAX_RUNS}` };
+  }
+
+  const config = await buildForecastConfig(battle);
+  const inputs = createHash('sha1').update(JSON.stringify(config)).digest('hex');
+  const cacheKey = `${FORECAST_CACHE_PREFIX}${battleId}:${runs}:${inputs}`;
+
+  const cached = await redis.get(cacheKey);
+  if (cached) {
+    return { status: 'ready', ...(JSON.parse(cached) as CachedBattleForecast) };
+  }
+
+  // Already queued (by either side) - don't queue or count it again
+  const pendingKey = `${cacheKey}:pending`;
+  const queued = await redis.set(pendingKey, '1', 'EX', FORECAST_PENDING_TTL, 'NX');
+  if (!queued) {
+    return { status: 'pending' };
+  }
+
+  if (!(await takeForecastSlot(playerId))) {
+    await redis.del(pendingKey);
+    return { error: 'Too many forecasts, try again in a few minutes', rateLimited: true };
+  }
+
+  await scheduleForecastJob({
+    cacheKey,
+    pendingKey,
+    cacheTtl: FORECAST_CACHE_TTL,
+    config,
+    runs,
+    seed: seedFromString(battleId),
+  });
+  return { status: 'pending' };
+}
+
+/**
+ * List active battles involving the player in this session
+ */
+export async function getPlayerBattles(
+  playerId: string,
+  sessionId: string
+): Promise<BattleListResponse> {
+  const battles = await prisma.battle.findMany({
+    where: {
+      node: { gameSessionId: sessionId },
+      status: { in: [...ACTIVE_BATTLE_STATUSES] },
+      OR: [{ attackerId: playerId }, { defenderId: playerId }],
+    },
+    include: battleInclude,
+    orderBy: { prepEndsAt: 'asc' },
+  });
+
+  return {
+    incoming: battles
+      .filter((b) => b.defenderId === playerId)
+      .map((b) => formatBattle(b, playerId)),
+    outgoing: battles
+      .filter((b) => b.attackerId === playerId)
+      .map((b) => formatBattle(b, playerId)),
+  };
+}
+
+/**
+ * Get a single battle the player is involved in
+ */
+export async function getBattleById(
+  playerId: string,
+  battleId: string
+): Promise<BattleResponse | null> {
+  const battle = await prisma.battle.findUnique({
+    where: { id: battleId },
+    include: battleInclude,
+  });
+
+  if (!battle || (battle.attackerId !== playerId && battle.defenderId !== playerId)) {
+    return null;
+  }
+
+  return formatBattle(battle, playerId);
+}
+
+/**
+ * Get the replay log of a resolved battle
+ * Only for the battle's participants, since the log holds the full defender setup
+ */
+export async function getBattleReplay(
+  playerId: string,
+  battleId: string
+): Promise<BattleReplayResponse | null> {
+  const battle = await prisma.battle.findUnique({
+    where: { id: battleId },
+    include: battleInclude,
+  });
+
+  if (battle?.status !== 'RESOLVED') {
+    return null;
+  }
+  // The setup entry holds the whole defence, unrevealed traps included
+  if (battle.attackerId !== playerId && battle.defenderId !== playerId) {
+    return null;
+  }
+
+  const log = battle.events as unknown as CombatLogEntry[];
+  if (!log.some((entry) => entry.type === 'setup')) {
+    return null;
+  }
+
+  return { battle: formatBattle(battle, playerId), log };
+}
+
+/**
+ * Get the report of a resolved battle
+ * Reports list every defence that fought, traps included, so only participants see them
+ */
+export async function getBattleReport(
+  playerId: string,
+  battleId: string
+): Promise<BattleReportResponse | null> {
+  const battle = await prisma.battle.findUnique({
+    where: { id: battleId },
+    include: battleInclude,
+  });
+
+  if (battle?.status !== 'RESOLVED' || !battle.report) {
+    return null;
+  }
+  if (battle.attackerId !== playerId && battle.defenderId !== playerId) {
+    return null;
+  }
+
+  const report = battle.report as unknown as BattleReport;
+  const typeIds = Array.from(new Set(report.entries.map((e) => e.typeId)));
+  const [units, buildings] = await Promise.all([
+    prisma.unitDefinition.findMany({
+      where: { id: { in: typeIds } },
+      select: { id: true, name: true },
+    }),
+    prisma.buildingDefinition.findMany({
+      where: { id: { in: typeIds } },
+      select: { id: true, name: true },
+    }),
+  ]);
+
+  return {
+    battle: formatBattle(battle, playerId),
+    report,
+    names: Object.fromEntries([...units, ...buildings].map((d) => [d.id, d.name])),
+  };
+}
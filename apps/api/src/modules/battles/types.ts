@@ -0,0 +1,134 @@
+import type {
+  ArenaPosition,
+  BattleUnitGroup,
+  TargetPriorityPreset,
+  TileType,
+} from '@nova-fall/shared';
+import type {
+  ArenaGenerationOptions,
+  BattleForecast,
+  BattleReport,
+  CombatLogEntry,
+} from '@nova-fall/game-logic';
+
+// Battle statuses that still block new attacks on a node
+export const ACTIVE_BATTLE_STATUSES = ['PREP_PHASE', 'FORCES_LOCKED', 'IN_PROGRESS'] as const;
+
+export interface DeclareAttackRequest {
+  originNodeId: string; // Staging node the attack force comes from
+  targetNodeId: string;
+  units: Record<string, number>; // Unit itemId -> count
+}
+
+export interface AmendAttackRequest {
+  units: Record<string, number>; // Replaces the current attack force
+}
+
+export interface SetTargetPrioritiesRequest {
+  // Unit definition ID (or building ID for the defender) -> preset, replaces the current presets
+  priorities: Record<string, TargetPriorityPreset>;
+}
+
+export interface SetConsumablesRequest {
+  consumables: Record<string, number>; // Consumable itemId -> count, replaces the current load
+}
+
+export interface BaseLayoutPlacement {
+  id?: string; // Building already on the node (moved), omitted for new placements
+  itemId?: string; // Building item drawn from the defended node's storage (new placements)
+  position: ArenaPosition; // Footprint corner tile
+}
+
+export interface SetBaseLayoutRequest {
+  // Replaces the node's layout, buildings left out go back into storage
+  buildings: BaseLayoutPlacement[];
+}
+
+export interface BattleResponse {
+  id: string;
+  nodeId: string;
+  nodeName: string;
+  originNodeId: string;
+  attackerId: string;
+  attackerName: string;
+  defenderId: string | null;
+  defenderName: string | null;
+  status: 'PREP_PHASE' | 'FORCES_LOCKED' | 'IN_PROGRESS' | 'RESOLVED' | 'CANCELLED';
+  result: 'ATTACKER_VICTORY' | 'DEFENDER_VICTORY' | 'DRAW' | null;
+  // Attack force is only visible to the attacker
+  attackForce: BattleUnitGroup[] | null;
+  // Target priority presets of the viewer's side
+  targetPriorities: Record<string, TargetPriorityPreset>;
+  // Consumables the viewer's side loaded for combat (itemId -> count)
+  consumables: Record<string, number>;
+  initiatedAt: string;
+  prepEndsAt: string;
+  forcesLockedAt: string | null;
+  combatStartedAt: string | null;
+  combatEndsAt: string | null;
+  resolvedAt: string | null;
+}
+
+export interface BattleListResponse {
+  incoming: BattleResponse[];
+  outgoing: BattleResponse[];
+}
+
+export interface BattleReplayResponse {
+  battle: BattleResponse;
+  // Setup followed by every accepted input, re-run client-side by the replay viewer
+  log: CombatLogEntry[];
+}
+
+export interface BattleReportResponse {
+  battle: BattleResponse;
+  report: BattleReport;
+  // Unit and building definition ID -> display name, for the report's entries
+  names: Record<string, string>;
+}
+
+export interface BaseLayoutBuilding {
+  id: string; // Building row ID
+  buildingTypeId: string; // BuildingDefinition ID
+  name: string;
+  position: ArenaPosition;
+  width: number;
+  height: number;
+  passable: boolean; // Trap, walked over rather than around
+  modelPath: string | null;
+  // False for buildings that can't go back into storage (economic, constructing, producing)
+  removable: boolean;
+}
+
+export interface BaseLayoutItem {
+  itemId: string;
+  buildingTypeId: string;
+  name: string;
+  count: number; // Held in the defended node's storage
+  width: number;
+  height: number;
+  passable: boolean; // Trap, walked over rather than around
+  modelPath: string | null;
+}
+
+export interface BaseLayoutResponse {
+  // Options the node's arena is generated from, so the editor can check placements itself
+  arena: ArenaGenerationOptions;
+  arenaLayout: TileType[][];
+  buildings: BaseLayoutBuilding[];
+  available: BaseLayoutItem[];
+  // Layouts can't change once forces lock
+  locked: boolean;
+}
+
+// A forecast as the worker caches it
+export interface CachedBattleForecast {
+  // Averaged over seeded simulations of the attack force against the visible defences
+  forecast: BattleForecast;
+  generatedAt: string;
+}
+
+// Pending until the worker has run the simulations, poll again for the result
+export type BattleForecastResponse =
+  | ({ status: 'ready' } & CachedBattleForecast)
+  | { status: 'pending' };
@@ -1,5 +1,6 @@
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { verifyAccessToken } from '../../lib/jwt.js';
+import { TARGET_PRIORITY_PRESETS, validateAbilities } from '@nova-fall/shared';
 import { AppError } from '../../plugins/error-handler.js';
 import { buildingDefinitionService } from './service.js';
 import type { BuildingDefinitionInput, BuildingDefinitionListQuery, BuildingCategory } from './types.js';
@@ -8,7 +9,7 @@ interface AuthenticatedRequest extends FastifyRequest {
   userId: string;
 }
 
-const VALID_CATEGORIES: BuildingCategory[] = ['turret', 'wall', 'structure', 'utility'];
+const VALID_CATEGORIES: BuildingCategory[] = ['turret', 'wall', 'structure', 'utility', 'trap'];
 
 export async function buildingRoutes(app: FastifyInstance) {
   // Middleware to require authentication
@@ -102,6 +103,21 @@ export async function buildingRoutes(app: FastifyInstance) {
       throw AppError.badRequest(`Invalid category. Must be one of: ${VALID_CATEGORIES.join(', ')}`);
     }
 
+    // Validate target priority if provided
+    if (body.targetPriority && !TARGET_PRIORITY_PRESETS.includes(body.targetPriority)) {
+      throw AppError.badRequest(
+        `Invalid target priority. Must be one of: ${TARGET_PRIORITY_PRESETS.join(', ')}`
+      );
+    }
+
+    // Validate abilities if provided
+    if (body.abilities !== undefined) {
+      const abilityError = validateAbilities(body.abilities);
+      if (abilityError) {
+        throw AppError.badRequest(abilityError);
+      }
+    }
+
     // Check for duplicate name
     const existing = await buildingDefinitionService.getByName(body.name);
     if (existing) {
@@ -131,6 +147,21 @@ export async function buildingRoutes(app: FastifyInstance) {
       throw AppError.badRequest(`Invalid category. Must be one of: ${VALID_CATEGORIES.join(', ')}`);
     }
 
+    // Validate target priority if provided
+    if (body.targetPriority && !TARGET_PRIORITY_PRESETS.includes(body.targetPriority)) {
+      throw AppError.badRequest(
+        `Invalid target priority. Must be one of: ${TARGET_PRIORITY_PRESETS.join(', ')}`
+      );
+    }
+
+    // Validate abilities if provided
+    if (body.abilities !== undefined) {
+      const abilityError = validateAbilities(body.abilities);
+      if (abilityError) {
+        throw AppError.badRequest(abilityError);
+      }
+    }
+
     // If changing name, check for conflicts
     if (body.name && body.name !== existing.name) {
       const conflict = await buildingDefinitionService.getByName(body.name);
@@ -74,11 +74,18 @@ export const buildingDefinitionService = {
     if (data.height !== undefined) createData.height = data.height;
     if (data.health !== undefined) createData.health = data.health;
     if (data.shield !== undefined) createData.shield = data.shield;
+    if (data.shieldRange !== undefined) createData.shieldRange = data.shieldRange;
     if (data.armor !== undefined) createData.armor = data.armor;
     if (data.damage !== undefined) createData.damage = data.damage;
     if (data.range !== undefined) createData.range = data.range;
     if (data.attackSpeed !== undefined) createData.attackSpeed = data.attackSpeed;
+    if (data.projectileSpeed !== undefined) createData.projectileSpeed = data.projectileSpeed;
+    if (data.splashRadius !== undefined) createData.splashRadius = data.splashRadius;
     if (data.category !== undefined) createData.category = data.category;
+    if (data.targetPriority !== undefined) createData.targetPriority = data.targetPriority;
+    if (data.abilities !== undefined) {
+      createData.abilities = data.abilities as unknown as Prisma.InputJsonValue;
+    }
 
     return prisma.buildingDefinition.create({ data: createData });
   },
@@ -94,11 +101,18 @@ export const buildingDefinitionService = {
     if (data.height !== undefined) updateData.height = data.height;
     if (data.health !== undefined) updateData.health = data.health;
     if (data.shield !== undefined) updateData.shield = data.shield;
+    if (data.shieldRange !== undefined) updateData.shieldRange = data.shieldRange;
     if (data.armor !== undefined) updateData.armor = data.armor;
     if (data.damage !== undefined) updateData.damage = data.damage;
     if (data.range !== undefined) updateData.range = data.range;
     if (data.attackSpeed !== undefined) updateData.attackSpeed = data.attackSpeed;
+    if (data.projectileSpeed !== undefined) updateData.projectileSpeed = data.projectileSpeed;
+    if (data.splashRadius !== undefined) updateData.splashRadius = data.splashRadius;
     if (data.category !== undefined) updateData.category = data.category;
+    if (data.targetPriority !== undefined) updateData.targetPriority = data.targetPriority;
+    if (data.abilities !== undefined) {
+      updateData.abilities = data.abilities as unknown as Prisma.InputJsonValue;
+    }
 
     return prisma.buildingDefinition.update({
       where: { id },
@@ -146,11 +160,16 @@ export const buildingDefinitionService = {
         height: original.height,
         health: original.health,
         shield: original.shield,
+        shieldRange: original.shieldRange,
         armor: original.armor,
         damage: original.damage,
         range: original.range,
         attackSpeed: original.attackSpeed,
+        projectileSpeed: original.projectileSpeed,
+        splashRadius: original.splashRadius,
         category: original.category,
+        targetPriority: original.targetPriority,
+        abilities: original.abilities as Prisma.InputJsonValue,
       },
     });
   },
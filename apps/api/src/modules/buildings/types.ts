@@ -1,6 +1,7 @@
+import type { AbilityDefinition, TargetPriorityPreset } from '@nova-fall/shared';
 import type { BuildingDefinition } from '@prisma/client';
 
-export type BuildingCategory = 'turret' | 'wall' | 'structure' | 'utility';
+export type BuildingCategory = 'turret' | 'wall' | 'structure' | 'utility' | 'trap';
 
 export interface BuildingDefinitionInput {
   name: string;
@@ -10,11 +11,16 @@ export interface BuildingDefinitionInput {
   height?: number;
   health?: number;
   shield?: number;
+  shieldRange?: number;
   armor?: number;
   damage?: number;
   range?: number;
   attackSpeed?: number;
+  projectileSpeed?: number;
+  splashRadius?: number;
   category?: BuildingCategory;
+  targetPriority?: TargetPriorityPreset;
+  abilities?: AbilityDefinition[];
 }
 
 export interface BuildingDefinitionListQuery {
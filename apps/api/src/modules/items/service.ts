@@ -231,8 +231,7 @@ export const itemDefinitionService = {
   // Seed default items from hardcoded definitions
   async seedDefaults() {
     // Import hardcoded definitions
-    const { RESOURCES } = await import('@nova-fall/shared');
-    const { NODE_CORES } = await import('@nova-fall/shared');
+    const { RESOURCES, NODE_CORES, CONSUMABLES } = await import('@nova-fall/shared');
 
     const created: string[] = [];
     const skipped: string[] = [];
@@ -291,6 +290,33 @@ export const itemDefinitionService = {
       created.push(coreId);
     }
 
+    // Seed combat consumables
+    for (const [consumableId, consumable] of Object.entries(CONSUMABLES)) {
+      const existing = await prisma.itemDefinition.findUnique({
+        where: { itemId: consumableId },
+      });
+
+      if (existing) {
+        skipped.push(consumableId);
+        continue;
+      }
+
+      await prisma.itemDefinition.create({
+        data: {
+          itemId: consumableId,
+          name: consumable.name,
+          description: consumable.description,
+          category: 'CONSUMABLE',
+          icon: consumable.icon,
+          color: consumable.color,
+          stackSize: 100,
+          hqCost: consumable.cost,
+          isTradeable: true,
+        },
+      });
+      created.push(consumableId);
+    }
+
     return { created, skipped };
   },
 };
@@ -1,11 +1,19 @@
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { verifyAccessToken } from '../../lib/jwt.js';
+import { TARGET_PRIORITY_PRESETS, validateAbilities } from '@nova-fall/shared';
 import { AppError } from '../../plugins/error-handler.js';
-import { unitDefinitionService } from './service.js';
+import { prisma } from '../../lib/prisma.js';
+import { unitDefinitionService, veteranUnitService } from './service.js';
 import type { UnitDefinitionInput, UnitDefinitionListQuery, UnitCategory } from './types.js';
 
 interface AuthenticatedRequest extends FastifyRequest {
   userId: string;
+  playerId?: string;
+}
+
+// Set by requirePlayer
+interface PlayerRequest extends AuthenticatedRequest {
+  playerId: string;
 }
 
 const VALID_CATEGORIES: UnitCategory[] = ['infantry', 'combat_vehicle', 'support_vehicle'];
@@ -28,6 +36,21 @@ export async function unitRoutes(app: FastifyInstance) {
     (request as AuthenticatedRequest).userId = payload.sub;
   };
 
+  // Middleware to require a player profile
+  const requirePlayer = async (request: FastifyRequest, _reply: FastifyReply) => {
+    const req = request as AuthenticatedRequest;
+    const user = await prisma.user.findUnique({
+      where: { id: req.userId },
+      select: { player: { select: { id: true } } },
+    });
+
+    if (!user?.player) {
+      throw AppError.badRequest('No player profile found');
+    }
+
+    req.playerId = user.player.id;
+  };
+
   // GET /units - List all unit definitions
   app.get('/units', {
     preHandler: [requireAuth],
@@ -73,6 +96,30 @@ export async function unitRoutes(app: FastifyInstance) {
     };
   });
 
+  // GET /units/veterans - List the player's veteran units with XP progress
+  app.get('/units/veterans', {
+    preHandler: [requireAuth, requirePlayer],
+  }, async (request) => {
+    const req = request as PlayerRequest;
+
+    return { units: await veteranUnitService.getAll(req.playerId) };
+  });
+
+  // GET /units/veterans/:id - Get a veteran unit's XP progress and specialization unlock
+  app.get('/units/veterans/:id', {
+    preHandler: [requireAuth, requirePlayer],
+  }, async (request) => {
+    const req = request as PlayerRequest;
+    const { id } = request.params as { id: string };
+
+    const unit = await veteranUnitService.getById(req.playerId, id);
+    if (!unit) {
+      throw AppError.notFound('Unit not found');
+    }
+
+    return unit;
+  });
+
   // GET /units/:id - Get a single unit definition
   app.get('/units/:id', {
     preHandler: [requireAuth],
@@ -102,6 +149,21 @@ export async function unitRoutes(app: FastifyInstance) {
       throw AppError.badRequest(`Invalid category. Must be one of: ${VALID_CATEGORIES.join(', ')}`);
     }
 
+    // Validate target priority if provided
+    if (body.targetPriority && !TARGET_PRIORITY_PRESETS.includes(body.targetPriority)) {
+      throw AppError.badRequest(
+        `Invalid target priority. Must be one of: ${TARGET_PRIORITY_PRESETS.join(', ')}`
+      );
+    }
+
+    // Validate abilities if provided
+    if (body.abilities !== undefined) {
+      const abilityError = validateAbilities(body.abilities);
+      if (abilityError) {
+        throw AppError.badRequest(abilityError);
+      }
+    }
+
     // Check for duplicate name
     const existing = await unitDefinitionService.getByName(body.name);
     if (existing) {
@@ -131,6 +193,21 @@ export async function unitRoutes(app: FastifyInstance) {
       throw AppError.badRequest(`Invalid category. Must be one of: ${VALID_CATEGORIES.join(', ')}`);
     }
 
+    // Validate target priority if provided
+    if (body.targetPriority && !TARGET_PRIORITY_PRESETS.includes(body.targetPriority)) {
+      throw AppError.badRequest(
+        `Invalid target priority. Must be one of: ${TARGET_PRIORITY_PRESETS.join(', ')}`
+      );
+    }
+
+    // Validate abilities if provided
+    if (body.abilities !== undefined) {
+      const abilityError = validateAbilities(body.abilities);
+      if (abilityError) {
+        throw AppError.badRequest(abilityError);
+      }
+    }
+
     // If changing name, check for conflicts
     if (body.name && body.name !== existing.name) {
       const conflict = await unitDefinitionService.getByName(body.name);
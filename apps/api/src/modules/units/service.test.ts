@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Unit, UnitDefinition } from '@prisma/client';
+
+// Mock Prisma - must be hoisted
+vi.mock('../../lib/prisma.js', () => ({
+  prisma: {
+    unit: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+    },
+    unitDefinition: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+// Import the mock after setting up
+import { prisma } from '../../lib/prisma.js';
+const mockPrisma = vi.mocked(prisma);
+
+// Import service after mock is set up
+import { veteranUnitService } from './service.js';
+
+// Test data helpers
+function createMockUnit(overrides: Partial<Unit> = {}): Unit {
+  return {
+    id: 'unit-1',
+    typeId: 'def-marine',
+    name: null,
+    health: 100,
+    maxHealth: 100,
+    experience: 0,
+    veterancy: 'ROOKIE',
+    status: 'IDLE',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    playerId: 'player-1',
+    nodeId: 'node-1',
+    caravanId: null,
+    equipment: [],
+    ...overrides,
+  };
+}
+
+function createMockDefinition(overrides: Partial<UnitDefinition> = {}): UnitDefinition {
+  return {
+    id: 'def-marine',
+    name: 'Marine',
+    description: null,
+    modelPath: null,
+    tileSize: 1,
+    health: 100,
+    shield: 0,
+    shieldRange: 0,
+    damage: 10,
+    armor: 5,
+    speed: 2,
+    range: 1,
+    attackSpeed: 1,
+    projectileSpeed: 0,
+    splashRadius: 0,
+    revealRadius: 0,
+    category: 'infantry',
+    targetPriority: 'balanced',
+    abilities: [],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe('Veteran Unit Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('getById', () => {
+    it('returns XP progress toward the next veterancy level', async () => {
+      // Arrange: Regular unit halfway to Veteran (100 -> 300 XP)
+      mockPrisma.unit.findUnique.mockResolvedValue(
+        createMockUnit({ experience: 200, veterancy: 'REGULAR' })
+      );
+      mockPrisma.unitDefinition.findUnique.mockResolvedValue(createMockDefinition());
+
+      // Act
+      const unit = await veteranUnitService.getById('player-1', 'unit-1');
+
+      // Assert
+      expect(unit).toMatchObject({
+        id: 'unit-1',
+        unitName: 'Marine',
+        experience: 200,
+        veterancy: 'REGULAR',
+        nextVeterancy: 'VETERAN',
+        currentThreshold: 100,
+        nextThreshold: 300,
+        progress: 0.5,
+        specializationUnlocked: false,
+      });
+    });
+
+    it('unlocks specialization and caps progress at the top level', async () => {
+      mockPrisma.unit.findUnique.mockResolvedValue(
+        createMockUnit({ experience: 2000, veterancy: 'LEGENDARY' })
+      );
+      mockPrisma.unitDefinition.findUnique.mockResolvedValue(createMockDefinition());
+
+      const unit = await veteranUnitService.getById('player-1', 'unit-1');
+
+      expect(unit).toMatchObject({
+        veterancy: 'LEGENDARY',
+        nextVeterancy: null,
+        nextThreshold: null,
+        progress: 1,
+        specializationUnlocked: true,
+      });
+      // Veterancy bonuses apply on top of the definition's base stats
+      expect(unit?.stats.damage).toBeGreaterThan(10);
+    });
+
+    it("returns null for another player's unit", async () => {
+      // Arrange: Unit exists but belongs to someone else
+      mockPrisma.unit.findUnique.mockResolvedValue(createMockUnit({ playerId: 'player-2' }));
+
+      // Act
+      const unit = await veteranUnitService.getById('player-1', 'unit-1');
+
+      // Assert
+      expect(unit).toBeNull();
+      expect(mockPrisma.unitDefinition.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('returns null for a missing unit', async () => {
+      mockPrisma.unit.findUnique.mockResolvedValue(null);
+
+      const unit = await veteranUnitService.getById('player-1', 'missing');
+
+      expect(unit).toBeNull();
+    });
+  });
+
+  describe('getAll', () => {
+    it("lists only the player's units and skips ones without a definition", async () => {
+      mockPrisma.unit.findMany.mockResolvedValue([
+        createMockUnit({ id: 'unit-1', experience: 350 }),
+        createMockUnit({ id: 'unit-2', typeId: 'def-removed' }),
+      ]);
+      mockPrisma.unitDefinition.findMany.mockResolvedValue([createMockDefinition()]);
+
+      const units = await veteranUnitService.getAll('player-1');
+
+      expect(mockPrisma.unit.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { playerId: 'player-1' } })
+      );
+      expect(units).toHaveLength(1);
+      expect(units[0]).toMatchObject({ id: 'unit-1', veterancy: 'VETERAN', nextThreshold: 700 });
+    });
+  });
+});
@@ -1,6 +1,7 @@
 import { prisma } from '../../lib/prisma.js';
-import type { UnitDefinitionInput, UnitDefinitionListQuery } from './types.js';
-import type { Prisma } from '@prisma/client';
+import { calculateUnitStats, getVeterancyProgress } from '@nova-fall/shared';
+import type { UnitDefinitionInput, UnitDefinitionListQuery, VeteranUnitResponse } from './types.js';
+import type { Prisma, Unit, UnitDefinition } from '@prisma/client';
 
 export const unitDefinitionService = {
   // Get all unit definitions with optional filtering
@@ -78,7 +79,14 @@ export const unitDefinitionService = {
     if (data.speed !== undefined) createData.speed = data.speed;
     if (data.range !== undefined) createData.range = data.range;
     if (data.attackSpeed !== undefined) createData.attackSpeed = data.attackSpeed;
+    if (data.projectileSpeed !== undefined) createData.projectileSpeed = data.projectileSpeed;
+    if (data.splashRadius !== undefined) createData.splashRadius = data.splashRadius;
+    if (data.revealRadius !== undefined) createData.revealRadius = data.revealRadius;
     if (data.category !== undefined) createData.category = data.category;
+    if (data.targetPriority !== undefined) createData.targetPriority = data.targetPriority;
+    if (data.abilities !== undefined) {
+      createData.abilities = data.abilities as unknown as Prisma.InputJsonValue;
+    }
 
     return prisma.unitDefinition.create({ data: createData });
   },
@@ -98,7 +106,14 @@ export const unitDefinitionService = {
     if (data.speed !== undefined) updateData.speed = data.speed;
     if (data.range !== undefined) updateData.range = data.range;
     if (data.attackSpeed !== undefined) updateData.attackSpeed = data.attackSpeed;
+    if (data.projectileSpeed !== undefined) updateData.projectileSpeed = data.projectileSpeed;
+    if (data.splashRadius !== undefined) updateData.splashRadius = data.splashRadius;
+    if (data.revealRadius !== undefined) updateData.revealRadius = data.revealRadius;
     if (data.category !== undefined) updateData.category = data.category;
+    if (data.targetPriority !== undefined) updateData.targetPriority = data.targetPriority;
+    if (data.abilities !== undefined) {
+      updateData.abilities = data.abilities as unknown as Prisma.InputJsonValue;
+    }
 
     return prisma.unitDefinition.update({
       where: { id },
@@ -150,7 +165,12 @@ export const unitDefinitionService = {
         speed: original.speed,
         range: original.range,
         attackSpeed: original.attackSpeed,
+        projectileSpeed: original.projectileSpeed,
+        splashRadius: original.splashRadius,
+        revealRadius: original.revealRadius,
         category: original.category,
+        targetPriority: original.targetPriority,
+        abilities: original.abilities as Prisma.InputJsonValue,
       },
     });
   },
@@ -173,3 +193,59 @@ export const unitDefinitionService = {
     };
   },
 };
+
+function formatVeteranUnit(unit: Unit, definition: UnitDefinition): VeteranUnitResponse {
+  const progress = getVeterancyProgress(unit.experience);
+  return {
+    id: unit.id,
+    typeId: unit.typeId,
+    name: unit.name,
+    unitName: definition.name,
+    nodeId: unit.nodeId,
+    ...progress,
+    stats: calculateUnitStats(
+      {
+        health: definition.health,
+        shield: definition.shield,
+        shieldRange: definition.shieldRange,
+        damage: definition.damage,
+        armor: definition.armor,
+        speed: definition.speed,
+        range: definition.range,
+        attackSpeed: definition.attackSpeed,
+        projectileSpeed: definition.projectileSpeed,
+        splashRadius: definition.splashRadius,
+        revealRadius: definition.revealRadius,
+      },
+      progress.veterancy
+    ),
+  };
+}
+
+export const veteranUnitService = {
+  // Get a player's veteran units, most experienced first
+  async getAll(playerId: string): Promise<VeteranUnitResponse[]> {
+    const units = await prisma.unit.findMany({
+      where: { playerId },
+      orderBy: { experience: 'desc' },
+    });
+    const definitions = await prisma.unitDefinition.findMany({
+      where: { id: { in: units.map((u) => u.typeId) } },
+    });
+    const definitionsById = new Map(definitions.map((d) => [d.id, d]));
+
+    return units.flatMap((unit) => {
+      const definition = definitionsById.get(unit.typeId);
+      return definition ? [formatVeteranUnit(unit, definition)] : [];
+    });
+  },
+
+  // Get one of a player's veteran units
+  async getById(playerId: string, id: string): Promise<VeteranUnitResponse | null> {
+    const unit = await prisma.unit.findUnique({ where: { id } });
+    if (unit?.playerId !== playerId) return null;
+
+    const definition = await prisma.unitDefinition.findUnique({ where: { id: unit.typeId } });
+    return definition ? formatVeteranUnit(unit, definition) : null;
+  },
+};
@@ -1,3 +1,9 @@
+import type {
+  AbilityDefinition,
+  TargetPriorityPreset,
+  UnitStats,
+  VeterancyProgress,
+} from '@nova-fall/shared';
 import type { UnitDefinition } from '@prisma/client';
 
 export type UnitCategory = 'infantry' | 'combat_vehicle' | 'support_vehicle';
@@ -14,7 +20,12 @@ export interface UnitDefinitionInput {
   speed?: number;
   range?: number;
   attackSpeed?: number;
+  projectileSpeed?: number;
+  splashRadius?: number;
+  revealRadius?: number;
   category?: UnitCategory;
+  targetPriority?: TargetPriorityPreset;
+  abilities?: AbilityDefinition[];
 }
 
 export interface UnitDefinitionListQuery {
@@ -24,4 +35,14 @@ export interface UnitDefinitionListQuery {
   offset?: number;
 }
 
+// A unit that has earned experience in combat, with its XP progress
+export interface VeteranUnitResponse extends VeterancyProgress {
+  id: string;
+  typeId: string;
+  name: string | null; // Custom name
+  unitName: string; // Unit definition name
+  nodeId: string | null;
+  stats: UnitStats; // Base stats with veterancy applied
+}
+
 export type { UnitDefinition };
@@ -32,6 +32,10 @@ export class AppError extends Error {
     return new AppError(409, message, code);
   }
 
+  static tooManyRequests(message = 'Too many requests', code?: string) {
+    return new AppError(429, message, code);
+  }
+
   static internal(message = 'Internal server error', code?: string) {
     return new AppError(500, message, code);
   }
@@ -6,24 +6,43 @@
  * - Combat state management
  * - View switching between tactical map and combat mode
  * - WebSocket combat event handling
+ * - Read-only spectating of live battles
+ * - Replay playback of resolved battles
  *
  * NOTE: State is shared across all components that use this composable.
  * This is intentional - there's only one combat engine instance.
  */
 
 import { ref, shallowRef, onUnmounted, readonly, computed } from 'vue';
-import { CombatEngine } from '../game/combat';
+import { CombatEngine, CombatReplay, type ReplayTimelineEntry } from '../game/combat';
+import { SIM_TICK_MS } from '@nova-fall/game-logic';
+import { UnitState } from '@nova-fall/shared';
 import type {
   CombatSetup,
   CombatState,
+  CombatStateMessage,
   CombatResult,
   CombatInput,
+  CombatJoinedEvent,
+  CombatUnitState,
   HQState,
   ArenaPosition,
   DbUnitDefinition,
   DbBuildingDefinition,
+  TileType,
 } from '@nova-fall/shared';
 import { gameSocket, type CombatErrorEvent } from '../services/socket';
+import { battlesApi, unitsApi } from '../services/api';
+
+/**
+ * One unit type in a side's roster (spectator view)
+ */
+export interface CombatRosterEntry {
+  unitTypeId: string;
+  name: string;
+  onField: number; // Alive and deployed
+  committed: number; // Brought to the battle
+}
 
 // Shared state - singleton pattern for combat engine
 // All components using this composable share the same engine instance
@@ -33,9 +52,19 @@ const isLoading = ref(false);
 const isConnected = ref(false);
 const currentBattleId = ref<string | null>(null);
 const currentPlayerId = ref<string | null>(null);
+const currentAttackerId = ref<string | null>(null);
 const combatResult = ref<CombatResult | null>(null);
+// Consumables the player has left this battle (itemId -> count)
+const consumables = ref<Record<string, number>>({});
 const error = ref<string | null>(null);
 
+// Spectating - read-only view of both sides, possibly running behind the battle
+const isSpectator = ref(false);
+const spectatorDelay = ref(0); // ms
+const battleSetup = shallowRef<CombatSetup | null>(null);
+const fieldUnits = shallowRef<CombatUnitState[]>([]);
+const unitNames = ref<Record<string, string>>({});
+
 // Core health state
 const coreHealth = ref<HQState>({
   health: 100,
@@ -46,6 +75,28 @@ const coreHealth = ref<HQState>({
 // Time remaining in combat
 const timeRemaining = ref(30 * 60); // 30 minutes in seconds
 
+// Replay playback state (null replay = live combat)
+const replay = shallowRef<CombatReplay | null>(null);
+const replayPlaying = ref(false);
+const replaySpeed = ref(1);
+const replayTick = ref(0);
+const replayTotalTicks = ref(0);
+const replayTimeline = shallowRef<ReplayTimelineEntry[]>([]);
+let replayFrame: number | null = null;
+let replayLastFrameTime = 0;
+let replayTickAccumulator = 0;
+
+// Longest frame gap fed into playback (avoids a jump after the tab was hidden)
+const MAX_REPLAY_FRAME_MS = 250;
+
+/**
+ * Setup as a player sees it: hidden traps are only drawn for the defender
+ */
+function getVisibleSetup(setup: CombatSetup, playerId: string | null): CombatSetup {
+  if (playerId === setup.defenderId) return setup;
+  return { ...setup, defenderBuildings: setup.defenderBuildings.filter((b) => !b.hidden) };
+}
+
 export function useCombatEngine() {
 
   // Computed values for UI
@@ -53,6 +104,45 @@ export function useCombatEngine() {
     Math.round((coreHealth.value.health / coreHealth.value.maxHealth) * 100)
   );
 
+  const isReplay = computed(() => replay.value !== null);
+
+  // Only the attacker can deploy and call a retreat
+  const isAttacker = computed(
+    () => currentPlayerId.value !== null && currentPlayerId.value === currentAttackerId.value
+  );
+
+  // Both sides' forces, for spectators
+  const rosters = computed(() => {
+    const setup = battleSetup.value;
+    const build = (
+      ownerId: string,
+      groups: { unitTypeId: string; count: number }[]
+    ): CombatRosterEntry[] => {
+      const entries = new Map<string, CombatRosterEntry>();
+      for (const group of groups) {
+        const entry = entries.get(group.unitTypeId) ?? {
+          unitTypeId: group.unitTypeId,
+          name: unitNames.value[group.unitTypeId] ?? group.unitTypeId,
+          onField: 0,
+          committed: 0,
+        };
+        entry.committed += group.count;
+        entries.set(group.unitTypeId, entry);
+      }
+      for (const unit of fieldUnits.value) {
+        if (unit.ownerId !== ownerId || unit.state === UnitState.DEAD) continue;
+        const entry = entries.get(unit.unitTypeId);
+        if (entry) entry.onField++;
+      }
+      return [...entries.values()];
+    };
+
+    return {
+      attacker: setup ? build(setup.attackerId, setup.attackerUnits) : [],
+      defender: setup ? build(setup.defenderId, setup.defenderUnits) : [],
+    };
+  });
+
   const formattedTimeRemaining = computed(() => {
     const minutes = Math.floor(timeRemaining.value / 60);
     const seconds = timeRemaining.value % 60;
@@ -82,25 +172,56 @@ export function useCombatEngine() {
     }
   };
 
+  /**
+   * Count down the player's consumables as the server reports them used
+   */
+  const trackConsumablesUsed = (state: CombatState): void => {
+    for (const event of state.events) {
+      if (event.type !== 'consumable_used' || event.sourceId !== currentPlayerId.value) continue;
+      if (!event.itemId) continue;
+      consumables.value = {
+        ...consumables.value,
+        [event.itemId]: Math.max(0, (consumables.value[event.itemId] ?? 0) - 1),
+      };
+    }
+  };
+
   /**
    * Setup socket event handlers for combat
    */
   const setupSocketHandlers = (): void => {
-    // Handle incoming combat state updates
-    gameSocket.on('combat:state', (state: CombatState) => {
-      if (state.battleId === currentBattleId.value && engine.value && isActive.value) {
-        engine.value.updateState(state);
-
-        // Update Core health and time
-        coreHealth.value = state.hq;
-        timeRemaining.value = state.timeRemaining;
+    // Handle incoming combat state keyframes and deltas
+    gameSocket.on('combat:state', (message: CombatStateMessage) => {
+      if (message.battleId !== currentBattleId.value || !engine.value || !isActive.value) return;
+
+      const result = engine.value.updateState(message);
+      if (result.status === 'gap') {
+        // Missed a delta - state is dropped until a fresh keyframe arrives
+        gameSocket.requestCombatState(message.battleId);
+        return;
+      }
+      if (result.status !== 'applied') return;
+
+      // Update Core health and time
+      coreHealth.value = result.state.hq;
+      timeRemaining.value = result.state.timeRemaining;
+      fieldUnits.value = result.state.units;
+      trackConsumablesUsed(result.state);
+    });
+
+    // Join or spectate request accepted
+    gameSocket.on('combat:joined', (event: CombatJoinedEvent) => {
+      if (event.battleId === currentBattleId.value) {
+        spectatorDelay.value = event.delayMs;
       }
     });
 
-    // Handle combat setup (for reconnection)
+    // Handle combat setup (for reconnection, and the first load when spectating)
     gameSocket.on('combat:setup', (setup: CombatSetup) => {
       if (setup.battleId === currentBattleId.value && engine.value) {
-        engine.value.loadBattle(setup);
+        battleSetup.value = setup;
+        currentAttackerId.value = setup.attackerId;
+        engine.value.loadBattle(getVisibleSetup(setup, currentPlayerId.value));
         isLoading.value = false;
       }
     });
@@ -116,6 +237,8 @@ export function useCombatEngine() {
     // Handle combat errors
     gameSocket.on('combat:error', (err: CombatErrorEvent) => {
       error.value = err.message;
+      // A rejected join or spectate request never gets a setup
+      if (!battleSetup.value) isLoading.value = false;
       console.error('Combat error:', err);
     });
 
@@ -123,8 +246,12 @@ export function useCombatEngine() {
     gameSocket.on('connect', () => {
       isConnected.value = true;
       // Rejoin battle if we were in one
-      if (currentBattleId.value && currentPlayerId.value) {
-        gameSocket.joinCombat(currentBattleId.value, currentPlayerId.value);
+      if (currentBattleId.value) {
+        if (isSpectator.value) {
+          gameSocket.spectateCombat(currentBattleId.value);
+        } else {
+          gameSocket.joinCombat(currentBattleId.value);
+        }
         gameSocket.requestCombatState(currentBattleId.value);
       }
     });
@@ -139,6 +266,7 @@ export function useCombatEngine() {
    */
   const cleanupSocketHandlers = (): void => {
     gameSocket.off('combat:state');
+    gameSocket.off('combat:joined');
     gameSocket.off('combat:setup');
     gameSocket.off('combat:end');
     gameSocket.off('combat:error');
@@ -170,17 +298,22 @@ export function useCombatEngine() {
       engine.value.start();
       currentBattleId.value = setup.battleId;
       currentPlayerId.value = playerId;
+      currentAttackerId.value = setup.attackerId;
+      battleSetup.value = setup;
+      consumables.value = {
+        ...(playerId === setup.attackerId ? setup.attackerConsumables : setup.defenderConsumables),
+      };
       isActive.value = true;
 
       // Setup socket handlers and join battle
       setupSocketHandlers();
-      gameSocket.joinCombat(setup.battleId, playerId);
+      gameSocket.joinCombat(setup.battleId);
 
       // Wait for layout to complete, then resize and load battle
       requestAnimationFrame(() => {
         if (engine.value) {
           engine.value.resize();
-          engine.value.loadBattle(setup);
+          engine.value.loadBattle(getVisibleSetup(setup, playerId));
           isLoading.value = false;
         }
       });
@@ -192,14 +325,54 @@ export function useCombatEngine() {
     }
   };
 
+  /**
+   * Watch a live battle read-only
+   * The server checks session membership, then sends the setup and state
+   */
+  const enterSpectate = (battleId: string, playerId: string): void => {
+    if (!engine.value) {
+      error.value = 'Combat engine not initialized';
+      return;
+    }
+
+    isLoading.value = true;
+    error.value = null;
+    combatResult.value = null;
+    battleSetup.value = null;
+    fieldUnits.value = [];
+
+    engine.value.start();
+    engine.value.setFreeCamera(true);
+    currentBattleId.value = battleId;
+    currentPlayerId.value = playerId;
+    isSpectator.value = true;
+    isActive.value = true;
+
+    setupSocketHandlers();
+    gameSocket.spectateCombat(battleId);
+
+    // Wait for layout to complete before the arena arrives with the setup
+    requestAnimationFrame(() => engine.value?.resize());
+
+    // Unit names for the rosters (IDs are shown until they load)
+    unitsApi
+      .getAll()
+      .then((response) => {
+        unitNames.value = Object.fromEntries(response.data.units.map((u) => [u.id, u.name]));
+      })
+      .catch((e: unknown) => console.warn('Failed to load unit names:', e));
+  };
+
   /**
    * Exit combat mode - stop rendering but keep engine alive
    */
   const exitCombat = (): void => {
     if (!engine.value) return;
 
-    // Leave socket room
-    if (currentBattleId.value) {
+    if (replay.value) {
+      exitReplay();
+    } else if (currentBattleId.value) {
+      // Leave socket room
       gameSocket.leaveCombat(currentBattleId.value);
     }
 
@@ -207,16 +380,23 @@ export function useCombatEngine() {
     cleanupSocketHandlers();
 
     engine.value.stop();
+    engine.value.setFreeCamera(false);
     isActive.value = false;
     currentBattleId.value = null;
     currentPlayerId.value = null;
+    currentAttackerId.value = null;
+    consumables.value = {};
+    isSpectator.value = false;
+    spectatorDelay.value = 0;
+    battleSetup.value = null;
+    fieldUnits.value = [];
   };
 
   /**
    * Send combat input to server
    */
   const sendInput = (input: CombatInput): void => {
-    if (!isActive.value || !currentBattleId.value) {
+    if (!isActive.value || !currentBattleId.value || replay.value || isSpectator.value) {
       console.warn('Cannot send input: not in combat');
       return;
     }
@@ -241,6 +421,140 @@ export function useCombatEngine() {
     console.log('Combat ended:', result);
   };
 
+  // ========================================
+  // Replay
+  // ========================================
+
+  /**
+   * Push a replay state into the engine and HUD
+   */
+  const applyReplayState = (state: CombatState): void => {
+    if (!replay.value) return;
+    engine.value?.updateState(state);
+    coreHealth.value = state.hq;
+    timeRemaining.value = state.timeRemaining;
+    replayTick.value = replay.value.tick;
+
+    if (replay.value.isAtEnd) {
+      pauseReplay();
+      combatResult.value = replay.value.result;
+    }
+  };
+
+  const replayLoop = (now: number): void => {
+    if (!replay.value || !replayPlaying.value) return;
+
+    const elapsed = Math.min(now - replayLastFrameTime, MAX_REPLAY_FRAME_MS);
+    replayLastFrameTime = now;
+    replayTickAccumulator += (elapsed * replaySpeed.value) / SIM_TICK_MS;
+
+    const ticks = Math.floor(replayTickAccumulator);
+    replayTickAccumulator -= ticks;
+    if (ticks > 0) {
+      applyReplayState(replay.value.advance(ticks));
+    }
+
+    if (replayPlaying.value) {
+      replayFrame = requestAnimationFrame(replayLoop);
+    }
+  };
+
+  const playReplay = (): void => {
+    if (!replay.value || replayPlaying.value) return;
+    if (replay.value.isAtEnd) {
+      combatResult.value = null;
+      applyReplayState(replay.value.seek(0));
+    }
+
+    replayPlaying.value = true;
+    replayLastFrameTime = performance.now();
+    replayTickAccumulator = 0;
+    replayFrame = requestAnimationFrame(replayLoop);
+  };
+
+  const pauseReplay = (): void => {
+    replayPlaying.value = false;
+    if (replayFrame !== null) {
+      cancelAnimationFrame(replayFrame);
+      replayFrame = null;
+    }
+  };
+
+  const setReplaySpeed = (speed: number): void => {
+    replaySpeed.value = speed;
+  };
+
+  /**
+   * Jump to a tick in the replay
+   */
+  const seekReplay = (tick: number): void => {
+    if (!replay.value) return;
+    combatResult.value = null;
+    applyReplayState(replay.value.seek(tick));
+  };
+
+  /**
+   * Enter replay mode - fetch a resolved battle's log and play it back locally
+   */
+  const enterReplay = async (battleId: string): Promise<void> => {
+    if (!engine.value) {
+      error.value = 'Combat engine not initialized';
+      return;
+    }
+
+    isLoading.value = true;
+    error.value = null;
+    combatResult.value = null;
+
+    try {
+      const response = await battlesApi.getReplay(battleId);
+      const loaded = new CombatReplay(response.data.log);
+      const setup = loaded.getSetup();
+
+      replay.value = loaded;
+      replayTotalTicks.value = loaded.totalTicks;
+      replayTimeline.value = loaded.timeline;
+      replayTick.value = 0;
+      coreHealth.value = {
+        health: setup.hqMaxHealth,
+        maxHealth: setup.hqMaxHealth,
+        damageState: 'healthy',
+      };
+      timeRemaining.value = setup.combatDuration;
+
+      engine.value.start();
+      currentBattleId.value = setup.battleId;
+      isActive.value = true;
+
+      // Wait for layout to complete, then resize and load battle
+      requestAnimationFrame(() => {
+        if (engine.value && replay.value) {
+          engine.value.resize();
+          engine.value.loadBattle(setup);
+          applyReplayState(replay.value.getState());
+          isLoading.value = false;
+          playReplay();
+        }
+      });
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Failed to load replay';
+      error.value = message;
+      console.error('Failed to load replay:', e);
+      isLoading.value = false;
+    }
+  };
+
+  /**
+   * Leave replay mode and drop the replay
+   */
+  const exitReplay = (): void => {
+    pauseReplay();
+    replay.value = null;
+    replayTimeline.value = [];
+    replayTick.value = 0;
+    replayTotalTicks.value = 0;
+  };
+
   /**
    * Camera controls
    */
@@ -252,6 +566,35 @@ export function useCombatEngine() {
     engine.value?.resetCamera();
   };
 
+  // ========================================
+  // Base Layout Editor
+  // ========================================
+
+  /**
+   * Show a node's arena for placing its defences during preparation
+   */
+  const initLayoutArena = (layout: TileType[][], nodeType: string): void => {
+    engine.value?.initLayoutArena(layout, nodeType);
+  };
+
+  /**
+   * Show a building at its layout position (replaces an earlier preview with the same ID)
+   */
+  const placeBuildingPreview = (
+    buildingId: string,
+    buildingDef: Pick<DbBuildingDefinition, 'width' | 'height' | 'modelPath'>,
+    position: ArenaPosition
+  ): void => {
+    engine.value?.placeBuildingPreview(buildingId, buildingDef, position, 'defender');
+  };
+
+  /**
+   * Remove a building preview
+   */
+  const removeBuildingPreview = (buildingId: string): void => {
+    engine.value?.removeBuildingPreview(buildingId);
+  };
+
   // ========================================
   // Dev Tools
   // ========================================
@@ -328,8 +671,10 @@ export function useCombatEngine() {
     // Cleanup socket handlers
     cleanupSocketHandlers();
 
-    // Leave combat if still in one
-    if (currentBattleId.value) {
+    if (replay.value) {
+      exitReplay();
+    } else if (currentBattleId.value) {
+      // Leave combat if still in one
       gameSocket.leaveCombat(currentBattleId.value);
     }
 
@@ -347,27 +692,53 @@ export function useCombatEngine() {
     isConnected: readonly(isConnected),
     currentBattleId: readonly(currentBattleId),
     combatResult: readonly(combatResult),
+    consumables: readonly(consumables),
     error: readonly(error),
 
+    // Spectating
+    isSpectator: readonly(isSpectator),
+    spectatorDelay: readonly(spectatorDelay),
+    rosters,
+
     // Core health state
     coreHealth: readonly(coreHealth),
     coreHealthPercent,
     timeRemaining: readonly(timeRemaining),
     formattedTimeRemaining,
 
+    // Replay state
+    isReplay,
+    isAttacker,
+    replayPlaying: readonly(replayPlaying),
+    replaySpeed: readonly(replaySpeed),
+    replayTick: readonly(replayTick),
+    replayTotalTicks: readonly(replayTotalTicks),
+    replayTimeline,
+
     // Actions
     initEngine,
     enterCombat,
     exitCombat,
+    enterSpectate,
     sendInput,
     updateState,
     handleCombatEnd,
 
+    // Replay
+    enterReplay,
+    playReplay,
+    pauseReplay,
+    setReplaySpeed,
+    seekReplay,
+
     // Camera
     rotateCamera,
     resetCamera,
 
     // Dev tools
+    initLayoutArena,
+    placeBuildingPreview,
+    removeBuildingPreview,
     initDevArena,
     hasArena,
     screenToArena,
@@ -9,8 +9,8 @@
  * - 3D arena rendering with modular terrain
  * - Unit visualization and animation
  * - Camera controls (isometric with rotation)
- * - State interpolation from server updates
- * - Visual effects (projectiles, explosions, shields)
+ * - State interpolation from server updates (keyframes and deltas)
+ * - Visual effects (projectiles, explosions, shields, ability pulses)
  */
 
 import {
@@ -35,12 +35,15 @@ import {
 import '@babylonjs/loaders/glTF'; // Required for .glb loading
 import type {
   CombatState,
+  CombatStateMessage,
   CombatSetup,
   ArenaPosition,
   CombatUnitState,
+  ProjectileState,
 } from '@nova-fall/shared';
 import { TileType, UnitState } from '@nova-fall/shared';
 import type { DbUnitDefinition, DbBuildingDefinition } from '@nova-fall/shared';
+import { CombatStateDecoder, type CombatStateDecodeResult } from '@nova-fall/game-logic';
 import { UnitManager } from './UnitManager';
 import { FlowField } from './FlowField';
 
@@ -49,6 +52,29 @@ export const ARENA_SIZE = 60; // 60x60 tiles
 export const TILE_SIZE = 8; // 8 meters per tile
 export const ARENA_METERS = ARENA_SIZE * TILE_SIZE; // 480m x 480m
 
+// Pulse: an expanding, fading disc over the area an ability or splash hit
+const PULSE_DURATION = 0.6; // Seconds
+const PULSE_MIN_RADIUS = 0.5; // Tiles (single-target and self casts)
+const ABILITY_PULSE_COLOR = new Color3(0.5, 0.8, 1);
+const EXPLOSION_PULSE_COLOR = new Color3(1, 0.5, 0.1);
+
+// Camera limits: players get a fixed tactical tilt, spectators can look along the ground
+const CAMERA_MAX_TILT = Math.PI / 2.5;
+const FREE_CAMERA_MAX_TILT = Math.PI / 2 - 0.05;
+const CAMERA_MIN_ZOOM = 5;
+const FREE_CAMERA_MIN_ZOOM = 2;
+
+// Projectiles
+const PROJECTILE_HEIGHT = 1.5; // Meters (bullets fly flat at muzzle height)
+const MISSILE_ARC_HEIGHT = 0.25; // Peak height as a fraction of the flight distance
+
+interface Pulse {
+  mesh: Mesh;
+  material: StandardMaterial;
+  radius: number; // Meters
+  age: number; // Seconds
+}
+
 /**
  * Engine configuration options
  */
@@ -87,14 +113,24 @@ export class CombatEngine {
   private _battleId: string | null = null;
   private _lastFrameTime: number = 0;
 
+  // Rebuilds full states from the server's keyframes and deltas
+  private stateDecoder = new CombatStateDecoder();
+
   // Player IDs (stored for dev tools)
   private _attackerId: string = '';
   private _defenderId: string = '';
 
-  // Dev mode tracking
+  // Dev mode tracking (buildings also hold the base layout editor's placements)
   private devUnitIds: Set<string> = new Set();
   private devBuildingMeshes: Map<string, TransformNode> = new Map();
 
+  // Active ability cast and explosion effects
+  private pulses: Pulse[] = [];
+
+  // Projectiles in flight (projectile ID -> mesh)
+  private projectileMeshes = new Map<string, Mesh>();
+  private projectileMaterials = new Map<ProjectileState['type'], StandardMaterial>();
+
   constructor(canvas: HTMLCanvasElement, options: CombatEngineOptions = {}) {
     this.canvas = canvas;
 
@@ -149,10 +185,10 @@ export class CombatEngine {
     );
 
     // Camera limits (scaled to arena size)
-    camera.lowerRadiusLimit = 5; // Minimum zoom (close-up view)
+    camera.lowerRadiusLimit = CAMERA_MIN_ZOOM; // Minimum zoom (close-up view)
     camera.upperRadiusLimit = ARENA_METERS; // Maximum zoom (see whole arena)
     camera.lowerBetaLimit = 0.2; // Minimum tilt (almost top-down)
-    camera.upperBetaLimit = Math.PI / 2.5; // Maximum tilt
+    camera.upperBetaLimit = CAMERA_MAX_TILT; // Maximum tilt
 
     // Enable camera controls
     camera.attachControl(this.canvas, true);
@@ -287,6 +323,7 @@ export class CombatEngine {
 
       // Update unit positions (interpolation)
       this.unitManager?.update(deltaTime);
+      this.updatePulses(deltaTime);
 
       // Render the scene
       this.scene.render();
@@ -321,6 +358,10 @@ export class CombatEngine {
    * Load a battle into the engine
    */
   public loadBattle(setup: CombatSetup): void {
+    // Setup is re-sent whenever a player joins - only a new battle restarts the stream
+    if (setup.battleId !== this._battleId) {
+      this.stateDecoder.reset();
+    }
     this._battleId = setup.battleId;
     this._arenaLayout = setup.arenaLayout;
 
@@ -357,9 +398,6 @@ export class CombatEngine {
    * Creates a basic arena with default layout
    */
   public initDevArena(): void {
-    // Clear existing arena
-    this.clearArena();
-
     // Create default arena layout (all walkable)
     const layout: TileType[][] = [];
     for (let x = 0; x < ARENA_SIZE; x++) {
@@ -370,6 +408,24 @@ export class CombatEngine {
       layout.push(row);
     }
 
+    this.initStaticArena(layout, 'MILITARY_BASE');
+  }
+
+  /**
+   * Initialize a node's arena for the base layout editor
+   * Buildings are placed on it with placeBuildingPreview
+   */
+  public initLayoutArena(layout: TileType[][], nodeType: string): void {
+    this.initStaticArena(layout, nodeType);
+  }
+
+  /**
+   * Show an arena with no battle running on it
+   */
+  private initStaticArena(layout: TileType[][], nodeType: string): void {
+    // Clear existing arena
+    this.clearArena();
+
     this._arenaLayout = layout;
     this._attackerId = 'dev_attacker';
     this._defenderId = 'dev_defender';
@@ -378,7 +434,7 @@ export class CombatEngine {
     this.unitManager?.setPlayers(this._attackerId, this._defenderId);
 
     // Build the arena terrain
-    this.buildArena(layout, 'MILITARY_BASE');
+    this.buildArena(layout, nodeType);
 
     // Create Core at center
     this.createCore(1000);
@@ -426,7 +482,16 @@ export class CombatEngine {
     }
     this.devBuildingMeshes.clear();
 
-    // TODO: Clear projectiles
+    // Clear projectiles and effects
+    for (const mesh of this.projectileMeshes.values()) {
+      mesh.dispose();
+    }
+    this.projectileMeshes.clear();
+    for (const pulse of this.pulses) {
+      pulse.mesh.dispose();
+      pulse.material.dispose();
+    }
+    this.pulses = [];
   }
 
   /**
@@ -498,13 +563,14 @@ export class CombatEngine {
   }
 
   /**
-   * Create overlays for special tile types (blocked, slow, hazard)
+   * Create overlays for special tile types (blocked, slow, hazard, cover)
    */
   private createSpecialTileOverlays(layout: TileType[][]): void {
     // Count special tiles
     const blockedTiles: { x: number; z: number }[] = [];
     const slowTiles: { x: number; z: number }[] = [];
     const hazardTiles: { x: number; z: number }[] = [];
+    const coverTiles: { x: number; z: number }[] = [];
 
     for (let x = 0; x < Math.min(layout.length, ARENA_SIZE); x++) {
       const row = layout[x];
@@ -514,6 +580,7 @@ export class CombatEngine {
         if (tileType === 'blocked') blockedTiles.push({ x, z });
         else if (tileType === 'slow') slowTiles.push({ x, z });
         else if (tileType === 'hazard') hazardTiles.push({ x, z });
+        else if (tileType === 'cover') coverTiles.push({ x, z });
       }
     }
 
@@ -531,6 +598,11 @@ export class CombatEngine {
     if (hazardTiles.length > 0) {
       this.createTileOverlay(hazardTiles, new Color3(0.6, 0.2, 0.1), 0.02, 'hazard');
     }
+
+    // Create cover overlay (low barriers units can shelter behind)
+    if (coverTiles.length > 0) {
+      this.createTileOverlay(coverTiles, new Color3(0.45, 0.4, 0.3), 0.25, 'cover');
+    }
   }
 
   /**
@@ -580,14 +652,16 @@ export class CombatEngine {
    */
   private getGroundColor(nodeType: string): Color3 {
     const colors: Record<string, Color3> = {
-      MINING_STATION: new Color3(0.4, 0.35, 0.3), // Brown/gray
+      MINING: new Color3(0.4, 0.35, 0.3), // Brown/gray
       REFINERY: new Color3(0.25, 0.25, 0.25), // Dark gray
-      RESEARCH_LAB: new Color3(0.6, 0.65, 0.7), // Light blue-gray
+      RESEARCH: new Color3(0.6, 0.65, 0.7), // Light blue-gray
       BARRACKS: new Color3(0.35, 0.38, 0.3), // Olive
       AGRICULTURAL: new Color3(0.3, 0.45, 0.25), // Green-brown
       POWER_PLANT: new Color3(0.3, 0.35, 0.45), // Blue-gray
       TRADE_HUB: new Color3(0.4, 0.4, 0.4), // Gray
+      MANUFACTURING_PLANT: new Color3(0.33, 0.3, 0.28), // Rust gray
       CAPITAL: new Color3(0.3, 0.3, 0.4), // Player themed
+      CROWN: new Color3(0.4, 0.35, 0.2), // Gold-brown
     };
     return colors[nodeType] ?? new Color3(0.3, 0.3, 0.3);
   }
@@ -730,6 +804,14 @@ export class CombatEngine {
     this.camera.target = new Vector3(ARENA_METERS / 2, 0, ARENA_METERS / 2);
   }
 
+  /**
+   * Loosen camera limits for spectators (tilt down to ground level, zoom in closer)
+   */
+  public setFreeCamera(enabled: boolean): void {
+    this.camera.upperBetaLimit = enabled ? FREE_CAMERA_MAX_TILT : CAMERA_MAX_TILT;
+    this.camera.lowerRadiusLimit = enabled ? FREE_CAMERA_MIN_ZOOM : CAMERA_MIN_ZOOM;
+  }
+
   /**
    * Rotate camera by 45 degrees
    */
@@ -739,13 +821,149 @@ export class CombatEngine {
   }
 
   /**
-   * Update state from server
+   * Update state from a server keyframe or delta, or a full state (replays)
+   * Deltas that can't be applied are dropped; on a 'gap' result the caller
+   * should request a fresh keyframe
+   */
+  public updateState(update: CombatState | CombatStateMessage): CombatStateDecodeResult {
+    if (!('type' in update)) {
+      this.renderState(update);
+      return { status: 'applied', state: update };
+    }
+
+    const result = this.stateDecoder.apply(update);
+    if (result.status === 'applied') {
+      this.renderState(result.state);
+    }
+    return result;
+  }
+
+  /**
+   * Bring the scene in line with a full state
    */
-  public updateState(state: CombatState): void {
+  private renderState(state: CombatState): void {
     // Sync units from server state
     this.unitManager?.syncUnits(state.units);
 
-    // TODO: Update buildings, projectiles, effects, Core health
+    this.syncProjectiles(state.projectiles);
+
+    for (const event of state.events) {
+      if (event.type === 'ability_used' && event.position) {
+        this.showPulse(event.position, event.value ?? 0, ABILITY_PULSE_COLOR);
+      }
+    }
+
+    for (const effect of state.effects) {
+      if (effect.type === 'explosion') {
+        this.showPulse(effect.position, effect.radius ?? 0, EXPLOSION_PULSE_COLOR);
+      }
+    }
+
+    // TODO: Update buildings, Core health
+  }
+
+  /**
+   * Create, move and remove projectile meshes to match the server
+   * Missiles arc over their flight path, bullets fly flat
+   */
+  private syncProjectiles(projectiles: ProjectileState[]): void {
+    const activeIds = new Set<string>();
+
+    for (const projectile of projectiles) {
+      activeIds.add(projectile.id);
+
+      let mesh = this.projectileMeshes.get(projectile.id);
+      if (!mesh) {
+        const diameter = projectile.type === 'missile' ? 1.2 : 0.5;
+        mesh = MeshBuilder.CreateSphere(`projectile_${projectile.id}`, { diameter }, this.scene);
+        mesh.material = this.getProjectileMaterial(projectile.type);
+        mesh.isPickable = false;
+        this.projectileMeshes.set(projectile.id, mesh);
+      }
+
+      const world = this.gridToWorld(projectile.position);
+      let height = PROJECTILE_HEIGHT;
+      if (projectile.type === 'missile') {
+        const total = Vector3.Distance(
+          this.gridToWorld(projectile.origin),
+          this.gridToWorld(projectile.targetPosition)
+        );
+        const travelled = Vector3.Distance(this.gridToWorld(projectile.origin), world);
+        const progress = total > 0 ? Math.min(travelled / total, 1) : 1;
+        height += Math.sin(progress * Math.PI) * total * MISSILE_ARC_HEIGHT;
+      }
+      mesh.position = new Vector3(world.x, height, world.z);
+    }
+
+    for (const [id, mesh] of this.projectileMeshes) {
+      if (!activeIds.has(id)) {
+        mesh.dispose();
+        this.projectileMeshes.delete(id);
+      }
+    }
+  }
+
+  /**
+   * Shared glowing material per projectile type
+   */
+  private getProjectileMaterial(type: ProjectileState['type']): StandardMaterial {
+    let material = this.projectileMaterials.get(type);
+    if (!material) {
+      const color = type === 'missile' ? new Color3(1, 0.4, 0.1) : new Color3(1, 0.9, 0.4);
+      material = new StandardMaterial(`projectile_${type}_mat`, this.scene);
+      material.diffuseColor = color;
+      material.emissiveColor = color;
+      material.disableLighting = true;
+      this.projectileMaterials.set(type, material);
+    }
+    return material;
+  }
+
+  /**
+   * Show where an ability or splash landed
+   */
+  private showPulse(position: ArenaPosition, radius: number, color: Color3): void {
+    const mesh = MeshBuilder.CreateDisc('pulse', { radius: 1, tessellation: 32 }, this.scene);
+    const world = this.gridToWorld(position);
+    mesh.position = new Vector3(world.x, 0.2, world.z);
+    mesh.rotation.x = Math.PI / 2;
+    mesh.scaling = Vector3.Zero();
+    mesh.isPickable = false;
+
+    const material = new StandardMaterial('pulse_mat', this.scene);
+    material.diffuseColor = color;
+    material.emissiveColor = color;
+    material.disableLighting = true;
+    material.backFaceCulling = false;
+    material.alpha = 0.6;
+    mesh.material = material;
+
+    this.pulses.push({
+      mesh,
+      material,
+      radius: Math.max(radius, PULSE_MIN_RADIUS) * TILE_SIZE,
+      age: 0,
+    });
+  }
+
+  /**
+   * Expand and fade pulses, removing finished ones
+   */
+  private updatePulses(deltaTime: number): void {
+    this.pulses = this.pulses.filter((pulse) => {
+      pulse.age += deltaTime;
+      const progress = pulse.age / PULSE_DURATION;
+      if (progress >= 1) {
+        pulse.mesh.dispose();
+        pulse.material.dispose();
+        return false;
+      }
+
+      const size = pulse.radius * progress;
+      pulse.mesh.scaling = new Vector3(size, size, 1);
+      pulse.material.alpha = 0.6 * (1 - progress);
+      return true;
+    });
   }
 
   /**
@@ -886,9 +1104,24 @@ export class CombatEngine {
     team: 'attacker' | 'defender'
   ): string {
     const buildingId = `dev_building_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+    this.placeBuildingPreview(buildingId, buildingDef, position, team);
+    return buildingId;
+  }
 
-    const worldX = position.x * TILE_SIZE + TILE_SIZE / 2;
-    const worldZ = position.z * TILE_SIZE + TILE_SIZE / 2;
+  /**
+   * Place a building that isn't part of a running battle (dev tools and the base layout editor)
+   * Position is the footprint's corner tile, as in the server arena layout
+   */
+  public placeBuildingPreview(
+    buildingId: string,
+    buildingDef: Pick<DbBuildingDefinition, 'width' | 'height' | 'modelPath'>,
+    position: ArenaPosition,
+    team: 'attacker' | 'defender'
+  ): void {
+    this.removeBuildingPreview(buildingId);
+
+    const worldX = (position.x + (buildingDef.width || 1) / 2) * TILE_SIZE;
+    const worldZ = (position.z + (buildingDef.height || 1) / 2) * TILE_SIZE;
 
     // Calculate building size based on definition
     const width = (buildingDef.width || 1) * TILE_SIZE * 0.8;
@@ -931,8 +1164,6 @@ export class CombatEngine {
         buildingDef.height || 1
       );
     }
-
-    return buildingId;
   }
 
   /**
@@ -953,6 +1184,9 @@ export class CombatEngine {
     tileWidth: number = 1,
     tileHeight: number = 1
   ): Promise<void> {
+    // Placeholder this model replaces (the building may be moved or removed while loading)
+    const expected = this.devBuildingMeshes.get(buildingId);
+
     try {
       // Parse modelPath for optional mesh name (e.g., "pack.glb#TurretA")
       let filePath = modelPath;
@@ -978,8 +1212,8 @@ export class CombatEngine {
 
       // Get the placeholder building
       const placeholder = this.devBuildingMeshes.get(buildingId);
-      if (!placeholder) {
-        // Building was removed while loading
+      if (!placeholder || placeholder !== expected) {
+        // Building was removed or moved while loading
         result.meshes.forEach((m) => m.dispose());
         return;
       }
@@ -1245,6 +1479,13 @@ export class CombatEngine {
    * Remove a dev-placed building
    */
   public devRemoveBuilding(buildingId: string): void {
+    this.removeBuildingPreview(buildingId);
+  }
+
+  /**
+   * Remove a building placed with placeBuildingPreview
+   */
+  public removeBuildingPreview(buildingId: string): void {
     const node = this.devBuildingMeshes.get(buildingId);
     if (node) {
       this.disposeBuildingNode(node);
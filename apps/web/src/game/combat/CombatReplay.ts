@@ -0,0 +1,165 @@
+/**
+ * CombatReplay - Re-runs a recorded battle locally for playback
+ *
+ * Battles are deterministic, so the setup and input log from the server
+ * are enough to rebuild every tick. The replay:
+ * - Runs the whole battle once up front to build the timeline and result
+ * - Steps a fresh runner forward during playback
+ * - Seeks backward by re-running from the start
+ */
+
+import {
+  CombatRunner,
+  SIM_TICK_MS,
+  type CombatInputRecord,
+  type CombatLogEntry,
+  type CombatRunnerConfig,
+  type CombatStepResult,
+} from '@nova-fall/game-logic';
+import { COMBAT } from '@nova-fall/shared';
+import type { CombatEvent, CombatResult, CombatSetup, CombatState } from '@nova-fall/shared';
+
+// Playback speeds offered by the replay controls
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4, 8] as const;
+
+/**
+ * Notable moment shown on the replay timeline
+ * HQ damage is summed per second to keep the timeline readable
+ */
+export interface ReplayTimelineEntry {
+  tick: number;
+  type: 'kill' | 'hq_damage';
+  value: number;
+}
+
+export class CombatReplay {
+  readonly config: CombatRunnerConfig;
+  readonly totalTicks: number;
+  readonly timeline: ReplayTimelineEntry[];
+  readonly result: CombatResult | null;
+
+  private inputs: CombatInputRecord[];
+  private runner: CombatRunner;
+  private nextInput = 0;
+  private lastHqDamage: ReplayTimelineEntry | null = null;
+
+  constructor(log: CombatLogEntry[]) {
+    const setup = log.find((entry) => entry.type === 'setup');
+    if (setup?.type !== 'setup') {
+      throw new Error('Replay log has no setup');
+    }
+
+    this.config = setup.config;
+    this.inputs = [];
+    for (const entry of log) {
+      if (entry.type === 'input') {
+        this.inputs.push({ tick: entry.tick, playerId: entry.playerId, input: entry.input });
+      }
+    }
+    this.inputs.sort((a, b) => a.tick - b.tick);
+
+    // Full pass for the timeline and final result
+    this.runner = new CombatRunner(this.config);
+    const timeline: ReplayTimelineEntry[] = [];
+    const maxTicks = Math.ceil(this.config.durationMs / SIM_TICK_MS);
+    let result: CombatResult | null = null;
+
+    while (!result && this.runner.tick < maxTicks) {
+      const step = this.step();
+      result = step.result;
+      this.addToTimeline(timeline, step.events);
+    }
+
+    this.totalTicks = this.runner.tick;
+    this.timeline = timeline;
+    this.result = result;
+
+    this.reset();
+  }
+
+  get tick(): number {
+    return this.runner.tick;
+  }
+
+  get isAtEnd(): boolean {
+    return this.runner.tick >= this.totalTicks;
+  }
+
+  /**
+   * Setup payload for loading the arena
+   */
+  getSetup(): CombatSetup {
+    return this.runner.getSetup();
+  }
+
+  /**
+   * Current state without advancing
+   */
+  getState(): CombatState {
+    return this.runner.getState();
+  }
+
+  /**
+   * Advance playback by a number of ticks and return the resulting state
+   * Events from every step are included so kills and hits aren't skipped at high speed
+   */
+  advance(ticks: number): CombatState {
+    const events: CombatEvent[] = [];
+    for (let i = 0; i < ticks && !this.isAtEnd; i++) {
+      events.push(...this.step().events);
+    }
+    return this.runner.getState(events);
+  }
+
+  /**
+   * Jump to a tick, re-running from the start when seeking backward
+   */
+  seek(tick: number): CombatState {
+    const target = Math.max(0, Math.min(Math.floor(tick), this.totalTicks));
+    if (target < this.runner.tick) {
+      this.reset();
+    }
+
+    let events: CombatEvent[] = [];
+    while (this.runner.tick < target) {
+      events = this.step().events;
+    }
+    return this.runner.getState(events);
+  }
+
+  private reset(): void {
+    this.runner = new CombatRunner(this.config);
+    this.nextInput = 0;
+  }
+
+  /**
+   * Queue the inputs recorded for the next tick and step the runner
+   */
+  private step(): CombatStepResult {
+    const tick = this.runner.tick + 1;
+    let input = this.inputs[this.nextInput];
+    while (input && input.tick <= tick) {
+      this.runner.queueInput(input.playerId, input.input);
+      input = this.inputs[++this.nextInput];
+    }
+    return this.runner.step();
+  }
+
+  private addToTimeline(timeline: ReplayTimelineEntry[], events: CombatEvent[]): void {
+    const tick = this.runner.tick;
+    for (const event of events) {
+      if (event.type === 'kill') {
+        timeline.push({ tick, type: 'kill', value: 1 });
+      } else if (event.type === 'hq_damaged') {
+        // Fold hits into the entry for the current second
+        const last = this.lastHqDamage;
+        if (last && Math.floor(last.tick / COMBAT.TICK_RATE) === Math.floor(tick / COMBAT.TICK_RATE)) {
+          last.value += event.value ?? 0;
+        } else {
+          this.lastHqDamage = { tick, type: 'hq_damage', value: event.value ?? 0 };
+          timeline.push(this.lastHqDamage);
+        }
+      }
+    }
+  }
+}
@@ -1,14 +1,11 @@
 /**
- * FlowField - Dijkstra-based pathfinding for unit movement toward Core
+ * FlowField - Client wrapper around the shared flow field
  *
- * Flow fields are computed once when the arena is loaded, then units
- * simply look up their tile to get the direction to move. This is
- * efficient for many units moving toward the same target.
- *
- * The flow field handles:
- * - Distance calculation from every tile to the Core
+ * The field itself is generated by @nova-fall/game-logic, the same code the
+ * server simulator moves units with, so predicted paths match the server.
+ * This class adds Babylon helpers and the debug visualization:
  * - Direction vectors pointing toward the Core
- * - Obstacle avoidance (blocked tiles)
+ * - Incremental updates when buildings are placed/destroyed
  * - Debug visualization
  */
 
@@ -21,33 +18,18 @@ import {
 } from '@babylonjs/core';
 import type { Scene, Mesh } from '@babylonjs/core';
 import type { TileType, ArenaPosition } from '@nova-fall/shared';
-import { TILE_SIZE, ARENA_SIZE } from './CombatEngine';
-
-// Direction constants (8 directions)
-const DIRECTIONS = [
-  { dx: 0, dz: -1 },  // North
-  { dx: 1, dz: -1 },  // NE
-  { dx: 1, dz: 0 },   // East
-  { dx: 1, dz: 1 },   // SE
-  { dx: 0, dz: 1 },   // South
-  { dx: -1, dz: 1 },  // SW
-  { dx: -1, dz: 0 },  // West
-  { dx: -1, dz: -1 }, // NW
-];
-
-// Cost for diagonal vs cardinal movement
-const CARDINAL_COST = 1.0;
-const DIAGONAL_COST = 1.414; // sqrt(2)
-
-/**
- * Flow field data structure
- */
-export interface FlowFieldData {
-  width: number;
-  height: number;
-  distances: number[][]; // Distance to Core for each tile
-  directions: number[][]; // Direction index (0-7) or -1 if blocked/unreachable
-}
+import {
+  buildFlowField,
+  updateFlowField,
+  getFlowDirection,
+  getFlowDistance,
+  getNextFlowTile,
+  type FlowFieldData,
+} from '@nova-fall/game-logic';
+import { TILE_SIZE } from './CombatEngine';
+
+// Diagonal step cost (sqrt(2)), used to tell when a unit is next to the Core
+const DIAGONAL_COST = 1.414;
 
 export class FlowField {
   private scene: Scene;
@@ -56,153 +38,15 @@ export class FlowField {
   private debugArrows: Mesh[] = [];
   private isDebugVisible = false;
 
-  // Core position (center of arena by default)
-  private coreX: number = Math.floor(ARENA_SIZE / 2);
-  private coreZ: number = Math.floor(ARENA_SIZE / 2);
-
   constructor(scene: Scene) {
     this.scene = scene;
   }
 
-  /**
-   * Helper to safely get/set 2D array values
-   */
-  private get2D<T>(arr: T[][], x: number, z: number, defaultVal: T): T {
-    const row = arr[x];
-    if (!row) return defaultVal;
-    return row[z] ?? defaultVal;
-  }
-
-  private set2D<T>(arr: T[][], x: number, z: number, val: T): void {
-    const row = arr[x];
-    if (row) {
-      row[z] = val;
-    }
-  }
-
   /**
    * Generate the flow field from arena layout
    */
   generate(layout: TileType[][]): void {
-    const width = ARENA_SIZE;
-    const height = ARENA_SIZE;
-
-    // Initialize distances to infinity
-    const distances: number[][] = [];
-    for (let x = 0; x < width; x++) {
-      const row: number[] = [];
-      for (let z = 0; z < height; z++) {
-        row[z] = Infinity;
-      }
-      distances[x] = row;
-    }
-
-    // Initialize directions to -1 (no direction)
-    const directions: number[][] = [];
-    for (let x = 0; x < width; x++) {
-      const row: number[] = [];
-      for (let z = 0; z < height; z++) {
-        row[z] = -1;
-      }
-      directions[x] = row;
-    }
-
-    // Create blocked tile map
-    const blocked: boolean[][] = [];
-    for (let x = 0; x < width; x++) {
-      const row: boolean[] = [];
-      for (let z = 0; z < height; z++) {
-        row[z] = false;
-      }
-      blocked[x] = row;
-    }
-
-    // Mark blocked tiles from layout
-    for (let x = 0; x < Math.min(layout.length, width); x++) {
-      const row = layout[x];
-      if (!row) continue;
-      for (let z = 0; z < Math.min(row.length, height); z++) {
-        if (row[z] === 'blocked') {
-          this.set2D(blocked, x, z, true);
-        }
-      }
-    }
-
-    // Core occupies center 2x2 tiles - mark as target (distance 0)
-    const corePositions: ArenaPosition[] = [
-      { x: this.coreX, z: this.coreZ },
-      { x: this.coreX + 1, z: this.coreZ },
-      { x: this.coreX, z: this.coreZ + 1 },
-      { x: this.coreX + 1, z: this.coreZ + 1 },
-    ];
-
-    // Priority queue for Dijkstra (simple array, sorted by distance)
-    const queue: { x: number; z: number; dist: number }[] = [];
-
-    // Initialize Core tiles with distance 0
-    for (const pos of corePositions) {
-      if (pos.x >= 0 && pos.x < width && pos.z >= 0 && pos.z < height) {
-        this.set2D(distances, pos.x, pos.z, 0);
-        queue.push({ x: pos.x, z: pos.z, dist: 0 });
-      }
-    }
-
-    // Dijkstra's algorithm - expand outward from Core
-    while (queue.length > 0) {
-      // Get tile with smallest distance
-      queue.sort((a, b) => a.dist - b.dist);
-      const current = queue.shift();
-      if (!current) break;
-
-      // Skip if we've already found a better path
-      if (current.dist > this.get2D(distances, current.x, current.z, Infinity)) {
-        continue;
-      }
-
-      // Check all 8 neighbors
-      for (let dirIdx = 0; dirIdx < DIRECTIONS.length; dirIdx++) {
-        const dir = DIRECTIONS[dirIdx];
-        if (!dir) continue;
-
-        const nx = current.x + dir.dx;
-        const nz = current.z + dir.dz;
-
-        // Bounds check
-        if (nx < 0 || nx >= width || nz < 0 || nz >= height) {
-          continue;
-        }
-
-        // Skip blocked tiles
-        if (this.get2D(blocked, nx, nz, false)) {
-          continue;
-        }
-
-        // Calculate movement cost (diagonal is more expensive)
-        const isDiagonal = dir.dx !== 0 && dir.dz !== 0;
-        const moveCost = isDiagonal ? DIAGONAL_COST : CARDINAL_COST;
-
-        // Check for diagonal blocking (can't cut corners)
-        if (isDiagonal) {
-          const blocked1 = this.get2D(blocked, current.x + dir.dx, current.z, false);
-          const blocked2 = this.get2D(blocked, current.x, current.z + dir.dz, false);
-          if (blocked1 || blocked2) {
-            continue; // Can't move diagonally if adjacent tiles are blocked
-          }
-        }
-
-        const newDist = current.dist + moveCost;
-
-        // If we found a shorter path
-        if (newDist < this.get2D(distances, nx, nz, Infinity)) {
-          this.set2D(distances, nx, nz, newDist);
-          // Direction points TOWARD Core (opposite of expansion direction)
-          this.set2D(directions, nx, nz, (dirIdx + 4) % 8);
-          queue.push({ x: nx, z: nz, dist: newDist });
-        }
-      }
-    }
-
-    this.data = { width, height, distances, directions };
+    this.data = buildFlowField(layout);
   }
 
   /**
@@ -212,18 +56,8 @@ export class FlowField {
   getDirection(x: number, z: number): Vector3 | null {
     if (!this.data) return null;
 
-    // Bounds check
-    if (x < 0 || x >= this.data.width || z < 0 || z >= this.data.height) {
-      return null;
-    }
-
-    const dirIdx = this.data.directions[x]?.[z];
-    if (dirIdx === undefined || dirIdx < 0) {
-      return null; // Blocked or unreachable
-    }
-
-    const dir = DIRECTIONS[dirIdx];
-    if (!dir) return null;
+    const dir = getFlowDirection(this.data, x, z);
+    if (!dir) return null; // Blocked or unreachable
     return new Vector3(dir.dx, 0, dir.dz).normalize();
   }
 
@@ -233,12 +67,7 @@ export class FlowField {
    */
   getDistance(x: number, z: number): number {
     if (!this.data) return Infinity;
-
-    if (x < 0 || x >= this.data.width || z < 0 || z >= this.data.height) {
-      return Infinity;
-    }
-
-    return this.data.distances[x]?.[z] ?? Infinity;
+    return getFlowDistance(this.data, x, z);
   }
 
   /**
@@ -254,13 +83,7 @@ export class FlowField {
    */
   getNextTile(x: number, z: number): ArenaPosition | null {
     if (!this.data) return null;
-
-    const dirIdx = this.data.directions[x]?.[z];
-    if (dirIdx === undefined || dirIdx < 0) return null;
-
-    const dir = DIRECTIONS[dirIdx];
-    if (!dir) return null;
-    return { x: x + dir.dx, z: z + dir.dz };
+    return getNextFlowTile(this.data, x, z);
   }
 
   /**
@@ -294,10 +117,7 @@ export class FlowField {
     const step = 3;
     for (let x = 0; x < this.data.width; x += step) {
       for (let z = 0; z < this.data.height; z += step) {
-        const dirIdx = this.data.directions[x]?.[z];
-        if (dirIdx === undefined || dirIdx < 0) continue;
-
-        const dir = DIRECTIONS[dirIdx];
+        const dir = getFlowDirection(this.data, x, z);
         if (!dir) continue;
 
         const worldX = x * TILE_SIZE + TILE_SIZE / 2;
@@ -344,13 +164,13 @@ export class FlowField {
   }
 
   /**
-   * Update obstacle at position and regenerate affected area
-   * (For future use when buildings are placed/destroyed)
+   * Re-route the flow after a tile was blocked or opened
+   * The layout must already reflect the change
    */
-  updateObstacle(_x: number, _z: number, _blocked: boolean, layout: TileType[][]): void {
-    // For now, just regenerate the entire field
-    // Could be optimized to only update affected tiles using _x, _z, _blocked
-    this.generate(layout);
+  updateObstacle(x: number, z: number, layout: TileType[][]): void {
+    this.data = this.data
+      ? updateFlowField(this.data, layout, [{ x, z }])
+      : buildFlowField(layout);
 
     // Refresh debug if visible
     if (this.isDebugVisible) {
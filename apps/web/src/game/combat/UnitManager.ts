@@ -7,6 +7,8 @@
  * - Unit state machine (SPAWNING, IDLE, MOVING, ATTACKING, DEAD)
  * - Movement interpolation for smooth visuals
  * - Health bar rendering
+ * - Status effect indicators (stealth fade, effect rings, effect icons)
+ * - Projected shield bubbles
  */
 
 import {
@@ -21,7 +23,7 @@ import {
 } from '@babylonjs/core';
 import '@babylonjs/loaders/glTF';
 import type { Scene } from '@babylonjs/core';
-import type { CombatUnitState, ArenaPosition } from '@nova-fall/shared';
+import type { CombatUnitState, ArenaPosition, StatusEffectType } from '@nova-fall/shared';
 import { UnitState } from '@nova-fall/shared';
 import { TILE_SIZE, ARENA_SIZE } from './CombatEngine';
 
@@ -35,6 +37,39 @@ const COLORS = {
   spawning: new Color3(1, 1, 1), // White (fading in)
 };
 
+// Status effect ring colors, most important first (only one ring shows at a time)
+const EFFECT_RING_COLORS: [StatusEffectType, Color3][] = [
+  ['stun', new Color3(1, 0.85, 0.1)], // Yellow
+  ['disable', new Color3(0.7, 0.3, 1)], // Purple
+  ['burn', new Color3(1, 0.25, 0.1)], // Red-orange
+  ['damage_over_time', new Color3(1, 0.45, 0.1)], // Orange
+  ['slow', new Color3(0.5, 0.7, 1)], // Ice blue
+  ['shield_burst', new Color3(0.2, 0.9, 1)], // Cyan
+  ['speed_buff', new Color3(0.3, 1, 0.4)], // Green
+];
+
+// Icon badges drawn above the health bar, one per active effect
+const EFFECT_ICONS: Record<StatusEffectType, { label: string; color: string }> = {
+  stun: { label: 'ST', color: '#facc15' },
+  disable: { label: 'DS', color: '#a855f7' },
+  burn: { label: 'BN', color: '#ef4423' },
+  damage_over_time: { label: 'DT', color: '#f97316' },
+  slow: { label: 'SL', color: '#7fb3ff' },
+  shield_burst: { label: 'SH', color: '#22d3ee' },
+  speed_buff: { label: 'SP', color: '#4ade80' },
+  stealth: { label: 'CL', color: '#9ca3af' },
+};
+const EFFECT_ICON_SIZE = 24; // Texture pixels per badge
+const MAX_EFFECT_ICONS = 5;
+
+// Stealthed units are drawn faded rather than hidden so their owner can still see them
+const STEALTH_VISIBILITY = 0.3;
+
+// Projected shield bubble, fading as the pool drains
+const SHIELD_BUBBLE_COLOR = new Color3(0.3, 0.7, 1);
+const SHIELD_BUBBLE_MAX_ALPHA = 0.25;
+const SHIELD_BUBBLE_MIN_ALPHA = 0.04; // Still shows the covered area when the pool is empty
+
 /**
  * Internal unit representation with visual components
  */
@@ -59,6 +94,16 @@ interface UnitVisual {
 
   // Size
   tileSize: number;
+
+  // Status effects
+  effects: StatusEffectType[];
+  effectStacks: Partial<Record<StatusEffectType, number>>;
+  effectRing: Mesh | null;
+  effectIconPlane: Mesh;
+  effectIconTexture: DynamicTexture;
+
+  // Shield projectors only
+  shieldBubble: Mesh | null;
 }
 
 export class UnitManager {
@@ -71,6 +116,7 @@ export class UnitManager {
   private attackerMaterial: StandardMaterial;
   private defenderMaterial: StandardMaterial;
   private deadMaterial: StandardMaterial;
+  private effectMaterials = new Map<StatusEffectType, StandardMaterial>();
 
   constructor(scene: Scene) {
     this.scene = scene;
@@ -323,6 +369,35 @@ export class UnitManager {
     healthBarPlane.billboardMode = Mesh.BILLBOARDMODE_ALL;
     healthBarPlane.material = healthBarMaterial;
 
+    // Effect icons sit just above the health bar, hidden until an effect lands
+    const effectIconTexture = new DynamicTexture(
+      `effecticons_tex_${unitState.id}`,
+      { width: EFFECT_ICON_SIZE * MAX_EFFECT_ICONS, height: EFFECT_ICON_SIZE },
+      this.scene,
+      false
+    );
+    effectIconTexture.hasAlpha = true;
+
+    const effectIconMaterial = new StandardMaterial(`effecticons_mat_${unitState.id}`, this.scene);
+    effectIconMaterial.diffuseTexture = effectIconTexture;
+    effectIconMaterial.emissiveTexture = effectIconTexture;
+    effectIconMaterial.useAlphaFromDiffuseTexture = true;
+    effectIconMaterial.disableLighting = true;
+    effectIconMaterial.backFaceCulling = false;
+
+    const effectIconPlane = MeshBuilder.CreatePlane(
+      `effecticons_${unitState.id}`,
+      { width: healthBarWidth, height: healthBarWidth / MAX_EFFECT_ICONS },
+      this.scene
+    );
+    effectIconPlane.parent = container;
+    effectIconPlane.position.y =
+      healthBarOffset + healthBarHeight / 2 + healthBarWidth / MAX_EFFECT_ICONS / 2;
+    effectIconPlane.billboardMode = Mesh.BILLBOARDMODE_ALL;
+    effectIconPlane.material = effectIconMaterial;
+    effectIconPlane.isPickable = false;
+    effectIconPlane.isVisible = false;
+
     // Set initial position
     const worldPos = this.gridToWorld(unitState.position);
     container.position = worldPos;
@@ -342,6 +417,12 @@ export class UnitManager {
       maxHealth: unitState.maxHealth,
       ownerId: unitState.ownerId,
       tileSize,
+      effects: [],
+      effectStacks: {},
+      effectRing: null,
+      effectIconPlane,
+      effectIconTexture,
+      shieldBubble: null,
     };
 
     // Draw initial health bar
@@ -455,6 +536,7 @@ export class UnitManager {
       // Just died
       visual.mesh.material = this.deadMaterial;
       visual.healthBarPlane.isVisible = false;
+      visual.effectIconPlane.isVisible = false;
     }
 
     // Update health
@@ -463,6 +545,150 @@ export class UnitManager {
       visual.maxHealth = unitState.maxHealth;
       this.updateHealthBar(visual);
     }
+
+    this.updateEffects(visual, unitState.effects ?? [], unitState.effectStacks ?? {});
+    this.updateShieldBubble(visual, unitState);
+  }
+
+  /**
+   * Draw a projector's shield over the area it covers
+   */
+  private updateShieldBubble(visual: UnitVisual, unitState: CombatUnitState): void {
+    const shieldRange = unitState.shieldRange ?? 0;
+    if (shieldRange <= 0 || unitState.state === UnitState.DEAD) {
+      visual.shieldBubble?.material?.dispose();
+      visual.shieldBubble?.dispose();
+      visual.shieldBubble = null;
+      return;
+    }
+
+    if (!visual.shieldBubble) {
+      const bubble = MeshBuilder.CreateSphere(
+        `shield_bubble_${visual.id}`,
+        { diameter: shieldRange * 2 * TILE_SIZE, segments: 16, slice: 0.5 },
+        this.scene
+      );
+      bubble.parent = visual.container;
+      bubble.isPickable = false;
+
+      const material = new StandardMaterial(`shieldBubbleMat_${visual.id}`, this.scene);
+      material.diffuseColor = SHIELD_BUBBLE_COLOR;
+      material.emissiveColor = SHIELD_BUBBLE_COLOR;
+      material.disableLighting = true;
+      material.backFaceCulling = false;
+      bubble.material = material;
+      visual.shieldBubble = bubble;
+    }
+
+    const ratio = unitState.maxShield > 0 ? unitState.shield / unitState.maxShield : 0;
+    if (visual.shieldBubble.material) {
+      visual.shieldBubble.material.alpha = Math.max(
+        SHIELD_BUBBLE_MIN_ALPHA,
+        SHIELD_BUBBLE_MAX_ALPHA * Math.min(ratio, 1)
+      );
+    }
+  }
+
+  /**
+   * Update status effect visuals when a unit's effects change
+   */
+  private updateEffects(
+    visual: UnitVisual,
+    effects: StatusEffectType[],
+    effectStacks: Partial<Record<StatusEffectType, number>>
+  ): void {
+    const stacksChanged = effects.some((type) => effectStacks[type] !== visual.effectStacks[type]);
+    if (effects.join(',') === visual.effects.join(',') && !stacksChanged) return;
+    visual.effects = effects;
+    visual.effectStacks = effectStacks;
+    this.updateEffectIcons(visual);
+
+    // Fade stealthed units
+    const visibility = effects.includes('stealth') ? STEALTH_VISIBILITY : 1;
+    for (const mesh of visual.container.getChildMeshes()) {
+      if (
+        mesh !== visual.healthBarPlane &&
+        mesh !== visual.effectIconPlane &&
+        mesh !== visual.effectRing &&
+        mesh !== visual.shieldBubble
+      ) {
+        mesh.visibility = visibility;
+      }
+    }
+
+    // Ring at the unit's feet for the most important effect
+    visual.effectRing?.dispose();
+    visual.effectRing = null;
+
+    const ring = EFFECT_RING_COLORS.find(([type]) => effects.includes(type));
+    if (!ring) return;
+
+    const [type, color] = ring;
+    const effectRing = MeshBuilder.CreateTorus(
+      `effect_ring_${visual.id}`,
+      {
+        diameter: TILE_SIZE * visual.tileSize * 0.7,
+        thickness: TILE_SIZE * 0.06,
+        tessellation: 24,
+      },
+      this.scene
+    );
+    effectRing.parent = visual.container;
+    effectRing.position.y = 0.3;
+    effectRing.isPickable = false;
+    effectRing.material = this.getEffectMaterial(type, color);
+    visual.effectRing = effectRing;
+  }
+
+  /**
+   * Draw a badge per active effect, with a stack count when it has stacked
+   */
+  private updateEffectIcons(visual: UnitVisual): void {
+    const ctx = visual.effectIconTexture.getContext();
+    const size = EFFECT_ICON_SIZE;
+    ctx.clearRect(0, 0, size * MAX_EFFECT_ICONS, size);
+
+    const shown = visual.effects.slice(0, MAX_EFFECT_ICONS);
+    shown.forEach((type, i) => {
+      const { label, color } = EFFECT_ICONS[type];
+      const x = i * size;
+
+      ctx.fillStyle = '#1a1a24';
+      ctx.fillRect(x + 1, 1, size - 2, size - 2);
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 2;
+      ctx.strokeRect(x + 2, 2, size - 4, size - 4);
+
+      ctx.fillStyle = color;
+      ctx.font = 'bold 10px sans-serif';
+      ctx.fillText(label, x + (size - ctx.measureText(label).width) / 2, size / 2 + 4);
+
+      const stacks = visual.effectStacks[type];
+      if (stacks) {
+        const text = String(stacks);
+        ctx.fillStyle = '#fff';
+        ctx.font = 'bold 8px sans-serif';
+        ctx.fillText(text, x + size - 3 - ctx.measureText(text).width, size - 3);
+      }
+    });
+
+    visual.effectIconTexture.update();
+    visual.effectIconPlane.isVisible = shown.length > 0 && visual.state !== UnitState.DEAD;
+  }
+
+  /**
+   * Shared glowing material for an effect ring
+   */
+  private getEffectMaterial(type: StatusEffectType, color: Color3): StandardMaterial {
+    let material = this.effectMaterials.get(type);
+    if (!material) {
+      material = new StandardMaterial(`effectMat_${type}`, this.scene);
+      material.diffuseColor = color;
+      material.emissiveColor = color;
+      material.disableLighting = true;
+      this.effectMaterials.set(type, material);
+    }
+    return material;
   }
 
   /**
@@ -475,6 +701,12 @@ export class UnitManager {
     // Dispose of all visual components
     visual.healthBarTexture.dispose();
     visual.healthBarPlane.dispose();
+    visual.effectIconTexture.dispose();
+    visual.effectIconPlane.material?.dispose();
+    visual.effectIconPlane.dispose();
+    visual.effectRing?.dispose();
+    visual.shieldBubble?.material?.dispose();
+    visual.shieldBubble?.dispose();
     visual.mesh.dispose();
     visual.container.dispose();
 
@@ -579,5 +811,9 @@ export class UnitManager {
     this.attackerMaterial.dispose();
     this.defenderMaterial.dispose();
     this.deadMaterial.dispose();
+    for (const material of this.effectMaterials.values()) {
+      material.dispose();
+    }
+    this.effectMaterials.clear();
   }
 }
@@ -9,4 +9,6 @@ export { CombatEngine, ARENA_SIZE, TILE_SIZE, ARENA_METERS } from './CombatEngin
 export type { CombatEngineOptions } from './CombatEngine';
 export { UnitManager } from './UnitManager';
 export { FlowField } from './FlowField';
-export type { FlowFieldData } from './FlowField';
+export type { FlowFieldData } from '@nova-fall/game-logic';
+export { CombatReplay, REPLAY_SPEEDS } from './CombatReplay';
+export type { ReplayTimelineEntry } from './CombatReplay';
@@ -32,6 +32,27 @@ const routes: RouteRecordRaw[] = [
     meta: { requiresAuth: true },
     props: true,
   },
+  {
+    path: '/replay/:battleId',
+    name: 'replay',
+    component: () => import('@/views/ReplayView.vue'),
+    meta: { requiresAuth: true },
+    props: true,
+  },
+  {
+    path: '/spectate/:battleId',
+    name: 'spectate',
+    component: () => import('@/views/SpectateView.vue'),
+    meta: { requiresAuth: true },
+    props: true,
+  },
+  {
+    path: '/layout/:battleId',
+    name: 'layout',
+    component: () => import('@/views/BaseLayoutView.vue'),
+    meta: { requiresAuth: true },
+    props: true,
+  },
   {
     // Redirect old /game to /lobby
     path: '/game',
@@ -36,9 +36,7 @@ api.interceptors.response.use(
       (originalRequest as { _retry?: boolean })._retry = true;
 
       try {
-        const response = await axios.post(`${API_URL}/auth/refresh`, {
-          refreshToken: authStore.refreshToken,
-        });
+        const response = await authApi.refresh(authStore.refreshToken);
 
         const { accessToken, refreshToken } = response.data;
         authStore.setTokens(accessToken, refreshToken);
@@ -65,6 +63,11 @@ api.interceptors.response.use(
 // Auth API
 export const authApi = {
   getMe: () => api.get('/auth/me'),
+  // Plain axios, as the api instance's interceptor refreshes on a 401 itself
+  refresh: (refreshToken: string) =>
+    axios.post<{ accessToken: string; refreshToken: string }>(`${API_URL}/auth/refresh`, {
+      refreshToken,
+    }),
   logout: () => api.post('/auth/logout'),
   updateUsername: (username: string) => api.patch('/auth/username', { username }),
 };
@@ -216,6 +219,111 @@ export const transfersApi = {
   cancel: (id: string) => api.delete<{ transfer: TransferResponse; message: string }>(`/transfers/${id}`),
 };
 
+// Battles API
+import type {
+  ArenaGenerationOptions,
+  BattleForecast,
+  BattleReport,
+  CombatLogEntry,
+} from '@nova-fall/game-logic';
+import type {
+  ArenaPosition,
+  BattleUnitGroup,
+  TargetPriorityPreset,
+  TileType,
+} from '@nova-fall/shared';
+
+export interface BattleResponse {
+  id: string;
+  nodeId: string;
+  nodeName: string;
+  originNodeId: string;
+  attackerId: string;
+  attackerName: string;
+  defenderId: string | null;
+  defenderName: string | null;
+  status: 'PREP_PHASE' | 'FORCES_LOCKED' | 'IN_PROGRESS' | 'RESOLVED' | 'CANCELLED';
+  result: 'ATTACKER_VICTORY' | 'DEFENDER_VICTORY' | 'DRAW' | null;
+  attackForce: BattleUnitGroup[] | null;
+  targetPriorities: Record<string, TargetPriorityPreset>;
+  consumables: Record<string, number>;
+  initiatedAt: string;
+  prepEndsAt: string;
+  forcesLockedAt: string | null;
+  combatStartedAt: string | null;
+  combatEndsAt: string | null;
+  resolvedAt: string | null;
+}
+
+export interface BattleReplayResponse {
+  battle: BattleResponse;
+  log: CombatLogEntry[];
+}
+
+export interface BattleReportResponse {
+  battle: BattleResponse;
+  report: BattleReport;
+  names: Record<string, string>; // Unit and building definition ID -> display name
+}
+
+export interface BaseLayoutPlacement {
+  id?: string;
+  itemId?: string;
+  position: ArenaPosition;
+}
+
+export interface BaseLayoutBuilding {
+  id: string;
+  buildingTypeId: string;
+  name: string;
+  position: ArenaPosition;
+  width: number;
+  height: number;
+  passable: boolean;
+  modelPath: string | null;
+  removable: boolean;
+}
+
+export interface BaseLayoutItem {
+  itemId: string;
+  buildingTypeId: string;
+  name: string;
+  count: number;
+  width: number;
+  height: number;
+  passable: boolean;
+  modelPath: string | null;
+}
+
+export interface BaseLayoutResponse {
+  arena: ArenaGenerationOptions;
+  arenaLayout: TileType[][];
+  buildings: BaseLayoutBuilding[];
+  available: BaseLayoutItem[];
+  locked: boolean;
+}
+
+// Pending until the worker has run the simulations
+export type BattleForecastResponse =
+  | { status: 'ready'; forecast: BattleForecast; generatedAt: string }
+  | { status: 'pending' };
+
+export const battlesApi = {
+  getAll: () => api.get<{ incoming: BattleResponse[]; outgoing: BattleResponse[] }>('/battles'),
+  getById: (id: string) => api.get<{ battle: BattleResponse }>(`/battles/${id}`),
+  getReplay: (id: string) => api.get<BattleReplayResponse>(`/battles/${id}/replay`),
+  getReport: (id: string) => api.get<BattleReportResponse>(`/battles/${id}/report`),
+  setTargetPriorities: (id: string, priorities: Record<string, TargetPriorityPreset>) =>
+    api.put<{ battle: BattleResponse; message: string }>(`/battles/${id}/target-priorities`, { priorities }),
+  setConsumables: (id: string, consumables: Record<string, number>) =>
+    api.put<{ battle: BattleResponse; message: string }>(`/battles/${id}/consumables`, { consumables }),
+  getLayout: (id: string) => api.get<{ layout: BaseLayoutResponse }>(`/battles/${id}/layout`),
+  setLayout: (id: string, buildings: BaseLayoutPlacement[]) =>
+    api.put<{ layout: BaseLayoutResponse; message: string }>(`/battles/${id}/layout`, { buildings }),
+  getForecast: (id: string, runs?: number) =>
+    api.get<BattleForecastResponse>(`/battles/${id}/forecast`, { params: { runs } }),
+};
+
 // Blueprints API
 import type {
   Blueprint,
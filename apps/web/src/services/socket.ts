@@ -3,11 +3,13 @@ import type {
   MapNode,
   ResourceStorage,
   CombatInput,
+  CombatJoinedEvent,
   CombatSetup,
-  CombatState,
+  CombatStateMessage,
   CombatResult,
 } from '@nova-fall/shared';
 import { COMBAT_EVENTS } from '@nova-fall/shared';
+import { useAuthStore } from '@/stores/auth';
 
 const WS_URL = import.meta.env.VITE_WS_URL || 'http://localhost:3002';
 
@@ -147,8 +149,9 @@ interface EventHandlers {
   'player:eliminated': (event: PlayerEliminatedEvent) => void;
   'crafting:completed': (event: CraftingCompletedEvent) => void;
   // Combat events
+  'combat:joined': (event: CombatJoinedEvent) => void;
   'combat:setup': (event: CombatSetup) => void;
-  'combat:state': (event: CombatState) => void;
+  'combat:state': (event: CombatStateMessage) => void;
   'combat:end': (event: CombatResult) => void;
   'combat:error': (event: CombatErrorEvent) => void;
   connect: () => void;
@@ -161,11 +164,14 @@ class GameSocket {
   private handlers: Partial<EventHandlers> = {};
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
+  private reauthenticating = false;
 
   connect(): void {
     if (this.socket?.connected) return;
 
     this.socket = io(WS_URL, {
+      // Read on every (re)connect, so a refreshed access token is picked up
+      auth: (cb) => cb({ token: useAuthStore().accessToken }),
       transports: ['websocket', 'polling'],
       reconnection: true,
       reconnectionDelay: 1000,
@@ -176,6 +182,17 @@ class GameSocket {
     this.setupListeners();
   }
 
+  // Refresh the access token and connect again (the auth callback sends the new one)
+  private async reauthenticate(): Promise<void> {
+    if (this.reauthenticating || this.reconnectAttempts > this.maxReconnectAttempts) return;
+    this.reauthenticating = true;
+    try {
+      if (await useAuthStore().refreshAccessToken()) this.socket?.connect();
+    } finally {
+      this.reauthenticating = false;
+    }
+  }
+
   private setupListeners(): void {
     if (!this.socket) return;
 
@@ -194,6 +211,8 @@ class GameSocket {
       console.error('[Socket] Connection error:', error.message);
       this.reconnectAttempts++;
       this.handlers.connect_error?.(error);
+      // The access token expired - socket.io won't retry a rejected handshake by itself
+      if (error.message === 'Unauthorized') void this.reauthenticate();
     });
 
     // Game events
@@ -242,11 +261,15 @@ class GameSocket {
     });
 
     // Combat events
+    this.socket.on(COMBAT_EVENTS.COMBAT_JOINED, (data: CombatJoinedEvent) => {
+      this.handlers['combat:joined']?.(data);
+    });
+
     this.socket.on(COMBAT_EVENTS.COMBAT_SETUP, (data: CombatSetup) => {
       this.handlers['combat:setup']?.(data);
     });
 
-    this.socket.on(COMBAT_EVENTS.STATE_UPDATE, (data: CombatState) => {
+    this.socket.on(COMBAT_EVENTS.STATE_UPDATE, (data: CombatStateMessage) => {
       this.handlers['combat:state']?.(data);
     });
 
@@ -305,14 +328,14 @@ class GameSocket {
 
   // ============ Combat Methods ============
 
-  // Authenticate socket with player ID
-  authenticatePlayer(playerId: string): void {
-    this.socket?.emit('auth:player', playerId);
+  // Join a combat battle (as the player of the socket's access token)
+  joinCombat(battleId: string): void {
+    this.socket?.emit(COMBAT_EVENTS.JOIN_COMBAT, { battleId });
   }
 
-  // Join a combat battle
-  joinCombat(battleId: string, playerId: string): void {
-    this.socket?.emit(COMBAT_EVENTS.JOIN_COMBAT, { battleId, playerId });
+  // Watch a combat battle read-only (session members only)
+  spectateCombat(battleId: string): void {
+    this.socket?.emit(COMBAT_EVENTS.SPECTATE_COMBAT, { battleId });
   }
 
   // Leave a combat battle
@@ -325,7 +348,7 @@ class GameSocket {
     this.socket?.emit(COMBAT_EVENTS.SEND_INPUT, input);
   }
 
-  // Request current combat state (for reconnection)
+  // Request a state keyframe (after a missed delta or a reconnect)
   requestCombatState(battleId: string): void {
     this.socket?.emit(COMBAT_EVENTS.REQUEST_STATE, { battleId });
   }
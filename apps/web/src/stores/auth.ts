@@ -81,6 +81,18 @@ export const useAuthStore = defineStore('auth', () => {
     }
   }
 
+  // Get a new access token with the refresh token, false if that fails
+  async function refreshAccessToken(): Promise<boolean> {
+    if (!refreshToken.value) return false;
+    try {
+      const response = await authApi.refresh(refreshToken.value);
+      setTokens(response.data.accessToken, response.data.refreshToken);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
   async function logout() {
     try {
       await authApi.logout();
@@ -108,6 +120,7 @@ export const useAuthStore = defineStore('auth', () => {
     setUser,
     clearActiveSession,
     fetchUser,
+    refreshAccessToken,
     logout,
     initialize,
   };
@@ -13,6 +13,7 @@ import {
   type TransferCompletedEvent,
   type VictoryEvent,
   type CraftingCompletedEvent,
+  type BattleUpdateEvent,
 } from '@/services/socket';
 
 // API response types
@@ -66,6 +67,9 @@ export const useGameStore = defineStore('game', () => {
   // Callback for crafting completed events (registered by GameView)
   let craftingCompletedCallback: ((event: CraftingCompletedEvent) => void) | null = null;
 
+  // Callback for battles the player fought in being resolved (registered by GameView)
+  let battleResolvedCallback: ((event: BattleUpdateEvent) => void) | null = null;
+
   const nodeList = computed(() => Array.from(nodes.value.values()));
 
   // Load game status (upkeep timing)
@@ -248,6 +252,24 @@ export const useGameStore = defineStore('game', () => {
     craftingCompletedCallback = null;
   }
 
+  // Handle battle updates, passing on resolved battles the player fought in
+  function handleBattleUpdate(event: BattleUpdateEvent, currentPlayerId: string | null): void {
+    if (!currentPlayerId || event.status !== 'RESOLVED') return;
+    const { attackerId, defenderId } = event.data;
+    if (attackerId !== currentPlayerId && defenderId !== currentPlayerId) return;
+    battleResolvedCallback?.(event);
+  }
+
+  // Register callback for resolved battles
+  function onBattleResolved(callback: (event: BattleUpdateEvent) => void): void {
+    battleResolvedCallback = callback;
+  }
+
+  // Unregister resolved battle callback
+  function offBattleResolved(): void {
+    battleResolvedCallback = null;
+  }
+
   // Get storage for a node
   function getNodeStorage(nodeId: string): ResourceStorage | undefined {
     return nodeStorage.value.get(nodeId);
@@ -281,6 +303,7 @@ export const useGameStore = defineStore('game', () => {
     gameSocket.on('transfer:completed', (event) => handleTransferCompleted(event, playerId ?? null));
     gameSocket.on('game:victory', handleVictory);
     gameSocket.on('crafting:completed', (event) => handleCraftingCompleted(event, playerId ?? null));
+    gameSocket.on('battle:update', (event) => handleBattleUpdate(event, playerId ?? null));
 
     gameSocket.connect();
 
@@ -350,5 +373,7 @@ export const useGameStore = defineStore('game', () => {
     offVictory,
     onCraftingCompleted,
     offCraftingCompleted,
+    onBattleResolved,
+    offBattleResolved,
   };
 });
@@ -3,11 +3,17 @@ import { ref } from 'vue';
 
 export type ToastType = 'success' | 'error' | 'warning' | 'info';
 
+export interface ToastAction {
+  label: string;
+  handler: () => void;
+}
+
 export interface Toast {
   id: string;
   message: string;
   type: ToastType;
   duration: number;
+  action?: ToastAction;
 }
 
 let toastId = 0;
@@ -15,9 +21,9 @@ let toastId = 0;
 export const useToastStore = defineStore('toast', () => {
   const toasts = ref<Toast[]>([]);
 
-  function show(message: string, type: ToastType = 'info', duration = 4000) {
+  function show(message: string, type: ToastType = 'info', duration = 4000, action?: ToastAction) {
     const id = `toast-${++toastId}`;
-    const toast: Toast = { id, message, type, duration };
+    const toast: Toast = { id, message, type, duration, ...(action && { action }) };
 
     toasts.value.push(toast);
 
@@ -0,0 +1,584 @@
+import {
+  COMBAT,
+  applyQualityBonus,
+  getConsumableDefinition,
+  type AbilityDefinition,
+  type BattleAttackForce,
+  type BattleDefenseState,
+  type BattleUnitGroup,
+  type BuildingCategory,
+  type CombatInput,
+  type CombatResult,
+  type TargetPriorityPreset,
+  type UnitCategory,
+  type Veterancy,
+} from '@nova-fall/shared';
+import {
+  createSeed,
+  generateArenaLayout,
+  isPassableCategory,
+  seedFromString,
+  type BattleReportBuilder,
+  type BattleReportValues,
+  type CombatBuildingConfig,
+  type CombatConsumableStock,
+  type CombatLogEntry,
+  type CombatRunnerConfig,
+  type CombatUnitGroup,
+  type CombatVeteran,
+} from '@nova-fall/game-logic';
+import { prisma } from '../lib/prisma.js';
+import {
+  publishCombatEnd,
+  publishCombatError,
+  publishCombatJoined,
+  publishCombatSetup,
+  publishCombatState,
+} from '../lib/events.js';
+import { resolveBattle } from '../jobs/resolution.js';
+import { CombatSession } from './session.js';
+
+// Redis channels published by ws-server for the combat runner
+export const COMBAT_CHANNELS = [
+  'combat:input',
+  'combat:player_joined',
+  'combat:player_left',
+  'combat:request_state',
+  'combat:player_disconnected',
+  'combat:spectator_joined',
+] as const;
+
+// Defender ID used when a battle targets an unowned node
+const NEUTRAL_DEFENDER_ID = 'neutral';
+
+// Game setting that overrides COMBAT.SPECTATOR_DELAY
+const SPECTATOR_DELAY_SETTING = 'spectatorDelaySeconds';
+
+// Active battles running in this worker
+const sessions = new Map<string, CombatSession>();
+// Battles currently being loaded (avoids double-starts from concurrent joins)
+const loading = new Map<string, Promise<CombatSession | null>>();
+
+/**
+ * Resolve snapshot unit groups to combat stats from their definitions
+ * Item quality bonuses are applied on top of the base definition stats,
+ * and target priorities set during prep override the definition default
+ */
+async function resolveUnitGroups(
+  groups: BattleUnitGroup[],
+  targetPriorities: Record<string, TargetPriorityPreset> = {},
+  owner: { playerId: string; nodeId: string } | null = null
+): Promise<CombatUnitGroup[]> {
+  if (groups.length === 0) return [];
+
+  const [definitions, items, veterans] = await Promise.all([
+    prisma.unitDefinition.findMany({
+      where: { id: { in: groups.map((g) => g.unitTypeId) } },
+    }),
+    prisma.itemDefinition.findMany({
+      where: { itemId: { in: groups.map((g) => g.itemId) } },
+      select: { itemId: true, quality: true },
+    }),
+    // Units that have earned veterancy fight with promoted stats, most experienced first
+    owner
+      ? prisma.unit.findMany({
+          where: {
+            playerId: owner.playerId,
+            nodeId: owner.nodeId,
+            typeId: { in: groups.map((g) => g.unitTypeId) },
+          },
+          orderBy: { experience: 'desc' },
+          select: { id: true, typeId: true, veterancy: true },
+        })
+      : [],
+  ]);
+  const definitionsById = new Map(definitions.map((d) => [d.id, d]));
+  const qualityByItem = new Map(items.map((i) => [i.itemId, i.quality]));
+  const veteransByType = new Map<string, CombatVeteran[]>();
+  for (const veteran of veterans) {
+    const list = veteransByType.get(veteran.typeId) ?? [];
+    list.push({ id: veteran.id, veterancy: veteran.veterancy as Veterancy });
+    veteransByType.set(veteran.typeId, list);
+  }
+
+  const resolved: CombatUnitGroup[] = [];
+  for (const group of groups) {
+    const def = definitionsById.get(group.unitTypeId);
+    if (!def || group.count <= 0) continue;
+
+    const boosted = applyQualityBonus(def, qualityByItem.get(group.itemId) ?? 'COMMON');
+    const groupVeterans = veteransByType.get(group.unitTypeId)?.splice(0, group.count) ?? [];
+
+    resolved.push({
+      itemId: group.itemId,
+      unitTypeId: group.unitTypeId,
+      count: group.count,
+      stats: {
+        ...boosted,
+        shieldRange: def.shieldRange,
+        speed: def.speed,
+        range: def.range,
+        attackSpeed: def.attackSpeed,
+        projectileSpeed: def.projectileSpeed,
+        splashRadius: def.splashRadius,
+        revealRadius: def.revealRadius,
+      },
+      category: def.category as UnitCategory,
+      targetPriority:
+        targetPriorities[group.unitTypeId] ?? (def.targetPriority as TargetPriorityPreset),
+      abilities: def.abilities as unknown as AbilityDefinition[],
+      tileSize: def.tileSize,
+      ...(groupVeterans.length > 0 && { veterans: groupVeterans }),
+    });
+  }
+  return resolved;
+}
+
+/**
+ * Resolve consumables loaded during prep to their definitions
+ */
+function resolveConsumables(loaded: Record<string, number> = {}): CombatConsumableStock[] {
+  const stocks: CombatConsumableStock[] = [];
+  for (const [itemId, count] of Object.entries(loaded)) {
+    const consumable = getConsumableDefinition(itemId);
+    if (consumable && count > 0) stocks.push({ itemId, count, consumable });
+  }
+  return stocks;
+}
+
+/**
+ * Load a battle's locked forces into a session config
+ */
+async function loadSessionConfig(battleId: string): Promise<CombatRunnerConfig | null> {
+  const battle = await prisma.battle.findUnique({
+    where: { id: battleId },
+    include: { node: { select: { id: true, type: true, tier: true, regionId: true } } },
+  });
+
+  if (!battle || battle.status !== 'IN_PROGRESS') {
+    return null;
+  }
+
+  const attackForce = battle.attackForce as unknown as BattleAttackForce;
+  const defenseState = battle.defenseState as unknown as BattleDefenseState;
+  const snapshotBuildings = defenseState.buildings ?? [];
+  const defenderPriorities = defenseState.targetPriorities ?? {};
+
+  const buildingDefs = await prisma.buildingDefinition.findMany({
+    where: { id: { in: snapshotBuildings.map((b) => b.buildingTypeId) } },
+  });
+  const buildingDefsById = new Map(buildingDefs.map((d) => [d.id, d]));
+
+  const buildings: CombatBuildingConfig[] = [];
+  for (const b of snapshotBuildings) {
+    const def = buildingDefsById.get(b.buildingTypeId);
+    if (!def) continue;
+    buildings.push({
+      id: b.id,
+      buildingTypeId: b.buildingTypeId,
+      position: b.position,
+      rotation: b.rotation,
+      width: def.width,
+      height: def.height,
+      health: def.health,
+      shield: def.shield,
+      shieldRange: def.shieldRange,
+      armor: def.armor,
+      damage: def.damage,
+      range: def.range,
+      attackSpeed: def.attackSpeed,
+      projectileSpeed: def.projectileSpeed,
+      splashRadius: def.splashRadius,
+      category: def.category as BuildingCategory,
+      targetPriority: defenderPriorities[b.id] ?? (def.targetPriority as TargetPriorityPreset),
+      abilities: def.abilities as unknown as AbilityDefinition[],
+    });
+  }
+
+  // Seeded from the node so it is fought over on the same ground every time
+  const layout = generateArenaLayout(
+    {
+      nodeType: battle.node.type,
+      tier: battle.node.tier,
+      regionId: battle.node.regionId,
+      seed: seedFromString(battle.node.id),
+    },
+    buildings.map((b) => ({
+      position: b.position,
+      width: b.width ?? 1,
+      height: b.height ?? 1,
+      passable: isPassableCategory(b.category ?? 'structure'),
+    }))
+  );
+
+  // Remaining time in the combat window (a restarted battle keeps its original end time)
+  const durationMs = battle.combatEndsAt
+    ? Math.max(0, battle.combatEndsAt.getTime() - Date.now())
+    : COMBAT.COMBAT_DURATION;
+
+  return {
+    battleId: battle.id,
+    attackerId: battle.attackerId,
+    defenderId: battle.defenderId ?? NEUTRAL_DEFENDER_ID,
+    nodeId: battle.node.id,
+    nodeType: battle.node.type,
+    layout,
+    hqMaxHealth:
+      defenseState.hqMaxHealth ?? COMBAT.HQ_BASE_HEALTH * (1 + (battle.node.tier - 1) * 0.5),
+    durationMs,
+    seed: createSeed(),
+    attackerUnits: await resolveUnitGroups(attackForce.units ?? [], attackForce.targetPriorities, {
+      playerId: battle.attackerId,
+      nodeId: battle.originNodeId,
+    }),
+    defenderUnits: await resolveUnitGroups(
+      defenseState.units ?? [],
+      defenderPriorities,
+      battle.defenderId ? { playerId: battle.defenderId, nodeId: battle.node.id } : null
+    ),
+    buildings,
+    attackerConsumables: resolveConsumables(attackForce.consumables),
+    defenderConsumables: resolveConsumables(defenseState.consumables),
+  };
+}
+
+/**
+ * Store the battle log so the outcome can be replayed
+ */
+async function saveBattleLog(battleId: string, log: CombatLogEntry[]): Promise<void> {
+  await prisma.battle.update({
+    where: { id: battleId },
+    data: { events: log as object[] },
+  });
+}
+
+/**
+ * Credits each fielded unit and building type is worth (its item's HQ price)
+ */
+async function loadReportValues(log: CombatLogEntry[]): Promise<BattleReportValues> {
+  const setup = log.find((entry) => entry.type === 'setup');
+  if (setup?.type !== 'setup') return {};
+
+  const { config } = setup;
+  const unitTypeIds = [...config.attackerUnits, ...config.defenderUnits].map((g) => g.unitTypeId);
+  const buildingTypeIds = config.buildings.map((b) => b.buildingTypeId);
+  const items = await prisma.itemDefinition.findMany({
+    where: {
+      hqCost: { not: null },
+      OR: [
+        { unitDefinitionId: { in: unitTypeIds } },
+        { buildingDefinitionId: { in: buildingTypeIds } },
+      ],
+    },
+    select: { hqCost: true, unitDefinitionId: true, buildingDefinitionId: true },
+  });
+
+  const values = { units: {} as Record<string, number>, buildings: {} as Record<string, number> };
+  for (const item of items) {
+    if (item.hqCost === null) continue;
+    if (item.unitDefinitionId) values.units[item.unitDefinitionId] = item.hqCost;
+    if (item.buildingDefinitionId) values.buildings[item.buildingDefinitionId] = item.hqCost;
+  }
+  return values;
+}
+
+/**
+ * Build the finished battle's report from what the session collected and store it
+ */
+async function saveBattleReport(
+  result: CombatResult,
+  log: CombatLogEntry[],
+  builder: BattleReportBuilder
+): Promise<void> {
+  const report = builder.build(result, await loadReportValues(log));
+
+  await prisma.battle.update({
+    where: { id: result.battleId },
+    data: { report: report as object },
+  });
+}
+
+/**
+ * Record the final log and report, tell the battle room, resolve the battle and drop its session
+ * The report is stored before resolving so it is ready when players are notified.
+ * The session is only dropped once resolution commits; until then it keeps the
+ * result, and retryUnresolvedCombats finishes it again
+ */
+async function finishBattle(
+  result: CombatResult,
+  log: CombatLogEntry[],
+  report: BattleReportBuilder
+): Promise<void> {
+  await saveBattleLog(result.battleId, log);
+  try {
+    await saveBattleReport(result, log, report);
+  } catch (err) {
+    console.error(`[Combat] Failed to build report for battle ${result.battleId}:`, err);
+  }
+  await publishCombatEnd(result);
+  await resolveBattle(result);
+  sessions.delete(result.battleId);
+}
+
+/**
+ * Get the running session for a battle, starting it if the battle is in progress
+ */
+async function getOrStartSession(battleId: string): Promise<CombatSession | null> {
+  const existing = sessions.get(battleId);
+  if (existing) return existing;
+
+  const pending = loading.get(battleId);
+  if (pending) return pending;
+
+  const promise = (async () => {
+    const config = await loadSessionConfig(battleId);
+    if (!config) return null;
+
+    const session = new CombatSession(config, finishBattle);
+    sessions.set(battleId, session);
+
+    // Mark combat as started the first time the battle is run
+    await prisma.battle.updateMany({
+      where: { id: battleId, combatStartedAt: null },
+      data: {
+        combatStartedAt: new Date(),
+        combatEndsAt: new Date(Date.now() + config.durationMs),
+      },
+    });
+
+    // A restarted battle runs from a fresh setup, so its log starts over
+    await saveBattleLog(battleId, session.getLog());
+
+    session.start();
+    return session;
+  })();
+
+  loading.set(battleId, promise);
+  try {
+    return await promise;
+  } finally {
+    loading.delete(battleId);
+  }
+}
+
+/**
+ * Check if a battle is being run by this worker
+ */
+export function isCombatRunning(battleId: string): boolean {
+  return sessions.has(battleId) || loading.has(battleId);
+}
+
+/**
+ * Finish again every battle that ended but failed to resolve, with its recorded result
+ */
+export async function retryUnresolvedCombats(): Promise<void> {
+  for (const session of sessions.values()) {
+    if (!session.isFinished) continue;
+    try {
+      await session.finish();
+    } catch (err) {
+      console.error(`[Combat] Failed to finish battle ${session.battleId} again:`, err);
+    }
+  }
+}
+
+/**
+ * Start running a battle (called when it enters combat)
+ */
+export async function startCombat(battleId: string): Promise<boolean> {
+  const session = await getOrStartSession(battleId);
+  if (session) {
+    await publishCombatSetup('attacker', session.getSetup('attacker'));
+    await publishCombatSetup('defender', session.getSetup('defender'));
+  }
+  return session !== null;
+}
+
+/**
+ * How far behind the battle spectators watch (ms)
+ */
+async function getSpectatorDelay(): Promise<number> {
+  const setting = await prisma.gameSetting.findUnique({ where: { key: SPECTATOR_DELAY_SETTING } });
+  const seconds = Number(setting?.value);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : COMBAT.SPECTATOR_DELAY;
+}
+
+/**
+ * Check that a player may watch a battle: a member of its game session
+ * (player or spectator) who isn't fighting in it
+ */
+async function checkSpectator(
+  battleId: string,
+  playerId: string
+): Promise<{ code: string; message: string } | null> {
+  const battle = await prisma.battle.findUnique({
+    where: { id: battleId },
+    select: { attackerId: true, defenderId: true, node: { select: { gameSessionId: true } } },
+  });
+  if (!battle?.node.gameSessionId) {
+    return { code: 'BATTLE_NOT_FOUND', message: 'Battle not found' };
+  }
+  if (playerId === battle.attackerId || playerId === battle.defenderId) {
+    return { code: 'ALREADY_PARTICIPANT', message: 'You are fighting in this battle' };
+  }
+
+  const membership = await prisma.gameSessionPlayer.findUnique({
+    where: {
+      gameSessionId_playerId: { gameSessionId: battle.node.gameSessionId, playerId },
+    },
+    select: { id: true },
+  });
+  if (!membership) {
+    return { code: 'NOT_SESSION_MEMBER', message: 'You are not in this game session' };
+  }
+  return null;
+}
+
+/**
+ * Find the player of the user a socket authenticated as
+ */
+async function getPlayerId(userId: string): Promise<string | null> {
+  const player = await prisma.player.findUnique({ where: { userId }, select: { id: true } });
+  return player?.id ?? null;
+}
+
+/**
+ * Handle a message on one of the COMBAT_CHANNELS
+ * Join requests carry the socket's verified userId; the player is looked up from it here,
+ * and later messages carry the playerId the ws-server was sent back on join
+ */
+export async function handleCombatMessage(
+  channel: string,
+  data: {
+    battleId?: string;
+    userId?: string;
+    playerId?: string;
+    socketId?: string;
+    input?: CombatInput;
+  }
+): Promise<void> {
+  const { battleId, userId, socketId } = data;
+  if (!battleId) return;
+
+  let playerId = data.playerId ?? null;
+  if (channel === 'combat:player_joined' || channel === 'combat:spectator_joined') {
+    if (!userId || !socketId) return;
+    playerId = await getPlayerId(userId);
+    if (!playerId) {
+      await publishCombatError({
+        battleId,
+        socketId,
+        message: 'You have no player',
+        code: 'NO_PLAYER',
+      });
+      return;
+    }
+  }
+
+  switch (channel) {
+    case 'combat:player_joined': {
+      if (!playerId || !socketId) return;
+      const session = await getOrStartSession(battleId);
+      if (!session) {
+        await publishCombatError({
+          battleId,
+          playerId,
+          socketId,
+          message: 'Battle is not in combat',
+          code: 'BATTLE_NOT_ACTIVE',
+        });
+        return;
+      }
+      const side = session.getSide(playerId);
+      if (!side) {
+        await publishCombatError({
+          battleId,
+          playerId,
+          socketId,
+          message: 'You are not fighting in this battle',
+          code: 'NOT_A_PARTICIPANT',
+        });
+        return;
+      }
+      await publishCombatJoined({
+        battleId,
+        playerId,
+        socketId,
+        role: 'participant',
+        side,
+        delayMs: 0,
+      });
+      session.playerJoined(playerId);
+      session.requestKeyframe();
+      await publishCombatSetup(side, session.getSetup(side));
+      break;
+    }
+
+    // Spectators only watch - the battle stays on autopilot for absent players
+    case 'combat:spectator_joined': {
+      if (!playerId || !socketId) return;
+      const rejection = await checkSpectator(battleId, playerId);
+      const session = rejection ? null : await getOrStartSession(battleId);
+      if (!session) {
+        await publishCombatError({
+          battleId,
+          playerId,
+          socketId,
+          ...(rejection ?? { message: 'Battle is not in combat', code: 'BATTLE_NOT_ACTIVE' }),
+        });
+        return;
+      }
+      const delayMs = await getSpectatorDelay();
+      await publishCombatJoined({ battleId, playerId, socketId, role: 'spectator', delayMs });
+      session.requestKeyframe();
+      // Spectators watch the attacker's view, without the defender's hidden traps
+      await publishCombatSetup('attacker', session.getSetup('attacker'));
+      break;
+    }
+
+    case 'combat:player_left':
+    case 'combat:player_disconnected':
+      if (playerId) sessions.get(battleId)?.playerLeft(playerId);
+      break;
+
+    // A client missed a state delta - resync just that client
+    // Spectators are never participants, so they get the attacker's view
+    case 'combat:request_state': {
+      const session = sessions.get(battleId);
+      if (!session || !socketId) return;
+      const side = (playerId ? session.getSide(playerId) : null) ?? 'attacker';
+      const keyframe = session.getKeyframe(side);
+      if (keyframe) await publishCombatState(side, keyframe, socketId);
+      break;
+    }
+
+    case 'combat:input': {
+      const session = sessions.get(battleId);
+      if (!session) {
+        if (playerId) {
+          await publishCombatError({
+            battleId,
+            playerId,
+            message: 'Battle is not in combat',
+            code: 'BATTLE_NOT_ACTIVE',
+          });
+        }
+        return;
+      }
+      if (!playerId || !data.input) return;
+      const rejection = session.queueInput(playerId, data.input);
+      if (rejection) await publishCombatError({ battleId, ...rejection });
+      break;
+    }
+  }
+}
+
+/**
+ * Stop all running battles (worker shutdown)
+ */
+export function stopAllCombat(): void {
+  for (const session of sessions.values()) {
+    session.stop();
+  }
+  sessions.clear();
+}
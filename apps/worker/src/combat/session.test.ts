@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { COMBAT } from '@nova-fall/shared';
+import { SIM_TICK_MS, buildArenaLayout, type CombatRunnerConfig } from '@nova-fall/game-logic';
+import { publishCombatState } from '../lib/events.js';
+import { CombatSession } from './session.js';
+
+// Keep the session off Redis
+vi.mock('../lib/events.js', () => ({
+  publishCombatError: vi.fn().mockResolvedValue(undefined),
+  publishCombatState: vi.fn().mockResolvedValue(undefined),
+}));
+
+function createConfig(overrides: Partial<CombatRunnerConfig> = {}): CombatRunnerConfig {
+  return {
+    battleId: 'battle-1',
+    attackerId: 'attacker-1',
+    defenderId: 'defender-1',
+    nodeId: 'node-1',
+    nodeType: 'SETTLEMENT',
+    layout: buildArenaLayout([]),
+    hqMaxHealth: 2000,
+    durationMs: 120_000,
+    seed: 1234,
+    // Held back, so the battle runs until it times out
+    attackerUnits: [
+      {
+        itemId: 'item-militia',
+        unitTypeId: 'militia',
+        count: 1,
+        stats: {
+          health: 100,
+          shield: 0,
+          shieldRange: 0,
+          damage: 10,
+          armor: 0,
+          speed: 600,
+          range: 2,
+          attackSpeed: 1,
+        },
+      },
+    ],
+    defenderUnits: [],
+    buildings: [],
+    ...overrides,
+  };
+}
+
+describe('CombatSession.queueInput', () => {
+  it('rejects commands over the per-second limit', () => {
+    const session = new CombatSession(createConfig(), vi.fn());
+    const burst = Array.from({ length: COMBAT.MAX_INPUTS_PER_SECOND + 1 }, (_, i) =>
+      session.queueInput('attacker-1', {
+        type: 'deploy',
+        unitType: 'militia',
+        position: { x: 0, z: 20 },
+        timestamp: i,
+      })
+    );
+
+    expect(burst.slice(0, -1).every((rejection) => rejection === null)).toBe(true);
+    expect(burst.at(-1)).toMatchObject({ playerId: 'attacker-1', code: 'RATE_LIMITED' });
+    // Each player has their own limit
+    expect(
+      session.queueInput('defender-1', {
+        type: 'deploy',
+        unitType: 'guard',
+        position: { x: 40, z: 20 },
+        timestamp: 0,
+      })
+    ).toBeNull();
+  });
+});
+
+describe('CombatSession tick loop', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.mocked(publishCombatState).mockReset().mockResolvedValue(undefined);
+  });
+
+  it('waits for a slow step to finish before running the next', async () => {
+    vi.useFakeTimers();
+    let release = (): void => undefined;
+    vi.mocked(publishCombatState).mockImplementationOnce(
+      () => new Promise<void>((resolve) => (release = resolve))
+    );
+
+    const session = new CombatSession(createConfig(), vi.fn().mockResolvedValue(undefined));
+    session.start();
+    await vi.advanceTimersByTimeAsync(SIM_TICK_MS * 5);
+    // Stuck publishing the first tick's attacker state
+    expect(publishCombatState).toHaveBeenCalledTimes(1);
+
+    // The overdue next tick runs as soon as it's done, one at a time after that
+    release();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(publishCombatState).toHaveBeenCalledTimes(4);
+    await vi.advanceTimersByTimeAsync(SIM_TICK_MS);
+    expect(publishCombatState).toHaveBeenCalledTimes(6);
+    session.stop();
+  });
+
+  it('keeps the result to finish again when the finish handler fails', async () => {
+    vi.useFakeTimers();
+    const onFinish = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('Database unavailable'))
+      .mockResolvedValue(undefined);
+    const session = new CombatSession(createConfig({ durationMs: SIM_TICK_MS * 2 }), onFinish);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    session.start();
+    await vi.advanceTimersByTimeAsync(SIM_TICK_MS * 3);
+    expect(session.isFinished).toBe(true);
+    expect(onFinish).toHaveBeenCalledTimes(1);
+
+    await expect(session.finish()).resolves.toBe(true);
+    expect(onFinish).toHaveBeenCalledTimes(2);
+    expect(onFinish.mock.calls[1]?.[0]).toEqual(onFinish.mock.calls[0]?.[0]);
+  });
+});
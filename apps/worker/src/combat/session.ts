@@ -0,0 +1,281 @@
+import {
+  COMBAT,
+  type CombatInput,
+  type CombatResult,
+  type CombatSetup,
+  type CombatState,
+  type CombatStateMessage,
+} from '@nova-fall/shared';
+import {
+  BattleReportBuilder,
+  COMMANDER_THINK_INTERVAL_TICKS,
+  CombatRunner,
+  CombatStateEncoder,
+  SIM_TICK_MS,
+  createDefaultCommander,
+  type CombatCommander,
+  type CombatInputRejection,
+  type CombatLogEntry,
+  type CombatRunnerConfig,
+  type CombatSide,
+  type CommanderFactory,
+} from '@nova-fall/game-logic';
+import { publishCombatError, publishCombatState } from '../lib/events.js';
+
+type FinishHandler = (
+  result: CombatResult,
+  log: CombatLogEntry[],
+  report: BattleReportBuilder
+) => Promise<void>;
+
+// Window the input rate limit is counted over (ms)
+const INPUT_RATE_WINDOW_MS = 1000;
+
+/**
+ * A single running battle
+ * Steps the combat runner in real time and streams state to the battle room
+ * as keyframes and deltas, one stream per side so the attacker (and spectators)
+ * never see traps they haven't revealed. Sides without a connected player are
+ * fought by a commander AI (autopilot)
+ */
+export class CombatSession {
+  readonly battleId: string;
+
+  private runner: CombatRunner;
+  private encoders: Record<CombatSide, CombatStateEncoder> = {
+    attacker: new CombatStateEncoder(),
+    defender: new CombatStateEncoder(),
+  };
+  // Collects the report as the battle is fought, so it never needs a replay
+  private report: BattleReportBuilder;
+  private onFinish: FinishHandler;
+  // Kept until the finish handler succeeds, so a failed resolution can be retried
+  private result: CombatResult | null = null;
+  private finishing: Promise<void> | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private connectedPlayers = new Set<string>();
+  private commanders: Record<CombatSide, CombatCommander>;
+  // When each player's recent inputs arrived (playerId -> timestamps in the rate window)
+  private recentInputs = new Map<string, number[]>();
+
+  constructor(
+    config: CombatRunnerConfig,
+    onFinish: FinishHandler,
+    createCommander: CommanderFactory = createDefaultCommander
+  ) {
+    this.battleId = config.battleId;
+    this.runner = new CombatRunner(config);
+    this.report = new BattleReportBuilder(config);
+    this.onFinish = onFinish;
+    this.commanders = {
+      attacker: createCommander('attacker'),
+      defender: createCommander('defender'),
+    };
+  }
+
+  /**
+   * Setup payload for one side's clients entering the battle
+   */
+  getSetup(side: CombatSide): CombatSetup {
+    return this.runner.getSetup(side);
+  }
+
+  /**
+   * Battle log so far (setup plus accepted inputs)
+   */
+  getLog(): CombatLogEntry[] {
+    return this.runner.getLog();
+  }
+
+  /**
+   * Whether the simulation has reached a result
+   */
+  get isFinished(): boolean {
+    return this.runner.isFinished;
+  }
+
+  /**
+   * Start the fixed-rate tick loop
+   */
+  start(): void {
+    if (this.timer || this.runner.isFinished) return;
+    this.scheduleTick(SIM_TICK_MS);
+    console.log(
+      `[Combat] Battle ${this.battleId} started (${this.runner.config.durationMs / 1000}s, seed ${this.runner.config.seed})`
+    );
+  }
+
+  /**
+   * Stop the tick loop without resolving the battle (worker shutdown)
+   */
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Hand the battle's result to the finish handler, again if an earlier attempt failed
+   * Returns false if the battle hasn't ended yet
+   */
+  async finish(): Promise<boolean> {
+    if (!this.result) return false;
+    this.finishing ??= this.onFinish(this.result, this.runner.getLog(), this.report).finally(() => {
+      this.finishing = null;
+    });
+    await this.finishing;
+    return true;
+  }
+
+  /**
+   * A player connected - their side leaves autopilot
+   */
+  playerJoined(playerId: string): void {
+    if (!this.connectedPlayers.has(playerId) && this.getSide(playerId)) {
+      console.log(`[Combat] Battle ${this.battleId}: ${playerId} took control, autopilot off`);
+    }
+    this.connectedPlayers.add(playerId);
+  }
+
+  /**
+   * A player left or disconnected - their side goes back on autopilot
+   */
+  playerLeft(playerId: string): void {
+    if (this.connectedPlayers.delete(playerId) && this.getSide(playerId)) {
+      console.log(`[Combat] Battle ${this.battleId}: ${playerId} absent, autopilot on`);
+    }
+  }
+
+  /**
+   * Which side a player fights on, or null if they aren't fighting in this battle
+   */
+  getSide(playerId: string): CombatSide | null {
+    if (playerId === this.runner.config.attackerId) return 'attacker';
+    if (playerId === this.runner.config.defenderId) return 'defender';
+    return null;
+  }
+
+  /**
+   * Check if a side is currently fought by its commander AI
+   */
+  isAutopilot(side: CombatSide): boolean {
+    const { attackerId, defenderId } = this.runner.config;
+    return !this.connectedPlayers.has(side === 'attacker' ? attackerId : defenderId);
+  }
+
+  /**
+   * Send the next state as a full keyframe (a client joined)
+   */
+  requestKeyframe(): void {
+    this.encoders.attacker.requestKeyframe();
+    this.encoders.defender.requestKeyframe();
+  }
+
+  /**
+   * The side's latest state as a keyframe, for a single client that missed a delta
+   */
+  getKeyframe(side: CombatSide): CombatStateMessage | null {
+    return this.encoders[side].getKeyframe();
+  }
+
+  /**
+   * Queue a player's input for the next tick
+   * The runner validates it when applied; inputs over the rate limit are rejected here
+   */
+  queueInput(playerId: string, input: CombatInput): CombatInputRejection | null {
+    const now = Date.now();
+    const recent = (this.recentInputs.get(playerId) ?? []).filter(
+      (at) => now - at < INPUT_RATE_WINDOW_MS
+    );
+    if (recent.length >= COMBAT.MAX_INPUTS_PER_SECOND) {
+      this.recentInputs.set(playerId, recent);
+      return { playerId, message: 'Too many commands, slow down', code: 'RATE_LIMITED' };
+    }
+
+    recent.push(now);
+    this.recentInputs.set(playerId, recent);
+    this.runner.queueInput(playerId, input);
+    return null;
+  }
+
+  /**
+   * Build the current client-facing state snapshot for one side
+   */
+  getState(side: CombatSide): CombatState {
+    return this.runner.getState([], side);
+  }
+
+  /**
+   * Run the next step once the tick interval is up
+   * Each step is scheduled after the last one finishes, so a slow publish delays
+   * the next tick instead of running two steps at once
+   */
+  private scheduleTick(delay: number): void {
+    this.timer = setTimeout(() => {
+      const startedAt = Date.now();
+      this.step()
+        .catch((err) => {
+          console.error(`[Combat] Tick failed for battle ${this.battleId}:`, err);
+        })
+        .finally(() => {
+          // Stopped (or finished) while the step ran
+          if (!this.timer || this.runner.isFinished) return;
+          this.scheduleTick(Math.max(0, SIM_TICK_MS - (Date.now() - startedAt)));
+        });
+    }, delay);
+  }
+
+  /**
+   * Advance the simulation by one fixed step and broadcast the result
+   */
+  private async step(): Promise<void> {
+    if (this.runner.isFinished) return;
+
+    if (this.runner.tick % COMMANDER_THINK_INTERVAL_TICKS === 0) {
+      this.runCommanders();
+    }
+
+    const { events, rejections, result } = this.runner.step();
+    this.report.addEvents(events);
+    if (result) {
+      this.result = result;
+      this.stop();
+    }
+
+    for (const rejection of rejections) {
+      // Commander inputs are rejected silently - nobody is there to see them
+      if (!this.connectedPlayers.has(rejection.playerId)) continue;
+      await publishCombatError({ battleId: this.battleId, ...rejection });
+    }
+
+    for (const side of ['attacker', 'defender'] as const) {
+      await publishCombatState(
+        side,
+        this.encoders[side].encode(this.runner.getState(events, side))
+      );
+    }
+
+    if (result) {
+      console.log(
+        `[Combat] Battle ${this.battleId} ended: ${result.reason} (winner ${result.winnerId ?? 'none'})`
+      );
+      await this.finish();
+    }
+  }
+
+  /**
+   * Let the commander AI issue inputs for every side on autopilot
+   * Its inputs go through the runner like a player's, so they're validated and logged
+   */
+  private runCommanders(): void {
+    for (const side of ['attacker', 'defender'] as const) {
+      if (!this.isAutopilot(side)) continue;
+
+      const view = this.runner.getCommanderView(side);
+      for (const input of this.commanders[side].think(view)) {
+        this.runner.queueInput(view.playerId, input);
+      }
+    }
+  }
+}
@@ -5,6 +5,9 @@ import { processUpkeep } from './jobs/upkeep.js';
 import { processCompletedTransfers } from './jobs/transfers.js';
 import { processKOTHVictory, handleCrownOwnershipChange, checkDominationVictory } from './jobs/victory.js';
 import { processCompletedCrafts, CRAFTING_JOB_INTERVAL_MS } from './jobs/crafting.js';
+import { processBattlePhases, BATTLE_JOB_INTERVAL_MS } from './jobs/battles.js';
+import { processForecast, type ForecastJobData } from './jobs/forecast.js';
+import { COMBAT_CHANNELS, handleCombatMessage, stopAllCombat } from './combat/index.js';
 
 export const VERSION = '0.1.0';
 
@@ -13,6 +16,8 @@ const UPKEEP_QUEUE = 'upkeep';
 const TRANSFERS_QUEUE = 'transfers';
 const VICTORY_QUEUE = 'victory';
 const CRAFTING_QUEUE = 'crafting';
+const BATTLES_QUEUE = 'battles';
+const FORECASTS_QUEUE = 'forecasts';
 
 // Create queues
 const upkeepQueue = new Queue(UPKEEP_QUEUE, {
@@ -47,6 +52,22 @@ const craftingQueue = new Queue(CRAFTING_QUEUE, {
   },
 });
 
+const battlesQueue = new Queue(BATTLES_QUEUE, {
+  connection: redis,
+  defaultJobOptions: {
+    removeOnComplete: 10,
+    removeOnFail: 50,
+  },
+});
+
+const forecastsQueue = new Queue(FORECASTS_QUEUE, {
+  connection: redis,
+  defaultJobOptions: {
+    removeOnComplete: 10,
+    removeOnFail: 50,
+  },
+});
+
 // Create workers
 const upkeepWorker = new Worker(
   UPKEEP_QUEUE,
@@ -104,6 +125,31 @@ const craftingWorker = new Worker(
   }
 );
 
+// Battles worker moves battles through prep, forces lock, combat and resolution
+const battlesWorker = new Worker(
+  BATTLES_QUEUE,
+  async () => {
+    await processBattlePhases();
+  },
+  {
+    connection: redis,
+    concurrency: 1,
+  }
+);
+
+// Forecasts worker simulates battle forecasts queued by the API
+// One at a time, so they never crowd out live battles
+const forecastsWorker = new Worker(
+  FORECASTS_QUEUE,
+  async (job) => {
+    await processForecast(job.data as ForecastJobData);
+  },
+  {
+    connection: redis,
+    concurrency: 1,
+  }
+);
+
 // Handle worker events
 upkeepWorker.on('completed', () => {
   // Silent completion - logged in job itself
@@ -141,6 +187,22 @@ craftingWorker.on('error', (err) => {
   console.error('Crafting worker error:', err);
 });
 
+battlesWorker.on('failed', (job, err) => {
+  console.error(`Battles job ${job?.id} failed:`, err);
+});
+
+battlesWorker.on('error', (err) => {
+  console.error('Battles worker error:', err);
+});
+
+forecastsWorker.on('failed', (job, err) => {
+  console.error(`Forecasts job ${job?.id} failed:`, err);
+});
+
+forecastsWorker.on('error', (err) => {
+  console.error('Forecasts worker error:', err);
+});
+
 // Setup repeating jobs
 async function setupRepeatingJobs(): Promise<void> {
   // Remove any existing repeating jobs from upkeep queue
@@ -168,6 +230,12 @@ async function setupRepeatingJobs(): Promise<void> {
     await craftingQueue.removeRepeatableByKey(job.key);
   }
 
+  // Remove any existing repeating jobs from battles queue
+  const battlesRepeatableJobs = await battlesQueue.getRepeatableJobs();
+  for (const job of battlesRepeatableJobs) {
+    await battlesQueue.removeRepeatableByKey(job.key);
+  }
+
   // Run upkeep immediately on startup to initialize timer and process any pending work
   console.log('Running initial upkeep job...');
   await upkeepQueue.add('upkeep-init', {});
@@ -225,12 +293,28 @@ async function setupRepeatingJobs(): Promise<void> {
     }
   );
   console.log(`Crafting job aligned to epoch (first tick in ${delayUntilNextTick}ms, then every 30s)`);
+
+  // Run battle phases immediately to pick up battles that came due while offline
+  console.log('Running initial battles job...');
+  await battlesQueue.add('battles-init', {});
+
+  await battlesQueue.add(
+    'battles',
+    {},
+    {
+      delay: delayUntilNextTick,
+      repeat: {
+        every: BATTLE_JOB_INTERVAL_MS,
+      },
+    }
+  );
+  console.log(`Battles job aligned to epoch (first tick in ${delayUntilNextTick}ms, then every 30s)`);
 }
 
 // Setup victory event subscriptions
 async function setupVictoryEventSubscription(): Promise<void> {
   // Subscribe to victory-related events from API
-  await subscriberRedis.subscribe('crown:changed', 'hq:captured', 'crafting:schedule');
+  await subscriberRedis.subscribe('crown:changed', 'hq:captured', 'crafting:schedule', 'forecast:schedule');
 
   subscriberRedis.on('message', async (channel, message) => {
     try {
@@ -258,27 +342,55 @@ async function setupVictoryEventSubscription(): Promise<void> {
             console.log(`[Worker] Scheduled crafting job for ${data.nodeId} in ${data.delay}ms`);
           }
           break;
+
+        case 'forecast:schedule':
+          // Queue a battle forecast the API has no result for yet
+          await forecastsQueue.add('forecast', data as ForecastJobData);
+          break;
       }
     } catch (err) {
       console.error(`[Worker] Error handling ${channel} event:`, err);
     }
   });
 
-  console.log('Victory and crafting event subscriptions active');
+  console.log('Victory, crafting and forecast event subscriptions active');
+}
+
+// Setup combat event subscriptions (published by ws-server)
+async function setupCombatEventSubscription(): Promise<void> {
+  await subscriberRedis.subscribe(...COMBAT_CHANNELS);
+
+  subscriberRedis.on('message', async (channel, message) => {
+    if (!channel.startsWith('combat:')) return;
+
+    try {
+      await handleCombatMessage(channel, JSON.parse(message));
+    } catch (err) {
+      console.error(`[Combat] Error handling ${channel} event:`, err);
+    }
+  });
+
+  console.log('Combat event subscriptions active');
 }
 
 // Graceful shutdown
 async function shutdown(): Promise<void> {
   console.log('Shutting down worker...');
 
+  stopAllCombat();
+
   await upkeepWorker.close();
   await transfersWorker.close();
   await victoryWorker.close();
   await craftingWorker.close();
+  await battlesWorker.close();
+  await forecastsWorker.close();
   await upkeepQueue.close();
   await transfersQueue.close();
   await victoryQueue.close();
   await craftingQueue.close();
+  await battlesQueue.close();
+  await forecastsQueue.close();
   await subscriberRedis.quit();
   await redis.quit();
   await prisma.$disconnect();
@@ -306,6 +418,9 @@ async function main(): Promise<void> {
     // Setup victory event subscriptions
     await setupVictoryEventSubscription();
 
+    // Setup combat event subscriptions
+    await setupCombatEventSubscription();
+
     console.log('Worker ready and processing jobs');
   } catch (error) {
     console.error('Failed to start worker:', error);
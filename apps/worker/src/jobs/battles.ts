@@ -0,0 +1,189 @@
+import {
+  COMBAT,
+  type BattleDefenseState,
+  type BattleUnitGroup,
+  type ItemStorage,
+} from '@nova-fall/shared';
+import { prisma } from '../lib/prisma.js';
+import { publishBattleUpdate, publishNodeUpdate } from '../lib/events.js';
+import { isCombatRunning, retryUnresolvedCombats, startCombat } from '../combat/index.js';
+import { resolveBattle } from './resolution.js';
+
+export const BATTLE_JOB_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Snapshot the defender's garrison and structures when forces lock
+ * Garrison units are the unit items stored at the node
+ */
+async function snapshotDefense(nodeId: string, tier: number): Promise<BattleDefenseState> {
+  const [node, buildings] = await Promise.all([
+    prisma.node.findUniqueOrThrow({ where: { id: nodeId }, select: { storage: true } }),
+    prisma.building.findMany({
+      where: { nodeId, isActive: true, isConstructing: false },
+      select: { id: true, typeId: true, gridX: true, gridY: true },
+    }),
+  ]);
+
+  const storage = node.storage as ItemStorage;
+  const storedItemIds = Object.keys(storage).filter((itemId) => (storage[itemId] ?? 0) > 0);
+
+  const unitItems = await prisma.itemDefinition.findMany({
+    where: { itemId: { in: storedItemIds }, unitDefinitionId: { not: null } },
+    select: { itemId: true, unitDefinitionId: true },
+  });
+
+  const units: BattleUnitGroup[] = [];
+  for (const item of unitItems) {
+    if (!item.unitDefinitionId) continue;
+    units.push({
+      itemId: item.itemId,
+      unitTypeId: item.unitDefinitionId,
+      count: storage[item.itemId] ?? 0,
+    });
+  }
+
+  return {
+    units,
+    buildings: buildings.map((b) => ({
+      id: b.id,
+      buildingTypeId: b.typeId,
+      position: { x: b.gridX, z: b.gridY },
+      rotation: 0,
+    })),
+    hqMaxHealth: COMBAT.HQ_BASE_HEALTH * (1 + (tier - 1) * 0.5),
+  };
+}
+
+/**
+ * PREP_PHASE -> FORCES_LOCKED once forcesLockedAt passes
+ */
+async function lockDueForces(now: Date): Promise<number> {
+  const battles = await prisma.battle.findMany({
+    where: { status: 'PREP_PHASE', forcesLockedAt: { lte: now } },
+    include: { node: { select: { tier: true, gameSessionId: true } } },
+  });
+
+  for (const battle of battles) {
+    const defenseState = await snapshotDefense(battle.nodeId, battle.node.tier);
+
+    // Keep target priorities and consumables the defender set during prep
+    const { targetPriorities, consumables } = battle.defenseState as unknown as BattleDefenseState;
+    if (targetPriorities) defenseState.targetPriorities = targetPriorities;
+    if (consumables) defenseState.consumables = consumables;
+
+    const { count } = await prisma.battle.updateMany({
+      where: { id: battle.id, status: 'PREP_PHASE' },
+      data: { status: 'FORCES_LOCKED', defenseState: defenseState as object },
+    });
+    if (count === 0) continue;
+
+    console.log(`[Battles] Forces locked for battle ${battle.id}`);
+
+    if (battle.node.gameSessionId) {
+      await publishBattleUpdate({
+        battleId: battle.id,
+        status: 'FORCES_LOCKED',
+        data: { nodeId: battle.nodeId, prepEndsAt: battle.prepEndsAt.toISOString() },
+        sessionId: battle.node.gameSessionId,
+      });
+    }
+  }
+
+  return battles.length;
+}
+
+/**
+ * FORCES_LOCKED -> IN_PROGRESS once prepEndsAt passes, then start the combat session
+ */
+async function startDueCombats(now: Date): Promise<number> {
+  const battles = await prisma.battle.findMany({
+    where: { status: 'FORCES_LOCKED', prepEndsAt: { lte: now } },
+    include: { node: { select: { gameSessionId: true } } },
+  });
+
+  for (const battle of battles) {
+    const combatEndsAt = new Date(now.getTime() + COMBAT.COMBAT_DURATION);
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.battle.updateMany({
+        where: { id: battle.id, status: 'FORCES_LOCKED' },
+        data: { status: 'IN_PROGRESS', combatStartedAt: now, combatEndsAt },
+      });
+      if (count === 0) return false;
+
+      await tx.node.update({ where: { id: battle.nodeId }, data: { status: 'UNDER_ATTACK' } });
+      return true;
+    });
+    if (!updated) continue;
+
+    console.log(`[Battles] Combat started for battle ${battle.id}`);
+
+    if (battle.node.gameSessionId) {
+      await publishNodeUpdate(battle.nodeId, { status: 'UNDER_ATTACK' }, battle.node.gameSessionId);
+      await publishBattleUpdate({
+        battleId: battle.id,
+        status: 'IN_PROGRESS',
+        data: { nodeId: battle.nodeId, combatEndsAt: combatEndsAt.toISOString() },
+        sessionId: battle.node.gameSessionId,
+      });
+    }
+
+    await startCombat(battle.id);
+  }
+
+  return battles.length;
+}
+
+/**
+ * Keep IN_PROGRESS battles running after a worker restart, and resolve any
+ * whose combat window closed without a session to finish them
+ */
+async function recoverInProgressCombats(now: Date): Promise<void> {
+  // Battles the simulation decided, but that failed to resolve - keep their result
+  await retryUnresolvedCombats();
+
+  const battles = await prisma.battle.findMany({
+    where: { status: 'IN_PROGRESS' },
+    select: { id: true, combatEndsAt: true, defenderId: true, defenseState: true },
+  });
+
+  for (const battle of battles) {
+    if (isCombatRunning(battle.id)) continue;
+
+    if (battle.combatEndsAt && battle.combatEndsAt > now) {
+      await startCombat(battle.id);
+      continue;
+    }
+
+    // HQ survived the timer
+    const defenseState = battle.defenseState as unknown as BattleDefenseState;
+    await resolveBattle({
+      battleId: battle.id,
+      winnerId: battle.defenderId,
+      reason: 'timeout',
+      attackerLosses: {},
+      attackerRetreated: {},
+      defenderLosses: {},
+      attackerConsumablesUsed: {},
+      defenderConsumablesUsed: {},
+      duration: COMBAT.COMBAT_DURATION / 1000,
+      finalHqHealth: defenseState.hqMaxHealth,
+      unitRecords: [],
+    });
+  }
+}
+
+/**
+ * Move battles through their phases (called every 30 seconds by worker)
+ */
+export async function processBattlePhases(): Promise<void> {
+  const now = new Date();
+
+  const locked = await lockDueForces(now);
+  const started = await startDueCombats(now);
+  await recoverInProgressCombats(now);
+
+  if (locked > 0 || started > 0) {
+    console.log(`[Battles] Phase check: ${locked} locked, ${started} started`);
+  }
+}
@@ -0,0 +1,32 @@
+import { forecastBattleAsync, type CombatRunnerConfig } from '@nova-fall/game-logic';
+import { redis } from '../lib/redis.js';
+
+// A forecast queued by the API (see getBattleForecast)
+export interface ForecastJobData {
+  cacheKey: string;
+  pendingKey: string;
+  cacheTtl: number; // seconds
+  config: CombatRunnerConfig;
+  runs: number;
+  seed: number;
+}
+
+/**
+ * Simulate a battle forecast and cache it where the API looks for it
+ * Runs hand the event loop back in between, so live battles keep ticking
+ */
+export async function processForecast(data: ForecastJobData): Promise<void> {
+  const forecast = await forecastBattleAsync(
+    data.config,
+    { runs: data.runs, seed: data.seed },
+    () => new Promise((resolve) => setImmediate(resolve))
+  );
+
+  await redis.setex(
+    data.cacheKey,
+    data.cacheTtl,
+    JSON.stringify({ forecast, generatedAt: new Date().toISOString() })
+  );
+  await redis.del(data.pendingKey);
+  console.log(`[Forecast] ${data.cacheKey} done (${data.runs} runs)`);
+}
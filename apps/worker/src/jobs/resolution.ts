@@ -0,0 +1,520 @@
+import {
+  COMBAT,
+  calculateCombatExperience,
+  getVeterancyFromExperience,
+  type BattleAttackForce,
+  type BattleDefenseState,
+  type BattleUnitGroup,
+  type CombatResult,
+  type CombatUnitRecord,
+  type ItemStorage,
+} from '@nova-fall/shared';
+import { prisma } from '../lib/prisma.js';
+import { publishBattleUpdate, publishNodeUpdate } from '../lib/events.js';
+import { checkDominationVictory, handleCrownOwnershipChange } from './victory.js';
+
+type TransactionClient = Parameters<Parameters<typeof prisma.$transaction>[0]>[0];
+
+/**
+ * Surviving units per itemId after combat losses
+ * Losses are reported per unit type, so they are taken from each matching group in turn
+ */
+function getSurvivors(
+  groups: BattleUnitGroup[],
+  losses: Record<string, number>
+): Map<string, number> {
+  const remainingLosses = new Map(Object.entries(losses));
+  const survivors = new Map<string, number>();
+
+  for (const group of groups) {
+    const lost = Math.min(group.count, remainingLosses.get(group.unitTypeId) ?? 0);
+    remainingLosses.set(group.unitTypeId, (remainingLosses.get(group.unitTypeId) ?? 0) - lost);
+    if (group.count - lost > 0) {
+      survivors.set(group.itemId, (survivors.get(group.itemId) ?? 0) + group.count - lost);
+    }
+  }
+
+  return survivors;
+}
+
+/**
+ * Split attacker survivors into the units holding the field and those that retreated
+ * Retreats are reported per unit type like losses, and taken from the survivors the same way
+ */
+function splitRetreated(
+  groups: BattleUnitGroup[],
+  losses: Record<string, number>,
+  retreated: Record<string, number>
+): { holding: Map<string, number>; retreated: Map<string, number> } {
+  const survivors = getSurvivors(groups, losses);
+  const gone = { ...losses };
+  for (const [unitTypeId, count] of Object.entries(retreated)) {
+    gone[unitTypeId] = (gone[unitTypeId] ?? 0) + count;
+  }
+  const holding = getSurvivors(groups, gone);
+
+  const withdrawn = new Map<string, number>();
+  for (const [itemId, count] of survivors) {
+    const left = count - (holding.get(itemId) ?? 0);
+    if (left > 0) withdrawn.set(itemId, left);
+  }
+
+  return { holding, retreated: withdrawn };
+}
+
+/**
+ * Consumables loaded for the battle that were never used, per itemId
+ */
+function getUnusedConsumables(
+  loaded: Record<string, number> = {},
+  used: Record<string, number>
+): Map<string, number> {
+  const unused = new Map<string, number>();
+  for (const [itemId, count] of Object.entries(loaded)) {
+    const left = count - (used[itemId] ?? 0);
+    if (left > 0) unused.set(itemId, left);
+  }
+  return unused;
+}
+
+function addToStorage(storage: ItemStorage, items: Map<string, number>): ItemStorage {
+  const result = { ...storage };
+  for (const [itemId, count] of items) {
+    result[itemId] = (result[itemId] ?? 0) + count;
+  }
+  return result;
+}
+
+function mergeItems(a: Map<string, number>, b: Map<string, number>): Map<string, number> {
+  const merged = new Map(a);
+  for (const [itemId, count] of b) {
+    merged.set(itemId, (merged.get(itemId) ?? 0) + count);
+  }
+  return merged;
+}
+
+/**
+ * Split a node's storage into its garrison (unit items) and everything else
+ */
+async function splitGarrison(
+  tx: TransactionClient,
+  storage: ItemStorage
+): Promise<{ garrison: BattleUnitGroup[]; rest: ItemStorage }> {
+  const storedItemIds = Object.keys(storage).filter((itemId) => (storage[itemId] ?? 0) > 0);
+  const unitItems = await tx.itemDefinition.findMany({
+    where: { itemId: { in: storedItemIds }, unitDefinitionId: { not: null } },
+    select: { itemId: true, unitDefinitionId: true },
+  });
+
+  const garrison: BattleUnitGroup[] = [];
+  for (const item of unitItems) {
+    if (!item.unitDefinitionId) continue;
+    garrison.push({
+      itemId: item.itemId,
+      unitTypeId: item.unitDefinitionId,
+      count: storage[item.itemId] ?? 0,
+    });
+  }
+
+  const unitItemIds = new Set(garrison.map((g) => g.itemId));
+  const rest = Object.fromEntries(
+    Object.entries(storage).filter(([itemId]) => !unitItemIds.has(itemId))
+  ) as ItemStorage;
+
+  return { garrison, rest };
+}
+
+interface StorageChange {
+  nodeId: string;
+  storage: ItemStorage;
+}
+
+// Consumables loaded during prep but never used, per side
+interface UnusedConsumables {
+  attacker: Map<string, number>;
+  defender: Map<string, number>;
+}
+
+interface ResolutionOutcome {
+  storageChanges: StorageChange[];
+  ownershipChanged: boolean;
+  hqCaptured: boolean;
+  // Where each side's survivors went (null = survivors lost)
+  survivorNodes: {
+    attacker: string | null;
+    retreated: string | null; // Attackers that retreated off the field
+    defender: string | null;
+  };
+}
+
+/**
+ * Send attacker units and unused consumables home to the origin node
+ * Returns the origin node ID, or null if it changed hands and they are lost
+ */
+async function returnToOrigin(
+  tx: TransactionClient,
+  battle: { attackerId: string; originNodeId: string },
+  items: Map<string, number>,
+  storageChanges: StorageChange[]
+): Promise<string | null> {
+  const origin = await tx.node.findUnique({
+    where: { id: battle.originNodeId },
+    select: { ownerId: true, storage: true },
+  });
+  if (origin?.ownerId !== battle.attackerId) return null;
+
+  if (items.size > 0) {
+    const storage = addToStorage(origin.storage as ItemStorage, items);
+    await tx.node.update({ where: { id: battle.originNodeId }, data: { storage } });
+    storageChanges.push({ nodeId: battle.originNodeId, storage });
+  }
+  return battle.originNodeId;
+}
+
+/**
+ * Attacker victory (GDD 4.7):
+ * - Defender garrison withdraws to a random adjacent friendly node (destroyed if there is none)
+ * - Node, its buildings and its storage pass to the attacker, along with the
+ *   defender's unused consumables
+ * - Attacker survivors become the new garrison, apart from those that retreated,
+ *   which go back to the origin node with the attacker's unused consumables
+ */
+async function applyAttackerVictory(
+  tx: TransactionClient,
+  battle: { nodeId: string; attackerId: string; defenderId: string | null; originNodeId: string },
+  sessionId: string,
+  attackerSurvivors: Map<string, number>,
+  retreatedSurvivors: Map<string, number>,
+  defenderLosses: Record<string, number>,
+  consumables: UnusedConsumables,
+  now: Date
+): Promise<ResolutionOutcome> {
+  const node = await tx.node.findUniqueOrThrow({
+    where: { id: battle.nodeId },
+    include: {
+      connectionsFrom: { select: { toNodeId: true } },
+      connectionsTo: { select: { fromNodeId: true } },
+    },
+  });
+
+  const storageChanges: StorageChange[] = [];
+  const { garrison, rest } = await splitGarrison(tx, node.storage as ItemStorage);
+  const defenderSurvivors = getSurvivors(garrison, defenderLosses);
+
+  // Withdraw surviving defenders
+  let retreatNodeId: string | null = null;
+  if (battle.defenderId && defenderSurvivors.size > 0) {
+    const adjacentNodeIds = [
+      ...node.connectionsFrom.map((c) => c.toNodeId),
+      ...node.connectionsTo.map((c) => c.fromNodeId),
+    ];
+    const friendlyNodes = await tx.node.findMany({
+      where: { id: { in: adjacentNodeIds }, ownerId: battle.defenderId },
+      select: { id: true, storage: true },
+    });
+
+    const retreatNode = friendlyNodes[Math.floor(Math.random() * friendlyNodes.length)];
+    if (retreatNode) {
+      retreatNodeId = retreatNode.id;
+      const storage = addToStorage(retreatNode.storage as ItemStorage, defenderSurvivors);
+      await tx.node.update({ where: { id: retreatNode.id }, data: { storage } });
+      storageChanges.push({ nodeId: retreatNode.id, storage });
+    }
+  }
+
+  // Transfer the node (buildings belong to the node and change hands with it)
+  const storage = addToStorage(addToStorage(rest, consumables.defender), attackerSurvivors);
+  await tx.node.update({
+    where: { id: battle.nodeId },
+    data: { ownerId: battle.attackerId, claimedAt: now, storage },
+  });
+  storageChanges.push({ nodeId: battle.nodeId, storage });
+
+  const originNodeId = await returnToOrigin(
+    tx,
+    battle,
+    mergeItems(retreatedSurvivors, consumables.attacker),
+    storageChanges
+  );
+
+  // Node counts and HQ
+  let hqCaptured = false;
+  await tx.gameSessionPlayer.updateMany({
+    where: { gameSessionId: sessionId, playerId: battle.attackerId },
+    data: { totalNodes: { increment: 1 } },
+  });
+  await tx.player.update({
+    where: { id: battle.attackerId },
+    data: { totalNodes: { increment: 1 } },
+  });
+
+  if (battle.defenderId) {
+    const defender = await tx.gameSessionPlayer.findFirst({
+      where: { gameSessionId: sessionId, playerId: battle.defenderId },
+      include: { gameSession: { select: { gameType: true } } },
+    });
+
+    if (defender) {
+      const data: { totalNodes: { decrement: number }; hqNodeId?: string | null } = {
+        totalNodes: { decrement: 1 },
+      };
+
+      hqCaptured = defender.hqNodeId === battle.nodeId;
+      // Domination eliminates a player whose HQ node is taken, so the HQ stays put there
+      if (hqCaptured && defender.gameSession.gameType !== 'DOMINATION') {
+        const fallback = await tx.node.findFirst({
+          where: { gameSessionId: sessionId, ownerId: battle.defenderId },
+          orderBy: { claimedAt: 'asc' },
+          select: { id: true },
+        });
+        data.hqNodeId = fallback?.id ?? null;
+      }
+
+      await tx.gameSessionPlayer.update({ where: { id: defender.id }, data });
+    }
+
+    await tx.player.update({
+      where: { id: battle.defenderId },
+      data: { totalNodes: { decrement: 1 } },
+    });
+  }
+
+  return {
+    storageChanges,
+    ownershipChanged: true,
+    hqCaptured,
+    survivorNodes: { attacker: battle.nodeId, retreated: originNodeId, defender: retreatNodeId },
+  };
+}
+
+/**
+ * Defender victory (GDD 4.7):
+ * - Attacker survivors withdraw to the origin node (lost if it changed hands)
+ * - Defender losses are removed from the node's garrison
+ * - Unused consumables go back to the storage they were loaded from
+ */
+async function applyDefenderVictory(
+  tx: TransactionClient,
+  battle: { nodeId: string; attackerId: string; originNodeId: string },
+  attackerSurvivors: Map<string, number>,
+  defenderLosses: Record<string, number>,
+  consumables: UnusedConsumables
+): Promise<ResolutionOutcome> {
+  const storageChanges: StorageChange[] = [];
+  const originNodeId = await returnToOrigin(
+    tx,
+    battle,
+    mergeItems(attackerSurvivors, consumables.attacker),
+    storageChanges
+  );
+
+  if (Object.keys(defenderLosses).length > 0 || consumables.defender.size > 0) {
+    const node = await tx.node.findUniqueOrThrow({
+      where: { id: battle.nodeId },
+      select: { storage: true },
+    });
+    const { garrison, rest } = await splitGarrison(tx, node.storage as ItemStorage);
+    const storage = addToStorage(
+      addToStorage(rest, getSurvivors(garrison, defenderLosses)),
+      consumables.defender
+    );
+    await tx.node.update({ where: { id: battle.nodeId }, data: { storage } });
+    storageChanges.push({ nodeId: battle.nodeId, storage });
+  }
+
+  return {
+    storageChanges,
+    ownershipChanged: false,
+    hqCaptured: false,
+    survivorNodes: { attacker: originNodeId, retreated: originNodeId, defender: battle.nodeId },
+  };
+}
+
+/**
+ * Award combat experience (COMBAT-MODE-DESIGN 5.5)
+ * Unit items are stacks, so only units that have earned experience are tracked
+ * individually, as Unit rows that follow their survivors. Veterans that died,
+ * or whose survivors were lost, lose their rows
+ */
+async function applyVeterancy(
+  tx: TransactionClient,
+  battle: { attackerId: string; defenderId: string | null },
+  records: CombatUnitRecord[],
+  survivorNodes: ResolutionOutcome['survivorNodes']
+): Promise<void> {
+  for (const record of records) {
+    // Neutral defenders have no player to keep units for
+    const isAttacker = record.ownerId === battle.attackerId;
+    if (!isAttacker && record.ownerId !== battle.defenderId) continue;
+
+    let nodeId = isAttacker ? survivorNodes.attacker : survivorNodes.defender;
+    if (isAttacker && record.retreated) nodeId = survivorNodes.retreated;
+    if (!record.survived || !nodeId) {
+      if (record.veteranId) await tx.unit.deleteMany({ where: { id: record.veteranId } });
+      continue;
+    }
+
+    const gained = calculateCombatExperience(record);
+    if (record.veteranId) {
+      const unit = await tx.unit.findUnique({
+        where: { id: record.veteranId },
+        select: { experience: true },
+      });
+      if (!unit) continue;
+
+      const experience = unit.experience + gained;
+      await tx.unit.update({
+        where: { id: record.veteranId },
+        data: { experience, veterancy: getVeterancyFromExperience(experience), nodeId },
+      });
+    } else if (gained > 0) {
+      await tx.unit.create({
+        data: {
+          typeId: record.unitTypeId,
+          playerId: record.ownerId,
+          health: record.maxHealth,
+          maxHealth: record.maxHealth,
+          experience: gained,
+          veterancy: getVeterancyFromExperience(gained),
+          nodeId,
+        },
+      });
+    }
+  }
+}
+
+/**
+ * Resolve a finished battle
+ * Applies the outcome, records the result and starts the node's post-battle
+ * immunity and attack cooldown. Returns false if the battle was already resolved
+ */
+export async function resolveBattle(result: CombatResult): Promise<boolean> {
+  const battle = await prisma.battle.findUnique({
+    where: { id: result.battleId },
+    include: { node: { select: { gameSessionId: true } } },
+  });
+
+  if (battle?.status !== 'IN_PROGRESS') {
+    return false;
+  }
+
+  const sessionId = battle.node.gameSessionId;
+  if (!sessionId) {
+    console.error(`[Battles] Battle ${battle.id} node has no game session`);
+    return false;
+  }
+
+  const now = new Date();
+  const attackerWon = result.winnerId === battle.attackerId;
+  const battleResult = attackerWon ? 'ATTACKER_VICTORY' : 'DEFENDER_VICTORY';
+  const attackForce = battle.attackForce as unknown as BattleAttackForce;
+  const attackerSurvivors = getSurvivors(attackForce.units, result.attackerLosses);
+  const { holding, retreated } = splitRetreated(
+    attackForce.units,
+    result.attackerLosses,
+    result.attackerRetreated
+  );
+  const defenseState = battle.defenseState as unknown as BattleDefenseState;
+  const consumables: UnusedConsumables = {
+    attacker: getUnusedConsumables(attackForce.consumables, result.attackerConsumablesUsed),
+    defender: getUnusedConsumables(defenseState.consumables, result.defenderConsumablesUsed),
+  };
+
+  const outcome = await prisma.$transaction(async (tx) => {
+    // Guard against a concurrent resolution (combat end racing the phase job)
+    const { count } = await tx.battle.updateMany({
+      where: { id: battle.id, status: 'IN_PROGRESS' },
+      data: { status: 'RESOLVED', result: battleResult, resolvedAt: now },
+    });
+    if (count === 0) return null;
+
+    const applied = attackerWon
+      ? await applyAttackerVictory(
+          tx,
+          battle,
+          sessionId,
+          holding,
+          retreated,
+          result.defenderLosses,
+          consumables,
+          now
+        )
+      : await applyDefenderVictory(
+          tx,
+          battle,
+          attackerSurvivors,
+          result.defenderLosses,
+          consumables
+        );
+
+    await applyVeterancy(tx, battle, result.unitRecords, applied.survivorNodes);
+
+    await tx.node.update({
+      where: { id: battle.nodeId },
+      data: {
+        status: 'CLAIMED',
+        lastAttackedAt: now,
+        attackImmunityUntil: new Date(now.getTime() + COMBAT.POST_BATTLE_IMMUNITY),
+        attackCooldownUntil: new Date(now.getTime() + COMBAT.ATTACK_COOLDOWN),
+      },
+    });
+
+    return applied;
+  });
+
+  if (!outcome) {
+    return false;
+  }
+
+  console.log(`[Battles] Battle ${battle.id} resolved: ${battleResult} (${result.reason})`);
+
+  for (const change of outcome.storageChanges) {
+    if (change.nodeId === battle.nodeId) continue;
+    await publishNodeUpdate(change.nodeId, { storage: change.storage }, sessionId);
+  }
+
+  const nodeChanges: Record<string, unknown> = { status: 'CLAIMED' };
+  const nodeStorage = outcome.storageChanges.find((c) => c.nodeId === battle.nodeId);
+  if (nodeStorage) {
+    nodeChanges.storage = nodeStorage.storage;
+  }
+  if (outcome.ownershipChanged) {
+    const attacker = await prisma.player.findUnique({
+      where: { id: battle.attackerId },
+      select: { displayName: true },
+    });
+    nodeChanges.ownerId = battle.attackerId;
+    nodeChanges.ownerName = attacker?.displayName;
+  }
+  await publishNodeUpdate(battle.nodeId, nodeChanges, sessionId);
+
+  await publishBattleUpdate({
+    battleId: battle.id,
+    status: 'RESOLVED',
+    data: {
+      nodeId: battle.nodeId,
+      attackerId: battle.attackerId,
+      defenderId: battle.defenderId,
+      result: battleResult,
+      winnerId: result.winnerId,
+      reason: result.reason,
+    },
+    sessionId,
+  });
+
+  // Let the victory conditions react to the conquest
+  if (outcome.ownershipChanged) {
+    const session = await prisma.gameSession.findUnique({
+      where: { id: sessionId },
+      select: { crownNodeId: true },
+    });
+    if (session?.crownNodeId === battle.nodeId) {
+      await handleCrownOwnershipChange(sessionId, battle.nodeId);
+    }
+    if (outcome.hqCaptured) {
+      await checkDominationVictory(sessionId);
+    }
+  }
+
+  return true;
+}
@@ -1,4 +1,6 @@
 import { publisherRedis } from './redis.js';
+import type { CombatRole, CombatSetup, CombatStateMessage, CombatResult } from '@nova-fall/shared';
+import type { CombatSide } from '@nova-fall/game-logic';
 
 // Event types for real-time updates
 export interface UpkeepTickEvent {
@@ -19,8 +21,12 @@ export interface TransferCompletedEvent {
 }
 
 // Publish functions
-export async function publishNodeUpdate(nodeId: string, changes: Record<string, unknown>): Promise<void> {
-  await publisherRedis.publish('node:update', JSON.stringify({ nodeId, changes }));
+export async function publishNodeUpdate(
+  nodeId: string,
+  changes: Record<string, unknown>,
+  sessionId?: string
+): Promise<void> {
+  await publisherRedis.publish('node:update', JSON.stringify({ nodeId, changes, sessionId }));
 }
 
 export async function publishUpkeepTick(event: UpkeepTickEvent): Promise<void> {
@@ -58,3 +64,60 @@ export interface CraftingCompletedEvent {
 export async function publishCraftingCompleted(event: CraftingCompletedEvent): Promise<void> {
   await publisherRedis.publish('crafting:completed', JSON.stringify(event));
 }
+
+// Battle lifecycle events
+export interface BattleUpdateEvent {
+  battleId: string;
+  status: string;
+  data: Record<string, unknown>;
+  sessionId: string;
+}
+
+export async function publishBattleUpdate(event: BattleUpdateEvent): Promise<void> {
+  await publisherRedis.publish('battle:update', JSON.stringify(event));
+}
+
+// Combat events (relayed to the battle room by ws-server)
+export interface CombatErrorEvent {
+  battleId: string;
+  playerId?: string; // Unknown when a joining socket's user has no player
+  socketId?: string; // Target this socket (it may not be in the battle room yet)
+  message: string;
+  code: string;
+}
+
+// A socket's join or spectate request was accepted
+export interface CombatJoinedEvent {
+  battleId: string;
+  playerId: string;
+  socketId: string;
+  role: CombatRole;
+  side?: CombatSide; // Which side's stream a participant gets
+  delayMs: number;
+}
+
+export async function publishCombatJoined(event: CombatJoinedEvent): Promise<void> {
+  await publisherRedis.publish('combat:joined', JSON.stringify(event));
+}
+
+// Setups and states are published per side; spectators are sent the attacker's
+export async function publishCombatSetup(side: CombatSide, setup: CombatSetup): Promise<void> {
+  await publisherRedis.publish('combat:setup', JSON.stringify({ side, setup }));
+}
+
+// States go to the whole side, or only to socketId (a keyframe for a client that lost its place)
+export async function publishCombatState(
+  side: CombatSide,
+  message: CombatStateMessage,
+  socketId?: string
+): Promise<void> {
+  await publisherRedis.publish('combat:state', JSON.stringify({ side, message, socketId }));
+}
+
+export async function publishCombatEnd(result: CombatResult): Promise<void> {
+  await publisherRedis.publish('combat:end', JSON.stringify(result));
+}
+
+export async function publishCombatError(event: CombatErrorEvent): Promise<void> {
+  await publisherRedis.publish('combat:error', JSON.stringify(event));
+}
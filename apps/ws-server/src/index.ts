@@ -2,9 +2,16 @@ import 'dotenv/config';
 import { createServer } from 'http';
 import { Server } from 'socket.io';
 import { Redis } from 'ioredis';
+import { jwtVerify } from 'jose';
 import pino from 'pino';
-import type { CombatInput, CombatSetup, CombatState, CombatResult } from '@nova-fall/shared';
-import { COMBAT_EVENTS } from '@nova-fall/shared';
+import type {
+  CombatInput,
+  CombatJoinedEvent,
+  CombatSetup,
+  CombatStateMessage,
+  CombatResult,
+} from '@nova-fall/shared';
+import { COMBAT, COMBAT_EVENTS } from '@nova-fall/shared';
 
 const loggerOptions: pino.LoggerOptions =
   process.env.NODE_ENV === 'development'
@@ -24,6 +31,14 @@ const logger = pino(loggerOptions);
 const PORT = parseInt(process.env.PORT || '3002', 10);
 const REDIS_URL = process.env.REDIS_URL || 'redis://localhost:6379';
 const CORS_ORIGIN = process.env.CORS_ORIGIN || 'http://localhost:5173';
+// Same secret the API signs access tokens with
+const SESSION_SECRET = process.env.SESSION_SECRET;
+
+if (!SESSION_SECRET) {
+  logger.fatal('SESSION_SECRET is not set');
+  process.exit(1);
+}
+const tokenSecret = new TextEncoder().encode(SESSION_SECRET);
 
 // Create HTTP server
 const httpServer = createServer();
@@ -46,12 +61,32 @@ const redis = new Redis(REDIS_URL);
 // Track which session each socket is viewing
 const socketSessions = new Map<string, string>();
 
-// Track which battle each socket is in (for combat mode)
+// Track which battle each socket is fighting in (for combat mode)
 const socketBattles = new Map<string, string>();
 
-// Track player ID for each socket (authenticated via API)
+// Track which battle each socket is spectating (read-only)
+const socketSpectating = new Map<string, string>();
+
+// How far behind each battle its spectators watch (ms)
+const spectatorDelays = new Map<string, number>();
+
+// When each socket last asked for a state keyframe (ms)
+const stateRequestTimes = new Map<string, number>();
+
+// Track player ID for each socket (resolved by the combat server from the socket's user)
 const socketPlayers = new Map<string, string>();
 
+// Verify an API access token, returning its user ID
+async function verifyAccessToken(token: unknown): Promise<string | null> {
+  if (typeof token !== 'string') return null;
+  try {
+    const { payload } = await jwtVerify(token, tokenSecret);
+    return payload.type === 'access' && payload.sub ? payload.sub : null;
+  } catch {
+    return null;
+  }
+}
+
 // Helper to get viewer count key
 function getViewerKey(sessionId: string): string {
   return `session:${sessionId}:viewers`;
@@ -77,6 +112,82 @@ async function decrementViewers(sessionId: string): Promise<number> {
   return count;
 }
 
+// Which side of a battle a participant fights on (each side gets its own state stream)
+type CombatSide = 'attacker' | 'defender';
+
+// Combat rooms - sockets are only added once the worker accepts their join
+function getCombatRoom(battleId: string): string {
+  return `combat:${battleId}`;
+}
+
+function getSideRoom(battleId: string, side: CombatSide): string {
+  return `combat:${battleId}:${side}`;
+}
+
+function getSpectatorRoom(battleId: string): string {
+  return `combat:${battleId}:spectators`;
+}
+
+// Send a combat event to a battle's spectators after the broadcast delay
+// Recipients are taken when the event happens, so a late joiner is not sent moments before it joined
+function emitToSpectators(battleId: string, event: string, data: unknown): void {
+  const room = getSpectatorRoom(battleId);
+  const delay = spectatorDelays.get(battleId) ?? 0;
+  if (delay > 0) {
+    const recipients = [...(io.sockets.adapter.rooms.get(room) ?? [])];
+    if (recipients.length === 0) return;
+    setTimeout(() => {
+      const stillWatching = recipients.filter((id) => io.sockets.adapter.rooms.get(room)?.has(id));
+      if (stillWatching.length > 0) io.to(stillWatching).emit(event, data);
+    }, delay);
+  } else {
+    io.to(room).emit(event, data);
+  }
+}
+
+// Send a combat event to a single socket, after the broadcast delay if it is spectating
+function emitToSocket(socketId: string, event: string, data: unknown): void {
+  const spectating = socketSpectating.get(socketId);
+  const delay = spectating ? spectatorDelays.get(spectating) ?? 0 : 0;
+  if (delay > 0) {
+    setTimeout(() => {
+      if (socketSpectating.get(socketId) === spectating) io.to(socketId).emit(event, data);
+    }, delay);
+  } else {
+    io.to(socketId).emit(event, data);
+  }
+}
+
+// Send a combat event to a battle's players now and its spectators after the broadcast delay
+function emitToBattle(battleId: string, event: string, data: unknown): void {
+  io.to(getCombatRoom(battleId)).emit(event, data);
+  emitToSpectators(battleId, event, data);
+}
+
+// Send one side's view of a battle to that side's players
+// Spectators watch the attacker's view, so never see the defender's unrevealed traps
+function emitToSide(battleId: string, side: CombatSide, event: string, data: unknown): void {
+  io.to(getSideRoom(battleId, side)).emit(event, data);
+  if (side === 'attacker') emitToSpectators(battleId, event, data);
+}
+
+// Take a socket out of whichever battle it is fighting in or watching
+function leaveCombatRooms(socketId: string): void {
+  const socket = io.sockets.sockets.get(socketId);
+  const battleId = socketBattles.get(socketId);
+  if (battleId) {
+    socket?.leave(getCombatRoom(battleId));
+    socket?.leave(getSideRoom(battleId, 'attacker'));
+    socket?.leave(getSideRoom(battleId, 'defender'));
+    socketBattles.delete(socketId);
+  }
+  const spectating = socketSpectating.get(socketId);
+  if (spectating) {
+    socket?.leave(getSpectatorRoom(spectating));
+    socketSpectating.delete(socketId);
+  }
+}
+
 // Subscribe to game event channels
 redisSub.subscribe(
   'node:update',
@@ -91,6 +202,7 @@ redisSub.subscribe(
   'game:victory',
   'player:eliminated',
   // Combat channels
+  'combat:joined',
   'combat:setup',
   'combat:state',
   'combat:end',
@@ -213,34 +325,77 @@ redisSub.on('message', (channel, message) => {
         }
         break;
 
-      // Combat events - broadcast to battle room
-      case 'combat:setup':
-        if (data.battleId) {
-          io.to(`battle:${data.battleId}`).emit(COMBAT_EVENTS.COMBAT_SETUP, data as CombatSetup);
-          logger.info({ battleId: data.battleId }, 'Combat setup broadcast');
+      // Join or spectate request accepted by the combat server - add the socket to its room
+      case 'combat:joined': {
+        const socket = io.sockets.sockets.get(data.socketId);
+        if (!socket || !data.battleId) break;
+
+        leaveCombatRooms(socket.id);
+        socketPlayers.set(socket.id, data.playerId);
+        if (data.role === 'spectator') {
+          socket.join(getSpectatorRoom(data.battleId));
+          socketSpectating.set(socket.id, data.battleId);
+          spectatorDelays.set(data.battleId, data.delayMs);
+        } else {
+          socket.join([getCombatRoom(data.battleId), getSideRoom(data.battleId, data.side)]);
+          socketBattles.set(socket.id, data.battleId);
+        }
+
+        const joined: CombatJoinedEvent = {
+          battleId: data.battleId,
+          role: data.role,
+          delayMs: data.delayMs,
+        };
+        socket.emit(COMBAT_EVENTS.COMBAT_JOINED, joined);
+        logger.info({ socketId: socket.id, ...joined, playerId: data.playerId }, 'Socket joined combat');
+        break;
+      }
+
+      // Combat events - broadcast to battle rooms
+      // Setups and states come per side, as only the defender may see unrevealed traps
+      case 'combat:setup': {
+        const { side, setup } = data as { side: CombatSide; setup: CombatSetup };
+        if (setup?.battleId) {
+          emitToSide(setup.battleId, side, COMBAT_EVENTS.COMBAT_SETUP, setup);
+          logger.info({ battleId: setup.battleId, side }, 'Combat setup broadcast');
         }
         break;
+      }
 
-      case 'combat:state':
-        if (data.battleId) {
-          io.to(`battle:${data.battleId}`).emit(COMBAT_EVENTS.STATE_UPDATE, data as CombatState);
+      // A state with a socketId is a keyframe for the one client that asked for it
+      case 'combat:state': {
+        const { side, message: state, socketId } = data as {
+          side: CombatSide;
+          message: CombatStateMessage;
+          socketId?: string;
+        };
+        if (socketId) {
+          emitToSocket(socketId, COMBAT_EVENTS.STATE_UPDATE, state);
+        } else if (state?.battleId) {
+          emitToSide(state.battleId, side, COMBAT_EVENTS.STATE_UPDATE, state);
           // Don't log every state update to avoid spam (20 TPS)
         }
         break;
+      }
 
       case 'combat:end':
         if (data.battleId) {
-          io.to(`battle:${data.battleId}`).emit(COMBAT_EVENTS.COMBAT_END, data as CombatResult);
+          const battleId: string = data.battleId;
+          emitToBattle(battleId, COMBAT_EVENTS.COMBAT_END, data as CombatResult);
+          // Forget the delay once delayed spectators have seen the end
+          setTimeout(() => spectatorDelays.delete(battleId), spectatorDelays.get(battleId) ?? 0);
           logger.info({ battleId: data.battleId, winnerId: data.winnerId }, 'Combat end broadcast');
         }
         break;
 
       case 'combat:error':
-        if (data.battleId && data.playerId) {
-          // Send error only to the specific player
-          const targetSocket = [...io.sockets.sockets.values()].find(
-            (s) => socketPlayers.get(s.id) === data.playerId && socketBattles.get(s.id) === data.battleId
-          );
+        if (data.battleId && (data.socketId || data.playerId)) {
+          // Send error only to the specific player (or the socket that made the request)
+          const targetSocket = data.socketId
+            ? io.sockets.sockets.get(data.socketId)
+            : [...io.sockets.sockets.values()].find(
+                (s) => socketPlayers.get(s.id) === data.playerId && socketBattles.get(s.id) === data.battleId
+              );
           if (targetSocket) {
             targetSocket.emit(COMBAT_EVENTS.COMBAT_ERROR, { message: data.message, code: data.code });
           }
@@ -255,6 +410,17 @@ redisSub.on('message', (channel, message) => {
   }
 });
 
+// Authenticate every connection with the API access token sent in the handshake
+io.use(async (socket, next) => {
+  const userId = await verifyAccessToken(socket.handshake.auth.token);
+  if (!userId) {
+    next(new Error('Unauthorized'));
+    return;
+  }
+  socket.data.userId = userId;
+  next();
+});
+
 // Handle client connections
 io.on('connection', (socket) => {
   logger.info({ socketId: socket.id }, 'Client connected');
@@ -309,35 +475,27 @@ io.on('connection', (socket) => {
 
   // ============ Combat Mode Events ============
 
-  // Authenticate socket with player ID (called after API auth)
-  socket.on('auth:player', (playerId: string) => {
-    socketPlayers.set(socket.id, playerId);
-    logger.info({ socketId: socket.id, playerId }, 'Socket authenticated with player');
-  });
-
-  // Join a combat battle
-  socket.on(COMBAT_EVENTS.JOIN_COMBAT, async (data: { battleId: string; playerId: string }) => {
-    const { battleId, playerId } = data;
+  // Join a combat battle as a participant
+  // The combat server finds the socket's player and checks it is fighting in the battle
+  // before the socket joins the room
+  socket.on(COMBAT_EVENTS.JOIN_COMBAT, async (data: { battleId: string }) => {
+    const { battleId } = data;
+    const userId: string = socket.data.userId;
 
-    // Store player ID if not already set
-    if (!socketPlayers.has(socket.id)) {
-      socketPlayers.set(socket.id, playerId);
-    }
+    logger.info({ socketId: socket.id, battleId, userId }, 'Player requested to join combat battle');
 
-    // Leave previous battle if any
-    const previousBattle = socketBattles.get(socket.id);
-    if (previousBattle && previousBattle !== battleId) {
-      socket.leave(`battle:${previousBattle}`);
-      logger.debug({ socketId: socket.id, battleId: previousBattle }, 'Left previous battle');
-    }
+    // Publish join event to Redis for combat server to handle
+    await redis.publish('combat:player_joined', JSON.stringify({ battleId, userId, socketId: socket.id }));
+  });
 
-    // Join battle room
-    socket.join(`battle:${battleId}`);
-    socketBattles.set(socket.id, battleId);
-    logger.info({ socketId: socket.id, battleId, playerId }, 'Player joined combat battle');
+  // Watch a combat battle read-only
+  // The combat server checks the socket's player is a member of the battle's game session
+  socket.on(COMBAT_EVENTS.SPECTATE_COMBAT, async (data: { battleId: string }) => {
+    const { battleId } = data;
+    const userId: string = socket.data.userId;
 
-    // Publish join event to Redis for combat server to handle
-    await redis.publish('combat:player_joined', JSON.stringify({ battleId, playerId, socketId: socket.id }));
+    logger.info({ socketId: socket.id, battleId, userId }, 'Player requested to spectate combat battle');
+    await redis.publish('combat:spectator_joined', JSON.stringify({ battleId, userId, socketId: socket.id }));
   });
 
   // Leave a combat battle
@@ -345,9 +503,14 @@ io.on('connection', (socket) => {
     const { battleId } = data;
     const playerId = socketPlayers.get(socket.id);
 
+    if (socketSpectating.get(socket.id) === battleId) {
+      leaveCombatRooms(socket.id);
+      logger.info({ socketId: socket.id, battleId, playerId }, 'Spectator left combat battle');
+      return;
+    }
+
     if (socketBattles.get(socket.id) === battleId) {
-      socket.leave(`battle:${battleId}`);
-      socketBattles.delete(socket.id);
+      leaveCombatRooms(socket.id);
       logger.info({ socketId: socket.id, battleId, playerId }, 'Player left combat battle');
 
       // Publish leave event to Redis for combat server
@@ -360,6 +523,11 @@ io.on('connection', (socket) => {
     const battleId = socketBattles.get(socket.id);
     const playerId = socketPlayers.get(socket.id);
 
+    if (socketSpectating.has(socket.id)) {
+      socket.emit(COMBAT_EVENTS.COMBAT_ERROR, { message: 'Spectators cannot send orders', code: 'SPECTATOR_READ_ONLY' });
+      return;
+    }
+
     if (!battleId || !playerId) {
       socket.emit(COMBAT_EVENTS.COMBAT_ERROR, { message: 'Not in a battle', code: 'NOT_IN_BATTLE' });
       return;
@@ -375,11 +543,22 @@ io.on('connection', (socket) => {
     logger.debug({ socketId: socket.id, battleId, playerId, type: input.type }, 'Combat input received');
   });
 
-  // Request current combat state (for reconnection)
+  // Request a state keyframe (after a missed delta or a reconnect)
+  // Only for a battle the socket is in, and at most once per cooldown
   socket.on(COMBAT_EVENTS.REQUEST_STATE, async (data: { battleId: string }) => {
     const { battleId } = data;
     const playerId = socketPlayers.get(socket.id);
 
+    if (socketBattles.get(socket.id) !== battleId && socketSpectating.get(socket.id) !== battleId) {
+      return;
+    }
+
+    const now = Date.now();
+    if (now - (stateRequestTimes.get(socket.id) ?? 0) < COMBAT.STATE_REQUEST_COOLDOWN) {
+      return;
+    }
+    stateRequestTimes.set(socket.id, now);
+
     // Publish state request to Redis for combat server
     await redis.publish('combat:request_state', JSON.stringify({
       battleId,
@@ -411,7 +590,9 @@ io.on('connection', (socket) => {
       }));
       socketBattles.delete(socket.id);
     }
+    socketSpectating.delete(socket.id);
     socketPlayers.delete(socket.id);
+    stateRequestTimes.delete(socket.id);
 
     logger.info({ socketId: socket.id, reason, sessionId, battleId }, 'Client disconnected');
   });
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi } from 'vitest';
+import { buildArenaLayout } from '../combat/arena.js';
+import type { CombatRunnerConfig } from '../combat/runner.js';
+import { createConfig, createStats, createTurret } from '../test/fixtures.js';
+import { forecastBattle, forecastBattleAsync } from './forecast.js';
+
+// Test data helpers
+function createForecastConfig(overrides: Partial<CombatRunnerConfig> = {}): CombatRunnerConfig {
+  return createConfig({
+    layout: buildArenaLayout([{ position: { x: 25, z: 25 }, width: 1, height: 1 }]),
+    hqMaxHealth: 1000,
+    durationMs: 180_000,
+    seed: 0,
+    attackerUnits: [
+      {
+        itemId: 'item-militia',
+        unitTypeId: 'militia',
+        count: 8,
+        stats: createStats({ damage: 20 }),
+      },
+    ],
+    defenderUnits: [],
+    buildings: [createTurret({ range: 6, attackSpeed: 1 })],
+    ...overrides,
+  });
+}
+
+describe('forecastBattle', () => {
+  it('produces the same forecast for the same seeds', () => {
+    const first = forecastBattle(createForecastConfig(), { runs: 3, seed: 7 });
+    const second = forecastBattle(createForecastConfig(), { runs: 3, seed: 7 });
+
+    expect(second).toEqual(first);
+    expect(first.runs).toBe(3);
+    expect(first.winProbability).toBeGreaterThanOrEqual(0);
+    expect(first.winProbability).toBeLessThanOrEqual(1);
+  });
+
+  it('averages wins, losses and HQ damage over the runs', () => {
+    const forecast = forecastBattle(createForecastConfig({ buildings: [], hqMaxHealth: 300 }), {
+      runs: 2,
+    });
+
+    expect(forecast.winProbability).toBe(1);
+    expect(forecast.expectedHqDamage).toBe(300);
+    expect(forecast.expectedHqDamageRatio).toBe(1);
+    expect(forecast.expectedAttackerLosses).toBe(0);
+    expect(forecast.expectedStructuresLost).toBe(0);
+    expect(forecast.attackerLosses).toEqual({});
+  });
+
+  it('reports losses and partial HQ damage when the attack runs out of time', () => {
+    const forecast = forecastBattle(createForecastConfig({ hqMaxHealth: 20_000 }), { runs: 2 });
+
+    expect(forecast.winProbability).toBe(0);
+    expect(forecast.expectedAttackerLosses).toBeGreaterThan(0);
+    expect(forecast.attackerLosses).toEqual({ militia: forecast.expectedAttackerLosses });
+    expect(forecast.expectedHqDamageRatio).toBeGreaterThan(0);
+    expect(forecast.expectedHqDamageRatio).toBeLessThan(1);
+  });
+});
+
+describe('forecastBattleAsync', () => {
+  it('gives the same forecast as running it in one go, pausing before each run', async () => {
+    const pause = vi.fn().mockResolvedValue(undefined);
+    const forecast = await forecastBattleAsync(createForecastConfig(), { runs: 3, seed: 7 }, pause);
+
+    expect(pause).toHaveBeenCalledTimes(3);
+
+    expect(forecast).toEqual(forecastBattle(createForecastConfig(), { runs: 3, seed: 7 }));
+  });
+});
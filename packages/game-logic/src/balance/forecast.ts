@@ -0,0 +1,142 @@
+/**
+ * Battle Forecast
+ *
+ * Monte Carlo odds for a battle that hasn't been fought yet. The battle's
+ * runner config is fought many times over on consecutive seeds, with the
+ * commander AI playing both sides, and the outcomes are averaged into the
+ * attacker's chance of winning and what each side can expect to lose.
+ */
+
+import { createDefaultCommander, type CommanderFactory } from '../combat/commander.js';
+import type { CombatRunnerConfig } from '../combat/runner.js';
+import { runTrial } from './lab.js';
+
+export interface BattleForecastOptions {
+  runs: number;
+  seed?: number; // Seed of the first run, each later run uses the next one (default 1)
+  createCommander?: CommanderFactory; // Defaults to the live game's commander AI
+}
+
+export interface BattleForecast {
+  runs: number;
+  winProbability: number; // Chance the attacker wins (0-1)
+  expectedAttackerLosses: number; // Attacker units lost per battle
+  expectedDefenderLosses: number; // Garrison units lost per battle
+  expectedStructuresLost: number; // Defender buildings destroyed per battle
+  expectedHqDamage: number; // HQ health lost per battle
+  expectedHqDamageRatio: number; // HQ health lost as a share of its max health (0-1)
+  attackerLosses: Record<string, number>; // Unit definition ID -> units lost per battle
+}
+
+// Outcomes of the runs so far, summed
+interface ForecastTotals {
+  runs: number;
+  wins: number;
+  attackerLost: number;
+  defenderLost: number;
+  structuresLost: number;
+  hqDamage: number;
+  attackerLosses: Record<string, number>;
+}
+
+function sumCounts(counts: Record<string, number>): number {
+  return Object.values(counts).reduce((sum, count) => sum + count, 0);
+}
+
+function createTotals(): ForecastTotals {
+  return {
+    runs: 0,
+    wins: 0,
+    attackerLost: 0,
+    defenderLost: 0,
+    structuresLost: 0,
+    hqDamage: 0,
+    attackerLosses: {},
+  };
+}
+
+/**
+ * Fight one run of a forecast and add its outcome to the totals
+ */
+function addRun(
+  totals: ForecastTotals,
+  config: CombatRunnerConfig,
+  seed: number,
+  createCommander: CommanderFactory
+): void {
+  const result = runTrial({ ...config, seed }, createCommander);
+
+  totals.runs++;
+  if (result.winnerId === config.attackerId) totals.wins++;
+  totals.attackerLost += sumCounts(result.attackerLosses);
+  totals.defenderLost += sumCounts(result.defenderLosses);
+  totals.hqDamage += config.hqMaxHealth - result.finalHqHealth;
+  for (const record of result.unitRecords) {
+    if (record.ownerId === config.attackerId) totals.structuresLost += record.structuresDestroyed;
+  }
+  for (const [unitTypeId, count] of Object.entries(result.attackerLosses)) {
+    totals.attackerLosses[unitTypeId] = (totals.attackerLosses[unitTypeId] ?? 0) + count;
+  }
+}
+
+function averageTotals(totals: ForecastTotals, config: CombatRunnerConfig): BattleForecast {
+  const { runs } = totals;
+  const perRun = (total: number) => (runs > 0 ? total / runs : 0);
+  return {
+    runs,
+    winProbability: perRun(totals.wins),
+    expectedAttackerLosses: perRun(totals.attackerLost),
+    expectedDefenderLosses: perRun(totals.defenderLost),
+    expectedStructuresLost: perRun(totals.structuresLost),
+    expectedHqDamage: perRun(totals.hqDamage),
+    expectedHqDamageRatio:
+      config.hqMaxHealth > 0 ? perRun(totals.hqDamage) / config.hqMaxHealth : 0,
+    attackerLosses: Object.fromEntries(
+      Object.entries(totals.attackerLosses).map(([unitTypeId, total]) => [
+        unitTypeId,
+        perRun(total),
+      ])
+    ),
+  };
+}
+
+/**
+ * Fight a battle config many times and average the outcomes
+ * The config's own seed is ignored, each run gets its own
+ */
+export function forecastBattle(
+  config: CombatRunnerConfig,
+  options: BattleForecastOptions
+): BattleForecast {
+  const createCommander = options.createCommander ?? createDefaultCommander;
+  const firstSeed = options.seed ?? 1;
+  const runs = Math.max(0, Math.floor(options.runs));
+
+  const totals = createTotals();
+  for (let i = 0; i < runs; i++) {
+    addRun(totals, config, firstSeed + i, createCommander);
+  }
+  return averageTotals(totals, config);
+}
+
+/**
+ * forecastBattle that awaits pause (e.g. a setImmediate) before each run
+ * A whole forecast can take most of a second; a process that also runs live
+ * battles can hand its event loop back between runs
+ */
+export async function forecastBattleAsync(
+  config: CombatRunnerConfig,
+  options: BattleForecastOptions,
+  pause: () => Promise<void>
+): Promise<BattleForecast> {
+  const createCommander = options.createCommander ?? createDefaultCommander;
+  const firstSeed = options.seed ?? 1;
+  const runs = Math.max(0, Math.floor(options.runs));
+
+  const totals = createTotals();
+  for (let i = 0; i < runs; i++) {
+    await pause();
+    addRun(totals, config, firstSeed + i, createCommander);
+  }
+  return averageTotals(totals, config);
+}
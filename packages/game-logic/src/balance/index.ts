@@ -0,0 +1,32 @@
+/**
+ * Balance lab module
+ *
+ * Headless battle runs for tuning unit and building definitions, and for
+ * forecasting battles in preparation.
+ */
+
+export { BALANCE_STATS, runBalanceTrials, sweepBalanceStat } from './lab.js';
+
+export type {
+  BalanceUnitDefinition,
+  BalanceBuildingDefinition,
+  BalanceDefinitions,
+  BalanceScenario,
+  BalanceRunOptions,
+  BalanceUnitReport,
+  BalanceReport,
+  BalanceStat,
+  BalanceSweep,
+  BalanceSweepRow,
+} from './lab.js';
+
+export { forecastBattle, forecastBattleAsync } from './forecast.js';
+
+export type { BattleForecast, BattleForecastOptions } from './forecast.js';
+
+export {
+  formatBalanceReport,
+  balanceReportToCsv,
+  formatBalanceSweep,
+  balanceSweepToCsv,
+} from './report.js';
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import {
+  runBalanceTrials,
+  sweepBalanceStat,
+  type BalanceDefinitions,
+  type BalanceScenario,
+} from './lab.js';
+import { balanceReportToCsv, balanceSweepToCsv } from './report.js';
+
+// Test data helpers
+function createDefinitions(): BalanceDefinitions {
+  return {
+    units: [
+      {
+        id: 'militia',
+        cost: 50,
+        health: 100,
+        damage: 20,
+        speed: 600,
+        range: 2,
+        attackSpeed: 1,
+      },
+      {
+        id: 'guard',
+        cost: 80,
+        health: 150,
+        damage: 15,
+        armor: 2,
+        speed: 0,
+        range: 3,
+        attackSpeed: 1,
+      },
+    ],
+    buildings: [
+      {
+        id: 'turret',
+        cost: 200,
+        health: 500,
+        armor: 2,
+        damage: 15,
+        range: 6,
+        attackSpeed: 1,
+      },
+    ],
+  };
+}
+
+function createScenario(overrides: Partial<BalanceScenario> = {}): BalanceScenario {
+  return {
+    attacker: { militia: 8 },
+    defender: { guard: 2 },
+    buildings: [{ buildingTypeId: 'turret', position: { x: 25, z: 25 } }],
+    hqMaxHealth: 1000,
+    durationSeconds: 180,
+    ...overrides,
+  };
+}
+
+describe('runBalanceTrials', () => {
+  it('produces the same report for the same seeds', () => {
+    const first = runBalanceTrials(createScenario(), createDefinitions(), { trials: 3, seed: 7 });
+    const second = runBalanceTrials(createScenario(), createDefinitions(), { trials: 3, seed: 7 });
+
+    expect(second).toEqual(first);
+    expect(first.trials).toBe(3);
+    expect(first.attackerWinRate + first.defenderWinRate).toBeCloseTo(1);
+  });
+
+  it('reports win rates, time to kill and per-unit efficiency', () => {
+    const report = runBalanceTrials(
+      createScenario({ defender: {}, buildings: [], hqMaxHealth: 300 }),
+      createDefinitions(),
+      { trials: 2 }
+    );
+
+    expect(report.attackerWinRate).toBe(1);
+    expect(report.avgTimeToKillHq).toBeGreaterThan(0);
+    expect(report.avgTimeToEliminate).toBeNull();
+    expect(report.attackerCost).toBe(400);
+    expect(report.defenderCost).toBe(0);
+
+    const militia = report.units.find((u) => u.unitTypeId === 'militia');
+    expect(militia).toMatchObject({ side: 'attacker', survivalRate: 1 });
+    expect(militia?.fielded).toBeGreaterThan(0);
+    expect(militia?.damagePerCredit).toBeCloseTo((militia?.avgDamage ?? 0) / 50);
+
+    const csv = balanceReportToCsv(report).split('\n');
+    expect(csv[0]).toBe(
+      'side,unit,fielded,survival,avg damage,avg kills,damage/credit,damage/health'
+    );
+    expect(csv).toHaveLength(report.units.length + 1);
+  });
+
+  it('rejects scenarios with unknown definitions', () => {
+    expect(() =>
+      runBalanceTrials(createScenario({ attacker: { tank: 2 } }), createDefinitions(), {
+        trials: 1,
+      })
+    ).toThrow('Unknown unit definition: tank');
+  });
+});
+
+describe('sweepBalanceStat', () => {
+  it('runs the scenario once per value of the swept stat', () => {
+    const rows = sweepBalanceStat(
+      createScenario({ defender: {} }),
+      createDefinitions(),
+      { target: 'building', id: 'turret', stat: 'damage', values: [0, 400] },
+      { trials: 2 }
+    );
+
+    expect(rows.map((r) => r.value)).toEqual([0, 400]);
+    expect(rows[1]?.report.attackerWinRate).toBeLessThanOrEqual(
+      rows[0]?.report.attackerWinRate ?? 0
+    );
+    expect(balanceSweepToCsv(rows).split('\n')).toHaveLength(3);
+  });
+
+  it('rejects sweeps of definitions that are not provided', () => {
+    expect(() =>
+      sweepBalanceStat(
+        createScenario(),
+        createDefinitions(),
+        { target: 'unit', id: 'tank', stat: 'health', values: [100] },
+        { trials: 1 }
+      )
+    ).toThrow('Unknown unit definition: tank');
+  });
+});
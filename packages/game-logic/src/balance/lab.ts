@@ -0,0 +1,489 @@
+/**
+ * Balance Lab
+ *
+ * Runs seeded battles headless between an attacking army and a defence
+ * (garrison, buildings and HQ), with the commander AI fighting both sides
+ * as if neither player were online, and sums up how each side and unit
+ * type did. Used to tune unit and building definitions with data.
+ */
+
+import {
+  COMBAT,
+  type AbilityDefinition,
+  type ArenaPosition,
+  type BuildingCategory,
+  type CombatResult,
+  type TargetPriorityPreset,
+  type UnitCategory,
+} from '@nova-fall/shared';
+import { buildArenaLayout } from '../combat/arena.js';
+import { generateArenaLayout } from '../combat/arenaGenerator.js';
+import {
+  COMMANDER_THINK_INTERVAL_TICKS,
+  createDefaultCommander,
+  type CombatSide,
+  type CommanderFactory,
+} from '../combat/commander.js';
+import { seedFromString } from '../combat/random.js';
+import {
+  CombatRunner,
+  type CombatBuildingConfig,
+  type CombatRunnerConfig,
+  type CombatUnitGroup,
+} from '../combat/runner.js';
+import { isPassableCategory } from '../combat/traps.js';
+
+/**
+ * Unit definition the lab fights with
+ * Unit definition rows fit as they are; missing optional stats count as 0
+ */
+export interface BalanceUnitDefinition {
+  id: string;
+  name?: string;
+  cost?: number; // Credits per unit (damage per credit is only reported with a cost)
+  health: number;
+  shield?: number;
+  shieldRange?: number;
+  damage: number;
+  armor?: number;
+  speed: number;
+  range: number;
+  attackSpeed: number;
+  projectileSpeed?: number;
+  splashRadius?: number;
+  revealRadius?: number;
+  category?: UnitCategory;
+  targetPriority?: TargetPriorityPreset;
+  abilities?: AbilityDefinition[];
+  tileSize?: number;
+}
+
+/**
+ * Building definition the lab fights with
+ */
+export interface BalanceBuildingDefinition {
+  id: string;
+  name?: string;
+  cost?: number; // Credits per building
+  width?: number; // Defaults to 1
+  height?: number; // Defaults to 1
+  health: number;
+  shield?: number;
+  shieldRange?: number;
+  armor?: number;
+  damage?: number;
+  range?: number;
+  attackSpeed?: number;
+  projectileSpeed?: number;
+  splashRadius?: number;
+  category?: BuildingCategory;
+  targetPriority?: TargetPriorityPreset;
+  abilities?: AbilityDefinition[];
+}
+
+export interface BalanceDefinitions {
+  units: BalanceUnitDefinition[];
+  buildings: BalanceBuildingDefinition[];
+}
+
+/**
+ * Two army compositions and a defence layout to fight over
+ */
+export interface BalanceScenario {
+  attacker: Record<string, number>; // Unit definition ID -> count
+  defender?: Record<string, number>; // Garrison, unit definition ID -> count
+  buildings?: { buildingTypeId: string; position: ArenaPosition }[]; // Defence layout
+  hqMaxHealth?: number; // Defaults to a tier 1 HQ
+  durationSeconds?: number; // Defaults to the full combat window
+  arena?: { nodeType: string; tier: number; regionId?: string | null }; // Plain arena if omitted
+}
+
+export interface BalanceRunOptions {
+  trials: number;
+  seed?: number; // Seed of the first trial, each later trial uses the next one (default 1)
+  createCommander?: CommanderFactory; // Defaults to the live game's commander AI
+}
+
+/**
+ * How one unit type did across every trial
+ */
+export interface BalanceUnitReport {
+  side: CombatSide;
+  unitTypeId: string;
+  fielded: number; // Units deployed across all trials
+  survivalRate: number; // 0-1
+  avgDamage: number; // Damage dealt per unit fielded
+  avgKills: number;
+  damagePerCredit: number | null; // Null without a cost
+  damagePerHealth: number; // Damage dealt per point of the unit's own health
+}
+
+export interface BalanceReport {
+  trials: number;
+  attackerWinRate: number; // 0-1
+  defenderWinRate: number; // 0-1, timeouts included
+  timeoutRate: number; // 0-1
+  avgDuration: number; // Seconds
+  avgTimeToKillHq: number | null; // Seconds, over attacker wins
+  avgTimeToEliminate: number | null; // Seconds, over defender wins by wiping out the attackers
+  avgHqHealthLeft: number; // 0-1 of max health
+  attackerCost: number; // Credits committed per battle (units with a cost)
+  defenderCost: number; // Credits per battle (garrison and buildings with a cost)
+  attackerDamagePerCredit: number | null;
+  units: BalanceUnitReport[];
+}
+
+/**
+ * Stats that can be swept (numeric definition fields)
+ */
+export type BalanceStat =
+  | 'cost'
+  | 'health'
+  | 'shield'
+  | 'shieldRange'
+  | 'damage'
+  | 'armor'
+  | 'speed'
+  | 'range'
+  | 'attackSpeed'
+  | 'projectileSpeed'
+  | 'splashRadius';
+
+export const BALANCE_STATS: readonly BalanceStat[] = [
+  'cost',
+  'health',
+  'shield',
+  'shieldRange',
+  'damage',
+  'armor',
+  'speed',
+  'range',
+  'attackSpeed',
+  'projectileSpeed',
+  'splashRadius',
+];
+
+/**
+ * One stat of one definition, run at each value in turn
+ */
+export interface BalanceSweep {
+  target: 'unit' | 'building';
+  id: string; // Definition ID
+  stat: BalanceStat;
+  values: number[];
+}
+
+export interface BalanceSweepRow {
+  value: number;
+  report: BalanceReport;
+}
+
+// Player IDs for the two sides
+const LAB_ATTACKER_ID = 'lab-attacker';
+const LAB_DEFENDER_ID = 'lab-defender';
+
+/**
+ * Run a scenario many times and report how it went
+ * Throws if the scenario uses definitions that aren't provided
+ */
+export function runBalanceTrials(
+  scenario: BalanceScenario,
+  definitions: BalanceDefinitions,
+  options: BalanceRunOptions
+): BalanceReport {
+  const createCommander = options.createCommander ?? createDefaultCommander;
+  const firstSeed = options.seed ?? 1;
+  const base = buildRunnerConfig(scenario, definitions);
+
+  const results: CombatResult[] = [];
+  for (let i = 0; i < options.trials; i++) {
+    results.push(runTrial({ ...base, seed: firstSeed + i }, createCommander));
+  }
+
+  return summarize(results, scenario, definitions, base.hqMaxHealth);
+}
+
+/**
+ * Run a scenario once per value of a single stat
+ */
+export function sweepBalanceStat(
+  scenario: BalanceScenario,
+  definitions: BalanceDefinitions,
+  sweep: BalanceSweep,
+  options: BalanceRunOptions
+): BalanceSweepRow[] {
+  const list = sweep.target === 'unit' ? definitions.units : definitions.buildings;
+  if (!list.some((d) => d.id === sweep.id)) {
+    throw new Error(`Unknown ${sweep.target} definition: ${sweep.id}`);
+  }
+  if (!BALANCE_STATS.includes(sweep.stat)) {
+    throw new Error(`Cannot sweep ${sweep.stat}`);
+  }
+
+  return sweep.values.map((value) => {
+    const swept: BalanceDefinitions =
+      sweep.target === 'unit'
+        ? {
+            ...definitions,
+            units: definitions.units.map((d) =>
+              d.id === sweep.id ? { ...d, [sweep.stat]: value } : d
+            ),
+          }
+        : {
+            ...definitions,
+            buildings: definitions.buildings.map((d) =>
+              d.id === sweep.id ? { ...d, [sweep.stat]: value } : d
+            ),
+          };
+    return { value, report: runBalanceTrials(scenario, swept, options) };
+  });
+}
+
+/**
+ * Turn a scenario into a runner config (seed filled in per trial)
+ */
+function buildRunnerConfig(
+  scenario: BalanceScenario,
+  definitions: BalanceDefinitions
+): CombatRunnerConfig {
+  const unitsById = new Map(definitions.units.map((d) => [d.id, d]));
+  const buildingsById = new Map(definitions.buildings.map((d) => [d.id, d]));
+
+  const toGroups = (army: Record<string, number> = {}): CombatUnitGroup[] =>
+    Object.entries(army)
+      .filter(([, count]) => count > 0)
+      .map(([unitTypeId, count]) => {
+        const def = unitsById.get(unitTypeId);
+        if (!def) throw new Error(`Unknown unit definition: ${unitTypeId}`);
+        return toUnitGroup(def, count);
+      });
+
+  const buildings: CombatBuildingConfig[] = (scenario.buildings ?? []).map((b, index) => {
+    const def = buildingsById.get(b.buildingTypeId);
+    if (!def) throw new Error(`Unknown building definition: ${b.buildingTypeId}`);
+    return toBuildingConfig(def, `building_${index + 1}`, b.position);
+  });
+
+  const footprints = (scenario.buildings ?? []).map((b) => {
+    const def = buildingsById.get(b.buildingTypeId);
+    return {
+      position: b.position,
+      width: def?.width ?? 1,
+      height: def?.height ?? 1,
+      passable: isPassableCategory(def?.category ?? 'structure'),
+    };
+  });
+  // Terrain stays the same across trials, only the combat seed changes
+  const layout = scenario.arena
+    ? generateArenaLayout(
+        {
+          nodeType: scenario.arena.nodeType,
+          tier: scenario.arena.tier,
+          regionId: scenario.arena.regionId ?? null,
+          seed: seedFromString(scenario.arena.nodeType),
+        },
+        footprints
+      )
+    : buildArenaLayout(footprints);
+
+  return {
+    battleId: 'balance-lab',
+    attackerId: LAB_ATTACKER_ID,
+    defenderId: LAB_DEFENDER_ID,
+    nodeId: 'balance-lab',
+    nodeType: scenario.arena?.nodeType ?? 'SETTLEMENT',
+    layout,
+    hqMaxHealth: scenario.hqMaxHealth ?? COMBAT.HQ_BASE_HEALTH,
+    durationMs: (scenario.durationSeconds ?? COMBAT.COMBAT_DURATION / 1000) * 1000,
+    seed: 0,
+    attackerUnits: toGroups(scenario.attacker),
+    defenderUnits: toGroups(scenario.defender),
+    buildings,
+  };
+}
+
+function toUnitGroup(def: BalanceUnitDefinition, count: number): CombatUnitGroup {
+  return {
+    itemId: def.id,
+    unitTypeId: def.id,
+    count,
+    stats: {
+      health: def.health,
+      shield: def.shield ?? 0,
+      shieldRange: def.shieldRange ?? 0,
+      damage: def.damage,
+      armor: def.armor ?? 0,
+      speed: def.speed,
+      range: def.range,
+      attackSpeed: def.attackSpeed,
+      projectileSpeed: def.projectileSpeed ?? 0,
+      splashRadius: def.splashRadius ?? 0,
+      revealRadius: def.revealRadius ?? 0,
+    },
+    ...(def.category && { category: def.category }),
+    ...(def.targetPriority && { targetPriority: def.targetPriority }),
+    ...(def.abilities && { abilities: def.abilities }),
+    ...(def.tileSize !== undefined && { tileSize: def.tileSize }),
+  };
+}
+
+function toBuildingConfig(
+  def: BalanceBuildingDefinition,
+  id: string,
+  position: ArenaPosition
+): CombatBuildingConfig {
+  return {
+    id,
+    buildingTypeId: def.id,
+    position,
+    rotation: 0,
+    width: def.width ?? 1,
+    height: def.height ?? 1,
+    health: def.health,
+    shield: def.shield ?? 0,
+    shieldRange: def.shieldRange ?? 0,
+    armor: def.armor ?? 0,
+    damage: def.damage ?? 0,
+    range: def.range ?? 0,
+    attackSpeed: def.attackSpeed ?? 0,
+    projectileSpeed: def.projectileSpeed ?? 0,
+    splashRadius: def.splashRadius ?? 0,
+    ...(def.category && { category: def.category }),
+    ...(def.targetPriority && { targetPriority: def.targetPriority }),
+    ...(def.abilities && { abilities: def.abilities }),
+  };
+}
+
+/**
+ * Fight one battle to the end with commanders on both sides
+ */
+export function runTrial(
+  config: CombatRunnerConfig,
+  createCommander: CommanderFactory
+): CombatResult {
+  const runner = new CombatRunner(config);
+  const commanders = {
+    attacker: createCommander('attacker'),
+    defender: createCommander('defender'),
+  };
+
+  // The runner always finishes by the end of the combat window
+  for (;;) {
+    if (runner.tick % COMMANDER_THINK_INTERVAL_TICKS === 0) {
+      for (const side of ['attacker', 'defender'] as const) {
+        const view = runner.getCommanderView(side);
+        for (const input of commanders[side].think(view)) {
+          runner.queueInput(view.playerId, input);
+        }
+      }
+    }
+
+    const { result } = runner.step();
+    if (result) return result;
+  }
+}
+
+// Running totals for one unit type on one side
+interface UnitTotals {
+  side: CombatSide;
+  unitTypeId: string;
+  fielded: number;
+  survived: number;
+  damage: number;
+  kills: number;
+  health: number;
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+}
+
+function armyCost(army: Record<string, number> = {}, definitions: BalanceDefinitions): number {
+  let cost = 0;
+  for (const [unitTypeId, count] of Object.entries(army)) {
+    cost += (definitions.units.find((d) => d.id === unitTypeId)?.cost ?? 0) * count;
+  }
+  return cost;
+}
+
+/**
+ * Sum up the trials into win rates, timings and per-unit efficiency
+ */
+function summarize(
+  results: CombatResult[],
+  scenario: BalanceScenario,
+  definitions: BalanceDefinitions,
+  hqMaxHealth: number
+): BalanceReport {
+  const trials = results.length;
+  const rate = (count: number) => (trials > 0 ? count / trials : 0);
+  const attackerWins = results.filter((r) => r.winnerId === LAB_ATTACKER_ID);
+  const eliminations = results.filter(
+    (r) => r.winnerId === LAB_DEFENDER_ID && r.reason === 'attackers_eliminated'
+  );
+
+  const unitsById = new Map(definitions.units.map((d) => [d.id, d]));
+  const totals = new Map<string, UnitTotals>();
+  let attackerDamage = 0;
+
+  for (const result of results) {
+    for (const record of result.unitRecords) {
+      if (!record.deployed) continue;
+      const side: CombatSide = record.ownerId === LAB_ATTACKER_ID ? 'attacker' : 'defender';
+      const key = `${side}:${record.unitTypeId}`;
+      const total = totals.get(key) ?? {
+        side,
+        unitTypeId: record.unitTypeId,
+        fielded: 0,
+        survived: 0,
+        damage: 0,
+        kills: 0,
+        health: 0,
+      };
+      total.fielded++;
+      if (record.survived) total.survived++;
+      total.damage += record.damageDealt;
+      total.kills += record.kills;
+      total.health += record.maxHealth;
+      totals.set(key, total);
+      if (side === 'attacker') attackerDamage += record.damageDealt;
+    }
+  }
+
+  const units: BalanceUnitReport[] = Array.from(totals.values(), (total) => {
+    const cost = unitsById.get(total.unitTypeId)?.cost;
+    return {
+      side: total.side,
+      unitTypeId: total.unitTypeId,
+      fielded: total.fielded,
+      survivalRate: total.survived / total.fielded,
+      avgDamage: total.damage / total.fielded,
+      avgKills: total.kills / total.fielded,
+      damagePerCredit: cost ? total.damage / (cost * total.fielded) : null,
+      damagePerHealth: total.health > 0 ? total.damage / total.health : 0,
+    };
+  }).sort((a, b) => a.side.localeCompare(b.side) || a.unitTypeId.localeCompare(b.unitTypeId));
+
+  const attackerCost = armyCost(scenario.attacker, definitions);
+  let defenderCost = armyCost(scenario.defender, definitions);
+  for (const b of scenario.buildings ?? []) {
+    defenderCost += definitions.buildings.find((d) => d.id === b.buildingTypeId)?.cost ?? 0;
+  }
+
+  return {
+    trials,
+    attackerWinRate: rate(attackerWins.length),
+    defenderWinRate: rate(trials - attackerWins.length),
+    timeoutRate: rate(results.filter((r) => r.reason === 'timeout').length),
+    avgDuration: average(results.map((r) => r.duration)) ?? 0,
+    avgTimeToKillHq: average(attackerWins.map((r) => r.duration)),
+    avgTimeToEliminate: average(eliminations.map((r) => r.duration)),
+    avgHqHealthLeft:
+      hqMaxHealth > 0 ? (average(results.map((r) => r.finalHqHealth)) ?? 0) / hqMaxHealth : 0,
+    attackerCost,
+    defenderCost,
+    attackerDamagePerCredit:
+      attackerCost > 0 && trials > 0 ? attackerDamage / (attackerCost * trials) : null,
+    units,
+  };
+}
@@ -0,0 +1,174 @@
+/**
+ * Balance Lab reports
+ *
+ * Formats lab results as plain-text tables for the terminal, or CSV for
+ * spreadsheets. Rates are shown as percentages in tables and 0-1 in CSV.
+ */
+
+import type { BalanceReport, BalanceSweepRow } from './lab.js';
+
+type Cell = string | number | null;
+
+const UNIT_HEADERS = [
+  'side',
+  'unit',
+  'fielded',
+  'survival',
+  'avg damage',
+  'avg kills',
+  'damage/credit',
+  'damage/health',
+];
+
+const SWEEP_HEADERS = [
+  'value',
+  'attacker wins',
+  'timeouts',
+  'avg duration (s)',
+  'time to kill HQ (s)',
+  'time to eliminate (s)',
+  'HQ health left',
+  'attacker damage/credit',
+];
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function fixed(value: number | null, digits = 1): string {
+  return value === null ? '-' : value.toFixed(digits);
+}
+
+function seconds(value: number | null): string {
+  return value === null ? '-' : `${value.toFixed(1)}s`;
+}
+
+/**
+ * Pad columns to line up, numbers right-aligned
+ */
+function formatTable(headers: string[], rows: Cell[][]): string {
+  const text = rows.map((row) => row.map((cell) => (cell === null ? '-' : String(cell))));
+  const widths = headers.map((header, i) =>
+    Math.max(header.length, ...text.map((row) => row[i]?.length ?? 0))
+  );
+  const line = (cells: string[], alignRight: boolean[]) =>
+    cells
+      .map((cell, i) =>
+        alignRight[i] ? cell.padStart(widths[i] ?? 0) : cell.padEnd(widths[i] ?? 0)
+      )
+      .join('  ')
+      .trimEnd();
+
+  const numeric = headers.map((_, i) => rows.some((row) => typeof row[i] === 'number'));
+  return [
+    line(headers, numeric),
+    widths.map((w) => '-'.repeat(w)).join('  '),
+    ...rows.map((row, r) =>
+      line(
+        text[r] ?? [],
+        row.map((cell) => typeof cell !== 'string')
+      )
+    ),
+  ].join('\n');
+}
+
+function csvCell(cell: Cell): string {
+  if (cell === null) return '';
+  const text = String(cell);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(headers: string[], rows: Cell[][]): string {
+  return [headers, ...rows].map((row) => row.map(csvCell).join(',')).join('\n');
+}
+
+/**
+ * Summary and per-unit table for a single run
+ */
+export function formatBalanceReport(report: BalanceReport): string {
+  const summary = [
+    `Trials:               ${report.trials}`,
+    `Attacker wins:        ${percent(report.attackerWinRate)}`,
+    `Defender wins:        ${percent(report.defenderWinRate)} (timeouts ${percent(report.timeoutRate)})`,
+    `Avg duration:         ${seconds(report.avgDuration)}`,
+    `Time to kill HQ:      ${seconds(report.avgTimeToKillHq)}`,
+    `Time to eliminate:    ${seconds(report.avgTimeToEliminate)}`,
+    `HQ health left:       ${percent(report.avgHqHealthLeft)}`,
+    `Cost (atk / def):     ${report.attackerCost} / ${report.defenderCost}`,
+    `Attacker dmg/credit:  ${fixed(report.attackerDamagePerCredit, 2)}`,
+  ];
+
+  const rows: Cell[][] = report.units.map((u) => [
+    u.side,
+    u.unitTypeId,
+    u.fielded,
+    percent(u.survivalRate),
+    fixed(u.avgDamage),
+    fixed(u.avgKills, 2),
+    fixed(u.damagePerCredit, 2),
+    fixed(u.damagePerHealth, 2),
+  ]);
+
+  return `${summary.join('\n')}\n\n${formatTable(UNIT_HEADERS, rows)}`;
+}
+
+/**
+ * Per-unit rows of a single run as CSV
+ */
+export function balanceReportToCsv(report: BalanceReport): string {
+  return toCsv(
+    UNIT_HEADERS,
+    report.units.map((u) => [
+      u.side,
+      u.unitTypeId,
+      u.fielded,
+      u.survivalRate,
+      u.avgDamage,
+      u.avgKills,
+      u.damagePerCredit,
+      u.damagePerHealth,
+    ])
+  );
+}
+
+function sweepRow(row: BalanceSweepRow, asText: boolean): Cell[] {
+  const { report } = row;
+  return asText
+    ? [
+        row.value,
+        percent(report.attackerWinRate),
+        percent(report.timeoutRate),
+        fixed(report.avgDuration),
+        fixed(report.avgTimeToKillHq),
+        fixed(report.avgTimeToEliminate),
+        percent(report.avgHqHealthLeft),
+        fixed(report.attackerDamagePerCredit, 2),
+      ]
+    : [
+        row.value,
+        report.attackerWinRate,
+        report.timeoutRate,
+        report.avgDuration,
+        report.avgTimeToKillHq,
+        report.avgTimeToEliminate,
+        report.avgHqHealthLeft,
+        report.attackerDamagePerCredit,
+      ];
+}
+
+/**
+ * One line per swept value
+ */
+export function formatBalanceSweep(rows: BalanceSweepRow[]): string {
+  return formatTable(
+    SWEEP_HEADERS,
+    rows.map((row) => sweepRow(row, true))
+  );
+}
+
+export function balanceSweepToCsv(rows: BalanceSweepRow[]): string {
+  return toCsv(
+    SWEEP_HEADERS,
+    rows.map((row) => sweepRow(row, false))
+  );
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { ABILITY_TEMPLATES, type AbilityDefinition } from '@nova-fall/shared';
+import { chooseAutoCastTarget, type AbilityCandidate } from './abilities.js';
+import { BURN_MAX_STACKS, type ActiveEffect } from './statusEffects.js';
+
+function template(id: string): AbilityDefinition {
+  const ability = ABILITY_TEMPLATES[id];
+  if (!ability) throw new Error(`Missing ability template ${id}`);
+  return ability;
+}
+
+function createCandidate(overrides: Partial<AbilityCandidate> = {}): AbilityCandidate {
+  return {
+    id: 'unit-1',
+    x: 0,
+    z: 0,
+    health: 100,
+    maxHealth: 100,
+    category: 'infantry',
+    effects: [],
+    ...overrides,
+  };
+}
+
+function createEffect(overrides: Partial<ActiveEffect> = {}): ActiveEffect {
+  return {
+    type: 'speed_buff',
+    value: 1.5,
+    stacks: 1,
+    expiresAt: 1000,
+    nextPulseAt: null,
+    sourceId: 'unit-1',
+    ...overrides,
+  };
+}
+
+describe('chooseAutoCastTarget', () => {
+  const caster = { id: 'engineer', x: 10, z: 10 };
+
+  it('repairs the most damaged ally in range', () => {
+    const allies = [
+      createCandidate({ id: 'engineer', x: 10, z: 10 }),
+      createCandidate({ id: 'scratched', x: 11, z: 10, health: 90 }),
+      createCandidate({ id: 'wounded', x: 10, z: 11, health: 30 }),
+      createCandidate({ id: 'dying-far', x: 20, z: 20, health: 5 }),
+    ];
+
+    expect(chooseAutoCastTarget(caster, template('repair'), allies, [])).toEqual({
+      targetId: 'wounded',
+    });
+  });
+
+  it('does not repair when every ally in range is at full health', () => {
+    const allies = [createCandidate({ id: 'engineer', x: 10, z: 10 })];
+
+    expect(chooseAutoCastTarget(caster, template('repair'), allies, [])).toBeNull();
+  });
+
+  it('centres point abilities on the largest group of valid targets', () => {
+    const enemies = [
+      createCandidate({ id: 'tank-1', x: 12, z: 10, category: 'combat_vehicle' }),
+      createCandidate({ id: 'tank-2', x: 14, z: 14, category: 'combat_vehicle' }),
+      createCandidate({ id: 'tank-3', x: 15, z: 14, category: 'combat_vehicle' }),
+      // EMP only affects vehicles
+      createCandidate({ id: 'infantry-1', x: 12, z: 11 }),
+      createCandidate({ id: 'infantry-2', x: 12, z: 12 }),
+    ];
+
+    expect(chooseAutoCastTarget(caster, template('emp'), [], enemies)).toEqual({
+      position: { x: 14, z: 14 },
+    });
+  });
+
+  it('skips targets that already have the effect', () => {
+    const enemies = [
+      createCandidate({
+        id: 'turret-1',
+        x: 11,
+        z: 10,
+        category: 'turret',
+        effects: [createEffect({ type: 'stun' })],
+      }),
+    ];
+
+    expect(chooseAutoCastTarget(caster, template('sabotage'), [], enemies)).toBeNull();
+  });
+
+  it('keeps casting stacking effects until the stack cap', () => {
+    const irradiate = template('irradiate');
+    const burning = (stacks: number) => [
+      createCandidate({
+        id: 'enemy',
+        x: 11,
+        z: 10,
+        effects: [createEffect({ type: 'burn', stacks })],
+      }),
+    ];
+
+    expect(chooseAutoCastTarget(caster, irradiate, [], burning(2))).toEqual({});
+    expect(chooseAutoCastTarget(caster, irradiate, [], burning(BURN_MAX_STACKS))).toBeNull();
+  });
+
+  it('holds ally buffs until an enemy is close', () => {
+    const allies = [createCandidate({ id: 'engineer', x: 10, z: 10 })];
+    const farEnemy = createCandidate({ id: 'enemy', x: 30, z: 30 });
+    const nearEnemy = createCandidate({ id: 'enemy', x: 13, z: 10 });
+    const shield = template('shield_burst');
+
+    expect(chooseAutoCastTarget(caster, shield, allies, [farEnemy])).toBeNull();
+    expect(chooseAutoCastTarget(caster, shield, allies, [nearEnemy])).toEqual({});
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Abilities
+ *
+ * Helpers for ability auto-casting. Casting itself lives in the simulator,
+ * which owns the units and buildings being affected.
+ *
+ * Abilities cost energy and go on cooldown when cast. Heal restores health
+ * instantly (repairs buildings too); every other effect lingers as a status
+ * effect (see statusEffects.ts). Notably:
+ * - shield_burst: temporary shield on top of the target's own
+ * - stealth: enemies can't target the unit until it expires or the unit attacks
+ */
+
+import type { AbilityDefinition, ArenaPosition, TargetCategory } from '@nova-fall/shared';
+import { euclideanDistance, isInRange } from './damage.js';
+import { STATUS_EFFECT_RULES, type ActiveEffect } from './statusEffects.js';
+
+/**
+ * Where to cast an ability (which fields are needed depends on its targeting)
+ */
+export interface AbilityCastTarget {
+  targetId?: string; // unit targeting
+  position?: ArenaPosition; // point targeting
+}
+
+/**
+ * Why a cast was refused
+ */
+export type AbilityCastFailure =
+  | 'INVALID_CASTER'
+  | 'UNKNOWN_ABILITY'
+  | 'CASTER_DISABLED'
+  | 'ON_COOLDOWN'
+  | 'NOT_ENOUGH_ENERGY'
+  | 'INVALID_TARGET'
+  | 'OUT_OF_RANGE';
+
+/**
+ * Unit or building an auto-cast could land on
+ */
+export interface AbilityCandidate {
+  id: string;
+  x: number;
+  z: number;
+  health: number;
+  maxHealth: number;
+  category: TargetCategory;
+  effects: readonly ActiveEffect[];
+}
+
+// Ally buffs (shields, speed, stealth) are only auto-cast with an enemy this close (tiles)
+export const AUTOCAST_ENGAGE_RANGE = 6;
+
+/**
+ * Check if an ability (or consumable) can affect a target of this category
+ */
+export function canAffectCategory(
+  ability: Pick<AbilityDefinition, 'targetCategories'>,
+  category: TargetCategory
+): boolean {
+  return !ability.targetCategories || ability.targetCategories.includes(category);
+}
+
+/**
+ * Check if casting the ability on a candidate would do anything
+ * (heals need missing health, other effects need the target not to have them
+ * already, or to have room for another stack)
+ */
+function wouldBenefit(ability: AbilityDefinition, candidate: AbilityCandidate): boolean {
+  if (!canAffectCategory(ability, candidate.category)) return false;
+  return ability.effects.some((effect) => {
+    if (effect.type === 'heal') return candidate.health < candidate.maxHealth;
+    const active = candidate.effects.find((e) => e.type === effect.type);
+    return !active || active.stacks < STATUS_EFFECT_RULES[effect.type].maxStacks;
+  });
+}
+
+function countInRadius(
+  x: number,
+  z: number,
+  radius: number,
+  candidates: readonly AbilityCandidate[]
+): number {
+  return candidates.filter((c) => euclideanDistance(x, z, c.x, c.z) <= radius).length;
+}
+
+/**
+ * Pick where an auto-cast ability should land, or null if it shouldn't be cast yet
+ * Allies includes the caster; enemies should only hold targetable enemies.
+ * Choices are deterministic: ties go to the lowest ID
+ */
+export function chooseAutoCastTarget(
+  caster: { id: string; x: number; z: number },
+  ability: AbilityDefinition,
+  allies: readonly AbilityCandidate[],
+  enemies: readonly AbilityCandidate[]
+): AbilityCastTarget | null {
+  const healOnly = ability.effects.every((e) => e.type === 'heal');
+  if (ability.affects === 'allies' && !healOnly) {
+    const engaged = enemies.some(
+      (e) => euclideanDistance(caster.x, caster.z, e.x, e.z) <= AUTOCAST_ENGAGE_RANGE
+    );
+    if (!engaged) return null;
+  }
+
+  const pool = (ability.affects === 'allies' ? allies : enemies).filter((c) =>
+    wouldBenefit(ability, c)
+  );
+
+  switch (ability.targeting) {
+    case 'self':
+      return pool.some((c) => c.id === caster.id) ? {} : null;
+
+    case 'area':
+      return countInRadius(caster.x, caster.z, ability.radius, pool) > 0 ? {} : null;
+
+    case 'unit': {
+      // Allies: most damaged first. Enemies: closest first
+      let best: AbilityCandidate | null = null;
+      let bestScore = -Infinity;
+      for (const candidate of pool) {
+        if (!isInRange(caster.x, caster.z, candidate.x, candidate.z, ability.range)) continue;
+        const score =
+          ability.affects === 'allies'
+            ? 1 - candidate.health / Math.max(1, candidate.maxHealth)
+            : -euclideanDistance(caster.x, caster.z, candidate.x, candidate.z);
+        if (score > bestScore || (score === bestScore && best && candidate.id < best.id)) {
+          best = candidate;
+          bestScore = score;
+        }
+      }
+      return best ? { targetId: best.id } : null;
+    }
+
+    case 'point': {
+      // Centre on whichever candidate catches the most others in the radius
+      let best: AbilityCandidate | null = null;
+      let bestCount = 0;
+      for (const candidate of pool) {
+        if (!isInRange(caster.x, caster.z, candidate.x, candidate.z, ability.range)) continue;
+        const count = countInRadius(candidate.x, candidate.z, ability.radius, pool);
+        if (count > bestCount || (count === bestCount && best && candidate.id < best.id)) {
+          best = candidate;
+          bestCount = count;
+        }
+      }
+      return best ? { position: { x: best.x, z: best.z } } : null;
+    }
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Combat arena
+ *
+ * Arena layout and deployment helpers shared by the server combat
+ * runner and replays.
+ */
+
+import { TileType, type ArenaPosition } from '@nova-fall/shared';
+
+// Arena dimensions (must match client CombatEngine)
+export const ARENA_SIZE = 60;
+export const CORE_X = Math.floor(ARENA_SIZE / 2);
+export const CORE_Z = Math.floor(ARENA_SIZE / 2);
+
+// Attackers deploy on the outermost ring of tiles
+const SPAWN_ZONE_WIDTH = 1;
+
+/**
+ * Building footprint placed on the arena
+ */
+export interface ArenaFootprint {
+  position: ArenaPosition;
+  width: number;
+  height: number;
+  passable?: boolean; // Walked over rather than around (traps), defaults to false
+}
+
+function isCoreTile(x: number, z: number): boolean {
+  return (x === CORE_X || x === CORE_X + 1) && (z === CORE_Z || z === CORE_Z + 1);
+}
+
+function isInBounds(x: number, z: number): boolean {
+  return x >= 0 && x < ARENA_SIZE && z >= 0 && z < ARENA_SIZE;
+}
+
+/**
+ * Build the arena tile grid for a battle
+ * Defender building footprints are impassable (except traps), the core is an HQ zone
+ * and the perimeter is the attacker spawn zone
+ */
+export function buildArenaLayout(footprints: ArenaFootprint[]): TileType[][] {
+  const layout: TileType[][] = [];
+  for (let x = 0; x < ARENA_SIZE; x++) {
+    const row: TileType[] = [];
+    for (let z = 0; z < ARENA_SIZE; z++) {
+      const onEdge =
+        x < SPAWN_ZONE_WIDTH ||
+        z < SPAWN_ZONE_WIDTH ||
+        x >= ARENA_SIZE - SPAWN_ZONE_WIDTH ||
+        z >= ARENA_SIZE - SPAWN_ZONE_WIDTH;
+      if (isCoreTile(x, z)) row.push(TileType.HQ_ZONE);
+      else if (onEdge) row.push(TileType.SPAWN_ZONE);
+      else row.push(TileType.WALKABLE);
+    }
+    layout.push(row);
+  }
+
+  for (const footprint of footprints) {
+    if (footprint.passable) continue;
+    for (let dx = 0; dx < footprint.width; dx++) {
+      for (let dz = 0; dz < footprint.height; dz++) {
+        const x = footprint.position.x + dx;
+        const z = footprint.position.z + dz;
+        const row = layout[x];
+        if (row && isInBounds(x, z) && !isCoreTile(x, z)) {
+          row[z] = TileType.BLOCKED;
+        }
+      }
+    }
+  }
+
+  return layout;
+}
+
+/**
+ * Check if attackers may deploy on a tile
+ */
+export function isSpawnTile(layout: TileType[][], position: ArenaPosition): boolean {
+  return layout[position.x]?.[position.z] === TileType.SPAWN_ZONE;
+}
+
+/**
+ * All tiles attackers may deploy on, grouped by arena edge
+ * (north, east, south, west), each ordered along the edge
+ */
+export function getSpawnTilesByEdge(layout: TileType[][]): ArenaPosition[][] {
+  const edges: ArenaPosition[][] = [[], [], [], []];
+  const last = ARENA_SIZE - 1;
+
+  for (let i = 0; i < ARENA_SIZE; i++) {
+    const candidates: [number, ArenaPosition][] = [
+      [0, { x: i, z: 0 }],
+      [1, { x: last, z: i }],
+      [2, { x: i, z: last }],
+      [3, { x: 0, z: i }],
+    ];
+    for (const [edge, position] of candidates) {
+      if (isSpawnTile(layout, position)) edges[edge]?.push(position);
+    }
+  }
+
+  return edges;
+}
+
+/**
+ * Pick garrison positions in rings around the core
+ */
+export function getGarrisonPositions(layout: TileType[][], count: number): ArenaPosition[] {
+  const positions: ArenaPosition[] = [];
+
+  for (let radius = 2; positions.length < count && radius < ARENA_SIZE / 2; radius++) {
+    for (let x = CORE_X - radius; x <= CORE_X + 1 + radius; x++) {
+      for (let z = CORE_Z - radius; z <= CORE_Z + 1 + radius; z++) {
+        // Only the outer ring of this radius
+        const ring = Math.max(
+          Math.max(CORE_X - x, x - CORE_X - 1),
+          Math.max(CORE_Z - z, z - CORE_Z - 1)
+        );
+        if (ring !== radius) continue;
+        const tile = layout[x]?.[z];
+        if (tile !== TileType.WALKABLE && tile !== TileType.COVER) continue;
+
+        positions.push({ x, z });
+        if (positions.length >= count) return positions;
+      }
+    }
+  }
+
+  return positions;
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { NodeType, TileType } from '@nova-fall/shared';
+import { ARENA_SIZE, CORE_X, CORE_Z } from './arena.js';
+import { generateArenaLayout, type ArenaGenerationOptions } from './arenaGenerator.js';
+import { buildFlowField, getFlowDistance } from './flowField.js';
+
+function createOptions(overrides: Partial<ArenaGenerationOptions> = {}): ArenaGenerationOptions {
+  return { nodeType: NodeType.MINING, tier: 1, regionId: null, seed: 42, ...overrides };
+}
+
+function countTiles(layout: TileType[][], tile: TileType): number {
+  return layout.flat().filter((t) => t === tile).length;
+}
+
+describe('generateArenaLayout', () => {
+  it('generates the same layout from the same options', () => {
+    const layout = generateArenaLayout(createOptions());
+
+    expect(layout).toHaveLength(ARENA_SIZE);
+    expect(layout.every((row) => row.length === ARENA_SIZE)).toBe(true);
+    expect(generateArenaLayout(createOptions())).toEqual(layout);
+    expect(generateArenaLayout(createOptions({ seed: 43 }))).not.toEqual(layout);
+  });
+
+  it('keeps the HQ, deploy zone and the ground around them clear', () => {
+    const layout = generateArenaLayout(createOptions({ tier: 3 }));
+
+    expect(layout[CORE_X]?.[CORE_Z]).toBe(TileType.HQ_ZONE);
+    expect(layout[CORE_X + 1]?.[CORE_Z + 1]).toBe(TileType.HQ_ZONE);
+    for (let i = 0; i < ARENA_SIZE; i++) {
+      expect(layout[0]?.[i]).toBe(TileType.SPAWN_ZONE);
+      expect(layout[i]?.[ARENA_SIZE - 1]).toBe(TileType.SPAWN_ZONE);
+      expect(layout[1]?.[i] === TileType.WALKABLE || i === 0 || i === ARENA_SIZE - 1).toBe(true);
+    }
+    expect(layout[CORE_X - 2]?.[CORE_Z]).toBe(TileType.WALKABLE);
+  });
+
+  it('always leaves every open tile a path to the core', () => {
+    for (const nodeType of Object.values(NodeType)) {
+      for (const seed of [1, 2, 3]) {
+        const layout = generateArenaLayout(
+          createOptions({ nodeType, seed, tier: 3, regionId: 'region-1' }),
+          [{ position: { x: 20, z: 20 }, width: 3, height: 3 }]
+        );
+        const field = buildFlowField(layout);
+
+        for (let x = 0; x < ARENA_SIZE; x++) {
+          for (let z = 0; z < ARENA_SIZE; z++) {
+            if (layout[x]?.[z] === TileType.BLOCKED) continue;
+            expect(getFlowDistance(field, x, z)).toBeLessThan(Infinity);
+          }
+        }
+      }
+    }
+  });
+
+  it('blocks defender buildings and keeps props off them', () => {
+    const footprint = { position: { x: 15, z: 40 }, width: 2, height: 2 };
+    const layout = generateArenaLayout(createOptions(), [footprint]);
+
+    expect(layout[15]?.[40]).toBe(TileType.BLOCKED);
+    expect(layout[16]?.[41]).toBe(TileType.BLOCKED);
+    // One tile of space is left around buildings
+    for (let x = 14; x <= 17; x++) {
+      for (let z = 39; z <= 42; z++) {
+        if (x >= 15 && x <= 16 && z >= 40 && z <= 41) continue;
+        expect(layout[x]?.[z]).toBe(TileType.WALKABLE);
+      }
+    }
+  });
+
+  it('themes arenas by node type, tier and region', () => {
+    const mining = generateArenaLayout(createOptions());
+    const tradeHub = generateArenaLayout(createOptions({ nodeType: NodeType.TRADE_HUB }));
+    const farm = generateArenaLayout(createOptions({ nodeType: NodeType.AGRICULTURAL }));
+
+    expect(countTiles(mining, TileType.BLOCKED)).toBeGreaterThan(
+      countTiles(tradeHub, TileType.BLOCKED)
+    );
+    expect(countTiles(tradeHub, TileType.COVER)).toBeGreaterThan(0);
+    expect(countTiles(farm, TileType.SLOW)).toBeGreaterThan(countTiles(tradeHub, TileType.SLOW));
+
+    const tier3 = generateArenaLayout(createOptions({ tier: 3 }));
+    expect(countTiles(tier3, TileType.BLOCKED)).toBeGreaterThan(
+      countTiles(mining, TileType.BLOCKED)
+    );
+
+    const inRegion = generateArenaLayout(createOptions({ regionId: 'region-1' }));
+    expect(countTiles(inRegion, TileType.HAZARD)).toBeGreaterThan(0);
+    expect(countTiles(mining, TileType.HAZARD)).toBe(0);
+  });
+});
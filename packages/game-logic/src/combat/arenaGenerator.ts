@@ -0,0 +1,347 @@
+/**
+ * Arena generator
+ *
+ * Seeded, themed arena layouts (COMBAT-MODE-DESIGN 4.2). Each node type has a
+ * theme describing how cluttered its arena is: blocking props, cover for
+ * units to fight from, and patches of slow or hazardous ground. Higher tier
+ * nodes are more built up, and nodes inside an environmental region get
+ * extra hazards.
+ *
+ * The same options always produce the same layout, so the server and any
+ * client previewing the arena agree tile for tile. Props are never placed
+ * in the deploy zone, around the core or on defender buildings, and a prop
+ * is only kept if every open tile can still reach the core.
+ */
+
+import { NodeType, TileType } from '@nova-fall/shared';
+import { ARENA_SIZE, CORE_X, CORE_Z, buildArenaLayout, type ArenaFootprint } from './arena.js';
+import { SeededRandom, seedFromString } from './random.js';
+
+// Tiles kept clear inside the deploy perimeter so attackers can always move out
+const DEPLOY_CLEARANCE = 3;
+
+// Tiles kept clear around the core for the defender's base
+const CORE_CLEARANCE = 5;
+
+// Extra props, cover and patches per tier above 1
+const TIER_DENSITY_BONUS = 0.25;
+
+// Hazard patches added for nodes inside an environmental region
+const REGION_HAZARD_PATCHES = 2;
+
+// Random positions tried for each feature before giving up on it
+const PLACEMENT_ATTEMPTS = 10;
+
+/**
+ * How a node type's arena is laid out (counts are for a tier 1 node)
+ */
+export interface ArenaTheme {
+  props: number; // Blocking props (rubble, tanks, containers...)
+  propSize: { min: number; max: number }; // Prop side length in tiles
+  cover: number; // Short runs of cover (sandbags, crates, barriers)
+  slowPatches: number; // Rough ground
+  hazardPatches: number; // Spills, exposed conduits
+}
+
+/**
+ * Inputs that decide an arena layout
+ */
+export interface ArenaGenerationOptions {
+  nodeType: string;
+  tier: number;
+  regionId: string | null;
+  seed: number;
+}
+
+export const DEFAULT_ARENA_THEME: ArenaTheme = {
+  props: 8,
+  propSize: { min: 1, max: 3 },
+  cover: 8,
+  slowPatches: 2,
+  hazardPatches: 1,
+};
+
+export const ARENA_THEMES: Record<NodeType, ArenaTheme> = {
+  [NodeType.MINING]: {
+    props: 16,
+    propSize: { min: 1, max: 3 },
+    cover: 6,
+    slowPatches: 6,
+    hazardPatches: 0,
+  },
+  [NodeType.REFINERY]: {
+    props: 10,
+    propSize: { min: 2, max: 3 },
+    cover: 4,
+    slowPatches: 2,
+    hazardPatches: 4,
+  },
+  [NodeType.RESEARCH]: {
+    props: 6,
+    propSize: { min: 1, max: 2 },
+    cover: 8,
+    slowPatches: 0,
+    hazardPatches: 1,
+  },
+  [NodeType.TRADE_HUB]: {
+    props: 3,
+    propSize: { min: 2, max: 3 },
+    cover: 10,
+    slowPatches: 0,
+    hazardPatches: 0,
+  },
+  [NodeType.BARRACKS]: {
+    props: 8,
+    propSize: { min: 1, max: 2 },
+    cover: 16,
+    slowPatches: 2,
+    hazardPatches: 0,
+  },
+  [NodeType.AGRICULTURAL]: {
+    props: 5,
+    propSize: { min: 2, max: 3 },
+    cover: 4,
+    slowPatches: 10,
+    hazardPatches: 0,
+  },
+  [NodeType.POWER_PLANT]: {
+    props: 8,
+    propSize: { min: 2, max: 3 },
+    cover: 4,
+    slowPatches: 0,
+    hazardPatches: 5,
+  },
+  [NodeType.MANUFACTURING_PLANT]: {
+    props: 12,
+    propSize: { min: 2, max: 4 },
+    cover: 6,
+    slowPatches: 2,
+    hazardPatches: 2,
+  },
+  [NodeType.CAPITAL]: {
+    props: 6,
+    propSize: { min: 2, max: 2 },
+    cover: 12,
+    slowPatches: 0,
+    hazardPatches: 0,
+  },
+  [NodeType.CROWN]: {
+    props: 8,
+    propSize: { min: 1, max: 3 },
+    cover: 8,
+    slowPatches: 2,
+    hazardPatches: 2,
+  },
+};
+
+/**
+ * Theme for a node type, falling back to the default for unknown types
+ */
+export function getArenaTheme(nodeType: string): ArenaTheme {
+  return (ARENA_THEMES as Record<string, ArenaTheme | undefined>)[nodeType] ?? DEFAULT_ARENA_THEME;
+}
+
+/**
+ * Generate the arena layout for a battle at a node
+ * Defender building footprints are blocked, as in buildArenaLayout
+ */
+export function generateArenaLayout(
+  options: ArenaGenerationOptions,
+  footprints: ArenaFootprint[] = []
+): TileType[][] {
+  const layout = buildArenaLayout(footprints);
+  const theme = getArenaTheme(options.nodeType);
+  const rng = new SeededRandom(
+    seedFromString(`${options.seed}:${options.nodeType}:${options.tier}:${options.regionId ?? ''}`)
+  );
+  const reserved = getReservedTiles(footprints);
+  const scale = 1 + Math.max(0, options.tier - 1) * TIER_DENSITY_BONUS;
+  const count = (base: number): number => Math.round(base * scale);
+
+  for (let i = 0; i < count(theme.props); i++) {
+    placeProp(layout, reserved, theme, rng);
+  }
+
+  const hazardPatches = count(theme.hazardPatches) + (options.regionId ? REGION_HAZARD_PATCHES : 0);
+  for (let i = 0; i < count(theme.slowPatches); i++) {
+    placePatch(layout, reserved, TileType.SLOW, rng);
+  }
+  for (let i = 0; i < hazardPatches; i++) {
+    placePatch(layout, reserved, TileType.HAZARD, rng);
+  }
+
+  for (let i = 0; i < count(theme.cover); i++) {
+    placeCover(layout, reserved, rng);
+  }
+
+  return layout;
+}
+
+function tileKey(x: number, z: number): number {
+  return x * ARENA_SIZE + z;
+}
+
+/**
+ * Tiles no feature may be placed on: the deploy zone, the core's surroundings
+ * and defender buildings (with a tile of space around them)
+ */
+function getReservedTiles(footprints: ArenaFootprint[]): Set<number> {
+  const reserved = new Set<number>();
+  const deployDepth = 1 + DEPLOY_CLEARANCE;
+
+  for (let x = 0; x < ARENA_SIZE; x++) {
+    for (let z = 0; z < ARENA_SIZE; z++) {
+      const nearEdge =
+        x < deployDepth ||
+        z < deployDepth ||
+        x >= ARENA_SIZE - deployDepth ||
+        z >= ARENA_SIZE - deployDepth;
+      const nearCore =
+        x >= CORE_X - CORE_CLEARANCE &&
+        x <= CORE_X + 1 + CORE_CLEARANCE &&
+        z >= CORE_Z - CORE_CLEARANCE &&
+        z <= CORE_Z + 1 + CORE_CLEARANCE;
+      if (nearEdge || nearCore) reserved.add(tileKey(x, z));
+    }
+  }
+
+  for (const { position, width, height } of footprints) {
+    for (let x = position.x - 1; x <= position.x + width; x++) {
+      for (let z = position.z - 1; z <= position.z + height; z++) {
+        reserved.add(tileKey(x, z));
+      }
+    }
+  }
+
+  return reserved;
+}
+
+function isFree(layout: TileType[][], reserved: Set<number>, x: number, z: number): boolean {
+  return layout[x]?.[z] === TileType.WALKABLE && !reserved.has(tileKey(x, z));
+}
+
+function setTiles(layout: TileType[][], tiles: { x: number; z: number }[], tile: TileType): void {
+  for (const { x, z } of tiles) {
+    const row = layout[x];
+    if (row) row[z] = tile;
+  }
+}
+
+/**
+ * Number of tiles that can reach the core, moving like units do
+ * (8 directions, no cutting corners around blocked tiles)
+ */
+function countReachable(layout: TileType[][]): number {
+  const isOpen = (x: number, z: number): boolean => {
+    const tile = layout[x]?.[z];
+    return tile !== undefined && tile !== TileType.BLOCKED;
+  };
+
+  const visited = new Set<number>();
+  const stack: { x: number; z: number }[] = [];
+  for (const [x, z] of [
+    [CORE_X, CORE_Z],
+    [CORE_X + 1, CORE_Z],
+    [CORE_X, CORE_Z + 1],
+    [CORE_X + 1, CORE_Z + 1],
+  ] as const) {
+    visited.add(tileKey(x, z));
+    stack.push({ x, z });
+  }
+
+  while (stack.length > 0) {
+    const current = stack.pop();
+    if (!current) break;
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dz = -1; dz <= 1; dz++) {
+        const nx = current.x + dx;
+        const nz = current.z + dz;
+        if (visited.has(tileKey(nx, nz)) || !isOpen(nx, nz)) continue;
+        if (dx !== 0 && dz !== 0 && (!isOpen(nx, current.z) || !isOpen(current.x, nz))) continue;
+        visited.add(tileKey(nx, nz));
+        stack.push({ x: nx, z: nz });
+      }
+    }
+  }
+
+  return visited.size;
+}
+
+/**
+ * Place a rectangular blocking prop, unless it would cut any tile off from the core
+ */
+function placeProp(
+  layout: TileType[][],
+  reserved: Set<number>,
+  theme: ArenaTheme,
+  rng: SeededRandom
+): void {
+  const width = rng.nextInt(theme.propSize.min, theme.propSize.max);
+  const height = rng.nextInt(theme.propSize.min, theme.propSize.max);
+
+  for (let attempt = 0; attempt < PLACEMENT_ATTEMPTS; attempt++) {
+    const originX = rng.nextInt(0, ARENA_SIZE - width);
+    const originZ = rng.nextInt(0, ARENA_SIZE - height);
+
+    const tiles: { x: number; z: number }[] = [];
+    for (let x = originX; x < originX + width; x++) {
+      for (let z = originZ; z < originZ + height; z++) {
+        tiles.push({ x, z });
+      }
+    }
+    if (!tiles.every((t) => isFree(layout, reserved, t.x, t.z))) continue;
+
+    const before = countReachable(layout);
+    setTiles(layout, tiles, TileType.BLOCKED);
+    if (countReachable(layout) === before - tiles.length) return;
+    setTiles(layout, tiles, TileType.WALKABLE);
+  }
+}
+
+/**
+ * Paint a rough blob of slow or hazardous ground
+ */
+function placePatch(
+  layout: TileType[][],
+  reserved: Set<number>,
+  tile: TileType,
+  rng: SeededRandom
+): void {
+  const radius = rng.nextInt(1, 3);
+  const centerX = rng.nextInt(0, ARENA_SIZE - 1);
+  const centerZ = rng.nextInt(0, ARENA_SIZE - 1);
+
+  const tiles: { x: number; z: number }[] = [];
+  for (let x = centerX - radius; x <= centerX + radius; x++) {
+    for (let z = centerZ - radius; z <= centerZ + radius; z++) {
+      // Ragged edges so patches don't all look like circles
+      const distance = Math.hypot(x - centerX, z - centerZ);
+      if (distance <= radius - rng.next() * 0.75 && isFree(layout, reserved, x, z)) {
+        tiles.push({ x, z });
+      }
+    }
+  }
+  setTiles(layout, tiles, tile);
+}
+
+/**
+ * Place a short straight run of cover
+ */
+function placeCover(layout: TileType[][], reserved: Set<number>, rng: SeededRandom): void {
+  const length = rng.nextInt(2, 4);
+  const alongX = rng.next() < 0.5;
+
+  for (let attempt = 0; attempt < PLACEMENT_ATTEMPTS; attempt++) {
+    const originX = rng.nextInt(0, ARENA_SIZE - 1);
+    const originZ = rng.nextInt(0, ARENA_SIZE - 1);
+
+    const tiles: { x: number; z: number }[] = [];
+    for (let i = 0; i < length; i++) {
+      tiles.push(alongX ? { x: originX + i, z: originZ } : { x: originX, z: originZ + i });
+    }
+    if (!tiles.every((t) => isFree(layout, reserved, t.x, t.z))) continue;
+
+    setTiles(layout, tiles, TileType.COVER);
+    return;
+  }
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { NodeType, TileType } from '@nova-fall/shared';
+import { ARENA_SIZE, CORE_X, CORE_Z, type ArenaFootprint } from './arena.js';
+import type { ArenaGenerationOptions } from './arenaGenerator.js';
+import { validateBaseLayout } from './baseLayout.js';
+
+// Test data helpers
+function createOptions(): ArenaGenerationOptions {
+  return { nodeType: NodeType.MINING, tier: 1, regionId: null, seed: 42 };
+}
+
+function createFootprint(x: number, z: number, width = 2, height = 2): ArenaFootprint {
+  return { position: { x, z }, width, height };
+}
+
+/**
+ * 1x1 walls on every tile of a square ring around the core
+ */
+function createRing(radius: number): ArenaFootprint[] {
+  const walls: ArenaFootprint[] = [];
+  const min = CORE_X - radius;
+  const max = CORE_X + 1 + radius;
+  for (let x = min; x <= max; x++) {
+    for (let z = CORE_Z - radius; z <= CORE_Z + 1 + radius; z++) {
+      if (x === min || x === max || z === CORE_Z - radius || z === CORE_Z + 1 + radius) {
+        walls.push(createFootprint(x, z, 1, 1));
+      }
+    }
+  }
+  return walls;
+}
+
+describe('validateBaseLayout', () => {
+  it('accepts buildings that leave a path and returns the arena they block', () => {
+    const { problems, arenaLayout } = validateBaseLayout(
+      [createFootprint(20, 20), createFootprint(35, 30, 3, 1)],
+      createOptions()
+    );
+
+    expect(problems).toEqual([]);
+    expect(arenaLayout?.[20]?.[21]).toBe(TileType.BLOCKED);
+    expect(arenaLayout?.[37]?.[30]).toBe(TileType.BLOCKED);
+  });
+
+  it('rejects buildings outside the arena, on the deploy zone or on the core', () => {
+    const { problems, arenaLayout } = validateBaseLayout(
+      [
+        createFootprint(ARENA_SIZE - 1, 10),
+        createFootprint(10, 0),
+        createFootprint(CORE_X - 1, CORE_Z - 1),
+        createFootprint(10, 10),
+      ],
+      createOptions()
+    );
+
+    expect(problems.map((p) => [p.index, p.reason])).toEqual([
+      [0, 'out_of_bounds'],
+      [1, 'deploy_zone'],
+      [2, 'core'],
+    ]);
+    expect(arenaLayout).toBeNull();
+  });
+
+  it('rejects overlapping footprints', () => {
+    const { problems } = validateBaseLayout(
+      [createFootprint(10, 10, 3, 3), createFootprint(12, 12)],
+      createOptions()
+    );
+
+    expect(problems).toEqual([
+      { index: 1, reason: 'overlap', message: 'Building overlaps building 1' },
+    ]);
+  });
+
+  it('rejects layouts that wall the core off from the deploy zone', () => {
+    const ring = createRing(4);
+    expect(validateBaseLayout(ring, createOptions()).problems).toEqual([
+      expect.objectContaining({ index: null, reason: 'no_path' }),
+    ]);
+
+    // A single gap in a side is enough
+    const gap = ring.filter((w) => w.position.x !== CORE_X - 4 || w.position.z !== CORE_Z);
+    expect(validateBaseLayout(gap, createOptions()).problems).toEqual([]);
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Defender base layouts
+ *
+ * Checks a defender's building placements before they are saved for a
+ * battle. Footprints must sit inside the arena, off the attacker deploy
+ * zone and the core, must not overlap each other, and must leave attackers
+ * a path from the deploy zone to the core once the node's arena is generated
+ * around them. Shared by the API and the client layout editor so both
+ * reject the same placements.
+ */
+
+import type { TileType } from '@nova-fall/shared';
+import { ARENA_SIZE, CORE_X, CORE_Z, getSpawnTilesByEdge, type ArenaFootprint } from './arena.js';
+import { generateArenaLayout, type ArenaGenerationOptions } from './arenaGenerator.js';
+import { buildFlowField, getFlowDistance } from './flowField.js';
+
+export type BaseLayoutProblemReason =
+  | 'out_of_bounds'
+  | 'deploy_zone'
+  | 'core'
+  | 'overlap'
+  | 'no_path';
+
+/**
+ * Why a layout can't be saved
+ */
+export interface BaseLayoutProblem {
+  index: number | null; // Footprint at fault, null for the layout as a whole
+  reason: BaseLayoutProblemReason;
+  message: string;
+}
+
+/**
+ * Result of validating a layout
+ * arenaLayout is the arena the battle would be fought on (null if the footprints don't fit)
+ */
+export interface BaseLayoutValidation {
+  problems: BaseLayoutProblem[];
+  arenaLayout: TileType[][] | null;
+}
+
+function isCoreTile(x: number, z: number): boolean {
+  return (x === CORE_X || x === CORE_X + 1) && (z === CORE_Z || z === CORE_Z + 1);
+}
+
+function isDeployTile(x: number, z: number): boolean {
+  return x === 0 || z === 0 || x === ARENA_SIZE - 1 || z === ARENA_SIZE - 1;
+}
+
+/**
+ * Problem with a single footprint's tiles, ignoring other footprints
+ */
+function checkFootprint(footprint: ArenaFootprint, index: number): BaseLayoutProblem | null {
+  const { position, width, height } = footprint;
+  if (
+    !Number.isInteger(position.x) ||
+    !Number.isInteger(position.z) ||
+    position.x < 0 ||
+    position.z < 0 ||
+    position.x + width > ARENA_SIZE ||
+    position.z + height > ARENA_SIZE
+  ) {
+    return { index, reason: 'out_of_bounds', message: 'Building is outside the arena' };
+  }
+
+  for (let x = position.x; x < position.x + width; x++) {
+    for (let z = position.z; z < position.z + height; z++) {
+      if (isCoreTile(x, z)) {
+        return { index, reason: 'core', message: 'Building overlaps the core' };
+      }
+      if (isDeployTile(x, z)) {
+        return { index, reason: 'deploy_zone', message: 'Building is in the attacker deploy zone' };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Validate defender building footprints for a node's arena
+ */
+export function validateBaseLayout(
+  footprints: ArenaFootprint[],
+  options: ArenaGenerationOptions
+): BaseLayoutValidation {
+  const problems: BaseLayoutProblem[] = [];
+
+  // Tile -> index of the footprint occupying it
+  const occupied = new Map<number, number>();
+  footprints.forEach((footprint, index) => {
+    const problem = checkFootprint(footprint, index);
+    if (problem) {
+      problems.push(problem);
+      return;
+    }
+
+    const { position, width, height } = footprint;
+    for (let x = position.x; x < position.x + width; x++) {
+      for (let z = position.z; z < position.z + height; z++) {
+        const other = occupied.get(x * ARENA_SIZE + z);
+        if (other !== undefined) {
+          problems.push({
+            index,
+            reason: 'overlap',
+            message: `Building overlaps building ${other + 1}`,
+          });
+          return;
+        }
+      }
+    }
+    for (let x = position.x; x < position.x + width; x++) {
+      for (let z = position.z; z < position.z + height; z++) {
+        occupied.set(x * ARENA_SIZE + z, index);
+      }
+    }
+  });
+
+  if (problems.length > 0) {
+    return { problems, arenaLayout: null };
+  }
+
+  const arenaLayout = generateArenaLayout(options, footprints);
+  const field = buildFlowField(arenaLayout);
+  const reachable = getSpawnTilesByEdge(arenaLayout).some((edge) =>
+    edge.some((tile) => getFlowDistance(field, tile.x, tile.z) < Infinity)
+  );
+  if (!reachable) {
+    problems.push({
+      index: null,
+      reason: 'no_path',
+      message: 'Buildings must leave attackers a path to the core',
+    });
+  }
+
+  return { problems, arenaLayout };
+}
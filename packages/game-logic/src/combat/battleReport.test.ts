@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { createConfig, runBattle } from '../test/fixtures.js';
+import { BattleReportBuilder, buildBattleReport } from './battleReport.js';
+
+describe('buildBattleReport', () => {
+  it('sums up every unit and building from the replayed battle', () => {
+    const { runner, result } = runBattle(createConfig());
+    const report = buildBattleReport(runner.getLog(), {
+      units: { militia: 50, guard: 80 },
+      buildings: { turret: 300 },
+    });
+
+    expect(result).not.toBeNull();
+    expect(report).toMatchObject({
+      battleId: 'battle-1',
+      winnerId: result?.winnerId,
+      reason: result?.reason,
+      duration: result?.duration,
+      hqDamage: 2000 - (result?.finalHqHealth ?? 0),
+    });
+
+    const lostMilitia = result?.attackerLosses['militia'] ?? 0;
+    const lostGuards = result?.defenderLosses['guard'] ?? 0;
+    expect(report?.attacker).toMatchObject({
+      playerId: 'attacker-1',
+      fielded: 8,
+      unitsLost: lostMilitia,
+      survivors: 8 - lostMilitia,
+      creditsLost: lostMilitia * 50,
+    });
+    expect(report?.defender.unitsLost).toBe(lostGuards);
+    expect(report?.defender.creditsLost).toBe(
+      lostGuards * 80 + (report?.defender.structuresLost ?? 0) * 300
+    );
+
+    // Every unit that fired shows up, and the turret took the attackers' fire
+    expect(report?.entries.filter((e) => e.kind === 'unit')).toHaveLength(12);
+    const turret = report?.entries.find((e) => e.id === 'turret-1');
+    expect(turret).toMatchObject({ kind: 'building', side: 'defender', typeId: 'turret' });
+    expect(report?.attacker.damageDealt).toBeGreaterThan(0);
+    expect(report?.defender.damageTaken).toBeGreaterThan(0);
+  });
+
+  it('times the core breach and names the winning side top damage dealer as MVP', () => {
+    const { runner, result } = runBattle(
+      createConfig({ defenderUnits: [], buildings: [], hqMaxHealth: 300 })
+    );
+    const report = buildBattleReport(runner.getLog());
+
+    expect(result?.reason).toBe('hq_destroyed');
+    expect(report?.hqDamage).toBe(300);
+    expect(report?.coreBreachedAt).toBeGreaterThan(0);
+    expect(report?.coreBreachedAt).toBeLessThanOrEqual(report?.duration ?? 0);
+
+    const topDamage = Math.max(...(report?.entries.map((e) => e.damageDealt) ?? []));
+    expect(report?.mvp).toMatchObject({ side: 'attacker', damageDealt: topDamage });
+    expect(report?.defender.creditsLost).toBe(0);
+  });
+
+  it('builds the same report live, step by step, as from a replay of the log', () => {
+    const config = createConfig();
+    const builder = new BattleReportBuilder(config);
+    const { runner, result } = runBattle(config, ({ events }) => builder.addEvents(events));
+    if (!result) throw new Error('Battle did not finish');
+
+    const values = { units: { militia: 50 }, buildings: { turret: 300 } };
+    expect(builder.build(result, values)).toEqual(buildBattleReport(runner.getLog(), values));
+  });
+
+  it('returns null when the log has no setup', () => {
+    expect(buildBattleReport([])).toBeNull();
+  });
+});
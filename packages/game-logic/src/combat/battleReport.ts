@@ -0,0 +1,272 @@
+/**
+ * Battle reports
+ *
+ * Sums up how every unit and building in a finished battle did: damage dealt
+ * and taken, kills, survivors, what each side lost in credits, when the HQ was
+ * first hit and the battle's MVP. Collected as the battle is fought, or from a
+ * replay of its log. Shown to the players after the battle and kept for
+ * balance telemetry.
+ */
+
+import type { CombatEvent, CombatResult } from '@nova-fall/shared';
+import type { CombatSide } from './commander.js';
+import { replayCombat, type CombatLogEntry, type CombatRunnerConfig } from './runner.js';
+
+/**
+ * How one unit or building did
+ */
+export interface BattleReportEntry {
+  id: string;
+  side: CombatSide;
+  kind: 'unit' | 'building';
+  typeId: string; // Unit or building definition ID
+  damageDealt: number;
+  damageTaken: number;
+  kills: number; // Units killed
+  structuresDestroyed: number;
+  survived: boolean;
+  retreated: boolean; // Left the field through the deploy edge
+}
+
+/**
+ * Totals for one side
+ */
+export interface BattleReportSide {
+  playerId: string;
+  fielded: number; // Units deployed
+  unitsLost: number;
+  survivors: number; // Units alive at the end, retreated ones included
+  retreated: number;
+  structuresLost: number;
+  damageDealt: number;
+  damageTaken: number;
+  creditsLost: number; // Worth of lost units and buildings
+}
+
+export interface BattleReport {
+  battleId: string;
+  winnerId: string | null;
+  reason: CombatResult['reason'];
+  duration: number; // Seconds
+  hqMaxHealth: number;
+  hqDamage: number;
+  coreBreachedAt: number | null; // Seconds until the HQ first took damage
+  attacker: BattleReportSide;
+  defender: BattleReportSide;
+  mvp: BattleReportEntry | null;
+  entries: BattleReportEntry[];
+}
+
+/**
+ * Credits each unit and building type is worth, for valuing losses
+ * Types without a value count as 0
+ */
+export interface BattleReportValues {
+  units?: Record<string, number>; // Unit definition ID -> credits per unit
+  buildings?: Record<string, number>; // Building definition ID -> credits per building
+}
+
+// Running damage totals for a unit or building
+interface DamageTotals {
+  dealt: number;
+  taken: number;
+  kills: number;
+  structuresDestroyed: number;
+}
+
+/**
+ * Collects a battle's damage, kills and core breach from its events as it is
+ * fought, and builds the report once it ends
+ */
+export class BattleReportBuilder {
+  private readonly buildingIds: Set<string>;
+  private readonly totals = new Map<string, DamageTotals>();
+  // Last source to damage each target, credited if the target dies
+  private readonly lastHitBy = new Map<string, string>();
+  private readonly destroyed = new Set<string>();
+  private coreBreachedAt: number | null = null;
+
+  constructor(private readonly config: CombatRunnerConfig) {
+    this.buildingIds = new Set(config.buildings.map((b) => b.id));
+  }
+
+  /**
+   * Count one step's events
+   */
+  addEvents(events: CombatEvent[]): void {
+    for (const event of events) {
+      switch (event.type) {
+        case 'damage':
+          if (!event.targetId) break;
+          this.getTotals(event.targetId).taken += event.value ?? 0;
+          if (event.sourceId) {
+            this.getTotals(event.sourceId).dealt += event.value ?? 0;
+            this.lastHitBy.set(event.targetId, event.sourceId);
+          }
+          break;
+
+        case 'hq_damaged':
+          this.coreBreachedAt ??= event.timestamp;
+          if (event.sourceId) this.getTotals(event.sourceId).dealt += event.value ?? 0;
+          break;
+
+        case 'kill': {
+          if (!event.targetId) break;
+          const killer = this.lastHitBy.get(event.targetId);
+          if (this.buildingIds.has(event.targetId)) {
+            this.destroyed.add(event.targetId);
+            if (killer) this.getTotals(killer).structuresDestroyed++;
+          } else if (killer) {
+            this.getTotals(killer).kills++;
+          }
+          break;
+        }
+      }
+    }
+  }
+
+  /**
+   * Build the report from the events so far and the battle's result
+   */
+  build(result: CombatResult, values: BattleReportValues = {}): BattleReport {
+    const { config } = this;
+    const sideOf = (ownerId: string): CombatSide =>
+      ownerId === config.attackerId ? 'attacker' : 'defender';
+
+    const entries: BattleReportEntry[] = [];
+    // Units that never deployed didn't fight
+    for (const record of result.unitRecords.filter((r) => r.deployed)) {
+      entries.push({
+        id: record.unitId,
+        side: sideOf(record.ownerId),
+        kind: 'unit',
+        typeId: record.unitTypeId,
+        damageDealt: Math.round(record.damageDealt),
+        damageTaken: Math.round(this.totals.get(record.unitId)?.taken ?? 0),
+        kills: record.kills,
+        structuresDestroyed: record.structuresDestroyed,
+        survived: record.survived,
+        retreated: record.retreated,
+      });
+    }
+    for (const building of config.buildings) {
+      const buildingTotals = this.totals.get(building.id);
+      entries.push({
+        id: building.id,
+        side: 'defender',
+        kind: 'building',
+        typeId: building.buildingTypeId,
+        damageDealt: Math.round(buildingTotals?.dealt ?? 0),
+        damageTaken: Math.round(buildingTotals?.taken ?? 0),
+        kills: buildingTotals?.kills ?? 0,
+        structuresDestroyed: 0,
+        survived: !this.destroyed.has(building.id),
+        retreated: false,
+      });
+    }
+
+    return {
+      battleId: config.battleId,
+      winnerId: result.winnerId,
+      reason: result.reason,
+      duration: result.duration,
+      hqMaxHealth: config.hqMaxHealth,
+      hqDamage: Math.round(config.hqMaxHealth - result.finalHqHealth),
+      coreBreachedAt: this.coreBreachedAt === null ? null : this.coreBreachedAt / 1000,
+      attacker: summarizeSide(config.attackerId, 'attacker', entries, values),
+      defender: summarizeSide(config.defenderId, 'defender', entries, values),
+      mvp: findMvp(entries, result.winnerId === null ? null : sideOf(result.winnerId)),
+      entries,
+    };
+  }
+
+  private getTotals(id: string): DamageTotals {
+    let entry = this.totals.get(id);
+    if (!entry) {
+      entry = { dealt: 0, taken: 0, kills: 0, structuresDestroyed: 0 };
+      this.totals.set(id, entry);
+    }
+    return entry;
+  }
+}
+
+/**
+ * Replay a battle log into a report
+ * Returns null if the log has no setup or the battle never finished
+ */
+export function buildBattleReport(
+  log: CombatLogEntry[],
+  values: BattleReportValues = {}
+): BattleReport | null {
+  const setup = log.find((entry) => entry.type === 'setup');
+  if (setup?.type !== 'setup') return null;
+
+  const builder = new BattleReportBuilder(setup.config);
+  const result = replayCombat(log, ({ events }) => builder.addEvents(events));
+  return result ? builder.build(result, values) : null;
+}
+
+function summarizeSide(
+  playerId: string,
+  side: CombatSide,
+  entries: BattleReportEntry[],
+  values: BattleReportValues
+): BattleReportSide {
+  const summary: BattleReportSide = {
+    playerId,
+    fielded: 0,
+    unitsLost: 0,
+    survivors: 0,
+    retreated: 0,
+    structuresLost: 0,
+    damageDealt: 0,
+    damageTaken: 0,
+    creditsLost: 0,
+  };
+
+  for (const entry of entries.filter((e) => e.side === side)) {
+    summary.damageDealt += entry.damageDealt;
+    summary.damageTaken += entry.damageTaken;
+
+    if (entry.kind === 'building') {
+      if (entry.survived) continue;
+      summary.structuresLost++;
+      summary.creditsLost += values.buildings?.[entry.typeId] ?? 0;
+      continue;
+    }
+
+    summary.fielded++;
+    if (entry.retreated) summary.retreated++;
+    if (entry.survived) {
+      summary.survivors++;
+    } else {
+      summary.unitsLost++;
+      summary.creditsLost += values.units?.[entry.typeId] ?? 0;
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * The unit that dealt the most damage on the winning side (either side in a draw)
+ * Ties go to the unit with more kills. Null if none of those units dealt damage
+ */
+function findMvp(
+  entries: BattleReportEntry[],
+  winner: CombatSide | null
+): BattleReportEntry | null {
+  let mvp: BattleReportEntry | null = null;
+  for (const entry of entries) {
+    if (entry.kind !== 'unit' || entry.damageDealt <= 0) continue;
+    if (winner && entry.side !== winner) continue;
+    if (
+      !mvp ||
+      entry.damageDealt > mvp.damageDealt ||
+      (entry.damageDealt === mvp.damageDealt && entry.kills > mvp.kills)
+    ) {
+      mvp = entry;
+    }
+  }
+  return mvp;
+}
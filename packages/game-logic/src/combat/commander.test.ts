@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { UnitState } from '@nova-fall/shared';
+import { buildArenaLayout, isSpawnTile } from './arena.js';
+import { GarrisonDefenseCommander, WaveAttackCommander, type CommanderView } from './commander.js';
+import type { SimUnit } from './simulator.js';
+
+// Test data helpers
+function createUnit(overrides: Partial<SimUnit> = {}): SimUnit {
+  return {
+    id: 'unit-1',
+    typeId: 'militia',
+    ownerId: 'attacker-1',
+    x: 0,
+    z: 0,
+    targetX: null,
+    targetZ: null,
+    health: 100,
+    maxHealth: 100,
+    shield: 0,
+    maxShield: 0,
+    stats: {
+      health: 100,
+      shield: 0,
+      shieldRange: 0,
+      damage: 10,
+      armor: 0,
+      speed: 60,
+      range: 1,
+      attackSpeed: 1,
+    },
+    category: 'infantry',
+    targetPriority: 'balanced',
+    state: UnitState.IDLE,
+    targetId: null,
+    orderTargetId: null,
+    moveOrder: null,
+    retreating: false,
+    tileSize: 1,
+    lastAttackTime: Number.NEGATIVE_INFINITY,
+    rotation: 0,
+    velocityX: 0,
+    velocityZ: 0,
+    lastShieldHitTime: Number.NEGATIVE_INFINITY,
+    coveredBy: [],
+    abilities: [],
+    energy: 0,
+    abilityCooldowns: {},
+    effects: [],
+    veteranId: null,
+    damageDealt: 0,
+    kills: 0,
+    structuresDestroyed: 0,
+    ...overrides,
+  };
+}
+
+function createView(overrides: Partial<CommanderView> = {}): CommanderView {
+  return {
+    tick: 0,
+    side: 'attacker',
+    playerId: 'attacker-1',
+    layout: buildArenaLayout([]),
+    reserves: [],
+    units: [],
+    enemies: [],
+    ...overrides,
+  };
+}
+
+describe('WaveAttackCommander', () => {
+  it('deploys a quarter of the reserves per wave onto spawn tiles', () => {
+    const commander = new WaveAttackCommander();
+    const view = createView({ reserves: [{ unitTypeId: 'militia', count: 20 }] });
+
+    const inputs = commander.think(view);
+
+    expect(inputs).toHaveLength(5);
+    for (const input of inputs) {
+      expect(input.type).toBe('deploy');
+      expect(input.position && isSpawnTile(view.layout, input.position)).toBe(true);
+    }
+  });
+
+  it('waits for the wave interval before deploying again', () => {
+    const commander = new WaveAttackCommander();
+    const reserves = [{ unitTypeId: 'militia', count: 20 }];
+
+    commander.think(createView({ reserves }));
+
+    expect(commander.think(createView({ tick: 100, reserves }))).toEqual([]);
+  });
+});
+
+describe('GarrisonDefenseCommander', () => {
+  it('sends idle garrison units after the attacker closest to the core', () => {
+    const commander = new GarrisonDefenseCommander();
+    const view = createView({
+      side: 'defender',
+      playerId: 'defender-1',
+      units: [createUnit({ id: 'def_1', ownerId: 'defender-1', x: 28, z: 28 })],
+      enemies: [createUnit({ id: 'atk_1', x: 22, z: 30 }), createUnit({ id: 'atk_2', x: 5, z: 5 })],
+    });
+
+    expect(commander.think(view)).toEqual([
+      { type: 'attack', unitIds: ['def_1'], targetId: 'atk_1', timestamp: 0 },
+    ]);
+  });
+
+  it('ignores attackers far from the core', () => {
+    const commander = new GarrisonDefenseCommander();
+    const view = createView({
+      side: 'defender',
+      playerId: 'defender-1',
+      units: [createUnit({ id: 'def_1', ownerId: 'defender-1', x: 28, z: 28 })],
+      enemies: [createUnit({ id: 'atk_1', x: 2, z: 2 })],
+    });
+
+    expect(commander.think(view)).toEqual([]);
+  });
+});
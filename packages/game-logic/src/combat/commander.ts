@@ -0,0 +1,149 @@
+/**
+ * Commander AI
+ *
+ * Fights for a side whose player isn't connected (GDD 4.6). A commander
+ * only issues the same CombatInputs a player could send, so its decisions
+ * are recorded in the battle log and replay like any other input.
+ *
+ * Defaults:
+ * - Attacker: deploys its reserves in waves, rotating between arena edges
+ * - Defender: sends idle garrison units to intercept attackers nearing the core
+ */
+
+import { COMBAT, type ArenaPosition, type CombatInput, type TileType } from '@nova-fall/shared';
+import { CORE_X, CORE_Z, getSpawnTilesByEdge } from './arena.js';
+import { euclideanDistance, isInRange } from './damage.js';
+import type { SimUnit } from './simulator.js';
+
+export type CombatSide = 'attacker' | 'defender';
+
+/**
+ * What a commander can see when deciding its inputs
+ */
+export interface CommanderView {
+  tick: number;
+  side: CombatSide;
+  playerId: string;
+  layout: TileType[][];
+  reserves: { unitTypeId: string; count: number }[]; // Undeployed (attacker only)
+  units: readonly Readonly<SimUnit>[]; // Own living units
+  enemies: readonly Readonly<SimUnit>[]; // Enemy living units
+}
+
+/**
+ * A pluggable AI controlling one side of a battle
+ */
+export interface CombatCommander {
+  readonly side: CombatSide;
+  /**
+   * Decide the inputs to send this tick
+   * Must be deterministic for a given view so battles stay reproducible
+   */
+  think(view: CommanderView): CombatInput[];
+}
+
+export type CommanderFactory = (side: CombatSide) => CombatCommander;
+
+// Commanders re-evaluate every 0.5 seconds (COMBAT-MODE-DESIGN 5.3.1)
+export const COMMANDER_THINK_INTERVAL_TICKS = Math.max(1, Math.round(COMBAT.TICK_RATE / 2));
+
+// Attacker waves: reserves split into this many waves, one every interval
+const ATTACK_WAVE_COUNT = 4;
+const ATTACK_WAVE_INTERVAL_TICKS = 120 * COMBAT.TICK_RATE;
+
+// Defenders react to attackers within this distance of the core (tiles)
+const INTERCEPT_RADIUS = 12;
+
+/**
+ * Deploys reserves in waves, each wave from the next arena edge
+ */
+export class WaveAttackCommander implements CombatCommander {
+  readonly side = 'attacker' as const;
+
+  private waveSize: number | null = null;
+  private nextWaveTick = 0;
+  private wavesSent = 0;
+
+  think(view: CommanderView): CombatInput[] {
+    const remaining = view.reserves.reduce((sum, g) => sum + g.count, 0);
+    if (remaining === 0) return [];
+
+    // Size waves from the reserves left when the commander first takes over
+    this.waveSize ??= Math.ceil(remaining / ATTACK_WAVE_COUNT);
+    if (view.tick < this.nextWaveTick) return [];
+
+    const edges = getSpawnTilesByEdge(view.layout).filter((tiles) => tiles.length > 0);
+    const edge = edges[this.wavesSent % edges.length];
+    if (!edge) return [];
+
+    const count = Math.min(this.waveSize, remaining);
+    const positions = spreadAlong(edge, count);
+    const inputs: CombatInput[] = [];
+
+    let index = 0;
+    for (const group of view.reserves) {
+      for (let i = 0; i < group.count && index < count; i++) {
+        const position = positions[index++];
+        if (!position) break;
+        inputs.push({ type: 'deploy', unitType: group.unitTypeId, position, timestamp: view.tick });
+      }
+    }
+
+    this.wavesSent++;
+    this.nextWaveTick = view.tick + ATTACK_WAVE_INTERVAL_TICKS;
+    return inputs;
+  }
+}
+
+/**
+ * Sends idle garrison units after the attacker closest to the core
+ */
+export class GarrisonDefenseCommander implements CombatCommander {
+  readonly side = 'defender' as const;
+
+  think(view: CommanderView): CombatInput[] {
+    const threats = view.enemies
+      .map((enemy) => ({ enemy, distance: distanceToCore(enemy) }))
+      .filter((t) => t.distance <= INTERCEPT_RADIUS)
+      .sort((a, b) => a.distance - b.distance || a.enemy.id.localeCompare(b.enemy.id));
+
+    const threat = threats[0];
+    if (!threat) return [];
+
+    // Units already fighting something in range keep at it
+    const unitIds = view.units
+      .filter(
+        (u) =>
+          u.orderTargetId === null &&
+          u.moveOrder === null &&
+          !view.enemies.some((e) => isInRange(u.x, u.z, e.x, e.z, u.stats.range))
+      )
+      .map((u) => u.id);
+    if (unitIds.length === 0) return [];
+
+    return [{ type: 'attack', unitIds, targetId: threat.enemy.id, timestamp: view.tick }];
+  }
+}
+
+/**
+ * Default commander for a side
+ */
+export const createDefaultCommander: CommanderFactory = (side) =>
+  side === 'attacker' ? new WaveAttackCommander() : new GarrisonDefenseCommander();
+
+function distanceToCore(unit: Readonly<SimUnit>): number {
+  // Distance to the centre of the 2x2 core
+  return euclideanDistance(unit.x, unit.z, CORE_X + 0.5, CORE_Z + 0.5);
+}
+
+/**
+ * Pick count positions spread evenly along a line of tiles
+ */
+function spreadAlong(tiles: ArenaPosition[], count: number): ArenaPosition[] {
+  const positions: ArenaPosition[] = [];
+  for (let i = 0; i < count; i++) {
+    const tile = tiles[Math.floor(((i + 0.5) * tiles.length) / count) % tiles.length];
+    if (tile) positions.push(tile);
+  }
+  return positions;
+}
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import { TileType } from '@nova-fall/shared';
+import { ARENA_SIZE, CORE_X, CORE_Z, buildArenaLayout } from './arena.js';
+import {
+  buildFlowField,
+  getFlowDistance,
+  getNextFlowTile,
+  updateFlowField,
+  type FlowFieldData,
+} from './flowField.js';
+
+// Ring of walls around x 5-9, z 5-9 with its interior left open
+function createEnclosedLayout(): TileType[][] {
+  return buildArenaLayout([
+    { position: { x: 4, z: 4 }, width: 7, height: 1 },
+    { position: { x: 4, z: 10 }, width: 7, height: 1 },
+    { position: { x: 4, z: 5 }, width: 1, height: 5 },
+    { position: { x: 10, z: 5 }, width: 1, height: 5 },
+  ]);
+}
+
+function setTile(layout: TileType[][], x: number, z: number, tile: TileType): void {
+  const row = layout[x];
+  if (row) row[z] = tile;
+}
+
+// Follow the flow from a tile, returning the tiles visited
+function followFlow(field: FlowFieldData, x: number, z: number): { x: number; z: number }[] {
+  const visited = [{ x, z }];
+  let next = getNextFlowTile(field, x, z);
+  while (next && visited.length < ARENA_SIZE * ARENA_SIZE) {
+    visited.push(next);
+    next = getNextFlowTile(field, next.x, next.z);
+  }
+  return visited;
+}
+
+function expectSameDistances(actual: FlowFieldData, expected: FlowFieldData): void {
+  for (let x = 0; x < ARENA_SIZE; x++) {
+    for (let z = 0; z < ARENA_SIZE; z++) {
+      const want = getFlowDistance(expected, x, z);
+      const got = getFlowDistance(actual, x, z);
+      if (want === Infinity) expect(got).toBe(Infinity);
+      else expect(got).toBeCloseTo(want, 6);
+    }
+  }
+}
+
+describe('buildFlowField', () => {
+  it('measures distance to the nearest core tile', () => {
+    const field = buildFlowField(buildArenaLayout([]));
+
+    expect(getFlowDistance(field, CORE_X, CORE_Z)).toBe(0);
+    expect(getFlowDistance(field, CORE_X - 1, CORE_Z)).toBeCloseTo(1);
+    expect(getFlowDistance(field, CORE_X - 1, CORE_Z - 1)).toBeCloseTo(1.414);
+    expect(getNextFlowTile(field, CORE_X - 3, CORE_Z)).toEqual({ x: CORE_X - 2, z: CORE_Z });
+  });
+
+  it('routes around obstacles without cutting corners', () => {
+    // Wall across the straight line from (20, 30) to the core
+    const layout = buildArenaLayout([{ position: { x: 25, z: 25 }, width: 1, height: 12 }]);
+    const field = buildFlowField(layout);
+
+    expect(getFlowDistance(field, 25, 30)).toBe(Infinity);
+    expect(getNextFlowTile(field, 25, 30)).toBeNull();
+    expect(getFlowDistance(field, 20, 30)).toBeGreaterThan(CORE_X - 20);
+
+    const route = followFlow(field, 20, 30);
+    const last = route[route.length - 1];
+    expect(getFlowDistance(field, last?.x ?? 0, last?.z ?? 0)).toBe(0);
+    expect(route.every((t) => layout[t.x]?.[t.z] !== TileType.BLOCKED)).toBe(true);
+    for (let i = 1; i < route.length; i++) {
+      const from = route[i - 1];
+      const to = route[i];
+      if (!from || !to || from.x === to.x || from.z === to.z) continue;
+      expect(layout[to.x]?.[from.z]).not.toBe(TileType.BLOCKED);
+      expect(layout[from.x]?.[to.z]).not.toBe(TileType.BLOCKED);
+    }
+  });
+
+  it('leaves walled-off regions unreachable', () => {
+    const field = buildFlowField(createEnclosedLayout());
+
+    expect(getFlowDistance(field, 7, 7)).toBe(Infinity);
+    expect(getNextFlowTile(field, 7, 7)).toBeNull();
+    expect(getFlowDistance(field, 3, 7)).toBeLessThan(Infinity);
+  });
+});
+
+describe('updateFlowField', () => {
+  it('matches a full rebuild when a wall is placed', () => {
+    const layout = buildArenaLayout([{ position: { x: 25, z: 25 }, width: 1, height: 12 }]);
+    const before = buildFlowField(layout);
+
+    setTile(layout, 24, 24, TileType.BLOCKED);
+    setTile(layout, 26, 36, TileType.BLOCKED);
+    const updated = updateFlowField(before, layout, [
+      { x: 24, z: 24 },
+      { x: 26, z: 36 },
+    ]);
+
+    expectSameDistances(updated, buildFlowField(layout));
+  });
+
+  it('matches a full rebuild when a wall is destroyed', () => {
+    const layout = buildArenaLayout([{ position: { x: 25, z: 25 }, width: 1, height: 12 }]);
+    const before = buildFlowField(layout);
+
+    setTile(layout, 25, 30, TileType.WALKABLE);
+    const updated = updateFlowField(before, layout, [{ x: 25, z: 30 }]);
+
+    expectSameDistances(updated, buildFlowField(layout));
+    expect(getNextFlowTile(updated, 24, 30)).toEqual({ x: 25, z: 30 });
+  });
+
+  it('opens and seals enclosed regions', () => {
+    const layout = createEnclosedLayout();
+    const sealed = buildFlowField(layout);
+
+    setTile(layout, 10, 7, TileType.WALKABLE);
+    const opened = updateFlowField(sealed, layout, [{ x: 10, z: 7 }]);
+    expectSameDistances(opened, buildFlowField(layout));
+    expect(getFlowDistance(opened, 7, 7)).toBeLessThan(Infinity);
+
+    setTile(layout, 10, 7, TileType.BLOCKED);
+    const resealed = updateFlowField(opened, layout, [{ x: 10, z: 7 }]);
+    expectSameDistances(resealed, sealed);
+    expect(getFlowDistance(resealed, 7, 7)).toBe(Infinity);
+  });
+
+  it('does not modify the original field', () => {
+    const layout = buildArenaLayout([]);
+    const before = buildFlowField(layout);
+
+    setTile(layout, 20, 20, TileType.BLOCKED);
+    updateFlowField(before, layout, [{ x: 20, z: 20 }]);
+
+    expect(getFlowDistance(before, 20, 20)).toBeLessThan(Infinity);
+  });
+});
@@ -0,0 +1,287 @@
+/**
+ * Flow field
+ *
+ * Dijkstra distances from every tile to the core, with the direction to
+ * step in from each tile (COMBAT-MODE-DESIGN 6.1). Shared by the server
+ * simulator and the client renderer so both agree on where units go.
+ *
+ * When walls are placed or destroyed the field is patched rather than
+ * rebuilt: opening a tile can only shorten paths, so relaxation spreads out
+ * from it; blocking a tile only lengthens the paths that ran through it, so
+ * just those tiles are recomputed from the unaffected tiles around them.
+ */
+
+import { TileType, type ArenaPosition } from '@nova-fall/shared';
+import { ARENA_SIZE, CORE_X, CORE_Z } from './arena.js';
+
+// Direction lookup, indexed by flow field direction
+export const DIRECTIONS = [
+  { dx: 0, dz: -1 }, // North
+  { dx: 1, dz: -1 }, // NE
+  { dx: 1, dz: 0 }, // East
+  { dx: 1, dz: 1 }, // SE
+  { dx: 0, dz: 1 }, // South
+  { dx: -1, dz: 1 }, // SW
+  { dx: -1, dz: 0 }, // West
+  { dx: -1, dz: -1 }, // NW
+];
+
+const CARDINAL_COST = 1.0;
+const DIAGONAL_COST = 1.414;
+
+/**
+ * Flow field data for pathfinding
+ */
+export interface FlowFieldData {
+  width: number;
+  height: number;
+  distances: number[][]; // Distance to the core (Infinity if blocked/unreachable)
+  directions: number[][]; // Direction index (0-7), -1 if blocked/unreachable
+}
+
+interface QueueEntry {
+  x: number;
+  z: number;
+  dist: number;
+}
+
+const CORE_TILES: readonly ArenaPosition[] = [
+  { x: CORE_X, z: CORE_Z },
+  { x: CORE_X + 1, z: CORE_Z },
+  { x: CORE_X, z: CORE_Z + 1 },
+  { x: CORE_X + 1, z: CORE_Z + 1 },
+];
+
+function isInBounds(x: number, z: number): boolean {
+  return x >= 0 && x < ARENA_SIZE && z >= 0 && z < ARENA_SIZE;
+}
+
+function isBlocked(layout: TileType[][], x: number, z: number): boolean {
+  return layout[x]?.[z] === TileType.BLOCKED;
+}
+
+function isCoreTile(x: number, z: number): boolean {
+  return CORE_TILES.some((t) => t.x === x && t.z === z);
+}
+
+/**
+ * Whether a unit can step from a tile in a direction
+ * Diagonal steps can't cut corners around blocked tiles
+ */
+function canStep(layout: TileType[][], x: number, z: number, dirIdx: number): boolean {
+  const dir = DIRECTIONS[dirIdx];
+  if (!dir) return false;
+
+  const nx = x + dir.dx;
+  const nz = z + dir.dz;
+  if (!isInBounds(nx, nz) || isBlocked(layout, nx, nz)) return false;
+  if (dir.dx !== 0 && dir.dz !== 0) {
+    return !isBlocked(layout, x + dir.dx, z) && !isBlocked(layout, x, z + dir.dz);
+  }
+  return true;
+}
+
+function stepCost(dirIdx: number): number {
+  const dir = DIRECTIONS[dirIdx];
+  return dir && dir.dx !== 0 && dir.dz !== 0 ? DIAGONAL_COST : CARDINAL_COST;
+}
+
+function createGrid(value: number): number[][] {
+  const grid: number[][] = [];
+  for (let x = 0; x < ARENA_SIZE; x++) {
+    grid.push(new Array<number>(ARENA_SIZE).fill(value));
+  }
+  return grid;
+}
+
+/**
+ * Expand outward from the queued tiles, lowering distances wherever a shorter path is found
+ */
+function relax(layout: TileType[][], field: FlowFieldData, queue: QueueEntry[]): void {
+  const { distances, directions } = field;
+
+  while (queue.length > 0) {
+    queue.sort((a, b) => a.dist - b.dist);
+    const current = queue.shift();
+    if (!current) break;
+    if (current.dist > (distances[current.x]?.[current.z] ?? Infinity)) continue;
+
+    for (let dirIdx = 0; dirIdx < DIRECTIONS.length; dirIdx++) {
+      const dir = DIRECTIONS[dirIdx];
+      if (!dir || !canStep(layout, current.x, current.z, dirIdx)) continue;
+
+      const nx = current.x + dir.dx;
+      const nz = current.z + dir.dz;
+      const newDist = current.dist + stepCost(dirIdx);
+      if (newDist < (distances[nx]?.[nz] ?? Infinity)) {
+        const distRow = distances[nx];
+        const dirRow = directions[nx];
+        if (distRow) distRow[nz] = newDist;
+        // Direction points back toward the core
+        if (dirRow) dirRow[nz] = (dirIdx + 4) % 8;
+        queue.push({ x: nx, z: nz, dist: newDist });
+      }
+    }
+  }
+}
+
+/**
+ * Generate a flow field toward the core
+ */
+export function buildFlowField(layout: TileType[][]): FlowFieldData {
+  const field: FlowFieldData = {
+    width: ARENA_SIZE,
+    height: ARENA_SIZE,
+    distances: createGrid(Infinity),
+    directions: createGrid(-1),
+  };
+
+  const queue: QueueEntry[] = [];
+  for (const { x, z } of CORE_TILES) {
+    const row = field.distances[x];
+    if (row) row[z] = 0;
+    queue.push({ x, z, dist: 0 });
+  }
+
+  relax(layout, field, queue);
+  return field;
+}
+
+/**
+ * Patch a flow field after tiles were blocked or opened in the layout
+ * The layout must already reflect the change. Returns a new field.
+ */
+export function updateFlowField(
+  field: FlowFieldData,
+  layout: TileType[][],
+  changed: ArenaPosition[]
+): FlowFieldData {
+  const next: FlowFieldData = {
+    ...field,
+    distances: field.distances.map((row) => [...row]),
+    directions: field.directions.map((row) => [...row]),
+  };
+
+  for (const { x, z } of changed) {
+    if (!isInBounds(x, z) || isCoreTile(x, z)) continue;
+    if (isBlocked(layout, x, z)) {
+      blockTile(next, layout, x, z);
+    } else {
+      openTile(next, layout, x, z);
+    }
+  }
+  return next;
+}
+
+/**
+ * Paths can only get shorter: relax from the opened tile and its neighbours
+ * (neighbours matter too, since diagonals past the tile are no longer cut off)
+ */
+function openTile(field: FlowFieldData, layout: TileType[][], x: number, z: number): void {
+  const queue: QueueEntry[] = [];
+  for (let dx = -1; dx <= 1; dx++) {
+    for (let dz = -1; dz <= 1; dz++) {
+      const dist = field.distances[x + dx]?.[z + dz] ?? Infinity;
+      if (dist < Infinity) queue.push({ x: x + dx, z: z + dz, dist });
+    }
+  }
+  relax(layout, field, queue);
+}
+
+/**
+ * Paths can only get longer: clear every tile whose route to the core now
+ * fails, then refill them from the unaffected tiles bordering them
+ */
+function blockTile(field: FlowFieldData, layout: TileType[][], x: number, z: number): void {
+  const { distances, directions } = field;
+  const key = (tx: number, tz: number): number => tx * ARENA_SIZE + tz;
+
+  // Tiles whose own step is now invalid (the blocked tile itself, or corners it cuts off)
+  const affected = new Set<number>();
+  const pending: number[] = [];
+  for (let tx = x - 1; tx <= x + 1; tx++) {
+    for (let tz = z - 1; tz <= z + 1; tz++) {
+      const dirIdx = directions[tx]?.[tz] ?? -1;
+      const invalid = (tx === x && tz === z) || (dirIdx >= 0 && !canStep(layout, tx, tz, dirIdx));
+      if (invalid && isInBounds(tx, tz)) {
+        affected.add(key(tx, tz));
+        pending.push(key(tx, tz));
+      }
+    }
+  }
+
+  // Plus everything downstream of them in the flow
+  const children = new Map<number, number[]>();
+  for (let tx = 0; tx < ARENA_SIZE; tx++) {
+    for (let tz = 0; tz < ARENA_SIZE; tz++) {
+      const dir = DIRECTIONS[directions[tx]?.[tz] ?? -1];
+      if (!dir) continue;
+      const parent = key(tx + dir.dx, tz + dir.dz);
+      const list = children.get(parent);
+      if (list) list.push(key(tx, tz));
+      else children.set(parent, [key(tx, tz)]);
+    }
+  }
+  while (pending.length > 0) {
+    const current = pending.pop();
+    if (current === undefined) break;
+    for (const child of children.get(current) ?? []) {
+      if (affected.has(child)) continue;
+      affected.add(child);
+      pending.push(child);
+    }
+  }
+
+  for (const tile of affected) {
+    const distRow = distances[Math.floor(tile / ARENA_SIZE)];
+    const dirRow = directions[Math.floor(tile / ARENA_SIZE)];
+    if (distRow) distRow[tile % ARENA_SIZE] = Infinity;
+    if (dirRow) dirRow[tile % ARENA_SIZE] = -1;
+  }
+
+  // Refill from the border of the cleared region
+  const queue: QueueEntry[] = [];
+  const queued = new Set<number>();
+  for (const tile of affected) {
+    const tx = Math.floor(tile / ARENA_SIZE);
+    const tz = tile % ARENA_SIZE;
+    for (const dir of DIRECTIONS) {
+      const nx = tx + dir.dx;
+      const nz = tz + dir.dz;
+      const neighbor = key(nx, nz);
+      const dist = distances[nx]?.[nz] ?? Infinity;
+      if (dist === Infinity || affected.has(neighbor) || queued.has(neighbor)) continue;
+      queued.add(neighbor);
+      queue.push({ x: nx, z: nz, dist });
+    }
+  }
+  relax(layout, field, queue);
+}
+
+/**
+ * Step direction at a tile, or null if blocked/unreachable
+ */
+export function getFlowDirection(
+  field: FlowFieldData,
+  x: number,
+  z: number
+): { dx: number; dz: number } | null {
+  const dirIdx = field.directions[x]?.[z];
+  if (dirIdx === undefined || dirIdx < 0) return null;
+  return DIRECTIONS[dirIdx] ?? null;
+}
+
+/**
+ * Distance to the core from a tile (Infinity if blocked/unreachable)
+ */
+export function getFlowDistance(field: FlowFieldData, x: number, z: number): number {
+  return field.distances[x]?.[z] ?? Infinity;
+}
+
+/**
+ * Next tile when following the flow from a tile
+ */
+export function getNextFlowTile(field: FlowFieldData, x: number, z: number): ArenaPosition | null {
+  const dir = getFlowDirection(field, x, z);
+  return dir ? { x: x + dir.dx, z: z + dir.dz } : null;
+}
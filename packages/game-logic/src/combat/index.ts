@@ -16,13 +16,169 @@ export {
 
 export type { DamageResult, UnitCombatState } from './damage.js';
 
-export { CombatSimulator } from './simulator.js';
+export { CombatSimulator, SIM_TICK_MS } from './simulator.js';
 
 export type {
   SimUnit,
   SimBuilding,
   SimCore,
+  SimProjectile,
+  SimMoveOrder,
   CombatEvent,
-  FlowFieldData,
   CombatSimState,
 } from './simulator.js';
+
+export { SeededRandom, createSeed, seedFromString } from './random.js';
+
+export {
+  ARENA_SIZE,
+  CORE_X,
+  CORE_Z,
+  buildArenaLayout,
+  isSpawnTile,
+  getSpawnTilesByEdge,
+  getGarrisonPositions,
+} from './arena.js';
+
+export type { ArenaFootprint } from './arena.js';
+
+export {
+  ARENA_THEMES,
+  DEFAULT_ARENA_THEME,
+  getArenaTheme,
+  generateArenaLayout,
+} from './arenaGenerator.js';
+
+export type { ArenaTheme, ArenaGenerationOptions } from './arenaGenerator.js';
+
+export { validateBaseLayout } from './baseLayout.js';
+
+export {
+  isPassableCategory,
+  getFootprintTiles,
+  getFootprintCenter,
+  isOnFootprint,
+  canRevealTrap,
+} from './traps.js';
+
+export type {
+  BaseLayoutProblem,
+  BaseLayoutProblemReason,
+  BaseLayoutValidation,
+} from './baseLayout.js';
+
+export {
+  DIRECTIONS,
+  buildFlowField,
+  updateFlowField,
+  getFlowDirection,
+  getFlowDistance,
+  getNextFlowTile,
+} from './flowField.js';
+
+export type { FlowFieldData } from './flowField.js';
+
+export {
+  BASE_TARGET_SCORES,
+  TARGET_PRIORITY_WEIGHTS,
+  calculateTargetPriority,
+  isTargetInRange,
+  selectTarget,
+} from './targeting.js';
+
+export type { TargetCandidate, TargetSeeker, TargetPriorityWeights } from './targeting.js';
+
+export {
+  AUTOCAST_ENGAGE_RANGE,
+  canAffectCategory,
+  chooseAutoCastTarget,
+} from './abilities.js';
+
+export type { AbilityCastTarget, AbilityCastFailure, AbilityCandidate } from './abilities.js';
+
+export {
+  BURN_MAX_STACKS,
+  EFFECT_PULSE_MS,
+  STATUS_EFFECT_RULES,
+  hasEffect,
+  canAct,
+  getStatMultiplier,
+  getPulseDamage,
+  mergeEffect,
+  getEffectTypes,
+  getEffectStacks,
+} from './statusEffects.js';
+
+export type {
+  ActiveEffect,
+  EffectStacking,
+  EffectAction,
+  ModifiedStat,
+  StatusEffectRule,
+} from './statusEffects.js';
+
+export {
+  PROJECTILE_HIT_RADIUS,
+  SPLASH_EDGE_DAMAGE,
+  LEAD_ERROR,
+  flightTime,
+  calculateLeadPosition,
+  calculateSplashDamage,
+} from './projectiles.js';
+
+export type { MovingTarget } from './projectiles.js';
+
+export { toTile, isTilePassable, findPath, hasLineOfSight, smoothPath } from './pathfinding.js';
+
+export type { PathOptions } from './pathfinding.js';
+
+export { isInShieldRange, drainShieldPools, regenerateShield } from './shields.js';
+
+export type { ShieldPool, ShieldDrainResult } from './shields.js';
+
+export { CombatRunner, replayCombat } from './runner.js';
+
+export type {
+  CombatUnitGroup,
+  CombatConsumableStock,
+  CombatVeteran,
+  CombatBuildingConfig,
+  CombatRunnerConfig,
+  CombatInputRecord,
+  CombatLogEntry,
+  CombatInputRejection,
+  CombatStepResult,
+} from './runner.js';
+
+export { BattleReportBuilder, buildBattleReport } from './battleReport.js';
+
+export type {
+  BattleReport,
+  BattleReportEntry,
+  BattleReportSide,
+  BattleReportValues,
+} from './battleReport.js';
+
+export {
+  KEYFRAME_INTERVAL_TICKS,
+  CombatStateEncoder,
+  CombatStateDecoder,
+  diffCombatState,
+  applyCombatStateDelta,
+} from './stateDelta.js';
+
+export type { CombatStateDecodeResult } from './stateDelta.js';
+
+export {
+  WaveAttackCommander,
+  GarrisonDefenseCommander,
+  createDefaultCommander,
+  COMMANDER_THINK_INTERVAL_TICKS,
+} from './commander.js';
+
+export type {
+  CombatSide,
+  CommanderView,
+  CombatCommander,
+  CommanderFactory,
+} from './commander.js';
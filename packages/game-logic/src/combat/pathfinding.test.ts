@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import type { TileType } from '@nova-fall/shared';
+import { buildArenaLayout } from './arena.js';
+import { findPath, hasLineOfSight, isTilePassable, smoothPath } from './pathfinding.js';
+
+// Wall along x = 10 from z = 5 to z = 15
+function createWalledLayout(): TileType[][] {
+  return buildArenaLayout([{ position: { x: 10, z: 5 }, width: 1, height: 11 }]);
+}
+
+describe('findPath', () => {
+  it('walks straight across open ground', () => {
+    const path = findPath(buildArenaLayout([]), { x: 5, z: 5 }, { x: 9, z: 5 });
+
+    expect(path).toEqual([
+      { x: 5, z: 5 },
+      { x: 6, z: 5 },
+      { x: 7, z: 5 },
+      { x: 8, z: 5 },
+      { x: 9, z: 5 },
+    ]);
+  });
+
+  it('routes around blocked tiles without cutting corners', () => {
+    const layout = createWalledLayout();
+    const path = findPath(layout, { x: 8, z: 10 }, { x: 12, z: 10 });
+
+    expect(path).not.toBeNull();
+    expect(path?.every((p) => isTilePassable(layout, p.x, p.z))).toBe(true);
+    expect(path?.some((p) => p.z < 5 || p.z > 15)).toBe(true);
+  });
+
+  it('returns null when the goal is blocked or unreachable', () => {
+    const layout = createWalledLayout();
+
+    expect(findPath(layout, { x: 8, z: 10 }, { x: 10, z: 10 })).toBeNull();
+    // The core is impassable
+    expect(findPath(layout, { x: 8, z: 10 }, { x: 30, z: 30 })).toBeNull();
+  });
+
+  it('respects dynamic blockers', () => {
+    const layout = buildArenaLayout([]);
+    const isBlocked = (x: number, z: number): boolean => x === 7 && z >= 3 && z <= 7;
+    const path = findPath(layout, { x: 5, z: 5 }, { x: 9, z: 5 }, { isBlocked });
+
+    expect(path?.some((p) => p.x === 7 && p.z >= 3 && p.z <= 7)).toBe(false);
+  });
+
+  it('keeps large units out of gaps their footprint does not fit', () => {
+    // One-tile gap at z = 10 in a wall along x = 10
+    const layout = buildArenaLayout([
+      { position: { x: 10, z: 1 }, width: 1, height: 9 },
+      { position: { x: 10, z: 11 }, width: 1, height: 48 },
+    ]);
+
+    const small = findPath(layout, { x: 8, z: 10 }, { x: 12, z: 10 });
+    const large = findPath(layout, { x: 8, z: 10 }, { x: 12, z: 10 }, { tileSize: 2 });
+
+    expect(small).toHaveLength(5);
+    expect(large).toBeNull();
+  });
+});
+
+describe('smoothPath', () => {
+  it('keeps only the waypoints needed to get around obstacles', () => {
+    const layout = createWalledLayout();
+    const path = findPath(layout, { x: 8, z: 10 }, { x: 12, z: 10 }) ?? [];
+    const smoothed = smoothPath(layout, path);
+
+    expect(smoothed.length).toBeLessThan(path.length);
+    expect(smoothed[0]).toEqual({ x: 8, z: 10 });
+    expect(smoothed[smoothed.length - 1]).toEqual({ x: 12, z: 10 });
+    for (let i = 1; i < smoothed.length; i++) {
+      const from = smoothed[i - 1];
+      const to = smoothed[i];
+      if (from && to) expect(hasLineOfSight(layout, from, to)).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * Pathfinding for manual move orders
+ *
+ * Grid A* over the arena layout (COMBAT-MODE-DESIGN 6.2). The siege AI keeps
+ * using the flow field; A* is only run once per order, and again if the
+ * path gets blocked. Units with a larger tileSize need their whole footprint
+ * to fit, and callers can pass dynamic blockers (walls and other buildings
+ * that may be destroyed) on top of the static layout.
+ */
+
+import { TileType, type ArenaPosition } from '@nova-fall/shared';
+import { ARENA_SIZE } from './arena.js';
+import { DIRECTIONS } from './flowField.js';
+
+const CARDINAL_COST = 1.0;
+const DIAGONAL_COST = 1.414;
+
+// Extra cost of crossing rough ground, so paths go around it when they can
+const TILE_COST: Partial<Record<TileType, number>> = {
+  [TileType.SLOW]: 2,
+  [TileType.HAZARD]: 3,
+};
+
+// Line of sight is checked every quarter tile
+const SIGHT_STEP = 0.25;
+
+export interface PathOptions {
+  tileSize?: number; // Unit footprint in tiles (default 1)
+  isBlocked?: (x: number, z: number) => boolean; // Dynamic blockers such as walls
+}
+
+/**
+ * Tile a position is in (integer coordinates are tile centres)
+ */
+export function toTile(x: number, z: number): ArenaPosition {
+  return { x: Math.round(x), z: Math.round(z) };
+}
+
+/**
+ * Whether a unit's footprint fits with its centre on a tile
+ * The core and blocked tiles are impassable
+ */
+export function isTilePassable(
+  layout: TileType[][],
+  x: number,
+  z: number,
+  options: PathOptions = {}
+): boolean {
+  const size = Math.max(1, Math.ceil(options.tileSize ?? 1));
+  const offset = Math.floor((size - 1) / 2);
+
+  for (let fx = x - offset; fx < x - offset + size; fx++) {
+    for (let fz = z - offset; fz < z - offset + size; fz++) {
+      const tile = layout[fx]?.[fz];
+      if (tile === undefined || tile === TileType.BLOCKED || tile === TileType.HQ_ZONE) {
+        return false;
+      }
+      if (options.isBlocked?.(fx, fz)) return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Octile distance - exact cost on an open 8-way grid
+ */
+function heuristic(x: number, z: number, goal: ArenaPosition): number {
+  const dx = Math.abs(x - goal.x);
+  const dz = Math.abs(z - goal.z);
+  return CARDINAL_COST * Math.max(dx, dz) + (DIAGONAL_COST - CARDINAL_COST) * Math.min(dx, dz);
+}
+
+/**
+ * Binary min-heap of tile indexes keyed by f-score
+ */
+class OpenSet {
+  private items: { index: number; f: number }[] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(index: number, f: number): void {
+    const items = this.items;
+    items.push({ index, f });
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      const item = items[i];
+      const above = items[parent];
+      if (!item || !above || above.f <= item.f) break;
+      items[i] = above;
+      items[parent] = item;
+      i = parent;
+    }
+  }
+
+  pop(): number | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (!top || !last || items.length === 0) return top?.index;
+
+    items[0] = last;
+    let i = 0;
+    for (;;) {
+      const left = i * 2 + 1;
+      const right = left + 1;
+      let smallest = i;
+      if ((items[left]?.f ?? Infinity) < (items[smallest]?.f ?? Infinity)) smallest = left;
+      if ((items[right]?.f ?? Infinity) < (items[smallest]?.f ?? Infinity)) smallest = right;
+      if (smallest === i) break;
+
+      const item = items[i];
+      const child = items[smallest];
+      if (!item || !child) break;
+      items[i] = child;
+      items[smallest] = item;
+      i = smallest;
+    }
+    return top.index;
+  }
+}
+
+/**
+ * Find the cheapest tile path from start to goal (both included)
+ * Returns null if the goal can't be reached. The start tile is never
+ * checked, so units can always path out of where they stand.
+ */
+export function findPath(
+  layout: TileType[][],
+  start: ArenaPosition,
+  goal: ArenaPosition,
+  options: PathOptions = {}
+): ArenaPosition[] | null {
+  if (!isTilePassable(layout, goal.x, goal.z, options)) return null;
+  if (start.x === goal.x && start.z === goal.z) return [{ ...start }];
+
+  const indexOf = (x: number, z: number): number => x * ARENA_SIZE + z;
+  const startIndex = indexOf(start.x, start.z);
+  const goalIndex = indexOf(goal.x, goal.z);
+
+  const gScore = new Map<number, number>([[startIndex, 0]]);
+  const cameFrom = new Map<number, number>();
+  const closed = new Set<number>();
+  const open = new OpenSet();
+  open.push(startIndex, heuristic(start.x, start.z, goal));
+
+  // Passability is cached - footprint checks are the expensive part
+  const passable = new Map<number, boolean>();
+  const canEnter = (x: number, z: number): boolean => {
+    const index = indexOf(x, z);
+    let result = passable.get(index);
+    if (result === undefined) {
+      result = isTilePassable(layout, x, z, options);
+      passable.set(index, result);
+    }
+    return result;
+  };
+
+  while (open.size > 0) {
+    const current = open.pop();
+    if (current === undefined) break;
+    if (current === goalIndex) return reconstructPath(cameFrom, current);
+    if (closed.has(current)) continue;
+    closed.add(current);
+
+    const cx = Math.floor(current / ARENA_SIZE);
+    const cz = current % ARENA_SIZE;
+    const currentG = gScore.get(current) ?? Infinity;
+
+    for (const dir of DIRECTIONS) {
+      const nx = cx + dir.dx;
+      const nz = cz + dir.dz;
+      if (nx < 0 || nx >= ARENA_SIZE || nz < 0 || nz >= ARENA_SIZE) continue;
+
+      const neighbor = indexOf(nx, nz);
+      if (closed.has(neighbor) || !canEnter(nx, nz)) continue;
+
+      const isDiagonal = dir.dx !== 0 && dir.dz !== 0;
+      // Can't cut corners around blocked tiles
+      if (isDiagonal && (!canEnter(cx + dir.dx, cz) || !canEnter(cx, cz + dir.dz))) continue;
+
+      const tileCost = TILE_COST[layout[nx]?.[nz] ?? TileType.WALKABLE] ?? 1;
+      const g = currentG + (isDiagonal ? DIAGONAL_COST : CARDINAL_COST) * tileCost;
+      if (g < (gScore.get(neighbor) ?? Infinity)) {
+        cameFrom.set(neighbor, current);
+        gScore.set(neighbor, g);
+        open.push(neighbor, g + heuristic(nx, nz, goal));
+      }
+    }
+  }
+
+  return null;
+}
+
+function reconstructPath(cameFrom: Map<number, number>, end: number): ArenaPosition[] {
+  const path: ArenaPosition[] = [];
+  for (let index: number | undefined = end; index !== undefined; index = cameFrom.get(index)) {
+    path.push({ x: Math.floor(index / ARENA_SIZE), z: index % ARENA_SIZE });
+  }
+  return path.reverse();
+}
+
+/**
+ * Whether a unit can walk in a straight line between two points
+ */
+export function hasLineOfSight(
+  layout: TileType[][],
+  from: ArenaPosition,
+  to: ArenaPosition,
+  options: PathOptions = {}
+): boolean {
+  const distance = Math.hypot(to.x - from.x, to.z - from.z);
+  const steps = Math.ceil(distance / SIGHT_STEP);
+
+  let lastX = Math.round(from.x);
+  let lastZ = Math.round(from.z);
+  for (let i = 1; i <= steps; i++) {
+    const tile = toTile(
+      from.x + ((to.x - from.x) * i) / steps,
+      from.z + ((to.z - from.z) * i) / steps
+    );
+    if (tile.x === lastX && tile.z === lastZ) continue;
+    if (!isTilePassable(layout, tile.x, tile.z, options)) return false;
+
+    // Stepping diagonally between tiles must not squeeze past a blocked corner
+    if (
+      tile.x !== lastX &&
+      tile.z !== lastZ &&
+      (!isTilePassable(layout, tile.x, lastZ, options) ||
+        !isTilePassable(layout, lastX, tile.z, options))
+    ) {
+      return false;
+    }
+    lastX = tile.x;
+    lastZ = tile.z;
+  }
+  return true;
+}
+
+/**
+ * Drop waypoints the unit can skip by walking straight (COMBAT-MODE-DESIGN 6.2.3)
+ */
+export function smoothPath(
+  layout: TileType[][],
+  path: ArenaPosition[],
+  options: PathOptions = {}
+): ArenaPosition[] {
+  const first = path[0];
+  if (!first || path.length <= 2) return path;
+
+  const smoothed: ArenaPosition[] = [first];
+  let current = 0;
+  while (current < path.length - 1) {
+    // Furthest waypoint in a straight line from the current one
+    let furthest = current + 1;
+    for (let i = path.length - 1; i > current + 1; i--) {
+      const from = path[current];
+      const to = path[i];
+      if (from && to && hasLineOfSight(layout, from, to, options)) {
+        furthest = i;
+        break;
+      }
+    }
+
+    const next = path[furthest];
+    if (next) smoothed.push(next);
+    current = furthest;
+  }
+  return smoothed;
+}
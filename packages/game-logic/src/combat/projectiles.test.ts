@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { calculateLeadPosition, calculateSplashDamage } from './projectiles.js';
+
+describe('calculateLeadPosition', () => {
+  it('aims straight at stationary targets', () => {
+    const target = { x: 10, z: 0, velocityX: 0, velocityZ: 0 };
+
+    expect(calculateLeadPosition(0, 0, target, 5)).toEqual({ x: 10, z: 0 });
+  });
+
+  it('leads a moving target by its travel during the flight', () => {
+    // 2 seconds of flight while the target moves 1 tile/s along z
+    const target = { x: 10, z: 0, velocityX: 0, velocityZ: 1 };
+    const aim = calculateLeadPosition(0, 0, target, 5);
+
+    expect(aim.x).toBe(10);
+    expect(aim.z).toBeCloseTo(2.04, 2);
+  });
+
+  it('over- and under-leads with aim error', () => {
+    const target = { x: 10, z: 0, velocityX: 0, velocityZ: 1 };
+    const exact = calculateLeadPosition(0, 0, target, 5).z;
+
+    expect(calculateLeadPosition(0, 0, target, 5, 1).z).toBeGreaterThan(exact);
+    expect(calculateLeadPosition(0, 0, target, 5, -1).z).toBeLessThan(exact);
+  });
+});
+
+describe('calculateSplashDamage', () => {
+  it('falls off from full damage at the centre to half at the edge', () => {
+    expect(calculateSplashDamage(100, 0, 2)).toBe(100);
+    expect(calculateSplashDamage(100, 1, 2)).toBe(75);
+    expect(calculateSplashDamage(100, 2, 2)).toBe(50);
+  });
+
+  it('deals nothing outside the radius', () => {
+    expect(calculateSplashDamage(100, 2.5, 2)).toBe(0);
+  });
+});
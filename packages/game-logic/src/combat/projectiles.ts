@@ -0,0 +1,74 @@
+/**
+ * Projectiles
+ *
+ * Ballistics for weapons with travel time. Shots are aimed where the target
+ * will be when they land, but the guess gets worse the further a target moves
+ * during the flight, so fast units can outrun slow shells. Splash damage
+ * falls off from full at the impact point to SPLASH_EDGE_DAMAGE at the edge.
+ */
+
+import { euclideanDistance } from './damage.js';
+
+// Shots without splash hit if the target is this close to the impact point (tiles)
+export const PROJECTILE_HIT_RADIUS = 0.5;
+
+// Fraction of damage dealt at the very edge of a splash
+export const SPLASH_EDGE_DAMAGE = 0.5;
+
+// Max aim error as a fraction of the distance the target covers while the shot flies
+export const LEAD_ERROR = 0.3;
+
+/**
+ * Something moving at a constant velocity (tiles per second)
+ */
+export interface MovingTarget {
+  x: number;
+  z: number;
+  velocityX: number;
+  velocityZ: number;
+}
+
+/**
+ * Seconds for a projectile to cover a distance
+ */
+export function flightTime(distance: number, projectileSpeed: number): number {
+  return projectileSpeed > 0 ? distance / projectileSpeed : 0;
+}
+
+/**
+ * Where to aim so a projectile meets a target moving at constant velocity
+ * error (-1 to 1) over- or under-leads by up to LEAD_ERROR of the target's travel
+ */
+export function calculateLeadPosition(
+  fromX: number,
+  fromZ: number,
+  target: MovingTarget,
+  projectileSpeed: number,
+  error = 0
+): { x: number; z: number } {
+  // Refine the flight time a couple of times - plenty at combat ranges
+  let time = flightTime(euclideanDistance(fromX, fromZ, target.x, target.z), projectileSpeed);
+  for (let i = 0; i < 2; i++) {
+    const x = target.x + target.velocityX * time;
+    const z = target.z + target.velocityZ * time;
+    time = flightTime(euclideanDistance(fromX, fromZ, x, z), projectileSpeed);
+  }
+
+  const lead = time * (1 + error * LEAD_ERROR);
+  return {
+    x: target.x + target.velocityX * lead,
+    z: target.z + target.velocityZ * lead,
+  };
+}
+
+/**
+ * Damage dealt by a splash to something `distance` tiles from the impact
+ * Returns 0 outside the radius
+ */
+export function calculateSplashDamage(damage: number, distance: number, radius: number): number {
+  if (distance > radius) return 0;
+  if (radius <= 0) return damage;
+
+  const falloff = 1 - (1 - SPLASH_EDGE_DAMAGE) * (distance / radius);
+  return Math.round(damage * falloff);
+}
@@ -0,0 +1,835 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CONSUMABLES,
+  TileType,
+  Veterancy,
+  type AbilityDefinition,
+  type CombatEvent,
+  type CombatInput,
+  type CombatResult,
+} from '@nova-fall/shared';
+import { createConfig, createStats, createTurret, runBattle } from '../test/fixtures.js';
+import { buildArenaLayout } from './arena.js';
+import { CombatRunner, replayCombat } from './runner.js';
+import { SIM_TICK_MS } from './simulator.js';
+
+const EMP_DART: AbilityDefinition = {
+  id: 'emp_dart',
+  name: 'EMP Dart',
+  targeting: 'unit',
+  affects: 'enemies',
+  range: 40,
+  radius: 0,
+  cooldown: 20,
+  energyCost: 40,
+  effects: [{ type: 'stun', value: 0, duration: 4 }],
+  autoCast: false,
+};
+
+describe('CombatRunner', () => {
+  it('records accepted inputs with the tick they were applied on', () => {
+    const runner = new CombatRunner(createConfig());
+
+    runner.step();
+    runner.queueInput('attacker-1', {
+      type: 'deploy',
+      unitType: 'militia',
+      position: { x: 0, z: 10 },
+      timestamp: 0,
+    });
+    runner.step();
+
+    const log = runner.getLog();
+    expect(log[0]).toMatchObject({ type: 'setup', tick: 0 });
+    expect(log[1]).toMatchObject({ type: 'input', tick: 2, playerId: 'attacker-1' });
+  });
+
+  it('does not record rejected inputs', () => {
+    const runner = new CombatRunner(createConfig());
+
+    runner.queueInput('attacker-1', {
+      type: 'deploy',
+      unitType: 'militia',
+      position: { x: 30, z: 10 }, // Not a spawn tile
+      timestamp: 0,
+    });
+    const { rejections } = runner.step();
+
+    expect(rejections).toEqual([
+      { playerId: 'attacker-1', message: 'Invalid spawn location', code: 'INVALID_SPAWN' },
+    ]);
+    expect(runner.getLog()).toHaveLength(1);
+  });
+
+  it("rejects malformed inputs, enemy units and the defender's deploys", () => {
+    const runner = new CombatRunner(createConfig());
+    const guard = runner.getCommanderView('defender').units[0];
+    const malformed = [
+      { type: 'deploy', unitType: 'militia', position: { x: '0', z: 10 }, timestamp: 0 },
+      { type: 'move', unitIds: 'all', position: { x: 5, z: 5 }, timestamp: 0 },
+      { type: 'retreat', unitIds: ['atk_0', 'atk_0'], timestamp: 0 },
+      null,
+    ] as unknown as CombatInput[];
+    for (const input of malformed) runner.queueInput('attacker-1', input);
+    runner.queueInput('attacker-1', {
+      type: 'move',
+      unitIds: [guard?.id ?? ''],
+      position: { x: 5, z: 5 },
+      timestamp: 0,
+    });
+    runner.queueInput('defender-1', {
+      type: 'deploy',
+      unitType: 'militia',
+      position: { x: 0, z: 10 },
+      timestamp: 0,
+    });
+    const { rejections } = runner.step();
+
+    expect(rejections.map((r) => r.code)).toEqual([
+      'MALFORMED_INPUT',
+      'MALFORMED_INPUT',
+      'MALFORMED_INPUT',
+      'MALFORMED_INPUT',
+      'INVALID_UNITS',
+      'NOT_ATTACKER',
+    ]);
+    expect(runner.getLog()).toHaveLength(1);
+  });
+
+  it("applies a target priority preset to all of the player's units and buildings", () => {
+    const runner = new CombatRunner(createConfig());
+
+    runner.queueInput('defender-1', {
+      type: 'target_priority',
+      priority: 'infantry',
+      timestamp: 0,
+    });
+    const { rejections } = runner.step();
+
+    expect(rejections).toEqual([]);
+    const view = runner.getCommanderView('defender');
+    expect(view.units.every((u) => u.targetPriority === 'infantry')).toBe(true);
+  });
+
+  it('rejects unknown target priority presets', () => {
+    const runner = new CombatRunner(createConfig());
+
+    runner.queueInput('attacker-1', {
+      type: 'target_priority',
+      priority: 'everything' as never,
+      timestamp: 0,
+    });
+    const { rejections } = runner.step();
+
+    expect(rejections).toEqual([
+      { playerId: 'attacker-1', message: 'Invalid target priority', code: 'INVALID_PRIORITY' },
+    ]);
+  });
+
+  it('casts abilities and puts them on cooldown', () => {
+    const runner = new CombatRunner(
+      createConfig({
+        attackerUnits: [
+          {
+            itemId: 'item-militia',
+            unitTypeId: 'militia',
+            count: 1,
+            stats: createStats(),
+            abilities: [EMP_DART],
+          },
+        ],
+      })
+    );
+    runner.queueInput('attacker-1', {
+      type: 'deploy',
+      unitType: 'militia',
+      position: { x: 0, z: 20 },
+      timestamp: 0,
+    });
+    runner.step();
+    const unitId = runner.getCommanderView('attacker').units[0]?.id ?? '';
+
+    const cast = {
+      type: 'ability' as const,
+      unitIds: [unitId],
+      abilityId: 'emp_dart',
+      targetId: 'turret-1',
+      timestamp: 0,
+    };
+    runner.queueInput('attacker-1', cast);
+    const first = runner.step();
+
+    expect(first.rejections).toEqual([]);
+    expect(first.events).toContainEqual(
+      expect.objectContaining({ type: 'ability_used', sourceId: unitId, abilityId: 'emp_dart' })
+    );
+    expect(runner.getState().buildings[0]?.effects).toEqual(['stun']);
+
+    runner.queueInput('attacker-1', cast);
+    expect(runner.step().rejections).toEqual([
+      { playerId: 'attacker-1', message: 'Ability is on cooldown', code: 'ON_COOLDOWN' },
+    ]);
+  });
+
+  it('stacks burn on buildings and stops disabled turrets firing', () => {
+    const runDarts = (effect: AbilityDefinition['effects'][number], casts: number) => {
+      const dart: AbilityDefinition = {
+        ...EMP_DART,
+        id: 'dart',
+        cooldown: 0,
+        energyCost: 0,
+        effects: [effect],
+      };
+      const runner = new CombatRunner(
+        createConfig({
+          attackerUnits: [
+            {
+              itemId: 'item-militia',
+              unitTypeId: 'militia',
+              count: 1,
+              stats: createStats({ speed: 0, range: 0.5 }),
+              abilities: [dart],
+            },
+          ],
+          buildings: [
+            {
+              id: 'turret-1',
+              buildingTypeId: 'turret',
+              position: { x: 2, z: 20 },
+              rotation: 0,
+              health: 500,
+              shield: 0,
+              armor: 2,
+              damage: 15,
+              range: 5,
+              attackSpeed: 0.5,
+            },
+          ],
+        })
+      );
+      runner.queueInput('attacker-1', {
+        type: 'deploy',
+        unitType: 'militia',
+        position: { x: 0, z: 20 },
+        timestamp: 0,
+      });
+      runner.step();
+      const unitId = runner.getCommanderView('attacker').units[0]?.id ?? '';
+
+      for (let i = 0; i < casts; i++) {
+        runner.queueInput('attacker-1', {
+          type: 'ability',
+          unitIds: [unitId],
+          abilityId: 'dart',
+          targetId: 'turret-1',
+          timestamp: 0,
+        });
+        expect(runner.step().rejections).toEqual([]);
+      }
+      return { runner, unitId };
+    };
+    const getTurret = (runner: CombatRunner) => runner.getState().buildings[0];
+
+    // Burn stacks and pulses through armor once a second per stack
+    const burned = runDarts({ type: 'burn', value: 5, duration: 5 }, 2);
+    expect(getTurret(burned.runner)).toMatchObject({
+      effects: ['burn'],
+      effectStacks: { burn: 2 },
+    });
+    for (let i = 0; i < 100 && getTurret(burned.runner)?.health === 500; i++) {
+      burned.runner.step();
+    }
+    expect(getTurret(burned.runner)?.health).toBe(490);
+
+    // A disabled turret holds fire on a unit in range
+    const damageTaken = (casts: number) => {
+      const { runner, unitId } = runDarts({ type: 'disable', value: 0, duration: 5 }, casts);
+      const getHealth = () => runner.getState().units.find((u) => u.id === unitId)?.health ?? 0;
+      const before = getHealth();
+      for (let i = 0; i < 3000 / SIM_TICK_MS; i++) runner.step();
+      return before - getHealth();
+    };
+    expect(damageTaken(1)).toBe(0);
+    expect(damageTaken(0)).toBeGreaterThan(0);
+  });
+
+  it('rejects abilities the selected units do not have', () => {
+    const runner = new CombatRunner(createConfig());
+
+    runner.queueInput('defender-1', {
+      type: 'ability',
+      unitIds: ['def_1'],
+      abilityId: 'emp_dart',
+      timestamp: 0,
+    });
+    const { rejections } = runner.step();
+
+    expect(rejections).toEqual([
+      {
+        playerId: 'defender-1',
+        message: 'Selected units do not have this ability',
+        code: 'UNKNOWN_ABILITY',
+      },
+    ]);
+  });
+
+  it('drops consumables, puts them on cooldown and reports how many were used', () => {
+    const runner = new CombatRunner(
+      createConfig({
+        attackerConsumables: [{ itemId: 'emp_bomb', count: 2, consumable: CONSUMABLES.emp_bomb }],
+      })
+    );
+    expect(runner.getSetup().attackerConsumables).toEqual({ emp_bomb: 2 });
+
+    const drop = {
+      type: 'consumable' as const,
+      itemId: 'emp_bomb',
+      position: { x: 25, z: 25 },
+      timestamp: 0,
+    };
+    runner.queueInput('attacker-1', drop);
+    const first = runner.step();
+
+    expect(first.rejections).toEqual([]);
+    expect(first.events).toContainEqual(
+      expect.objectContaining({
+        type: 'consumable_used',
+        sourceId: 'attacker-1',
+        itemId: 'emp_bomb',
+      })
+    );
+    expect(runner.getState().buildings[0]?.effects).toEqual(['stun']);
+
+    runner.queueInput('attacker-1', drop);
+    expect(runner.step().rejections).toEqual([
+      { playerId: 'attacker-1', message: 'Consumable is on cooldown', code: 'ON_COOLDOWN' },
+    ]);
+
+    runner.queueInput('attacker-1', { type: 'retreat', timestamp: 0 });
+    let result: CombatResult | null = null;
+    for (let i = 0; !result && i < 100; i++) result = runner.step().result;
+
+    expect(result?.attackerConsumablesUsed).toEqual({ emp_bomb: 1 });
+    expect(result?.defenderConsumablesUsed).toEqual({});
+  });
+
+  it('rejects consumables the player did not load', () => {
+    const runner = new CombatRunner(createConfig());
+
+    runner.queueInput('defender-1', {
+      type: 'consumable',
+      itemId: 'repair_drones',
+      position: { x: 30, z: 30 },
+      timestamp: 0,
+    });
+    const { rejections } = runner.step();
+
+    expect(rejections).toEqual([
+      {
+        playerId: 'defender-1',
+        message: 'No consumables of this type remaining',
+        code: 'NO_CONSUMABLES_REMAINING',
+      },
+    ]);
+  });
+
+  it('moves units along a path, then hands them back to the AI', () => {
+    const runner = new CombatRunner(createConfig());
+    runner.queueInput('attacker-1', {
+      type: 'deploy',
+      unitType: 'militia',
+      position: { x: 0, z: 20 },
+      timestamp: 0,
+    });
+    runner.step();
+    const unitId = runner.getCommanderView('attacker').units[0]?.id ?? '';
+
+    runner.queueInput('attacker-1', {
+      type: 'move',
+      unitIds: [unitId],
+      position: { x: 10, z: 12 },
+      timestamp: 0,
+    });
+    expect(runner.step().rejections).toEqual([]);
+
+    const unit = () => runner.getCommanderView('attacker').units[0];
+    for (let i = 0; i < 200 && unit()?.moveOrder; i++) runner.step();
+
+    expect(unit()?.moveOrder).toBeNull();
+    expect(unit()?.x).toBeCloseTo(10);
+    expect(unit()?.z).toBeCloseTo(12);
+  });
+
+  it('rejects move orders to places units cannot reach', () => {
+    const runner = new CombatRunner(createConfig());
+
+    runner.queueInput('defender-1', {
+      type: 'move',
+      unitIds: ['def_1'],
+      position: { x: 30, z: 30 }, // The core
+      timestamp: 0,
+    });
+    const { rejections } = runner.step();
+
+    expect(rejections).toEqual([
+      { playerId: 'defender-1', message: 'No path to destination', code: 'NO_PATH' },
+    ]);
+  });
+
+  it('retreats units off the field and ends the battle once every attacker is gone', () => {
+    const runner = new CombatRunner(createConfig());
+    for (const z of [20, 21]) {
+      runner.queueInput('attacker-1', {
+        type: 'deploy',
+        unitType: 'militia',
+        position: { x: 0, z },
+        timestamp: 0,
+      });
+    }
+    for (let i = 0; i < 20; i++) runner.step();
+    expect(runner.getCommanderView('attacker').units.every((u) => u.x > 5)).toBe(true);
+
+    runner.queueInput('attacker-1', { type: 'retreat', timestamp: 0 });
+    runner.queueInput('attacker-1', {
+      type: 'deploy',
+      unitType: 'militia',
+      position: { x: 0, z: 22 },
+      timestamp: 0,
+    });
+    const { rejections } = runner.step();
+    // The reserve is withdrawn with the rest of the force
+    expect(rejections).toEqual([
+      {
+        playerId: 'attacker-1',
+        message: 'No units of this type remaining',
+        code: 'NO_UNITS_REMAINING',
+      },
+    ]);
+
+    const events: string[] = [];
+    let result: CombatResult | null = null;
+    for (let i = 0; i < 1000 && !result; i++) {
+      const step = runner.step();
+      events.push(...step.events.map((e) => e.type));
+      result = step.result;
+    }
+
+    expect(events.filter((type) => type === 'unit_retreated')).toHaveLength(2);
+    expect(result).toMatchObject({
+      winnerId: 'defender-1',
+      reason: 'attackers_retreated',
+      attackerLosses: {},
+      attackerRetreated: { militia: 2 },
+    });
+    const attackerRecords = result?.unitRecords.filter((r) => r.ownerId === 'attacker-1') ?? [];
+    expect(attackerRecords).toHaveLength(2);
+    expect(attackerRecords.every((r) => r.retreated && r.survived)).toBe(true);
+  });
+
+  it('only lets the attacker retreat', () => {
+    const runner = new CombatRunner(createConfig());
+
+    runner.queueInput('defender-1', { type: 'retreat', unitIds: ['def_1'], timestamp: 0 });
+    const { rejections } = runner.step();
+
+    expect(rejections).toEqual([
+      { playerId: 'defender-1', message: 'Only the attacker can retreat', code: 'NOT_ATTACKER' },
+    ]);
+  });
+
+  it('fires projectiles that land later and splash nearby units', () => {
+    const runner = new CombatRunner(
+      createConfig({
+        attackerUnits: [
+          {
+            itemId: 'item-militia',
+            unitTypeId: 'militia',
+            count: 2,
+            stats: createStats({ speed: 0 }),
+          },
+        ],
+        defenderUnits: [],
+        buildings: [
+          {
+            id: 'missile-1',
+            buildingTypeId: 'missile_battery',
+            position: { x: 6, z: 20 },
+            rotation: 0,
+            health: 500,
+            shield: 0,
+            armor: 0,
+            damage: 40,
+            range: 8,
+            attackSpeed: 0.5,
+            projectileSpeed: 5,
+            splashRadius: 2,
+          },
+        ],
+      })
+    );
+    for (const z of [20, 21]) {
+      runner.queueInput('attacker-1', {
+        type: 'deploy',
+        unitType: 'militia',
+        position: { x: 0, z },
+        timestamp: 0,
+      });
+    }
+
+    const firing = runner.step();
+    expect(firing.events.filter((e) => e.type === 'damage')).toEqual([]);
+    expect(runner.getState().projectiles).toEqual([
+      expect.objectContaining({ sourceId: 'missile-1', type: 'missile', splashRadius: 2 }),
+    ]);
+
+    let landing = firing;
+    for (let i = 0; i < 100 && runner.getState().effects.length === 0; i++) {
+      landing = runner.step();
+    }
+
+    expect(runner.getState().effects).toEqual([
+      expect.objectContaining({ type: 'explosion', radius: 2 }),
+    ]);
+    const hits = landing.events.filter((e) => e.type === 'damage' && e.sourceId === 'missile-1');
+    expect(hits).toHaveLength(2);
+    expect(hits.some((e) => e.value === 40)).toBe(true);
+  });
+
+  it('projects shield pylons over nearby allies and the HQ', () => {
+    const runner = new CombatRunner(
+      createConfig({
+        buildings: [
+          {
+            id: 'pylon-1',
+            buildingTypeId: 'shield_generator',
+            position: { x: 28, z: 28 },
+            rotation: 0,
+            health: 80,
+            shield: 50,
+            shieldRange: 4,
+            armor: 5,
+            damage: 0,
+            range: 0,
+            attackSpeed: 0,
+          },
+        ],
+      })
+    );
+    runner.step();
+
+    const state = runner.getState();
+    expect(state.buildings[0]).toMatchObject({ shieldRange: 4 });
+    expect(state.buildings[0]?.coveredBy).toBeUndefined();
+    expect(state.hq.coveredBy).toEqual(['pylon-1']);
+    expect(state.units.some((u) => u.coveredBy?.includes('pylon-1'))).toBe(true);
+  });
+
+  it('reduces weapon damage to units standing in cover', () => {
+    const damageTakenByGuard = (inCover: boolean): number[] => {
+      const layout = buildArenaLayout([]);
+      // First garrison position
+      const row = layout[28];
+      if (row && inCover) row[28] = TileType.COVER;
+
+      const runner = new CombatRunner(
+        createConfig({
+          layout,
+          attackerUnits: [
+            { itemId: 'item-militia', unitTypeId: 'militia', count: 1, stats: createStats() },
+          ],
+          defenderUnits: [
+            {
+              itemId: 'item-guard',
+              unitTypeId: 'guard',
+              count: 1,
+              stats: createStats({ health: 1000, damage: 0, speed: 0 }),
+            },
+          ],
+          buildings: [],
+        })
+      );
+      runner.queueInput('attacker-1', {
+        type: 'deploy',
+        unitType: 'militia',
+        position: { x: 0, z: 28 },
+        timestamp: 0,
+      });
+
+      const guard = runner.getState().units.find((u) => u.ownerId === 'defender-1');
+      const values: number[] = [];
+      for (let i = 0; i < 1000 && values.length === 0; i++) {
+        for (const event of runner.step().events) {
+          if (event.type === 'damage' && event.targetId === guard?.id && event.value) {
+            values.push(event.value);
+          }
+        }
+      }
+      return values;
+    };
+
+    expect(damageTakenByGuard(false)).toEqual([10]);
+    expect(damageTakenByGuard(true)).toEqual([8]);
+  });
+
+  it("reopens a destroyed wall's whole footprint to pathing", () => {
+    const wall = { position: { x: 2, z: 18 }, width: 1, height: 3 };
+    const runner = new CombatRunner(
+      createConfig({
+        layout: buildArenaLayout([wall]),
+        attackerUnits: [
+          { itemId: 'item-militia', unitTypeId: 'militia', count: 1, stats: createStats() },
+        ],
+        defenderUnits: [],
+        buildings: [
+          {
+            id: 'wall-1',
+            buildingTypeId: 'wall',
+            position: wall.position,
+            rotation: 0,
+            width: 1,
+            height: 3,
+            health: 20,
+            shield: 0,
+            armor: 0,
+            damage: 0,
+            range: 0,
+            attackSpeed: 0,
+            category: 'wall',
+          },
+        ],
+      })
+    );
+    runner.queueInput('attacker-1', {
+      type: 'deploy',
+      unitType: 'militia',
+      position: { x: 0, z: 19 },
+      timestamp: 0,
+    });
+    runner.step();
+    const unitId = runner.getCommanderView('attacker').units[0]?.id ?? '';
+    const moveToFarEnd = () => {
+      runner.queueInput('attacker-1', {
+        type: 'move',
+        unitIds: [unitId],
+        position: { x: 2, z: 20 },
+        timestamp: 0,
+      });
+      return runner.step().rejections;
+    };
+
+    expect(moveToFarEnd()).toEqual([expect.objectContaining({ code: 'NO_PATH' })]);
+
+    let destroyed = false;
+    for (let i = 0; i < 1000 && !destroyed; i++) {
+      destroyed = runner.step().events.some((e) => e.type === 'kill' && e.targetId === 'wall-1');
+    }
+
+    expect(destroyed).toBe(true);
+    expect(moveToFarEnd()).toEqual([]);
+  });
+
+  it('hides traps until a recon unit spots them and sets them off on contact', () => {
+    const runTrap = (revealRadius: number) => {
+      const trap = { position: { x: 6, z: 20 }, width: 1, height: 1, passable: true };
+      const runner = new CombatRunner(
+        createConfig({
+          layout: buildArenaLayout([trap]),
+          attackerUnits: [
+            {
+              itemId: 'item-ranger',
+              unitTypeId: 'ranger',
+              count: 1,
+              stats: createStats({ revealRadius, range: 0.5 }),
+            },
+          ],
+          defenderUnits: [],
+          buildings: [
+            {
+              id: 'mine-1',
+              buildingTypeId: 'minefield',
+              position: trap.position,
+              rotation: 0,
+              health: 50,
+              shield: 0,
+              armor: 0,
+              damage: 30,
+              range: 0,
+              attackSpeed: 0,
+              category: 'trap',
+            },
+          ],
+        })
+      );
+      runner.queueInput('attacker-1', {
+        type: 'deploy',
+        unitType: 'ranger',
+        position: { x: 0, z: 20 },
+        timestamp: 0,
+      });
+      runner.step();
+      const unitId = runner.getCommanderView('attacker').units[0]?.id ?? '';
+
+      expect(runner.getSetup().defenderBuildings[0]?.hidden).toBe(true);
+      expect(runner.getState().buildings[0]?.hidden).toBe(true);
+
+      // Walk straight across the trap
+      runner.queueInput('attacker-1', {
+        type: 'move',
+        unitIds: [unitId],
+        position: { x: 12, z: 20 },
+        timestamp: 0,
+      });
+      const events: CombatEvent[] = [];
+      for (let i = 0; i < 200 && !events.some((e) => e.type === 'trap_triggered'); i++) {
+        events.push(...runner.step().events.filter((e) => e.type.startsWith('trap_')));
+      }
+
+      const unit = runner.getState().units.find((u) => u.id === unitId);
+      return { events, unitId, unit, trap: runner.getState().buildings[0] };
+    };
+
+    const scouted = runTrap(3);
+    expect(scouted.events).toEqual([
+      expect.objectContaining({ type: 'trap_revealed', sourceId: scouted.unitId }),
+      expect.objectContaining({
+        type: 'trap_triggered',
+        sourceId: 'mine-1',
+        targetId: scouted.unitId,
+      }),
+    ]);
+    expect(scouted.unit?.health).toBe(70);
+    expect(scouted.trap).toMatchObject({ isActive: false });
+    expect(scouted.trap?.hidden).toBeUndefined();
+
+    const blind = runTrap(0);
+    expect(blind.events.map((e) => e.type)).toEqual(['trap_triggered']);
+    expect(blind.unit?.health).toBe(70);
+  });
+
+  it("keeps unrevealed traps out of the attacker's setup and state", () => {
+    const trap = { position: { x: 6, z: 20 }, width: 1, height: 1, passable: true };
+    const runner = new CombatRunner(
+      createConfig({
+        layout: buildArenaLayout([trap]),
+        attackerUnits: [
+          {
+            itemId: 'item-ranger',
+            unitTypeId: 'ranger',
+            count: 1,
+            stats: createStats({ revealRadius: 3, range: 0.5 }),
+          },
+        ],
+        defenderUnits: [],
+        buildings: [
+          createTurret({ position: { x: 40, z: 40 } }),
+          createTurret({
+            id: 'mine-1',
+            buildingTypeId: 'minefield',
+            position: trap.position,
+            health: 50,
+            armor: 0,
+            damage: 30,
+            range: 0,
+            attackSpeed: 0,
+            category: 'trap',
+          }),
+        ],
+      })
+    );
+    const buildingIds = (side: 'attacker' | 'defender') =>
+      runner.getState([], side).buildings.map((b) => b.id);
+
+    expect(runner.getSetup('attacker').defenderBuildings).toEqual([
+      expect.objectContaining({ buildingTypeId: 'turret' }),
+    ]);
+    expect(runner.getSetup('defender').defenderBuildings).toHaveLength(2);
+    expect(buildingIds('attacker')).toEqual(['turret-1']);
+    expect(buildingIds('defender')).toEqual(['turret-1', 'mine-1']);
+
+    // A recon unit walking up to the trap reveals it to the attacker
+    runner.queueInput('attacker-1', {
+      type: 'deploy',
+      unitType: 'ranger',
+      position: { x: 0, z: 20 },
+      timestamp: 0,
+    });
+    let revealed = false;
+    for (let i = 0; i < 200 && !revealed; i++) {
+      revealed = runner.step().events.some((e) => e.type === 'trap_revealed');
+    }
+
+    expect(revealed).toBe(true);
+    expect(buildingIds('attacker')).toEqual(['turret-1', 'mine-1']);
+    expect(runner.getSetup('attacker').defenderBuildings).toContainEqual(
+      expect.objectContaining({ buildingTypeId: 'minefield', position: trap.position })
+    );
+  });
+
+  it('deploys veterans with promoted stats and records how every unit did', () => {
+    const config = createConfig({
+      attackerUnits: [
+        {
+          itemId: 'item-militia',
+          unitTypeId: 'militia',
+          count: 3,
+          stats: createStats(),
+          veterans: [
+            { id: 'unit-row-1', veterancy: Veterancy.VETERAN },
+            { id: 'unit-row-2', veterancy: Veterancy.ELITE },
+          ],
+        },
+      ],
+    });
+    const runner = new CombatRunner(config);
+    runner.queueInput('attacker-1', {
+      type: 'deploy',
+      unitType: 'militia',
+      position: { x: 0, z: 30 },
+      timestamp: 0,
+    });
+    runner.step();
+
+    const veteran = runner.getState().units.find((u) => u.ownerId === 'attacker-1');
+    expect(veteran).toMatchObject({ health: 125, maxHealth: 125 });
+
+    let result: CombatResult | null = null;
+    for (let i = 0; i < 10_000 && !result; i++) {
+      result = runner.step().result;
+    }
+
+    const records = result?.unitRecords ?? [];
+    expect(records.find((r) => r.veteranId === 'unit-row-1')).toMatchObject({
+      unitId: veteran?.id,
+      deployed: true,
+      maxHealth: 125,
+    });
+    // The second veteran never left the reserve
+    expect(records.find((r) => r.veteranId === 'unit-row-2')).toMatchObject({
+      deployed: false,
+      survived: true,
+      maxHealth: 150,
+    });
+    expect(records.filter((r) => r.ownerId === 'defender-1')).toHaveLength(4);
+    expect(records.some((r) => r.damageDealt > 0)).toBe(true);
+    // Config is left untouched so the battle replays the same
+    expect(config.attackerUnits[0]?.veterans).toHaveLength(2);
+  });
+
+  it('replays a battle log to the same result', () => {
+    const { runner, result } = runBattle(createConfig());
+
+    expect(result).not.toBeNull();
+    expect(replayCombat(runner.getLog())).toEqual(result);
+  });
+
+  it('produces the same result for the same seed and inputs', () => {
+    const first = runBattle(createConfig());
+    const second = runBattle(createConfig());
+
+    expect(second.result).toEqual(first.result);
+  });
+
+  it('returns null when the log has no setup', () => {
+    expect(replayCombat([])).toBeNull();
+  });
+});
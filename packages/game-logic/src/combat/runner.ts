@@ -0,0 +1,1126 @@
+/**
+ * Combat Runner
+ *
+ * Drives a battle on top of the simulator: attacker reserves, deployment,
+ * retreats, consumables, garrison placement, the combat timer and the final result.
+ * Runs one fixed step per call with no I/O, so the worker can tick it in
+ * real time and replays can run it headless from the recorded log.
+ */
+
+import {
+  COMBAT,
+  CombatPhase,
+  TARGET_PRIORITY_PRESETS,
+  UnitState,
+  calculateUnitStats,
+  type AbilityDefinition,
+  type ArenaPosition,
+  type BuildingCategory,
+  type CombatBuildingState,
+  type CombatEvent as CombatStateEvent,
+  type CombatInput,
+  type CombatResult,
+  type CombatSetup,
+  type CombatState,
+  type CombatUnitRecord,
+  type CombatUnitState,
+  type ConsumableDefinition,
+  type EffectState,
+  type HQState,
+  type TargetPriorityPreset,
+  type TileType,
+  type UnitCategory,
+  type UnitStats,
+  type Veterancy,
+} from '@nova-fall/shared';
+import { getGarrisonPositions, isSpawnTile } from './arena.js';
+import { CombatSimulator, SIM_TICK_MS, type CombatEvent, type SimUnit } from './simulator.js';
+import type { CombatSide, CommanderView } from './commander.js';
+import type { AbilityCastFailure, AbilityCastTarget } from './abilities.js';
+import { getEffectStacks, getEffectTypes, hasEffect, type ActiveEffect } from './statusEffects.js';
+
+/**
+ * Unit group with resolved combat stats
+ */
+export interface CombatUnitGroup {
+  itemId: string;
+  unitTypeId: string;
+  count: number;
+  stats: UnitStats;
+  category?: UnitCategory; // Defaults to infantry
+  targetPriority?: TargetPriorityPreset; // Defaults to balanced
+  abilities?: AbilityDefinition[];
+  tileSize?: number; // Footprint in tiles, defaults to 1
+  veterans?: CombatVeteran[]; // Units with a Unit row, deployed first
+}
+
+/**
+ * A unit that has earned veterancy and fights with promoted stats
+ */
+export interface CombatVeteran {
+  id: string; // Unit row ID
+  veterancy: Veterancy;
+}
+
+/**
+ * Defender building with resolved combat stats
+ */
+export interface CombatBuildingConfig {
+  id: string;
+  buildingTypeId: string;
+  position: ArenaPosition;
+  rotation: number;
+  width?: number; // Footprint in tiles, defaults to 1
+  height?: number; // Defaults to 1
+  health: number;
+  shield: number;
+  shieldRange?: number; // Defaults to 0 (personal shield)
+  armor: number;
+  damage: number;
+  range: number;
+  attackSpeed: number;
+  projectileSpeed?: number; // Tiles per second, defaults to 0 (instant hit)
+  splashRadius?: number; // Defaults to 0 (single target)
+  category?: BuildingCategory; // Defaults to turret for buildings that attack, structure otherwise
+  targetPriority?: TargetPriorityPreset; // Defaults to balanced
+  abilities?: AbilityDefinition[];
+}
+
+/**
+ * Consumables a side loaded into the battle during prep
+ */
+export interface CombatConsumableStock {
+  itemId: string;
+  count: number;
+  consumable: ConsumableDefinition;
+}
+
+/**
+ * Everything needed to run a battle
+ * Together with the recorded inputs this fully determines the outcome
+ */
+export interface CombatRunnerConfig {
+  battleId: string;
+  attackerId: string;
+  defenderId: string;
+  nodeId: string;
+  nodeType: string;
+  layout: TileType[][];
+  hqMaxHealth: number;
+  durationMs: number;
+  seed: number;
+  attackerUnits: CombatUnitGroup[];
+  defenderUnits: CombatUnitGroup[];
+  buildings: CombatBuildingConfig[];
+  attackerConsumables?: CombatConsumableStock[];
+  defenderConsumables?: CombatConsumableStock[];
+}
+
+/**
+ * An accepted input and the tick it was applied on
+ */
+export interface CombatInputRecord {
+  tick: number;
+  playerId: string;
+  input: CombatInput;
+}
+
+/**
+ * Battle log entry (stored in Battle.events)
+ * The log starts with the setup entry followed by every accepted input
+ */
+export type CombatLogEntry =
+  | { type: 'setup'; tick: 0; config: CombatRunnerConfig }
+  | ({ type: 'input' } & CombatInputRecord);
+
+/**
+ * Input rejected while applying a tick, to be reported to the player
+ */
+export interface CombatInputRejection {
+  playerId: string;
+  message: string;
+  code: string;
+}
+
+/**
+ * Outcome of a single step
+ */
+export interface CombatStepResult {
+  events: CombatStateEvent[];
+  rejections: CombatInputRejection[];
+  result: CombatResult | null;
+}
+
+const ABILITY_FAILURE_MESSAGES: Record<AbilityCastFailure, string> = {
+  INVALID_CASTER: 'Invalid units selected',
+  UNKNOWN_ABILITY: 'Selected units do not have this ability',
+  CASTER_DISABLED: 'Units are disabled and cannot use abilities',
+  ON_COOLDOWN: 'Ability is on cooldown',
+  NOT_ENOUGH_ENERGY: 'Not enough energy',
+  INVALID_TARGET: 'Invalid ability target',
+  OUT_OF_RANGE: 'Target is out of range',
+};
+
+// How long splash explosions are shown for
+const IMPACT_EFFECT_MS = 500;
+
+export class CombatRunner {
+  readonly config: CombatRunnerConfig;
+
+  private simulator: CombatSimulator;
+  private nextUnitId = 0;
+  private finished = false;
+  // Attacker called a full retreat: units still in reserve stay home
+  private reserveWithdrawn = false;
+
+  // Attacker units not yet deployed (unitTypeId -> group with remaining count)
+  private reserves = new Map<string, CombatUnitGroup>();
+  // Consumables left per player (playerId -> itemId -> stock with remaining count)
+  private consumables = new Map<string, Map<string, CombatConsumableStock>>();
+  // When each player's consumables come off cooldown (playerId -> itemId -> elapsed ms)
+  private consumableCooldowns = new Map<string, Record<string, number>>();
+  // Inputs received since the last tick, applied at the start of the next one
+  private pendingInputs: { playerId: string; input: CombatInput }[] = [];
+  // Events produced between simulator ticks (deploys, casts) for the next step
+  private pendingEvents: CombatStateEvent[] = [];
+  // Splash impacts from the last step, sent as explosion effects
+  private stepEffects: EffectState[] = [];
+  private inputLog: CombatInputRecord[] = [];
+
+  constructor(config: CombatRunnerConfig) {
+    this.config = config;
+    this.simulator = new CombatSimulator(
+      config.battleId,
+      config.attackerId,
+      config.defenderId,
+      config.layout,
+      config.hqMaxHealth,
+      config.seed
+    );
+
+    for (const group of config.attackerUnits) {
+      const existing = this.reserves.get(group.unitTypeId);
+      if (existing) {
+        existing.count += group.count;
+        existing.veterans = [...(existing.veterans ?? []), ...(group.veterans ?? [])];
+      } else {
+        this.reserves.set(group.unitTypeId, { ...group, veterans: [...(group.veterans ?? [])] });
+      }
+    }
+    this.simulator.setAttackerReserve(this.getReserveCount());
+
+    this.consumables.set(config.attackerId, stockConsumables(config.attackerConsumables));
+    this.consumables.set(config.defenderId, stockConsumables(config.defenderConsumables));
+
+    this.deployGarrison();
+    this.placeBuildings();
+  }
+
+  get tick(): number {
+    return this.simulator.getState().tick;
+  }
+
+  get elapsedMs(): number {
+    return this.simulator.getState().currentTime;
+  }
+
+  get isFinished(): boolean {
+    return this.finished;
+  }
+
+  /**
+   * Setup payload for clients entering the battle
+   * Traps the attacker hasn't revealed are only in the defender's setup
+   * (the attacker's is also the one spectators get)
+   */
+  getSetup(side: CombatSide = 'defender'): CombatSetup {
+    const { buildings: simBuildings } = this.simulator.getState();
+    const totals = new Map<string, number>();
+    for (const group of this.config.attackerUnits) {
+      totals.set(group.unitTypeId, (totals.get(group.unitTypeId) ?? 0) + group.count);
+    }
+
+    return {
+      battleId: this.config.battleId,
+      attackerId: this.config.attackerId,
+      defenderId: this.config.defenderId,
+      nodeId: this.config.nodeId,
+      nodeType: this.config.nodeType,
+      arenaLayout: this.config.layout,
+      attackerUnits: Array.from(totals, ([unitTypeId, count]) => ({ unitTypeId, count })),
+      defenderUnits: this.config.defenderUnits.map((g) => ({
+        unitTypeId: g.unitTypeId,
+        count: g.count,
+        deployed: true,
+      })),
+      defenderBuildings: this.config.buildings.flatMap((b) => {
+        const hidden = simBuildings.get(b.id)?.hidden ?? false;
+        if (hidden && side === 'attacker') return [];
+        return [
+          {
+            buildingTypeId: b.buildingTypeId,
+            position: b.position,
+            rotation: b.rotation,
+            ...(hidden && { hidden: true }),
+          },
+        ];
+      }),
+      hqMaxHealth: this.config.hqMaxHealth,
+      combatDuration: Math.round(this.config.durationMs / 1000),
+      attackerConsumables: countConsumables(this.config.attackerConsumables),
+      defenderConsumables: countConsumables(this.config.defenderConsumables),
+    };
+  }
+
+  /**
+   * Battle log so far: the setup followed by every accepted input
+   */
+  getLog(): CombatLogEntry[] {
+    return [
+      { type: 'setup', tick: 0, config: this.config },
+      ...this.inputLog.map((record) => ({ type: 'input' as const, ...record })),
+    ];
+  }
+
+  /**
+   * What one side can see and command, for the commander AI
+   */
+  getCommanderView(side: CombatSide): CommanderView {
+    const playerId = side === 'attacker' ? this.config.attackerId : this.config.defenderId;
+    const units: SimUnit[] = [];
+    const enemies: SimUnit[] = [];
+    for (const unit of this.simulator.getState().units.values()) {
+      if (unit.state === UnitState.DEAD) continue;
+      if (unit.ownerId === playerId) units.push(unit);
+      else if (!hasEffect(unit.effects, 'stealth')) enemies.push(unit);
+    }
+
+    return {
+      tick: this.tick,
+      side,
+      playerId,
+      layout: this.config.layout,
+      reserves:
+        side === 'attacker'
+          ? Array.from(this.reserves.values(), (g) => ({
+              unitTypeId: g.unitTypeId,
+              count: g.count,
+            }))
+          : [],
+      units,
+      enemies,
+    };
+  }
+
+  /**
+   * Queue an input for the next step
+   */
+  queueInput(playerId: string, input: CombatInput): void {
+    if (this.finished) return;
+    this.pendingInputs.push({ playerId, input });
+  }
+
+  /**
+   * Apply queued inputs and advance the simulation by one fixed step
+   */
+  step(): CombatStepResult {
+    if (this.finished) return { events: [], rejections: [], result: null };
+
+    const tick = this.tick + 1;
+    const rejections: CombatInputRejection[] = [];
+    for (const { playerId, input } of this.pendingInputs.splice(0)) {
+      const rejection = this.applyInput(playerId, input);
+      if (rejection) rejections.push(rejection);
+      else this.inputLog.push({ tick, playerId, input });
+    }
+
+    const events = this.pendingEvents.splice(0);
+    this.stepEffects = [];
+    for (const event of this.simulator.tick()) {
+      if (event.type === 'impact') {
+        this.stepEffects.push({
+          id: `fx_${tick}_${this.stepEffects.length}`,
+          type: 'explosion',
+          position: { x: event.x, z: event.z },
+          radius: event.radius,
+          startTime: this.elapsedMs,
+          duration: IMPACT_EFFECT_MS,
+        });
+      } else {
+        events.push(this.toCombatEvent(event));
+      }
+    }
+
+    const simState = this.simulator.getState();
+    let result: CombatResult | null = null;
+    if (simState.isComplete) {
+      result = this.buildResult(simState.winnerId, this.getCompletionReason());
+    } else if (this.elapsedMs >= this.config.durationMs) {
+      // HQ survived the timer
+      result = this.buildResult(this.config.defenderId, 'timeout');
+    }
+
+    if (result) {
+      this.finished = true;
+    }
+
+    return { events, rejections, result };
+  }
+
+  /**
+   * Build the current client-facing state snapshot for one side
+   * Traps the attacker hasn't revealed are left out of the attacker's state
+   */
+  getState(events: CombatStateEvent[] = [], side: CombatSide = 'defender'): CombatState {
+    const simState = this.simulator.getState();
+    const killedThisTick = new Set(events.filter((e) => e.type === 'kill').map((e) => e.targetId));
+
+    const units: CombatUnitState[] = [];
+    for (const unit of simState.units.values()) {
+      // Dead units are only sent on the tick they die
+      if (unit.state === UnitState.DEAD && !killedThisTick.has(unit.id)) continue;
+      units.push({
+        id: unit.id,
+        unitTypeId: unit.typeId,
+        ownerId: unit.ownerId,
+        position: { x: unit.x, z: unit.z },
+        ...(unit.targetX !== null && {
+          targetPosition: { x: unit.targetX, z: unit.targetZ ?? unit.z },
+        }),
+        rotation: unit.rotation,
+        health: unit.health,
+        maxHealth: unit.maxHealth,
+        shield: unit.shield,
+        maxShield: unit.maxShield,
+        state: unit.state,
+        ...(unit.targetId !== null && { targetId: unit.targetId }),
+        ...(unit.abilities.length > 0 && { energy: Math.floor(unit.energy) }),
+        ...getEffectState(unit.effects),
+        ...(unit.stats.shieldRange > 0 && { shieldRange: unit.stats.shieldRange }),
+        ...(unit.coveredBy.length > 0 && { coveredBy: unit.coveredBy }),
+      });
+    }
+
+    const rotations = new Map(this.config.buildings.map((b) => [b.id, b.rotation]));
+    const visibleBuildings = Array.from(simState.buildings.values()).filter(
+      (b) => side === 'defender' || !b.hidden
+    );
+    const buildings: CombatBuildingState[] = visibleBuildings.map((b) => ({
+      id: b.id,
+      buildingTypeId: b.typeId,
+      ownerId: b.ownerId,
+      position: { x: b.x, z: b.z },
+      rotation: rotations.get(b.id) ?? 0,
+      health: b.health,
+      maxHealth: b.maxHealth,
+      shield: b.shield,
+      maxShield: b.maxShield,
+      ...(b.targetId !== null && { targetId: b.targetId }),
+      isActive: b.health > 0,
+      ...(b.abilities.length > 0 && { energy: Math.floor(b.energy) }),
+      ...getEffectState(b.effects),
+      ...(b.shieldRange > 0 && { shieldRange: b.shieldRange }),
+      ...(b.coveredBy.length > 0 && { coveredBy: b.coveredBy }),
+      ...(b.hidden && { hidden: true }),
+    }));
+
+    return {
+      battleId: this.config.battleId,
+      tick: this.tick,
+      timestamp: Date.now(),
+      phase: this.finished ? CombatPhase.RESOLVE : CombatPhase.BATTLE,
+      timeRemaining: Math.max(0, Math.ceil((this.config.durationMs - this.elapsedMs) / 1000)),
+      hq: this.getHQState(),
+      units,
+      buildings,
+      projectiles: Array.from(simState.projectiles.values(), (p) => ({
+        id: p.id,
+        sourceId: p.sourceId,
+        targetId: p.targetId,
+        origin: { x: p.originX, z: p.originZ },
+        position: { x: p.x, z: p.z },
+        targetPosition: { x: p.targetX, z: p.targetZ },
+        speed: p.speed,
+        splashRadius: p.splashRadius,
+        type: p.splashRadius > 0 ? 'missile' : 'bullet',
+        startTime: p.firedAt,
+      })),
+      effects: this.stepEffects,
+      events,
+    };
+  }
+
+  /**
+   * Apply a queued input, returning why it was rejected (if it was)
+   */
+  private applyInput(playerId: string, input: CombatInput): CombatInputRejection | null {
+    if (playerId !== this.config.attackerId && playerId !== this.config.defenderId) {
+      return {
+        playerId,
+        message: 'You are not a participant in this battle',
+        code: 'NOT_PARTICIPANT',
+      };
+    }
+
+    if (!isWellFormedInput(input)) {
+      return { playerId, message: 'Malformed input', code: 'MALFORMED_INPUT' };
+    }
+
+    switch (input.type) {
+      case 'deploy':
+        return this.deploy(playerId, input);
+      case 'move':
+        return this.move(playerId, input);
+      case 'attack':
+        return this.attack(playerId, input);
+      case 'target_priority':
+        return this.setTargetPriority(playerId, input);
+      case 'ability':
+        return this.castAbility(playerId, input);
+      case 'retreat':
+        return this.retreat(playerId, input);
+      case 'consumable':
+        return this.useConsumable(playerId, input);
+      default:
+        return {
+          playerId,
+          message: `Input type '${input.type}' is not supported yet`,
+          code: 'UNSUPPORTED_INPUT',
+        };
+    }
+  }
+
+  /**
+   * Deploy one reserve unit onto a spawn tile
+   */
+  private deploy(playerId: string, input: CombatInput): CombatInputRejection | null {
+    if (playerId !== this.config.attackerId) {
+      return { playerId, message: 'Only the attacker can deploy units', code: 'NOT_ATTACKER' };
+    }
+
+    const group = input.unitType ? this.reserves.get(input.unitType) : undefined;
+    if (!group || group.count <= 0) {
+      return { playerId, message: 'No units of this type remaining', code: 'NO_UNITS_REMAINING' };
+    }
+
+    if (!input.position || !isSpawnTile(this.config.layout, input.position)) {
+      return { playerId, message: 'Invalid spawn location', code: 'INVALID_SPAWN' };
+    }
+
+    group.count--;
+    const unit = this.createUnit(
+      group,
+      this.config.attackerId,
+      input.position,
+      'atk',
+      group.veterans?.shift()
+    );
+    this.simulator.addUnit(unit);
+    this.simulator.setAttackerReserve(this.getReserveCount());
+    this.pendingEvents.push({
+      type: 'unit_spawned',
+      sourceId: unit.id,
+      timestamp: this.elapsedMs,
+    });
+    return null;
+  }
+
+  /**
+   * Order the player's units to move to a position (A* path, then back to AI)
+   */
+  private move(playerId: string, input: CombatInput): CombatInputRejection | null {
+    const { position } = input;
+    if (!position || this.config.layout[position.x]?.[position.z] === undefined) {
+      return { playerId, message: 'Invalid move destination', code: 'INVALID_POSITION' };
+    }
+
+    const simState = this.simulator.getState();
+    const unitIds = input.unitIds ?? [];
+    const owned = unitIds.filter((id) => {
+      const unit = simState.units.get(id);
+      return unit?.ownerId === playerId && unit.state !== UnitState.DEAD;
+    });
+    if (owned.length === 0 || owned.length !== unitIds.length) {
+      return { playerId, message: 'Invalid units selected', code: 'INVALID_UNITS' };
+    }
+
+    let moved = false;
+    for (const unitId of owned) {
+      if (this.simulator.orderMove(unitId, position)) moved = true;
+    }
+    return moved ? null : { playerId, message: 'No path to destination', code: 'NO_PATH' };
+  }
+
+  /**
+   * Order the player's units to attack an enemy unit
+   */
+  private attack(playerId: string, input: CombatInput): CombatInputRejection | null {
+    const simState = this.simulator.getState();
+    const target = input.targetId ? simState.units.get(input.targetId) : undefined;
+    if (
+      !target ||
+      target.ownerId === playerId ||
+      target.state === UnitState.DEAD ||
+      hasEffect(target.effects, 'stealth')
+    ) {
+      return { playerId, message: 'Invalid attack target', code: 'INVALID_TARGET' };
+    }
+
+    const unitIds = input.unitIds ?? [];
+    const owned = unitIds.filter((id) => {
+      const unit = simState.units.get(id);
+      return unit?.ownerId === playerId && unit.state !== UnitState.DEAD;
+    });
+    if (owned.length === 0 || owned.length !== unitIds.length) {
+      return { playerId, message: 'Invalid units selected', code: 'INVALID_UNITS' };
+    }
+
+    for (const unitId of owned) {
+      this.simulator.orderAttack(unitId, target.id);
+    }
+    return null;
+  }
+
+  /**
+   * Change the target priority of the player's units and buildings
+   * With no unit or building IDs the preset applies to everything the player has
+   */
+  private setTargetPriority(playerId: string, input: CombatInput): CombatInputRejection | null {
+    const { priority } = input;
+    if (!priority || !TARGET_PRIORITY_PRESETS.includes(priority)) {
+      return { playerId, message: 'Invalid target priority', code: 'INVALID_PRIORITY' };
+    }
+
+    const simState = this.simulator.getState();
+    const applyToAll = !input.unitIds && !input.buildingIds;
+
+    const unitIds = applyToAll
+      ? Array.from(simState.units.values())
+          .filter((u) => u.ownerId === playerId && u.state !== UnitState.DEAD)
+          .map((u) => u.id)
+      : (input.unitIds ?? []);
+    const buildingIds = applyToAll
+      ? Array.from(simState.buildings.values())
+          .filter((b) => b.ownerId === playerId && b.health > 0)
+          .map((b) => b.id)
+      : (input.buildingIds ?? []);
+
+    const ownsAll =
+      unitIds.every((id) => {
+        const unit = simState.units.get(id);
+        return unit?.ownerId === playerId && unit.state !== UnitState.DEAD;
+      }) &&
+      buildingIds.every((id) => {
+        const building = simState.buildings.get(id);
+        return building?.ownerId === playerId && building.health > 0;
+      });
+    if (!ownsAll || (!applyToAll && unitIds.length + buildingIds.length === 0)) {
+      return { playerId, message: 'Invalid units selected', code: 'INVALID_UNITS' };
+    }
+
+    for (const id of [...unitIds, ...buildingIds]) {
+      this.simulator.setTargetPriority(id, priority);
+    }
+    return null;
+  }
+
+  /**
+   * Cast an ability with the player's selected units and buildings
+   * Accepted if at least one of them cast it; otherwise the last failure is reported
+   */
+  private castAbility(playerId: string, input: CombatInput): CombatInputRejection | null {
+    const simState = this.simulator.getState();
+    const casterIds = [...(input.unitIds ?? []), ...(input.buildingIds ?? [])];
+    const ownsAll = casterIds.every(
+      (id) => (simState.units.get(id) ?? simState.buildings.get(id))?.ownerId === playerId
+    );
+    if (casterIds.length === 0 || !ownsAll) {
+      return { playerId, message: 'Invalid units selected', code: 'INVALID_UNITS' };
+    }
+    if (!input.abilityId) {
+      return {
+        playerId,
+        message: ABILITY_FAILURE_MESSAGES.UNKNOWN_ABILITY,
+        code: 'UNKNOWN_ABILITY',
+      };
+    }
+
+    const target: AbilityCastTarget = {
+      ...(input.targetId && { targetId: input.targetId }),
+      ...(input.position && { position: input.position }),
+    };
+
+    // Casts happen between ticks, so their events go out with the next step like deploys
+    const simEvents = this.simulator.getState().events;
+    const firstCastEvent = simEvents.length;
+
+    let failure: AbilityCastFailure | null = null;
+    let cast = false;
+    for (const id of casterIds) {
+      const result = this.simulator.castAbility(id, input.abilityId, target);
+      if (result) failure = result;
+      else cast = true;
+    }
+    for (const event of simEvents.splice(firstCastEvent)) {
+      if (event.type !== 'impact') this.pendingEvents.push(this.toCombatEvent(event));
+    }
+
+    if (cast || !failure) return null;
+    return { playerId, message: ABILITY_FAILURE_MESSAGES[failure], code: failure };
+  }
+
+  /**
+   * Send the attacker's units back to the deploy edge to leave the field
+   * With no unit IDs every unit retreats and the reserve is withdrawn, so the
+   * battle ends once the last unit is off the field
+   */
+  private retreat(playerId: string, input: CombatInput): CombatInputRejection | null {
+    if (playerId !== this.config.attackerId) {
+      return { playerId, message: 'Only the attacker can retreat', code: 'NOT_ATTACKER' };
+    }
+
+    const simState = this.simulator.getState();
+    const fullRetreat = !input.unitIds;
+    const unitIds = fullRetreat
+      ? Array.from(simState.units.values())
+          .filter((u) => u.ownerId === playerId && u.state !== UnitState.DEAD)
+          .map((u) => u.id)
+      : (input.unitIds ?? []);
+
+    const ownsAll = unitIds.every((id) => {
+      const unit = simState.units.get(id);
+      return unit?.ownerId === playerId && unit.state !== UnitState.DEAD;
+    });
+    if (!ownsAll || (!fullRetreat && unitIds.length === 0)) {
+      return { playerId, message: 'Invalid units selected', code: 'INVALID_UNITS' };
+    }
+
+    let retreated = false;
+    for (const unitId of unitIds) {
+      if (this.simulator.orderRetreat(unitId)) retreated = true;
+    }
+
+    if (fullRetreat && this.getReserveCount() > 0) {
+      this.reserveWithdrawn = true;
+      for (const group of this.reserves.values()) group.count = 0;
+      this.simulator.setAttackerReserve(0);
+      retreated = true;
+    }
+
+    return retreated ? null : { playerId, message: 'No path to the deploy edge', code: 'NO_PATH' };
+  }
+
+  /**
+   * Drop one of the player's consumables on a tile
+   */
+  private useConsumable(playerId: string, input: CombatInput): CombatInputRejection | null {
+    const stock = input.itemId ? this.consumables.get(playerId)?.get(input.itemId) : undefined;
+    if (!stock || stock.count <= 0) {
+      return {
+        playerId,
+        message: 'No consumables of this type remaining',
+        code: 'NO_CONSUMABLES_REMAINING',
+      };
+    }
+
+    const { position } = input;
+    if (!position || this.config.layout[position.x]?.[position.z] === undefined) {
+      return { playerId, message: 'Invalid target location', code: 'INVALID_POSITION' };
+    }
+
+    const cooldowns = this.consumableCooldowns.get(playerId) ?? {};
+    if ((cooldowns[stock.itemId] ?? 0) > this.elapsedMs) {
+      return { playerId, message: 'Consumable is on cooldown', code: 'ON_COOLDOWN' };
+    }
+
+    stock.count--;
+    cooldowns[stock.itemId] = this.elapsedMs + stock.consumable.cooldown * 1000;
+    this.consumableCooldowns.set(playerId, cooldowns);
+
+    // Used between ticks, so the event goes out with the next step like ability casts
+    const simEvents = this.simulator.getState().events;
+    const firstEvent = simEvents.length;
+    this.simulator.useConsumable(playerId, stock.consumable, position);
+    for (const event of simEvents.splice(firstEvent)) {
+      if (event.type !== 'impact') this.pendingEvents.push(this.toCombatEvent(event));
+    }
+    return null;
+  }
+
+  /**
+   * Place the defender garrison around the core
+   */
+  private deployGarrison(): void {
+    const total = this.config.defenderUnits.reduce((sum, g) => sum + g.count, 0);
+    const positions = getGarrisonPositions(this.config.layout, total);
+
+    let index = 0;
+    for (const group of this.config.defenderUnits) {
+      for (let i = 0; i < group.count; i++) {
+        const position = positions[index++];
+        if (!position) return;
+        this.simulator.addUnit(
+          this.createUnit(group, this.config.defenderId, position, 'def', group.veterans?.[i])
+        );
+      }
+    }
+  }
+
+  /**
+   * Place the defender buildings; traps start hidden from the attacker
+   */
+  private placeBuildings(): void {
+    for (const b of this.config.buildings) {
+      const category = b.category ?? (b.attackSpeed > 0 ? 'turret' : 'structure');
+      this.simulator.addBuilding({
+        id: b.id,
+        typeId: b.buildingTypeId,
+        ownerId: this.config.defenderId,
+        x: b.position.x,
+        z: b.position.z,
+        width: b.width ?? 1,
+        height: b.height ?? 1,
+        health: b.health,
+        maxHealth: b.health,
+        shield: b.shield,
+        maxShield: b.shield,
+        shieldRange: b.shieldRange ?? 0,
+        damage: b.damage,
+        armor: b.armor,
+        range: b.range,
+        attackSpeed: b.attackSpeed,
+        projectileSpeed: b.projectileSpeed ?? 0,
+        splashRadius: b.splashRadius ?? 0,
+        category,
+        targetPriority: b.targetPriority ?? 'balanced',
+        hidden: category === 'trap',
+        lastAttackTime: Number.NEGATIVE_INFINITY,
+        targetId: null,
+        lastShieldHitTime: Number.NEGATIVE_INFINITY,
+        coveredBy: [],
+        ...this.createAbilityState(b.abilities),
+      });
+    }
+  }
+
+  private createUnit(
+    group: CombatUnitGroup,
+    ownerId: string,
+    position: ArenaPosition,
+    prefix: string,
+    veteran?: CombatVeteran
+  ): SimUnit {
+    const stats = veteran ? calculateUnitStats(group.stats, veteran.veterancy) : group.stats;
+    return {
+      id: `${prefix}_${++this.nextUnitId}`,
+      typeId: group.unitTypeId,
+      ownerId,
+      x: position.x,
+      z: position.z,
+      targetX: null,
+      targetZ: null,
+      health: stats.health,
+      maxHealth: stats.health,
+      shield: stats.shield,
+      maxShield: stats.shield,
+      stats,
+      category: group.category ?? 'infantry',
+      targetPriority: group.targetPriority ?? 'balanced',
+      state: UnitState.IDLE,
+      targetId: null,
+      orderTargetId: null,
+      moveOrder: null,
+      retreating: false,
+      tileSize: group.tileSize ?? 1,
+      lastAttackTime: Number.NEGATIVE_INFINITY,
+      rotation: 0,
+      velocityX: 0,
+      velocityZ: 0,
+      lastShieldHitTime: Number.NEGATIVE_INFINITY,
+      coveredBy: [],
+      ...this.createAbilityState(group.abilities),
+      veteranId: veteran?.id ?? null,
+      damageDealt: 0,
+      kills: 0,
+      structuresDestroyed: 0,
+    };
+  }
+
+  /**
+   * Starting ability state: full energy and nothing on cooldown
+   */
+  private createAbilityState(
+    abilities: AbilityDefinition[] = []
+  ): Pick<SimUnit, 'abilities' | 'energy' | 'abilityCooldowns' | 'effects'> {
+    return {
+      abilities,
+      energy: abilities.length > 0 ? COMBAT.MAX_ENERGY : 0,
+      abilityCooldowns: {},
+      effects: [],
+    };
+  }
+
+  /**
+   * How many of each consumable a player has used so far
+   */
+  private getConsumablesUsed(
+    playerId: string,
+    stocks: CombatConsumableStock[] = []
+  ): Record<string, number> {
+    const used: Record<string, number> = {};
+    const remaining = this.consumables.get(playerId);
+    for (const [itemId, loaded] of Object.entries(countConsumables(stocks))) {
+      const count = loaded - (remaining?.get(itemId)?.count ?? 0);
+      if (count > 0) used[itemId] = count;
+    }
+    return used;
+  }
+
+  private getReserveCount(): number {
+    let count = 0;
+    for (const group of this.reserves.values()) count += group.count;
+    return count;
+  }
+
+  private getHQState(): HQState {
+    const { health, maxHealth } = this.simulator.getCoreHealth();
+    const { coveredBy } = this.simulator.getState().core;
+    const ratio = maxHealth > 0 ? health / maxHealth : 0;
+    return {
+      health,
+      maxHealth,
+      damageState: ratio > 0.75 ? 'healthy' : ratio > 0.25 ? 'damaged' : 'critical',
+      ...(coveredBy.length > 0 && { coveredBy }),
+    };
+  }
+
+  private toCombatEvent(event: Exclude<CombatEvent, { type: 'impact' }>): CombatStateEvent {
+    const timestamp = this.elapsedMs;
+    switch (event.type) {
+      case 'attack':
+        return {
+          type: 'damage',
+          sourceId: event.attackerId,
+          targetId: event.targetId,
+          value: event.damage,
+          timestamp,
+        };
+      case 'death':
+        return { type: 'kill', targetId: event.unitId, timestamp };
+      case 'coreDamage':
+        return { type: 'hq_damaged', sourceId: event.attackerId, value: event.damage, timestamp };
+      case 'spawn':
+        return { type: 'unit_spawned', sourceId: event.unitId, timestamp };
+      case 'retreat':
+        return { type: 'unit_retreated', sourceId: event.unitId, timestamp };
+      case 'trap':
+        return {
+          type: 'trap_triggered',
+          sourceId: event.trapId,
+          targetId: event.unitId,
+          position: { x: event.x, z: event.z },
+          timestamp,
+        };
+      case 'reveal':
+        return { type: 'trap_revealed', sourceId: event.unitId, targetId: event.trapId, timestamp };
+      case 'ability':
+        return {
+          type: 'ability_used',
+          sourceId: event.casterId,
+          ...(event.targetId !== null && { targetId: event.targetId }),
+          abilityId: event.abilityId,
+          position: { x: event.x, z: event.z },
+          value: event.radius,
+          timestamp,
+        };
+      case 'consumable':
+        return {
+          type: 'consumable_used',
+          sourceId: event.ownerId,
+          itemId: event.itemId,
+          position: { x: event.x, z: event.z },
+          value: event.radius,
+          timestamp,
+        };
+    }
+  }
+
+  /**
+   * Why the simulator ended the battle
+   * The defender wins by retreat if any attacker got away (or stayed home)
+   */
+  private getCompletionReason(): CombatResult['reason'] {
+    const simState = this.simulator.getState();
+    if (simState.core.health <= 0) return 'hq_destroyed';
+    return simState.retreated.size > 0 || this.reserveWithdrawn
+      ? 'attackers_retreated'
+      : 'attackers_eliminated';
+  }
+
+  private buildResult(winnerId: string | null, reason: CombatResult['reason']): CombatResult {
+    const attackerLosses: Record<string, number> = {};
+    const attackerRetreated: Record<string, number> = {};
+    const defenderLosses: Record<string, number> = {};
+    const unitRecords: CombatUnitRecord[] = [];
+    const { units, retreated } = this.simulator.getState();
+
+    for (const unit of [...units.values(), ...retreated.values()]) {
+      const hasRetreated = retreated.has(unit.id);
+      unitRecords.push({
+        unitId: unit.id,
+        ...(unit.veteranId !== null && { veteranId: unit.veteranId }),
+        ownerId: unit.ownerId,
+        unitTypeId: unit.typeId,
+        maxHealth: unit.maxHealth,
+        damageDealt: unit.damageDealt,
+        kills: unit.kills,
+        structuresDestroyed: unit.structuresDestroyed,
+        deployed: true,
+        survived: unit.state !== UnitState.DEAD,
+        retreated: hasRetreated,
+      });
+
+      if (hasRetreated) {
+        attackerRetreated[unit.typeId] = (attackerRetreated[unit.typeId] ?? 0) + 1;
+        continue;
+      }
+      if (unit.state !== UnitState.DEAD) continue;
+      const losses = unit.ownerId === this.config.attackerId ? attackerLosses : defenderLosses;
+      losses[unit.typeId] = (losses[unit.typeId] ?? 0) + 1;
+    }
+
+    // Veterans still in reserve sat the battle out
+    for (const group of this.reserves.values()) {
+      for (const veteran of group.veterans ?? []) {
+        unitRecords.push({
+          unitId: veteran.id,
+          veteranId: veteran.id,
+          ownerId: this.config.attackerId,
+          unitTypeId: group.unitTypeId,
+          maxHealth: calculateUnitStats(group.stats, veteran.veterancy).health,
+          damageDealt: 0,
+          kills: 0,
+          structuresDestroyed: 0,
+          deployed: false,
+          survived: true,
+          retreated: false,
+        });
+      }
+    }
+
+    return {
+      battleId: this.config.battleId,
+      winnerId,
+      reason,
+      attackerLosses,
+      attackerRetreated,
+      defenderLosses,
+      attackerConsumablesUsed: this.getConsumablesUsed(
+        this.config.attackerId,
+        this.config.attackerConsumables
+      ),
+      defenderConsumablesUsed: this.getConsumablesUsed(
+        this.config.defenderId,
+        this.config.defenderConsumables
+      ),
+      duration: Math.round(this.elapsedMs / 1000),
+      finalHqHealth: this.simulator.getCoreHealth().health,
+      unitRecords,
+    };
+  }
+}
+
+/**
+ * Active effect types and stack counts for a unit's or building's client state
+ */
+function getEffectState(
+  effects: readonly ActiveEffect[]
+): Pick<CombatUnitState, 'effects' | 'effectStacks'> {
+  if (effects.length === 0) return {};
+  const effectStacks = getEffectStacks(effects);
+  return { effects: getEffectTypes(effects), ...(effectStacks && { effectStacks }) };
+}
+
+/**
+ * Merge a side's consumable stocks by item, copied so the config stays as loaded
+ */
+function stockConsumables(
+  stocks: CombatConsumableStock[] = []
+): Map<string, CombatConsumableStock> {
+  const byItem = new Map<string, CombatConsumableStock>();
+  for (const stock of stocks) {
+    const existing = byItem.get(stock.itemId);
+    if (existing) existing.count += stock.count;
+    else byItem.set(stock.itemId, { ...stock });
+  }
+  return byItem;
+}
+
+/**
+ * Check that an input from the network has the fields' expected types
+ * Positions must be whole tiles and ID lists can't repeat an ID
+ */
+function isWellFormedInput(input: CombatInput): boolean {
+  const fields = input as unknown as Partial<Record<string, unknown>> | null;
+  if (typeof fields !== 'object' || fields === null || typeof fields.type !== 'string') {
+    return false;
+  }
+
+  if (fields.position !== undefined) {
+    const { x, z } = (fields.position ?? {}) as Partial<Record<string, unknown>>;
+    if (!Number.isInteger(x) || !Number.isInteger(z)) return false;
+  }
+
+  for (const ids of [fields.unitIds, fields.buildingIds]) {
+    if (ids === undefined) continue;
+    if (!Array.isArray(ids) || !ids.every((id) => typeof id === 'string')) return false;
+    if (new Set(ids).size !== ids.length) return false;
+  }
+
+  return ['unitType', 'targetId', 'abilityId', 'itemId', 'priority'].every(
+    (key) => fields[key] === undefined || typeof fields[key] === 'string'
+  );
+}
+
+/**
+ * Total loaded count per consumable item
+ */
+function countConsumables(stocks: CombatConsumableStock[] = []): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const stock of stocks) {
+    counts[stock.itemId] = (counts[stock.itemId] ?? 0) + stock.count;
+  }
+  return counts;
+}
+
+/**
+ * Re-run a battle from its log
+ * Inputs are re-applied on the tick they were recorded, so the result
+ * matches the original battle exactly. onStep sees every step along the way.
+ * Returns null if the log has no setup
+ */
+export function replayCombat(
+  log: CombatLogEntry[],
+  onStep?: (step: CombatStepResult) => void
+): CombatResult | null {
+  const setup = log.find((entry) => entry.type === 'setup');
+  if (setup?.type !== 'setup') return null;
+
+  const runner = new CombatRunner(setup.config);
+  const inputs = log.filter((entry) => entry.type === 'input');
+  const maxTicks = Math.ceil(setup.config.durationMs / SIM_TICK_MS);
+
+  let next = 0;
+  for (let tick = 1; tick <= maxTicks; tick++) {
+    while (next < inputs.length && (inputs[next]?.tick ?? Infinity) <= tick) {
+      const entry = inputs[next++];
+      if (entry?.type === 'input') runner.queueInput(entry.playerId, entry.input);
+    }
+
+    const step = runner.step();
+    onStep?.(step);
+    if (step.result) return step.result;
+  }
+
+  return null;
+}
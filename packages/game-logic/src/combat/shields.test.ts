@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { COMBAT } from '@nova-fall/shared';
+import { drainShieldPools, isInShieldRange, regenerateShield } from './shields.js';
+
+describe('drainShieldPools', () => {
+  it('drains the fullest pool first and spills into the next', () => {
+    const pools = [
+      { id: 'small', shield: 20 },
+      { id: 'large', shield: 50 },
+    ];
+
+    expect(drainShieldPools(60, pools)).toEqual({
+      drained: [
+        { id: 'large', amount: 50 },
+        { id: 'small', amount: 10 },
+      ],
+      remaining: 0,
+    });
+  });
+
+  it('passes through whatever the pools cannot absorb', () => {
+    const pools = [
+      { id: 'empty', shield: 0 },
+      { id: 'weak', shield: 15 },
+    ];
+
+    expect(drainShieldPools(40, pools)).toEqual({
+      drained: [{ id: 'weak', amount: 15 }],
+      remaining: 25,
+    });
+  });
+});
+
+describe('isInShieldRange', () => {
+  const projector = { x: 10, z: 10, shieldRange: 4 };
+
+  it('covers targets within range', () => {
+    expect(isInShieldRange(projector, 13, 10)).toBe(true);
+    expect(isInShieldRange(projector, 15, 10)).toBe(false);
+  });
+
+  it('measures to the edge of larger targets', () => {
+    expect(isInShieldRange(projector, 14.5, 10, 2)).toBe(true);
+  });
+});
+
+describe('regenerateShield', () => {
+  it('waits for the regen delay after the last hit', () => {
+    expect(regenerateShield(10, 100, 0, COMBAT.SHIELD_REGEN_DELAY - 1, 1000)).toBe(10);
+  });
+
+  it('regenerates a fraction of max per second up to the cap', () => {
+    const now = COMBAT.SHIELD_REGEN_DELAY;
+
+    expect(regenerateShield(10, 100, 0, now, 1000)).toBe(10 + 100 * COMBAT.SHIELD_REGEN_RATE);
+    expect(regenerateShield(99, 100, 0, now, 1000)).toBe(100);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Shield projection
+ *
+ * Units and buildings with a shieldRange > 0 project their shield as a pool
+ * shared by every ally within range, themselves included. Damage to a covered
+ * target is reduced by armor, then drains the covering pools before the
+ * target's own shield and health.
+ *
+ * Overlapping projectors stack by these rules:
+ * - Pools never merge: each keeps its own capacity and regeneration
+ * - Damage drains the fullest covering pool first, spilling into the next
+ * - Stunned or destroyed projectors cover nothing until they recover
+ * - A pool regenerates once it has gone SHIELD_REGEN_DELAY without absorbing damage
+ */
+
+import { COMBAT } from '@nova-fall/shared';
+import { euclideanDistance } from './damage.js';
+
+/**
+ * A shield pool that can absorb damage
+ */
+export interface ShieldPool {
+  id: string;
+  shield: number;
+}
+
+/**
+ * How much each pool absorbed and what got through
+ */
+export interface ShieldDrainResult {
+  drained: { id: string; amount: number }[];
+  remaining: number;
+}
+
+/**
+ * Whether a projector at (x, z) covers a target
+ * Measured to the nearest edge of larger targets (the core)
+ */
+export function isInShieldRange(
+  projector: { x: number; z: number; shieldRange: number },
+  x: number,
+  z: number,
+  size = 1
+): boolean {
+  const distance = euclideanDistance(projector.x, projector.z, x, z) - (size - 1) / 2;
+  return distance <= projector.shieldRange;
+}
+
+/**
+ * Run damage through covering pools, fullest first
+ * Pools are not modified; apply the drained amounts to them
+ */
+export function drainShieldPools(damage: number, pools: ShieldPool[]): ShieldDrainResult {
+  const drained: ShieldDrainResult['drained'] = [];
+  let remaining = damage;
+
+  const ordered = pools.filter((p) => p.shield > 0).sort((a, b) => b.shield - a.shield);
+  for (const pool of ordered) {
+    if (remaining <= 0) break;
+    const amount = Math.min(pool.shield, remaining);
+    drained.push({ id: pool.id, amount });
+    remaining -= amount;
+  }
+
+  return { drained, remaining };
+}
+
+/**
+ * Shield after one step of regeneration
+ * Nothing is regained until the pool has gone SHIELD_REGEN_DELAY without a hit
+ */
+export function regenerateShield(
+  shield: number,
+  maxShield: number,
+  lastHitAt: number,
+  currentTime: number,
+  stepMs: number
+): number {
+  if (shield >= maxShield || currentTime - lastHitAt < COMBAT.SHIELD_REGEN_DELAY) {
+    return shield;
+  }
+  return Math.min(maxShield, shield + (maxShield * COMBAT.SHIELD_REGEN_RATE * stepMs) / 1000);
+}
@@ -2,22 +2,81 @@
  * Combat Simulator
  *
  * Processes combat simulation ticks for a battle.
+ * Runs on a fixed timestep with a seeded PRNG so the same inputs
+ * always produce the same outcome.
  * Handles:
- * - Unit movement using flow field
+ * - Unit movement using flow field (A* paths for manual move orders and retreats)
  * - Target acquisition
- * - Attack processing
+ * - Attack processing (instant hits and projectiles with splash)
  * - Core damage
+ * - Projected shield pools
+ * - Walls reopening paths when destroyed, hidden traps and recon
+ * - Abilities, consumables and status effects
  * - Death handling
  */
 
-import type { UnitStats } from '@nova-fall/shared';
-import { UnitState } from '@nova-fall/shared';
+import type {
+  AbilityDefinition,
+  AbilityEffect,
+  ArenaPosition,
+  BuildingCategory,
+  ConsumableDefinition,
+  TargetPriorityPreset,
+  UnitCategory,
+  UnitStats,
+} from '@nova-fall/shared';
+import { COMBAT, TileType, UnitState } from '@nova-fall/shared';
 import {
   applyDamage,
-  findNearestTarget,
+  calculateDamageAfterArmor,
+  euclideanDistance,
   isInRange,
   attackCooldownMs,
 } from './damage.js';
+import { CORE_X, CORE_Z, getSpawnTilesByEdge, type ArenaFootprint } from './arena.js';
+import {
+  buildFlowField,
+  getFlowDirection,
+  updateFlowField,
+  type FlowFieldData,
+} from './flowField.js';
+import { SeededRandom } from './random.js';
+import {
+  PROJECTILE_HIT_RADIUS,
+  calculateLeadPosition,
+  calculateSplashDamage,
+} from './projectiles.js';
+import {
+  canAffectCategory,
+  chooseAutoCastTarget,
+  type AbilityCastFailure,
+  type AbilityCastTarget,
+} from './abilities.js';
+import {
+  EFFECT_PULSE_MS,
+  STATUS_EFFECT_RULES,
+  canAct,
+  getPulseDamage,
+  getStatMultiplier,
+  hasEffect,
+  mergeEffect,
+  type ActiveEffect,
+} from './statusEffects.js';
+import { findPath, hasLineOfSight, smoothPath, toTile } from './pathfinding.js';
+import { drainShieldPools, isInShieldRange, regenerateShield } from './shields.js';
+import { canRevealTrap, getFootprintCenter, getFootprintTiles, isOnFootprint } from './traps.js';
+import { selectTarget, type TargetCandidate, type TargetSeeker } from './targeting.js';
+
+/**
+ * Simulation timestep in milliseconds (one tick)
+ */
+export const SIM_TICK_MS = 1000 / COMBAT.TICK_RATE;
+
+// Units count as having reached a move waypoint within this distance (tiles)
+const WAYPOINT_RADIUS = 0.05;
+
+// Nearest deploy edge tiles tried when looking for a retreat path
+const RETREAT_PATH_ATTEMPTS = 3;
 
 /**
  * Unit state in the simulation
@@ -35,10 +94,36 @@ export interface SimUnit {
   shield: number;
   maxShield: number;
   stats: UnitStats;
+  category: UnitCategory;
+  targetPriority: TargetPriorityPreset;
   state: UnitState;
   targetId: string | null;
+  orderTargetId: string | null; // Manual/commander attack order, overrides default AI
+  moveOrder: SimMoveOrder | null; // Manual move order, overrides default AI
+  retreating: boolean; // Move order leads off the field through the deploy edge
+  tileSize: number; // Footprint in tiles (pathfinding)
   lastAttackTime: number;
   rotation: number;
+  velocityX: number; // Tiles per second (0 when not moving)
+  velocityZ: number;
+  lastShieldHitTime: number; // When this unit's shield last absorbed damage (projected pool regen)
+  coveredBy: string[]; // Allied shield projectors covering this unit
+  abilities: AbilityDefinition[];
+  energy: number;
+  abilityCooldowns: Record<string, number>; // Ability ID -> time it's ready again (ms)
+  effects: ActiveEffect[];
+  veteranId: string | null; // Unit row this unit fights as, if it has one
+  damageDealt: number; // Combat record, for veterancy
+  kills: number;
+  structuresDestroyed: number;
+}
+
+/**
+ * Manual move order: an A* path to a destination
+ */
+export interface SimMoveOrder {
+  goal: ArenaPosition;
+  path: ArenaPosition[]; // Remaining waypoints, ending at the goal
 }
 
 /**
@@ -48,18 +133,32 @@ export interface SimBuilding {
   id: string;
   typeId: string;
   ownerId: string;
-  x: number;
+  x: number; // Footprint corner tile
   z: number;
+  width: number; // Footprint in tiles
+  height: number;
   health: number;
   maxHealth: number;
   shield: number;
   maxShield: number;
+  shieldRange: number; // 0 = personal shield, >0 = projects its shield over allies in range
   damage: number;
   armor: number;
   range: number;
   attackSpeed: number;
+  projectileSpeed: number; // Tiles per second (0 = instant hit)
+  splashRadius: number;
+  category: BuildingCategory;
+  targetPriority: TargetPriorityPreset;
+  hidden: boolean; // Trap the attacker hasn't revealed yet
   lastAttackTime: number;
   targetId: string | null;
+  lastShieldHitTime: number;
+  coveredBy: string[]; // Allied shield projectors covering this building
+  abilities: AbilityDefinition[];
+  energy: number;
+  abilityCooldowns: Record<string, number>; // Ability ID -> time it's ready again (ms)
+  effects: ActiveEffect[];
 }
 
 /**
@@ -70,40 +169,75 @@ export interface SimCore {
   maxHealth: number;
   shield: number;
   maxShield: number;
+  coveredBy: string[]; // Defender shield projectors covering the core
 }
 
 /**
- * Combat event types for logging/visualization
+ * Projectile in flight
  */
-export type CombatEvent =
-  | { type: 'attack'; attackerId: string; targetId: string; damage: number }
-  | { type: 'death'; unitId: string }
-  | { type: 'coreDamage'; damage: number; attackerId: string }
-  | { type: 'spawn'; unitId: string; x: number; z: number };
+export interface SimProjectile {
+  id: string;
+  sourceId: string;
+  ownerId: string;
+  targetId: string;
+  originX: number;
+  originZ: number;
+  x: number;
+  z: number;
+  targetX: number; // Impact point
+  targetZ: number;
+  speed: number; // Tiles per second
+  damage: number;
+  splashRadius: number;
+  firedAt: number; // Simulation time (ms)
+}
 
 /**
- * Direction lookup for flow field (matching FlowField.ts)
+ * Damage and delivery of a unit's or turret's attack
  */
-const DIRECTIONS = [
-  { dx: 0, dz: -1 }, // North
-  { dx: 1, dz: -1 }, // NE
-  { dx: 1, dz: 0 }, // East
-  { dx: 1, dz: 1 }, // SE
-  { dx: 0, dz: 1 }, // South
-  { dx: -1, dz: 1 }, // SW
-  { dx: -1, dz: 0 }, // West
-  { dx: -1, dz: -1 }, // NW
-];
+interface Weapon {
+  damage: number;
+  speed: number; // Projectile tiles per second (0 = instant hit)
+  splashRadius: number;
+}
 
 /**
- * Flow field data for pathfinding
+ * Anything that can cast abilities and carry status effects
  */
-export interface FlowFieldData {
-  width: number;
-  height: number;
-  distances: number[][];
-  directions: number[][];
-}
+type SimEntity = SimUnit | SimBuilding;
+
+/**
+ * Something a unit or turret can attack, with what it points to
+ */
+type SimTarget = TargetCandidate &
+  (
+    | { kind: 'unit'; unit: SimUnit }
+    | { kind: 'building'; building: SimBuilding }
+    | { kind: 'core' }
+  );
+
+/**
+ * Combat event types for logging/visualization
+ */
+export type CombatEvent =
+  | { type: 'attack'; attackerId: string; targetId: string; damage: number }
+  | { type: 'death'; unitId: string } // Unit or building destroyed
+  | { type: 'coreDamage'; damage: number; attackerId: string }
+  | { type: 'spawn'; unitId: string; x: number; z: number }
+  | { type: 'retreat'; unitId: string } // Unit left the field
+  | { type: 'trap'; trapId: string; unitId: string; x: number; z: number } // Unit set off a trap
+  | { type: 'reveal'; trapId: string; unitId: string } // Recon unit spotted a hidden trap
+  | { type: 'impact'; sourceId: string; x: number; z: number; radius: number } // Splash or shell landing
+  | { type: 'consumable'; ownerId: string; itemId: string; x: number; z: number; radius: number }
+  | {
+      type: 'ability';
+      casterId: string;
+      abilityId: string;
+      targetId: string | null;
+      x: number;
+      z: number;
+      radius: number;
+    };
 
 /**
  * Combat simulation state
@@ -113,49 +247,59 @@ export interface CombatSimState {
   attackerId: string;
   defenderId: string;
   units: Map<string, SimUnit>;
+  retreated: Map<string, SimUnit>; // Attacker units that left the field alive
   buildings: Map<string, SimBuilding>;
+  projectiles: Map<string, SimProjectile>;
   core: SimCore;
-  flowField: FlowFieldData;
+  layout: TileType[][]; // Footprints of destroyed buildings open up as the battle goes on
+  flowField: FlowFieldData; // Kept in step with the layout
+  seed: number;
+  tick: number;
   currentTime: number;
+  attackerReserve: number; // Undeployed attacker units
   events: CombatEvent[];
   isComplete: boolean;
   winnerId: string | null;
 }
 
-/**
- * Arena size constants (must match client)
- */
-const ARENA_SIZE = 60;
-const CORE_X = Math.floor(ARENA_SIZE / 2);
-const CORE_Z = Math.floor(ARENA_SIZE / 2);
-
 /**
  * Combat simulator class
  */
 export class CombatSimulator {
   private state: CombatSimState;
+  private rng: SeededRandom;
+  private nextProjectileId = 0;
 
   constructor(
     battleId: string,
     attackerId: string,
     defenderId: string,
-    flowField: FlowFieldData,
-    coreMaxHealth: number
+    layout: TileType[][],
+    coreMaxHealth: number,
+    seed: number
   ) {
+    this.rng = new SeededRandom(seed);
     this.state = {
       battleId,
       attackerId,
       defenderId,
       units: new Map(),
+      retreated: new Map(),
       buildings: new Map(),
+      projectiles: new Map(),
       core: {
         health: coreMaxHealth,
         maxHealth: coreMaxHealth,
         shield: 0,
         maxShield: 0,
+        coveredBy: [],
       },
-      flowField,
+      layout: layout.map((row) => [...row]),
+      flowField: buildFlowField(layout),
+      seed,
+      tick: 0,
       currentTime: 0,
+      attackerReserve: 0,
       events: [],
       isComplete: false,
       winnerId: null,
@@ -169,6 +313,14 @@ export class CombatSimulator {
     return this.state;
   }
 
+  /**
+   * Next random number in [0, 1) from the battle's seeded generator
+   * Simulation code must use this instead of Math.random
+   */
+  random(): number {
+    return this.rng.next();
+  }
+
   /**
    * Add a unit to the simulation
    */
@@ -182,6 +334,181 @@ export class CombatSimulator {
     });
   }
 
+  /**
+   * Set how many attacker units are still waiting to deploy
+   * The attacker isn't eliminated while any remain in reserve
+   */
+  setAttackerReserve(count: number): void {
+    this.state.attackerReserve = Math.max(0, count);
+  }
+
+  /**
+   * Order a unit to chase and attack an enemy unit
+   * The order clears (and default AI resumes) once the target dies
+   */
+  orderAttack(unitId: string, targetId: string): boolean {
+    const unit = this.state.units.get(unitId);
+    const target = this.state.units.get(targetId);
+    if (!unit || !target || unit.state === UnitState.DEAD || target.state === UnitState.DEAD) {
+      return false;
+    }
+    if (unit.ownerId === target.ownerId || hasEffect(target.effects, 'stealth')) return false;
+
+    unit.orderTargetId = targetId;
+    unit.moveOrder = null;
+    unit.retreating = false;
+    return true;
+  }
+
+  /**
+   * Order a unit to move to a tile along an A* path
+   * Returns false if the unit can't get there
+   */
+  orderMove(unitId: string, goal: ArenaPosition): boolean {
+    const unit = this.state.units.get(unitId);
+    if (!unit || unit.state === UnitState.DEAD) return false;
+
+    const path = this.findMovePath(unit, goal);
+    if (!path) return false;
+
+    unit.moveOrder = { goal: { x: goal.x, z: goal.z }, path };
+    unit.orderTargetId = null;
+    unit.retreating = false;
+    return true;
+  }
+
+  /**
+   * Order an attacker unit back to the nearest reachable deploy edge tile,
+   * where it leaves the field. Retreating units don't stop to fight
+   * Returns false if the unit can't get there
+   */
+  orderRetreat(unitId: string): boolean {
+    const unit = this.state.units.get(unitId);
+    if (!unit || unit.state === UnitState.DEAD || unit.ownerId !== this.state.attackerId) {
+      return false;
+    }
+
+    const order = this.findRetreatOrder(unit);
+    if (!order) return false;
+
+    unit.moveOrder = order;
+    unit.orderTargetId = null;
+    unit.retreating = true;
+    return true;
+  }
+
+  /**
+   * Change the target priority preset of a unit or building
+   */
+  setTargetPriority(id: string, priority: TargetPriorityPreset): boolean {
+    const entity = this.state.units.get(id) ?? this.state.buildings.get(id);
+    if (!entity) return false;
+
+    entity.targetPriority = priority;
+    return true;
+  }
+
+  /**
+   * Cast one of a unit's or building's abilities
+   * Returns why the cast failed, or null if it went off
+   */
+  castAbility(
+    casterId: string,
+    abilityId: string,
+    target: AbilityCastTarget = {}
+  ): AbilityCastFailure | null {
+    const caster = this.getLiveEntity(casterId);
+    if (!caster) return 'INVALID_CASTER';
+
+    const ability = caster.abilities.find((a) => a.id === abilityId);
+    if (!ability) return 'UNKNOWN_ABILITY';
+
+    if (!canAct(caster.effects, 'cast')) return 'CASTER_DISABLED';
+    if ('stats' in caster && caster.state === UnitState.SPAWNING) return 'CASTER_DISABLED';
+    if ((caster.abilityCooldowns[ability.id] ?? 0) > this.state.currentTime) return 'ON_COOLDOWN';
+    if (caster.energy < ability.energyCost) return 'NOT_ENOUGH_ENERGY';
+
+    let center: { x: number; z: number } = caster;
+    let targetId: string | null = null;
+    let affected: SimEntity[];
+
+    switch (ability.targeting) {
+      case 'self':
+        affected = [caster];
+        break;
+      case 'unit': {
+        const entity = target.targetId ? this.getLiveEntity(target.targetId) : undefined;
+        if (!entity || !this.canAffect(caster.ownerId, ability, entity)) return 'INVALID_TARGET';
+        if (!isInRange(caster.x, caster.z, entity.x, entity.z, ability.range)) {
+          return 'OUT_OF_RANGE';
+        }
+        center = entity;
+        targetId = entity.id;
+        affected = [entity];
+        break;
+      }
+      case 'point':
+        if (!target.position) return 'INVALID_TARGET';
+        if (!isInRange(caster.x, caster.z, target.position.x, target.position.z, ability.range)) {
+          return 'OUT_OF_RANGE';
+        }
+        center = target.position;
+        affected = this.getEntitiesInRadius(center, ability.radius).filter((e) =>
+          this.canAffect(caster.ownerId, ability, e)
+        );
+        break;
+      case 'area':
+        affected = this.getEntitiesInRadius(center, ability.radius).filter((e) =>
+          this.canAffect(caster.ownerId, ability, e)
+        );
+        break;
+    }
+
+    caster.energy -= ability.energyCost;
+    caster.abilityCooldowns[ability.id] = this.state.currentTime + ability.cooldown * 1000;
+
+    for (const entity of affected) {
+      for (const effect of ability.effects) {
+        this.applyEffect(entity, effect, caster.id);
+      }
+    }
+
+    this.state.events.push({
+      type: 'ability',
+      casterId: caster.id,
+      abilityId: ability.id,
+      targetId,
+      x: center.x,
+      z: center.z,
+      radius: ability.targeting === 'point' || ability.targeting === 'area' ? ability.radius : 0,
+    });
+    return null;
+  }
+
+  /**
+   * Drop a consumable on the arena, applying its effects to everything it can
+   * affect in the radius. Stock and cooldowns are tracked by the runner
+   */
+  useConsumable(ownerId: string, consumable: ConsumableDefinition, position: ArenaPosition): void {
+    const affected = this.getEntitiesInRadius(position, consumable.radius).filter((e) =>
+      this.canAffect(ownerId, consumable, e)
+    );
+    for (const entity of affected) {
+      for (const effect of consumable.effects) {
+        this.applyEffect(entity, effect, consumable.id);
+      }
+    }
+
+    this.state.events.push({
+      type: 'consumable',
+      ownerId,
+      itemId: consumable.id,
+      x: position.x,
+      z: position.z,
+      radius: consumable.radius,
+    });
+  }
+
   /**
    * Add a building to the simulation
    */
@@ -190,17 +517,30 @@ export class CombatSimulator {
   }
 
   /**
-   * Process a single simulation tick
-   * @param deltaMs Time since last tick in milliseconds
+   * Advance the simulation by one fixed step (SIM_TICK_MS)
+   * Callers running in real time should accumulate elapsed time and call
+   * this once per step rather than passing variable deltas
    */
-  tick(deltaMs: number): CombatEvent[] {
+  tick(): CombatEvent[] {
     if (this.state.isComplete) return [];
 
-    this.state.currentTime += deltaMs;
+    this.state.tick++;
+    this.state.currentTime = this.state.tick * SIM_TICK_MS;
     this.state.events = [];
 
+    // Tick status effects and energy, then let units and buildings auto-cast
+    this.processEffects();
+    this.processShieldProjection();
+    this.processAutoCasts();
+
+    // Move projectiles fired on earlier ticks, applying any that land
+    this.processProjectiles();
+
     // Process attacker units (move toward core, attack defenders/core)
-    this.processAttackerUnits(deltaMs);
+    this.processAttackerUnits();
+
+    // Reveal traps near recon units, then set off any an attacker stepped on
+    this.processTraps();
 
     // Process defender units (attack attackers)
     this.processDefenderUnits();
@@ -217,39 +557,31 @@ export class CombatSimulator {
   /**
    * Process attacker units - they move toward the core
    */
-  private processAttackerUnits(deltaMs: number): void {
+  private processAttackerUnits(): void {
     const attackerUnits = Array.from(this.state.units.values()).filter(
       u => u.ownerId === this.state.attackerId && u.state !== UnitState.DEAD
     );
 
-    const defenderUnits = Array.from(this.state.units.values()).filter(
-      u => u.ownerId === this.state.defenderId && u.state !== UnitState.DEAD
-    );
-
     for (const unit of attackerUnits) {
-      // Skip spawning units
-      if (unit.state === UnitState.SPAWNING) continue;
-
-      // Find nearby defender to attack
-      const targetIdx = findNearestTarget(
-        unit.x,
-        unit.z,
-        defenderUnits.map(u => ({ x: u.x, z: u.z })),
-        unit.stats.range
-      );
+      // Velocity is set again if the unit moves this tick
+      unit.velocityX = 0;
+      unit.velocityZ = 0;
 
-      if (targetIdx >= 0) {
-        // Attack defender
-        const target = defenderUnits[targetIdx];
-        if (target) {
-          this.processUnitAttack(unit, target);
-        }
-      } else if (this.isAtCore(unit.x, unit.z, unit.stats.range)) {
-        // Attack core
-        this.processCoreDamage(unit);
+      // Skip spawning units and units held in place (stunned)
+      if (unit.state === UnitState.SPAWNING || this.isHeld(unit)) continue;
+      if (this.processMoveOrder(unit) || this.processAttackOrder(unit)) continue;
+
+      // Attack the highest priority defender, building or the core in range
+      // (units that can't attack keep heading for the core)
+      const target = canAct(unit.effects, 'attack')
+        ? selectTarget(this.unitSeeker(unit), this.getDefenderTargets())
+        : null;
+
+      if (target) {
+        this.attackTarget(unit, target);
       } else {
         // Move toward core using flow field
-        this.moveUnitWithFlowField(unit, deltaMs);
+        this.moveUnitWithFlowField(unit);
       }
     }
   }
@@ -262,195 +594,846 @@ export class CombatSimulator {
       u => u.ownerId === this.state.defenderId && u.state !== UnitState.DEAD
     );
 
-    const attackerUnits = Array.from(this.state.units.values()).filter(
-      u => u.ownerId === this.state.attackerId && u.state !== UnitState.DEAD
-    );
-
     for (const unit of defenderUnits) {
-      if (unit.state === UnitState.SPAWNING) continue;
-
-      // Find nearby attacker to attack
-      const targetIdx = findNearestTarget(
-        unit.x,
-        unit.z,
-        attackerUnits.map(u => ({ x: u.x, z: u.z })),
-        unit.stats.range
-      );
+      unit.velocityX = 0;
+      unit.velocityZ = 0;
+      if (unit.state === UnitState.SPAWNING || this.isHeld(unit)) continue;
+      if (this.processMoveOrder(unit) || this.processAttackOrder(unit)) continue;
 
-      if (targetIdx >= 0) {
-        const target = attackerUnits[targetIdx];
-        if (target) {
-          this.processUnitAttack(unit, target);
-        }
+      // Attack the highest priority attacker in range
+      const target = canAct(unit.effects, 'attack')
+        ? selectTarget(this.unitSeeker(unit), this.getAttackerTargets())
+        : null;
+      if (target) {
+        this.attackTarget(unit, target);
       }
       // Defenders don't move toward enemies for now (they hold position)
     }
   }
 
+  /**
+   * Walk a unit along its move order path (units under a move order don't stop to fight)
+   * Returns false when the unit has no live order (default AI runs instead)
+   */
+  private processMoveOrder(unit: SimUnit): boolean {
+    const order = unit.moveOrder;
+    if (!order) return false;
+
+    // Skip waypoints already reached
+    let waypoint = order.path[0];
+    while (
+      waypoint &&
+      euclideanDistance(unit.x, unit.z, waypoint.x, waypoint.z) < WAYPOINT_RADIUS
+    ) {
+      order.path.shift();
+      waypoint = order.path[0];
+    }
+
+    if (!waypoint) {
+      // Destination reached - AI takes over next tick
+      unit.moveOrder = null;
+      unit.state = UnitState.IDLE;
+      if (unit.retreating) this.removeRetreatedUnit(unit);
+      return true;
+    }
+
+    // Something now stands in the way - find another route or give up on the order
+    if (!hasLineOfSight(this.state.layout, unit, waypoint, { tileSize: unit.tileSize })) {
+      let path = this.findMovePath(unit, order.goal);
+      const retreat = !path && unit.retreating ? this.findRetreatOrder(unit) : null;
+      if (retreat) {
+        // The way to this edge tile was cut off - head for another
+        order.goal = retreat.goal;
+        path = retreat.path;
+      }
+      waypoint = path?.[0];
+      if (!path || !waypoint) {
+        unit.moveOrder = null;
+        unit.retreating = false;
+        unit.state = UnitState.IDLE;
+        return false;
+      }
+      order.path = path;
+    }
+
+    this.moveUnitToward(unit, waypoint.x, waypoint.z);
+    return true;
+  }
+
+  /**
+   * Smoothed A* waypoints from a unit's tile to a goal tile
+   */
+  private findMovePath(unit: SimUnit, goal: ArenaPosition): ArenaPosition[] | null {
+    const options = { tileSize: unit.tileSize };
+    const path = findPath(this.state.layout, toTile(unit.x, unit.z), goal, options);
+    if (!path) return null;
+
+    // The unit is already on the first tile
+    const waypoints = smoothPath(this.state.layout, path, options);
+    return waypoints.length > 1 ? waypoints.slice(1) : waypoints;
+  }
+
+  /**
+   * Move order to the closest deploy edge tile the unit has a path to
+   */
+  private findRetreatOrder(unit: SimUnit): SimMoveOrder | null {
+    const candidates = getSpawnTilesByEdge(this.state.layout)
+      .flat()
+      .map((tile) => ({ tile, distance: euclideanDistance(unit.x, unit.z, tile.x, tile.z) }))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, RETREAT_PATH_ATTEMPTS);
+
+    for (const { tile } of candidates) {
+      const path = this.findMovePath(unit, tile);
+      if (path) return { goal: tile, path };
+    }
+    return null;
+  }
+
+  /**
+   * Take a unit that reached the deploy edge off the field
+   */
+  private removeRetreatedUnit(unit: SimUnit): void {
+    unit.retreating = false;
+    unit.velocityX = 0;
+    unit.velocityZ = 0;
+    this.state.units.delete(unit.id);
+    this.state.retreated.set(unit.id, unit);
+    this.state.events.push({ type: 'retreat', unitId: unit.id });
+  }
+
+  /**
+   * Carry out a unit's attack order: close in on the target, then attack it
+   * Returns false when the unit has no live order (default AI runs instead)
+   */
+  private processAttackOrder(unit: SimUnit): boolean {
+    if (!unit.orderTargetId) return false;
+
+    const target = this.state.units.get(unit.orderTargetId);
+    if (!target || target.state === UnitState.DEAD || hasEffect(target.effects, 'stealth')) {
+      // Order complete (or target lost) - revert to AI
+      unit.orderTargetId = null;
+      unit.state = UnitState.IDLE;
+      return false;
+    }
+
+    if (isInRange(unit.x, unit.z, target.x, target.z, unit.stats.range)) {
+      this.attackTarget(unit, this.unitTarget(target));
+    } else {
+      this.moveUnitToward(unit, target.x, target.z);
+    }
+    return true;
+  }
+
   /**
    * Process turret attacks
    */
   private processTurrets(): void {
-    const attackerUnits = Array.from(this.state.units.values()).filter(
-      u => u.ownerId === this.state.attackerId && u.state !== UnitState.DEAD
-    );
-
     for (const turret of this.state.buildings.values()) {
-      // Only process turrets (buildings with attack capability)
-      if (turret.attackSpeed <= 0) continue;
-
-      // Find target
-      const targetIdx = findNearestTarget(
-        turret.x,
-        turret.z,
-        attackerUnits.map(u => ({ x: u.x, z: u.z })),
-        turret.range
+      // Only process live turrets (buildings with attack capability)
+      if (turret.attackSpeed <= 0 || turret.health <= 0 || turret.category === 'trap') continue;
+      if (!canAct(turret.effects, 'attack')) continue;
+
+      const target = selectTarget(
+        {
+          x: turret.x,
+          z: turret.z,
+          range: turret.range,
+          priority: turret.targetPriority,
+          isDefender: true,
+        },
+        this.getAttackerTargets()
       );
 
-      if (targetIdx >= 0) {
-        const target = attackerUnits[targetIdx];
-        if (target) {
-          this.processTurretAttack(turret, target);
+      if (target) {
+        this.processTurretAttack(turret, target);
+      }
+    }
+  }
+
+  /**
+   * Reveal hidden traps near attacker recon units, then set off every live
+   * trap an attacker unit is standing on (stunned or disabled traps hold fire like turrets)
+   */
+  private processTraps(): void {
+    const attackers = Array.from(this.state.units.values()).filter(
+      (u) => u.ownerId === this.state.attackerId
+    );
+
+    for (const trap of this.state.buildings.values()) {
+      if (trap.category !== 'trap' || trap.health <= 0) continue;
+      const footprint = this.buildingFootprint(trap);
+
+      if (trap.hidden) {
+        const spotter = attackers.find(
+          (u) =>
+            u.state !== UnitState.DEAD &&
+            canRevealTrap({ x: u.x, z: u.z, revealRadius: u.stats.revealRadius ?? 0 }, footprint)
+        );
+        if (spotter) {
+          trap.hidden = false;
+          this.state.events.push({ type: 'reveal', trapId: trap.id, unitId: spotter.id });
         }
       }
+
+      if (!canAct(trap.effects, 'attack')) continue;
+      const victim = attackers.find(
+        (u) => u.state !== UnitState.DEAD && isOnFootprint(footprint, u.x, u.z)
+      );
+      if (victim) this.triggerTrap(trap, victim);
     }
   }
 
   /**
-   * Process unit attacking another unit
+   * Set off a trap: it damages the unit that stepped on it (or everything
+   * in its splash radius) and is spent
    */
-  private processUnitAttack(attacker: SimUnit, target: SimUnit): void {
-    const cooldown = attackCooldownMs(attacker.stats.attackSpeed);
-    if (this.state.currentTime - attacker.lastAttackTime < cooldown) {
-      return;
+  private triggerTrap(trap: SimBuilding, unit: SimUnit): void {
+    const { x, z } = getFootprintCenter(this.buildingFootprint(trap));
+    trap.health = 0;
+    trap.shield = 0;
+    trap.hidden = false;
+    this.state.events.push({ type: 'trap', trapId: trap.id, unitId: unit.id, x, z });
+    this.state.events.push({ type: 'death', unitId: trap.id });
+
+    if (trap.splashRadius > 0) {
+      this.applySplash(trap.id, trap.ownerId, trap, x, z);
+    } else {
+      this.dealDamage(trap.id, this.unitTarget(unit), trap.damage);
     }
+  }
 
-    // Apply damage
-    const result = applyDamage(
-      attacker.stats.damage,
-      target.stats.armor,
-      target.shield,
-      target.health
-    );
+  /**
+   * Targeting parameters for a unit
+   */
+  private unitSeeker(unit: SimUnit): TargetSeeker {
+    return {
+      x: unit.x,
+      z: unit.z,
+      range: unit.stats.range,
+      priority: unit.targetPriority,
+      isDefender: unit.ownerId === this.state.defenderId,
+    };
+  }
 
-    target.shield = result.shieldRemaining;
-    target.health = result.healthRemaining;
-    attacker.lastAttackTime = this.state.currentTime;
-    attacker.state = UnitState.ATTACKING;
-    attacker.targetId = target.id;
+  /**
+   * Living, visible attacker units, as targets for defenders and turrets
+   */
+  private getAttackerTargets(): SimTarget[] {
+    const targets: SimTarget[] = [];
+    for (const unit of this.state.units.values()) {
+      if (unit.ownerId !== this.state.attackerId || !this.isTargetable(unit)) continue;
+      targets.push(this.unitTarget(unit));
+    }
+    return targets;
+  }
 
-    // Face the target
-    attacker.rotation = Math.atan2(target.x - attacker.x, target.z - attacker.z);
+  /**
+   * Living, visible defender units, standing buildings and the core, as targets for attackers
+   */
+  private getDefenderTargets(): SimTarget[] {
+    const targets: SimTarget[] = [];
+    for (const unit of this.state.units.values()) {
+      if (unit.ownerId !== this.state.defenderId || !this.isTargetable(unit)) continue;
+      targets.push(this.unitTarget(unit));
+    }
+    for (const building of this.state.buildings.values()) {
+      if (!this.isTargetable(building)) continue;
+      targets.push(this.buildingTarget(building));
+    }
+    targets.push(this.coreTarget());
+    return targets;
+  }
 
-    this.state.events.push({
-      type: 'attack',
-      attackerId: attacker.id,
-      targetId: target.id,
-      damage: result.healthDamage + result.shieldDamage,
-    });
+  /**
+   * Everything a splash fired by this player can damage (stealthed units included,
+   * hidden traps not)
+   */
+  private getSplashTargets(ownerId: string): SimTarget[] {
+    const targets: SimTarget[] = [];
+    for (const unit of this.state.units.values()) {
+      if (unit.ownerId === ownerId || unit.state === UnitState.DEAD) continue;
+      targets.push(this.unitTarget(unit));
+    }
+    for (const building of this.state.buildings.values()) {
+      if (building.ownerId === ownerId || building.health <= 0 || building.hidden) continue;
+      targets.push(this.buildingTarget(building));
+    }
+    if (ownerId === this.state.attackerId) {
+      targets.push(this.coreTarget());
+    }
+    return targets;
+  }
+
+  /**
+   * A live target by ID (projectiles re-check theirs when they land)
+   */
+  private getTargetById(id: string): SimTarget | undefined {
+    if (id === 'core') return this.coreTarget();
+
+    const unit = this.state.units.get(id);
+    if (unit) return unit.state !== UnitState.DEAD ? this.unitTarget(unit) : undefined;
+
+    const building = this.state.buildings.get(id);
+    return building && building.health > 0 ? this.buildingTarget(building) : undefined;
+  }
+
+  private buildingTarget(building: SimBuilding): SimTarget {
+    return {
+      kind: 'building',
+      building,
+      id: building.id,
+      x: building.x,
+      z: building.z,
+      size: 1,
+      health: building.health,
+      maxHealth: building.maxHealth,
+      category: building.category,
+      threat: building.damage * building.attackSpeed,
+    };
+  }
+
+  // Core occupies 2x2 tiles at center
+  private coreTarget(): SimTarget {
+    const { core } = this.state;
+    return {
+      kind: 'core',
+      id: 'core',
+      x: CORE_X + 0.5,
+      z: CORE_Z + 0.5,
+      size: 2,
+      health: core.health,
+      maxHealth: core.maxHealth,
+      category: 'hq',
+      threat: 0,
+    };
+  }
+
+  private unitTarget(unit: SimUnit): SimTarget {
+    return {
+      kind: 'unit',
+      unit,
+      id: unit.id,
+      x: unit.x,
+      z: unit.z,
+      size: 1,
+      health: unit.health,
+      maxHealth: unit.maxHealth,
+      category: unit.category,
+      threat: unit.stats.damage * unit.stats.attackSpeed,
+    };
+  }
+
+  /**
+   * Attack whatever kind of target was selected
+   */
+  private attackTarget(unit: SimUnit, target: SimTarget): void {
+    if (!canAct(unit.effects, 'attack')) return;
 
-    if (result.isDead) {
-      target.state = UnitState.DEAD;
-      this.state.events.push({ type: 'death', unitId: target.id });
+    const attackSpeed = unit.stats.attackSpeed * getStatMultiplier(unit.effects, 'attackSpeed');
+    const cooldown = attackCooldownMs(attackSpeed);
+    if (this.state.currentTime - unit.lastAttackTime < cooldown) {
+      return;
     }
+
+    unit.lastAttackTime = this.state.currentTime;
+    unit.state = UnitState.ATTACKING;
+    unit.targetId = target.id;
+    this.removeEffect(unit, 'stealth');
+
+    // Face the target
+    unit.rotation = Math.atan2(target.x - unit.x, target.z - unit.z);
+
+    this.fire(
+      unit,
+      {
+        damage: unit.stats.damage,
+        speed: unit.stats.projectileSpeed ?? 0,
+        splashRadius: unit.stats.splashRadius ?? 0,
+      },
+      target
+    );
   }
 
   /**
-   * Process turret attacking a unit
+   * Process turret attacking a target
    */
-  private processTurretAttack(turret: SimBuilding, target: SimUnit): void {
-    const cooldown = attackCooldownMs(turret.attackSpeed);
+  private processTurretAttack(turret: SimBuilding, target: SimTarget): void {
+    const attackSpeed = turret.attackSpeed * getStatMultiplier(turret.effects, 'attackSpeed');
+    const cooldown = attackCooldownMs(attackSpeed);
     if (this.state.currentTime - turret.lastAttackTime < cooldown) {
       return;
     }
 
-    const result = applyDamage(
-      turret.damage,
-      target.stats.armor,
-      target.shield,
-      target.health
+    turret.lastAttackTime = this.state.currentTime;
+    this.fire(
+      turret,
+      { damage: turret.damage, speed: turret.projectileSpeed, splashRadius: turret.splashRadius },
+      target
     );
+  }
 
-    target.shield = result.shieldRemaining;
-    target.health = result.healthRemaining;
-    turret.lastAttackTime = this.state.currentTime;
+  /**
+   * Fire a weapon: instant weapons hit straight away, others launch a projectile
+   * aimed where the target is expected to be when it lands
+   */
+  private fire(shooter: SimEntity, weapon: Weapon, target: SimTarget): void {
+    if (weapon.speed <= 0) {
+      if (weapon.splashRadius > 0) {
+        this.applySplash(shooter.id, shooter.ownerId, weapon, target.x, target.z);
+      } else {
+        this.dealDamage(shooter.id, target, weapon.damage);
+      }
+      return;
+    }
 
-    this.state.events.push({
-      type: 'attack',
-      attackerId: turret.id,
+    const aim =
+      target.kind === 'unit'
+        ? calculateLeadPosition(
+            shooter.x,
+            shooter.z,
+            target.unit,
+            weapon.speed,
+            this.random() * 2 - 1
+          )
+        : { x: target.x, z: target.z };
+
+    const id = `proj_${++this.nextProjectileId}`;
+    this.state.projectiles.set(id, {
+      id,
+      sourceId: shooter.id,
+      ownerId: shooter.ownerId,
       targetId: target.id,
-      damage: result.healthDamage + result.shieldDamage,
+      originX: shooter.x,
+      originZ: shooter.z,
+      x: shooter.x,
+      z: shooter.z,
+      targetX: aim.x,
+      targetZ: aim.z,
+      speed: weapon.speed,
+      damage: weapon.damage,
+      splashRadius: weapon.splashRadius,
+      firedAt: this.state.currentTime,
     });
+  }
+
+  /**
+   * Move projectiles toward their impact points and resolve the ones that arrive
+   * Shots without splash only hit if the target is still where they land
+   */
+  private processProjectiles(): void {
+    const step = SIM_TICK_MS / 1000;
+
+    for (const projectile of this.state.projectiles.values()) {
+      const remaining = euclideanDistance(
+        projectile.x,
+        projectile.z,
+        projectile.targetX,
+        projectile.targetZ
+      );
+      const travel = projectile.speed * step;
+
+      if (remaining > travel) {
+        projectile.x += ((projectile.targetX - projectile.x) / remaining) * travel;
+        projectile.z += ((projectile.targetZ - projectile.z) / remaining) * travel;
+        continue;
+      }
+
+      this.state.projectiles.delete(projectile.id);
+      const { targetX: x, targetZ: z } = projectile;
+
+      if (projectile.splashRadius > 0) {
+        this.applySplash(projectile.sourceId, projectile.ownerId, projectile, x, z);
+        continue;
+      }
+
+      const target = this.getTargetById(projectile.targetId);
+      const hitRadius = PROJECTILE_HIT_RADIUS + ((target?.size ?? 1) - 1) / 2;
+      if (target && euclideanDistance(x, z, target.x, target.z) <= hitRadius) {
+        this.dealDamage(projectile.sourceId, target, projectile.damage);
+      }
+    }
+  }
+
+  /**
+   * Damage every enemy of the shooter within the splash radius, falling off from the centre
+   */
+  private applySplash(
+    sourceId: string,
+    ownerId: string,
+    weapon: Pick<Weapon, 'damage' | 'splashRadius'>,
+    x: number,
+    z: number
+  ): void {
+    this.state.events.push({ type: 'impact', sourceId, x, z, radius: weapon.splashRadius });
+
+    for (const target of this.getSplashTargets(ownerId)) {
+      // Measure to the nearest edge of larger targets (the core)
+      const distance = Math.max(
+        0,
+        euclideanDistance(x, z, target.x, target.z) - (target.size - 1) / 2
+      );
+      const damage = calculateSplashDamage(weapon.damage, distance, weapon.splashRadius);
+      if (damage > 0) {
+        this.dealDamage(sourceId, target, damage);
+      }
+    }
+  }
+
+  /**
+   * Apply weapon damage (reduced by cover and armor) to a unit, building or the core
+   * Projected shields covering the target absorb it before the target's own shield
+   */
+  private dealDamage(sourceId: string, target: SimTarget, damage: number): void {
+    switch (target.kind) {
+      case 'unit': {
+        const { unit } = target;
+        // Units in cover shrug off part of every hit
+        const tile = toTile(unit.x, unit.z);
+        const inCover = this.state.layout[tile.x]?.[tile.z] === TileType.COVER;
+        const reduced = inCover ? Math.round(damage * (1 - COMBAT.COVER_DAMAGE_REDUCTION)) : damage;
+        this.damageEntity(unit, reduced, unit.stats.armor, sourceId);
+        break;
+      }
+
+      case 'building':
+        this.damageEntity(target.building, damage, target.building.armor, sourceId);
+        break;
+
+      case 'core': {
+        // Core has no armor for simplicity
+        const { core } = this.state;
+        const unabsorbed = this.absorbWithProjectedShields(core.coveredBy, damage);
+        const result = applyDamage(unabsorbed, 0, core.shield, core.health);
+        core.shield = result.shieldRemaining;
+        core.health = result.healthRemaining;
+
+        const dealt = damage - unabsorbed + result.healthDamage + result.shieldDamage;
+        this.creditAttacker(sourceId, dealt);
+        this.state.events.push({ type: 'coreDamage', damage: dealt, attackerId: sourceId });
+        break;
+      }
+    }
+  }
+
+  /**
+   * Regenerate energy, pulse damaging effects and expire finished effects
+   */
+  private processEffects(): void {
+    const now = this.state.currentTime;
+    const regen = (COMBAT.ENERGY_REGEN * SIM_TICK_MS) / 1000;
+
+    for (const entity of this.getLiveEntities()) {
+      if (entity.abilities.length > 0) {
+        entity.energy = Math.min(COMBAT.MAX_ENERGY, entity.energy + regen);
+      }
+
+      for (const effect of entity.effects) {
+        if (effect.nextPulseAt === null || effect.nextPulseAt > now) continue;
+        effect.nextPulseAt += EFFECT_PULSE_MS;
+        if (this.damageEntity(entity, getPulseDamage(effect), 0, effect.sourceId)) break;
+      }
 
-    if (result.isDead) {
-      target.state = UnitState.DEAD;
-      this.state.events.push({ type: 'death', unitId: target.id });
+      for (const effect of entity.effects.filter((e) => e.expiresAt <= now)) {
+        this.removeEffect(entity, effect.type);
+      }
+    }
+  }
+
+  /**
+   * Regenerate projected shield pools and work out who each projector covers
+   * A projector's own pool protects it as a personal shield, so it is not listed
+   * as covering itself
+   */
+  private processShieldProjection(): void {
+    const live = this.getLiveEntities();
+    const projectors: { entity: SimEntity; x: number; z: number; shieldRange: number }[] = [];
+
+    for (const entity of live) {
+      const shieldRange = 'stats' in entity ? entity.stats.shieldRange : entity.shieldRange;
+      if (shieldRange <= 0) continue;
+
+      entity.shield = regenerateShield(
+        entity.shield,
+        entity.maxShield,
+        entity.lastShieldHitTime,
+        this.state.currentTime,
+        SIM_TICK_MS
+      );
+      if (canAct(entity.effects, 'project')) {
+        projectors.push({ entity, x: entity.x, z: entity.z, shieldRange });
+      }
+    }
+
+    for (const entity of live) {
+      entity.coveredBy = projectors
+        .filter(
+          (p) =>
+            p.entity !== entity &&
+            p.entity.ownerId === entity.ownerId &&
+            isInShieldRange(p, entity.x, entity.z)
+        )
+        .map((p) => p.entity.id);
+    }
+
+    this.state.core.coveredBy = projectors
+      .filter(
+        (p) =>
+          p.entity.ownerId === this.state.defenderId &&
+          isInShieldRange(p, CORE_X + 0.5, CORE_Z + 0.5, 2)
+      )
+      .map((p) => p.entity.id);
+  }
+
+  /**
+   * Drain the projected shield pools covering a target, returning the damage that gets through
+   */
+  private absorbWithProjectedShields(coveredBy: string[], damage: number): number {
+    if (coveredBy.length === 0 || damage <= 0) return damage;
+
+    const projectors = new Map<string, SimEntity>();
+    for (const id of coveredBy) {
+      const projector = this.getLiveEntity(id);
+      if (projector) projectors.set(id, projector);
+    }
+
+    const { drained, remaining } = drainShieldPools(damage, Array.from(projectors.values()));
+    for (const { id, amount } of drained) {
+      const projector = projectors.get(id);
+      if (!projector) continue;
+      projector.shield -= amount;
+      projector.lastShieldHitTime = this.state.currentTime;
+    }
+    return remaining;
+  }
+
+  /**
+   * Cast every ready auto-cast ability that has something worth hitting
+   */
+  private processAutoCasts(): void {
+    const live = this.getLiveEntities();
+    const attackers = live.filter((e) => e.ownerId === this.state.attackerId);
+    const defenders = live.filter((e) => e.ownerId === this.state.defenderId);
+
+    for (const caster of live) {
+      if (caster.abilities.length === 0 || !canAct(caster.effects, 'cast')) continue;
+      if ('stats' in caster && caster.state === UnitState.SPAWNING) continue;
+
+      const isAttacker = caster.ownerId === this.state.attackerId;
+      const allies = isAttacker ? attackers : defenders;
+      const enemies = (isAttacker ? defenders : attackers).filter((e) => this.isTargetable(e));
+
+      for (const ability of caster.abilities) {
+        if (!ability.autoCast || caster.energy < ability.energyCost) continue;
+        if ((caster.abilityCooldowns[ability.id] ?? 0) > this.state.currentTime) continue;
+
+        const target = chooseAutoCastTarget(caster, ability, allies, enemies);
+        if (target) this.castAbility(caster.id, ability.id, target);
+      }
     }
   }
 
   /**
-   * Process unit damaging the core
+   * Apply one ability effect to a unit or building
+   * Reapplying an effect follows its stacking rule (see statusEffects.ts)
    */
-  private processCoreDamage(attacker: SimUnit): void {
-    const cooldown = attackCooldownMs(attacker.stats.attackSpeed);
-    if (this.state.currentTime - attacker.lastAttackTime < cooldown) {
+  private applyEffect(entity: SimEntity, effect: AbilityEffect, sourceId: string): void {
+    if (effect.type === 'heal') {
+      entity.health = Math.min(entity.maxHealth, entity.health + effect.value);
       return;
     }
 
-    // Core has no armor for simplicity
-    const result = applyDamage(
-      attacker.stats.damage,
-      0,
-      this.state.core.shield,
-      this.state.core.health
-    );
+    const now = this.state.currentTime;
+    const merged = mergeEffect(entity.effects.find((e) => e.type === effect.type), {
+      type: effect.type,
+      value: effect.value,
+      stacks: 1,
+      expiresAt: now + effect.duration * 1000,
+      nextPulseAt: STATUS_EFFECT_RULES[effect.type].pulse ? now + EFFECT_PULSE_MS : null,
+      sourceId,
+    });
+
+    this.removeEffect(entity, effect.type);
+    if (effect.type === 'shield_burst') {
+      entity.shield += effect.value;
+    }
+    entity.effects.push(merged);
+  }
 
-    this.state.core.shield = result.shieldRemaining;
-    this.state.core.health = result.healthRemaining;
-    attacker.lastAttackTime = this.state.currentTime;
-    attacker.state = UnitState.ATTACKING;
-    attacker.targetId = 'core';
+  /**
+   * Remove an effect type, dropping any shield it granted beyond the entity's own
+   */
+  private removeEffect(entity: SimEntity, type: ActiveEffect['type']): void {
+    if (!hasEffect(entity.effects, type)) return;
+
+    entity.effects = entity.effects.filter((e) => e.type !== type);
+    if (type === 'shield_burst') {
+      entity.shield = Math.min(entity.shield, entity.maxShield);
+    }
+  }
+
+  /**
+   * Damage a unit or building through armor, projected shields and its own shield,
+   * returning true if it was lethal (effects pass 0 armor)
+   */
+  private damageEntity(
+    entity: SimEntity,
+    damage: number,
+    armor: number,
+    sourceId: string
+  ): boolean {
+    const afterArmor = calculateDamageAfterArmor(damage, armor);
+    const unabsorbed = this.absorbWithProjectedShields(entity.coveredBy, afterArmor);
+    const result = applyDamage(unabsorbed, 0, entity.shield, entity.health);
+    entity.shield = result.shieldRemaining;
+    entity.health = result.healthRemaining;
+    if (result.shieldDamage > 0) entity.lastShieldHitTime = this.state.currentTime;
 
+    const dealt = afterArmor - unabsorbed + result.healthDamage + result.shieldDamage;
+    this.creditAttacker(sourceId, dealt, result.isDead ? entity : undefined);
     this.state.events.push({
-      type: 'coreDamage',
-      damage: result.healthDamage + result.shieldDamage,
-      attackerId: attacker.id,
+      type: 'attack',
+      attackerId: sourceId,
+      targetId: entity.id,
+      damage: dealt,
     });
+
+    if (!result.isDead) return false;
+
+    if ('stats' in entity) {
+      entity.state = UnitState.DEAD;
+    } else {
+      entity.targetId = null;
+      this.clearBuildingFootprint(entity);
+    }
+    this.state.events.push({ type: 'death', unitId: entity.id });
+    return true;
   }
 
   /**
-   * Check if a position is at the core (within attack range)
+   * Add damage dealt and anything destroyed to the attacking unit's combat record
    */
-  private isAtCore(x: number, z: number, range: number): boolean {
-    // Core occupies 2x2 tiles at center
-    return isInRange(x, z, CORE_X, CORE_Z, range) ||
-           isInRange(x, z, CORE_X + 1, CORE_Z, range) ||
-           isInRange(x, z, CORE_X, CORE_Z + 1, range) ||
-           isInRange(x, z, CORE_X + 1, CORE_Z + 1, range);
+  private creditAttacker(sourceId: string, damage: number, destroyed?: SimEntity): void {
+    // Shots still in flight count for units that have since retreated
+    const source = this.state.units.get(sourceId) ?? this.state.retreated.get(sourceId);
+    if (!source) return;
+
+    source.damageDealt += damage;
+    if (!destroyed) return;
+    if ('stats' in destroyed) source.kills++;
+    else source.structuresDestroyed++;
+  }
+
+  /**
+   * Let units path and flow through a destroyed building's footprint
+   * The flow field is patched from the reopened tiles, so attackers already
+   * on the field take a breached wall's shortcut straight away
+   */
+  private clearBuildingFootprint(building: SimBuilding): void {
+    const opened: ArenaPosition[] = [];
+    for (const tile of getFootprintTiles(this.buildingFootprint(building))) {
+      const row = this.state.layout[tile.x];
+      if (row?.[tile.z] !== TileType.BLOCKED) continue;
+      row[tile.z] = TileType.WALKABLE;
+      opened.push(tile);
+    }
+
+    if (opened.length > 0) {
+      this.state.flowField = updateFlowField(this.state.flowField, this.state.layout, opened);
+    }
+  }
+
+  private buildingFootprint(building: SimBuilding): ArenaFootprint {
+    return {
+      position: { x: building.x, z: building.z },
+      width: building.width,
+      height: building.height,
+    };
+  }
+
+  /**
+   * Check if an ability or consumable used by this player can land on an entity
+   */
+  private canAffect(
+    ownerId: string,
+    ability: Pick<AbilityDefinition, 'affects' | 'targetCategories'>,
+    entity: SimEntity
+  ): boolean {
+    const isAlly = entity.ownerId === ownerId;
+    if (ability.affects === 'allies' ? !isAlly : isAlly) return false;
+    if (!isAlly && !this.isTargetable(entity)) return false;
+    return canAffectCategory(ability, entity.category);
+  }
+
+  /**
+   * Living units and standing buildings, in a stable order
+   */
+  private getLiveEntities(): SimEntity[] {
+    const entities: SimEntity[] = [];
+    for (const unit of this.state.units.values()) {
+      if (unit.state !== UnitState.DEAD) entities.push(unit);
+    }
+    for (const building of this.state.buildings.values()) {
+      if (building.health > 0) entities.push(building);
+    }
+    return entities;
+  }
+
+  private getLiveEntity(id: string): SimEntity | undefined {
+    const unit = this.state.units.get(id);
+    if (unit) return unit.state !== UnitState.DEAD ? unit : undefined;
+    const building = this.state.buildings.get(id);
+    return building && building.health > 0 ? building : undefined;
+  }
+
+  private getEntitiesInRadius(center: { x: number; z: number }, radius: number): SimEntity[] {
+    return this.getLiveEntities().filter(
+      (e) => euclideanDistance(center.x, center.z, e.x, e.z) <= radius
+    );
+  }
+
+  /**
+   * Whether effects stop a unit from both moving and attacking
+   */
+  private isHeld(unit: SimUnit): boolean {
+    return !canAct(unit.effects, 'move') && !canAct(unit.effects, 'attack');
+  }
+
+  /**
+   * Alive, not stealthed and not a hidden trap
+   */
+  private isTargetable(entity: SimEntity): boolean {
+    if ('stats' in entity) {
+      if (entity.state === UnitState.DEAD) return false;
+    } else if (entity.hidden) {
+      return false;
+    }
+    return entity.health > 0 && !hasEffect(entity.effects, 'stealth');
   }
 
   /**
    * Move unit using flow field
    */
-  private moveUnitWithFlowField(unit: SimUnit, deltaMs: number): void {
+  private moveUnitWithFlowField(unit: SimUnit): void {
     const gridX = Math.floor(unit.x);
     const gridZ = Math.floor(unit.z);
 
     // Get direction from flow field
-    const dirIdx = this.state.flowField.directions[gridX]?.[gridZ];
-    if (dirIdx === undefined || dirIdx < 0) return;
-
-    const dir = DIRECTIONS[dirIdx];
+    const dir = getFlowDirection(this.state.flowField, gridX, gridZ);
     if (!dir) return;
 
     // Calculate movement
-    const speed = unit.stats.speed; // tiles per minute
+    if (!canAct(unit.effects, 'move')) return;
+
+    const speed = unit.stats.speed * getStatMultiplier(unit.effects, 'speed'); // tiles per minute
     const tilesPerMs = speed / 60000;
-    const moveDistance = tilesPerMs * deltaMs;
+    const moveDistance = tilesPerMs * SIM_TICK_MS;
 
     // Update position
     unit.x += dir.dx * moveDistance;
     unit.z += dir.dz * moveDistance;
+    unit.velocityX = (dir.dx * speed) / 60;
+    unit.velocityZ = (dir.dz * speed) / 60;
 
     // Set target position for client interpolation
     unit.targetX = unit.x;
@@ -461,6 +1444,28 @@ export class CombatSimulator {
     unit.state = UnitState.MOVING;
   }
 
+  /**
+   * Move unit in a straight line toward a position
+   */
+  private moveUnitToward(unit: SimUnit, x: number, z: number): void {
+    const distance = euclideanDistance(unit.x, unit.z, x, z);
+    if (distance === 0 || !canAct(unit.effects, 'move')) return;
+
+    const speed = unit.stats.speed * getStatMultiplier(unit.effects, 'speed');
+    const moveDistance = Math.min(distance, (speed / 60000) * SIM_TICK_MS);
+    const dx = (x - unit.x) / distance;
+    const dz = (z - unit.z) / distance;
+
+    unit.x += dx * moveDistance;
+    unit.z += dz * moveDistance;
+    unit.velocityX = (dx * moveDistance) / (SIM_TICK_MS / 1000);
+    unit.velocityZ = (dz * moveDistance) / (SIM_TICK_MS / 1000);
+    unit.targetX = unit.x;
+    unit.targetZ = unit.z;
+    unit.rotation = Math.atan2(dx, dz);
+    unit.state = UnitState.MOVING;
+  }
+
   /**
    * Check win conditions
    */
@@ -472,12 +1477,12 @@ export class CombatSimulator {
       return;
     }
 
-    // All attacker units dead = defender wins
+    // All attacker units dead or retreated (and none left to deploy) = defender wins
     const aliveAttackers = Array.from(this.state.units.values()).filter(
       u => u.ownerId === this.state.attackerId && u.state !== UnitState.DEAD
     );
 
-    if (aliveAttackers.length === 0) {
+    if (aliveAttackers.length === 0 && this.state.attackerReserve === 0) {
       this.state.isComplete = true;
       this.state.winnerId = this.state.defenderId;
     }
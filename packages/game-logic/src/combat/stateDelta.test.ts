@@ -0,0 +1,169 @@
+import { describe, it, expect } from 'vitest';
+import { CombatPhase, UnitState, type CombatState, type CombatUnitState } from '@nova-fall/shared';
+import { createConfig, createStats, createTurret } from '../test/fixtures.js';
+import { CombatRunner, type CombatRunnerConfig } from './runner.js';
+import {
+  CombatStateDecoder,
+  CombatStateEncoder,
+  applyCombatStateDelta,
+  diffCombatState,
+} from './stateDelta.js';
+
+// Test data helpers
+function createDeltaConfig(): CombatRunnerConfig {
+  return createConfig({
+    attackerUnits: [
+      { itemId: 'item-militia', unitTypeId: 'militia', count: 6, stats: createStats() },
+    ],
+    defenderUnits: [],
+    buildings: [createTurret({ attackSpeed: 1, projectileSpeed: 8 })],
+  });
+}
+
+/**
+ * States of a short battle, one per tick
+ */
+function recordStates(ticks: number): CombatState[] {
+  const config = createDeltaConfig();
+  const runner = new CombatRunner(config);
+  const states: CombatState[] = [];
+
+  for (let i = 0; i < ticks; i++) {
+    if (i % 5 === 0 && i < 30) {
+      runner.queueInput(config.attackerId, {
+        type: 'deploy',
+        unitType: 'militia',
+        position: { x: 0, z: 20 + i / 5 },
+        timestamp: i,
+      });
+    }
+    const { events, result } = runner.step();
+    states.push(runner.getState(events));
+    if (result) break;
+  }
+  return states;
+}
+
+function createUnit(overrides: Partial<CombatUnitState> = {}): CombatUnitState {
+  return {
+    id: 'unit-1',
+    unitTypeId: 'militia',
+    ownerId: 'attacker-1',
+    position: { x: 0, z: 10 },
+    rotation: 0,
+    health: 100,
+    maxHealth: 100,
+    shield: 0,
+    maxShield: 0,
+    state: UnitState.MOVING,
+    ...overrides,
+  };
+}
+
+function createState(units: CombatUnitState[], tick = 1): CombatState {
+  return {
+    battleId: 'battle-1',
+    tick,
+    timestamp: tick * 50,
+    phase: CombatPhase.BATTLE,
+    timeRemaining: 120,
+    hq: { health: 2000, maxHealth: 2000, damageState: 'healthy' },
+    units,
+    buildings: [],
+    projectiles: [],
+    effects: [],
+    events: [],
+  };
+}
+
+describe('diffCombatState', () => {
+  it('sends only the fields that changed, and cleared fields as null', () => {
+    const previous = createState([
+      createUnit({ targetId: 'turret-1' }),
+      createUnit({ id: 'unit-2' }),
+    ]);
+    const next = createState(
+      [createUnit({ position: { x: 1, z: 10 } }), createUnit({ id: 'unit-3' })],
+      2
+    );
+
+    const delta = diffCombatState(previous, next, 2);
+
+    expect(delta.units).toEqual({
+      added: [createUnit({ id: 'unit-3' })],
+      changed: [{ id: 'unit-1', position: { x: 1, z: 10 }, targetId: null }],
+      removed: ['unit-2'],
+    });
+    expect(delta).not.toHaveProperty('hq');
+    expect(delta).not.toHaveProperty('buildings');
+    expect(applyCombatStateDelta(previous, delta)).toEqual(next);
+  });
+});
+
+describe('CombatStateEncoder / CombatStateDecoder', () => {
+  it('rebuilds every state of a battle from keyframes and deltas', () => {
+    const states = recordStates(400);
+    const encoder = new CombatStateEncoder(100);
+    const decoder = new CombatStateDecoder();
+
+    const messages = states.map((state) => encoder.encode(state));
+    expect(messages.filter((m) => m.type === 'keyframe').map((m) => m.seq)).toEqual([
+      1, 101, 201, 301,
+    ]);
+
+    messages.forEach((message, i) => {
+      expect(decoder.apply(message)).toEqual({ status: 'applied', state: states[i] });
+    });
+  });
+
+  it('sends a keyframe when one is requested', () => {
+    const encoder = new CombatStateEncoder();
+    encoder.encode(createState([], 1));
+    expect(encoder.encode(createState([], 2)).type).toBe('delta');
+
+    encoder.requestKeyframe();
+    expect(encoder.encode(createState([], 3))).toMatchObject({ type: 'keyframe', seq: 3 });
+    expect(encoder.encode(createState([], 4)).type).toBe('delta');
+  });
+
+  it('gives a lost client a keyframe the rest of the stream follows on from', () => {
+    const encoder = new CombatStateEncoder();
+    const decoder = new CombatStateDecoder();
+    expect(encoder.getKeyframe()).toBeNull();
+
+    encoder.encode(createState([createUnit()], 1));
+    encoder.encode(createState([createUnit({ position: { x: 1, z: 10 } })], 2));
+    const keyframe = encoder.getKeyframe();
+    expect(keyframe).toMatchObject({ type: 'keyframe', seq: 2, state: { tick: 2 } });
+    if (!keyframe) throw new Error('Missing keyframe');
+
+    decoder.apply(keyframe);
+    const next = encoder.encode(createState([createUnit({ position: { x: 2, z: 10 } })], 3));
+    expect(next.type).toBe('delta');
+    expect(decoder.apply(next)).toMatchObject({ status: 'applied', state: { tick: 3 } });
+  });
+
+  it('drops its state on a gap and waits for the next keyframe', () => {
+    const encoder = new CombatStateEncoder();
+    const decoder = new CombatStateDecoder();
+    const [first, second, , fourth, fifth] = [1, 2, 3, 4, 5].map((tick) =>
+      encoder.encode(createState([createUnit({ position: { x: tick, z: 10 } })], tick))
+    );
+    if (!first || !second || !fourth || !fifth) throw new Error('Missing messages');
+
+    // Deltas before the first keyframe are dropped
+    expect(decoder.apply(second)).toEqual({ status: 'waiting' });
+
+    decoder.apply(first);
+    decoder.apply(second);
+    expect(decoder.apply(second)).toEqual({ status: 'stale' });
+
+    expect(decoder.apply(fourth)).toEqual({ status: 'gap' });
+    expect(decoder.current).toBeNull();
+    expect(decoder.apply(fifth)).toEqual({ status: 'waiting' });
+
+    encoder.requestKeyframe();
+    const keyframe = encoder.encode(createState([], 6));
+    expect(decoder.apply(keyframe)).toMatchObject({ status: 'applied', state: { tick: 6 } });
+  });
+});
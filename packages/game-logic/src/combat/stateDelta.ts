@@ -0,0 +1,283 @@
+/**
+ * Combat state streaming
+ *
+ * Instead of the full CombatState every tick, the battle room gets a keyframe
+ * every KEYFRAME_INTERVAL_TICKS and per-entity field diffs in between. Every
+ * message carries a sequence number; a client that misses one drops its state
+ * and asks for a fresh keyframe (REQUEST_STATE) rather than drifting.
+ */
+
+import {
+  COMBAT,
+  type CombatEntityDelta,
+  type CombatEntityPatch,
+  type CombatState,
+  type CombatStateDelta,
+  type CombatStateKeyframe,
+  type CombatStateMessage,
+} from '@nova-fall/shared';
+
+// Ticks between keyframes (5 seconds)
+export const KEYFRAME_INTERVAL_TICKS = 5 * COMBAT.TICK_RATE;
+
+interface Entity {
+  id: string;
+}
+
+/**
+ * Structural equality for plain state values (numbers, strings, positions, arrays)
+ */
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  const keys = Object.keys(aRecord);
+  if (keys.length !== Object.keys(bRecord).length) return false;
+  return keys.every((key) => sameValue(aRecord[key], bRecord[key]));
+}
+
+/**
+ * Fields of next that differ from previous, cleared fields as null
+ * Returns null if nothing changed
+ */
+function diffEntity<T extends Entity>(previous: T, next: T): CombatEntityPatch<T> | null {
+  const patch: Record<string, unknown> = {};
+  let changed = false;
+
+  const prevRecord = previous as Record<string, unknown>;
+  const nextRecord = next as Record<string, unknown>;
+  for (const key of new Set([...Object.keys(prevRecord), ...Object.keys(nextRecord)])) {
+    if (sameValue(prevRecord[key], nextRecord[key])) continue;
+    patch[key] = nextRecord[key] ?? null;
+    changed = true;
+  }
+
+  return changed ? ({ ...patch, id: next.id } as CombatEntityPatch<T>) : null;
+}
+
+/**
+ * Added, changed and removed entities between two lists
+ * Returns undefined if the lists are the same
+ */
+function diffEntities<T extends Entity>(
+  previous: T[],
+  next: T[]
+): CombatEntityDelta<T> | undefined {
+  const previousById = new Map(previous.map((e) => [e.id, e]));
+  const added: T[] = [];
+  const changed: CombatEntityPatch<T>[] = [];
+
+  for (const entity of next) {
+    const before = previousById.get(entity.id);
+    previousById.delete(entity.id);
+    if (!before) {
+      added.push(entity);
+      continue;
+    }
+    const patch = diffEntity(before, entity);
+    if (patch) changed.push(patch);
+  }
+  const removed = [...previousById.keys()];
+
+  if (added.length === 0 && changed.length === 0 && removed.length === 0) return undefined;
+  return {
+    ...(added.length > 0 && { added }),
+    ...(changed.length > 0 && { changed }),
+    ...(removed.length > 0 && { removed }),
+  };
+}
+
+function applyEntityDelta<T extends Entity>(entities: T[], delta?: CombatEntityDelta<T>): T[] {
+  if (!delta) return entities;
+
+  const removed = new Set(delta.removed);
+  const patches = new Map(delta.changed?.map((p) => [p.id, p]));
+  const result: T[] = [];
+
+  for (const entity of entities) {
+    if (removed.has(entity.id)) continue;
+    const patch = patches.get(entity.id);
+    if (!patch) {
+      result.push(entity);
+      continue;
+    }
+
+    const patched: Record<string, unknown> = { ...(entity as Record<string, unknown>) };
+    for (const [key, value] of Object.entries(patch)) {
+      if (value === null) {
+        // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
+        delete patched[key];
+      } else {
+        patched[key] = value;
+      }
+    }
+    result.push(patched as T);
+  }
+
+  return delta.added ? [...result, ...delta.added] : result;
+}
+
+/**
+ * Delta that turns previous into next
+ */
+export function diffCombatState(
+  previous: CombatState,
+  next: CombatState,
+  seq: number
+): CombatStateDelta {
+  const units = diffEntities(previous.units, next.units);
+  const buildings = diffEntities(previous.buildings, next.buildings);
+  const projectiles = diffEntities(previous.projectiles, next.projectiles);
+  const effects = diffEntities(previous.effects, next.effects);
+
+  return {
+    type: 'delta',
+    battleId: next.battleId,
+    seq,
+    tick: next.tick,
+    timestamp: next.timestamp,
+    timeRemaining: next.timeRemaining,
+    ...(next.phase !== previous.phase && { phase: next.phase }),
+    ...(!sameValue(previous.hq, next.hq) && { hq: next.hq }),
+    ...(units && { units }),
+    ...(buildings && { buildings }),
+    ...(projectiles && { projectiles }),
+    ...(effects && { effects }),
+    events: next.events,
+  };
+}
+
+/**
+ * State after a delta, without modifying the state it was applied to
+ */
+export function applyCombatStateDelta(state: CombatState, delta: CombatStateDelta): CombatState {
+  return {
+    battleId: state.battleId,
+    tick: delta.tick,
+    timestamp: delta.timestamp,
+    phase: delta.phase ?? state.phase,
+    timeRemaining: delta.timeRemaining,
+    hq: delta.hq ?? state.hq,
+    units: applyEntityDelta(state.units, delta.units),
+    buildings: applyEntityDelta(state.buildings, delta.buildings),
+    projectiles: applyEntityDelta(state.projectiles, delta.projectiles),
+    effects: applyEntityDelta(state.effects, delta.effects),
+    events: delta.events,
+  };
+}
+
+/**
+ * Server side of a battle's state stream
+ * Turns each tick's full state into the next message
+ */
+export class CombatStateEncoder {
+  private previous: CombatState | null = null;
+  private seq = 0;
+  private ticksSinceKeyframe = 0;
+  private keyframeRequested = false;
+
+  constructor(private readonly keyframeInterval = KEYFRAME_INTERVAL_TICKS) {}
+
+  encode(state: CombatState): CombatStateMessage {
+    this.seq++;
+    const previous = this.previous;
+    this.previous = state;
+
+    if (!previous || this.keyframeRequested || ++this.ticksSinceKeyframe >= this.keyframeInterval) {
+      this.keyframeRequested = false;
+      this.ticksSinceKeyframe = 0;
+      const keyframe: CombatStateKeyframe = {
+        type: 'keyframe',
+        battleId: state.battleId,
+        seq: this.seq,
+        state,
+      };
+      return keyframe;
+    }
+
+    return diffCombatState(previous, state, this.seq);
+  }
+
+  /**
+   * Send the next state as a keyframe (a client joined or lost its place)
+   */
+  requestKeyframe(): void {
+    this.keyframeRequested = true;
+  }
+
+  /**
+   * The last encoded state as a keyframe, for a single client that lost its place
+   * It carries the current sequence number, so the stream's next delta follows it
+   */
+  getKeyframe(): CombatStateKeyframe | null {
+    if (!this.previous) return null;
+    return {
+      type: 'keyframe',
+      battleId: this.previous.battleId,
+      seq: this.seq,
+      state: this.previous,
+    };
+  }
+}
+
+/**
+ * What happened to a message given to CombatStateDecoder.apply
+ * - applied: state is the battle as of this message
+ * - stale: older than the current state, ignored
+ * - gap: a message was missed, ask the server for a keyframe
+ * - waiting: a keyframe was already asked for, deltas are dropped until it arrives
+ */
+export type CombatStateDecodeResult =
+  | { status: 'applied'; state: CombatState }
+  | { status: 'stale' }
+  | { status: 'gap' }
+  | { status: 'waiting' };
+
+/**
+ * Client side of a battle's state stream
+ * Rebuilds full states from keyframes and deltas, enforcing message order.
+ * Starts out waiting for the keyframe the server sends when a player joins
+ */
+export class CombatStateDecoder {
+  private state: CombatState | null = null;
+  private seq = 0;
+  private awaitingKeyframe = true;
+
+  get current(): CombatState | null {
+    return this.state;
+  }
+
+  apply(message: CombatStateMessage): CombatStateDecodeResult {
+    // Keyframes are always taken - the sequence restarts if the battle's worker did
+    if (message.type === 'keyframe') {
+      this.state = message.state;
+      this.seq = message.seq;
+      this.awaitingKeyframe = false;
+      return { status: 'applied', state: this.state };
+    }
+
+    if (this.state && message.seq <= this.seq) return { status: 'stale' };
+    if (!this.state || message.seq !== this.seq + 1) {
+      this.state = null;
+      if (this.awaitingKeyframe) return { status: 'waiting' };
+      this.awaitingKeyframe = true;
+      return { status: 'gap' };
+    }
+
+    this.state = applyCombatStateDelta(this.state, message);
+    this.seq = message.seq;
+    return { status: 'applied', state: this.state };
+  }
+
+  /**
+   * Forget the current state and wait for a keyframe (joining another battle)
+   */
+  reset(): void {
+    this.state = null;
+    this.seq = 0;
+    this.awaitingKeyframe = true;
+  }
+}
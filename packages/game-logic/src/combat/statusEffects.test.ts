@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BURN_MAX_STACKS,
+  canAct,
+  getEffectStacks,
+  getPulseDamage,
+  getStatMultiplier,
+  mergeEffect,
+  type ActiveEffect,
+} from './statusEffects.js';
+
+function createEffect(overrides: Partial<ActiveEffect> = {}): ActiveEffect {
+  return {
+    type: 'speed_buff',
+    value: 1.5,
+    stacks: 1,
+    expiresAt: 1000,
+    nextPulseAt: null,
+    sourceId: 'unit-1',
+    ...overrides,
+  };
+}
+
+describe('canAct', () => {
+  it('blocks actions by effect type', () => {
+    const stunned = [createEffect({ type: 'stun', value: 0 })];
+    const disabled = [createEffect({ type: 'disable', value: 0 })];
+
+    expect(canAct(stunned, 'move')).toBe(false);
+    expect(canAct(stunned, 'attack')).toBe(false);
+    expect(canAct(disabled, 'move')).toBe(true);
+    expect(canAct(disabled, 'attack')).toBe(false);
+    expect(canAct(disabled, 'project')).toBe(false);
+    expect(canAct([createEffect()], 'cast')).toBe(true);
+  });
+});
+
+describe('getStatMultiplier', () => {
+  it('uses the strongest speed buff', () => {
+    const effects = [
+      createEffect({ value: 1.2 }),
+      createEffect({ value: 1.5 }),
+      createEffect({ type: 'stun', value: 0 }),
+    ];
+
+    expect(getStatMultiplier(effects, 'speed')).toBe(1.5);
+    expect(getStatMultiplier([], 'speed')).toBe(1);
+  });
+
+  it('combines the strongest buff with the strongest slow', () => {
+    const effects = [
+      createEffect({ value: 1.5 }),
+      createEffect({ type: 'slow', value: 0.8 }),
+      createEffect({ type: 'slow', value: 0.5 }),
+    ];
+
+    expect(getStatMultiplier(effects, 'speed')).toBe(0.75);
+    expect(getStatMultiplier(effects, 'attackSpeed')).toBe(0.5);
+  });
+});
+
+describe('mergeEffect', () => {
+  it('refreshes non-stacking effects', () => {
+    const current = createEffect({ type: 'stun', value: 0, expiresAt: 3000 });
+    const next = createEffect({ type: 'stun', value: 0, expiresAt: 2000 });
+
+    expect(mergeEffect(undefined, next)).toBe(next);
+    expect(mergeEffect(current, next)).toBe(next);
+  });
+
+  it('adds burn stacks up to the cap while keeping the pulse timing', () => {
+    let burn = createEffect({ type: 'burn', value: 4, expiresAt: 6000, nextPulseAt: 1000 });
+    for (let i = 0; i < BURN_MAX_STACKS + 2; i++) {
+      burn = mergeEffect(
+        burn,
+        createEffect({ type: 'burn', value: 4, expiresAt: 7000 + i, nextPulseAt: 1500 })
+      );
+    }
+
+    expect(burn.stacks).toBe(BURN_MAX_STACKS);
+    expect(burn.nextPulseAt).toBe(1000);
+    expect(burn.expiresAt).toBe(7000 + BURN_MAX_STACKS + 1);
+    expect(getPulseDamage(burn)).toBe(4 * BURN_MAX_STACKS);
+    expect(getEffectStacks([burn, createEffect()])).toEqual({ burn: BURN_MAX_STACKS });
+  });
+
+  it('keeps the strongest slow and the later expiry', () => {
+    const strong = createEffect({ type: 'slow', value: 0.5, expiresAt: 2000 });
+    const weak = createEffect({ type: 'slow', value: 0.8, expiresAt: 5000 });
+
+    expect(mergeEffect(strong, weak)).toEqual({ ...strong, expiresAt: 5000 });
+    expect(mergeEffect(weak, strong)).toEqual({ ...strong, expiresAt: 5000 });
+  });
+});
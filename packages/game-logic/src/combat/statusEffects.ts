@@ -0,0 +1,172 @@
+/**
+ * Status effects
+ *
+ * Rules for the effects abilities and consumables leave on units and
+ * buildings. Each effect type declares how reapplying it stacks, whether it
+ * pulses damage, which actions it blocks and which stats it scales. The
+ * simulator applies, ticks and expires effects; these helpers answer what
+ * they do.
+ *
+ * - stun: can't move, attack, cast or project shields
+ * - disable: can't attack, cast or project shields (still moves)
+ * - slow: scales movement and attack speed down (strongest slow applies)
+ * - speed_buff: scales movement speed up (strongest buff applies)
+ * - burn: damage every second per stack, stacking up to BURN_MAX_STACKS
+ * - damage_over_time: damage every second
+ * - shield_burst, stealth: handled directly by the simulator
+ */
+
+import type { StatusEffectType } from '@nova-fall/shared';
+
+/**
+ * Status effect currently applied to a unit or building
+ */
+export interface ActiveEffect {
+  type: StatusEffectType;
+  value: number; // Per stack for stacking effects
+  stacks: number;
+  expiresAt: number; // Simulation time (ms)
+  nextPulseAt: number | null; // Pulsing effects only
+  sourceId: string; // Caster
+}
+
+/**
+ * What reapplying an effect that is already active does
+ * - refresh: the new application replaces the old one
+ * - stack: adds a stack (up to maxStacks) and restarts the duration
+ * - strongest: keeps the stronger value and the later expiry
+ */
+export type EffectStacking = 'refresh' | 'stack' | 'strongest';
+
+/**
+ * Actions an effect can block
+ */
+export type EffectAction = 'move' | 'attack' | 'cast' | 'project';
+
+/**
+ * Stats an effect's value multiplies
+ */
+export type ModifiedStat = 'speed' | 'attackSpeed';
+
+export interface StatusEffectRule {
+  stacking: EffectStacking;
+  maxStacks: number;
+  pulse: boolean; // Deals value x stacks damage every second, ignoring armor
+  blocks: readonly EffectAction[];
+  modifies: readonly ModifiedStat[];
+}
+
+export const BURN_MAX_STACKS = 5;
+
+// Time between damage pulses (ms)
+export const EFFECT_PULSE_MS = 1000;
+
+export const STATUS_EFFECT_RULES: Record<StatusEffectType, StatusEffectRule> = {
+  stun: {
+    stacking: 'refresh',
+    maxStacks: 1,
+    pulse: false,
+    blocks: ['move', 'attack', 'cast', 'project'],
+    modifies: [],
+  },
+  disable: {
+    stacking: 'refresh',
+    maxStacks: 1,
+    pulse: false,
+    blocks: ['attack', 'cast', 'project'],
+    modifies: [],
+  },
+  slow: {
+    stacking: 'strongest',
+    maxStacks: 1,
+    pulse: false,
+    blocks: [],
+    modifies: ['speed', 'attackSpeed'],
+  },
+  speed_buff: { stacking: 'refresh', maxStacks: 1, pulse: false, blocks: [], modifies: ['speed'] },
+  burn: { stacking: 'stack', maxStacks: BURN_MAX_STACKS, pulse: true, blocks: [], modifies: [] },
+  damage_over_time: { stacking: 'refresh', maxStacks: 1, pulse: true, blocks: [], modifies: [] },
+  shield_burst: { stacking: 'refresh', maxStacks: 1, pulse: false, blocks: [], modifies: [] },
+  stealth: { stacking: 'refresh', maxStacks: 1, pulse: false, blocks: [], modifies: [] },
+};
+
+/**
+ * Check if an effect of the given type is active
+ */
+export function hasEffect(effects: readonly ActiveEffect[], type: StatusEffectType): boolean {
+  return effects.some((e) => e.type === type);
+}
+
+/**
+ * Check if no active effect blocks an action
+ */
+export function canAct(effects: readonly ActiveEffect[], action: EffectAction): boolean {
+  return !effects.some((e) => STATUS_EFFECT_RULES[e.type].blocks.includes(action));
+}
+
+/**
+ * Multiplier on a stat from active effects
+ * The strongest boost and the strongest reduction each apply once
+ */
+export function getStatMultiplier(effects: readonly ActiveEffect[], stat: ModifiedStat): number {
+  let boost = 1;
+  let reduction = 1;
+  for (const effect of effects) {
+    if (!STATUS_EFFECT_RULES[effect.type].modifies.includes(stat)) continue;
+    boost = Math.max(boost, effect.value);
+    reduction = Math.min(reduction, effect.value);
+  }
+  return boost * reduction;
+}
+
+/**
+ * Damage a pulsing effect deals each pulse
+ */
+export function getPulseDamage(effect: ActiveEffect): number {
+  return effect.value * effect.stacks;
+}
+
+/**
+ * The effect left after applying a new effect on top of one of the same type
+ */
+export function mergeEffect(current: ActiveEffect | undefined, next: ActiveEffect): ActiveEffect {
+  if (!current) return next;
+
+  const rule = STATUS_EFFECT_RULES[next.type];
+  switch (rule.stacking) {
+    case 'refresh':
+      return next;
+
+    case 'stack':
+      // Keep the pulse rhythm so reapplying doesn't delay the next tick
+      return {
+        ...next,
+        value: Math.max(current.value, next.value),
+        stacks: Math.min(rule.maxStacks, current.stacks + next.stacks),
+        nextPulseAt: current.nextPulseAt,
+      };
+
+    case 'strongest': {
+      const stronger = Math.abs(next.value - 1) >= Math.abs(current.value - 1) ? next : current;
+      return { ...stronger, expiresAt: Math.max(current.expiresAt, next.expiresAt) };
+    }
+  }
+}
+
+/**
+ * Distinct active effect types, for client state
+ */
+export function getEffectTypes(effects: readonly ActiveEffect[]): StatusEffectType[] {
+  return Array.from(new Set(effects.map((e) => e.type)));
+}
+
+/**
+ * Stack counts of effects with more than one stack, for client state
+ */
+export function getEffectStacks(
+  effects: readonly ActiveEffect[]
+): Partial<Record<StatusEffectType, number>> | null {
+  const stacked = effects.filter((e) => e.stacks > 1);
+  if (stacked.length === 0) return null;
+  return Object.fromEntries(stacked.map((e) => [e.type, e.stacks]));
+}
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { CORE_X, CORE_Z } from './arena.js';
+import {
+  calculateTargetPriority,
+  selectTarget,
+  type TargetCandidate,
+  type TargetSeeker,
+} from './targeting.js';
+
+// Test data helpers
+function createSeeker(overrides: Partial<TargetSeeker> = {}): TargetSeeker {
+  return { x: 10, z: 10, range: 5, priority: 'balanced', isDefender: false, ...overrides };
+}
+
+function createTarget(overrides: Partial<TargetCandidate> = {}): TargetCandidate {
+  return {
+    id: 'target-1',
+    x: 12,
+    z: 10,
+    size: 1,
+    health: 100,
+    maxHealth: 100,
+    category: 'infantry',
+    threat: 10,
+    ...overrides,
+  };
+}
+
+describe('calculateTargetPriority', () => {
+  it('scores closer targets higher', () => {
+    const seeker = createSeeker();
+
+    expect(calculateTargetPriority(seeker, createTarget({ x: 11 }))).toBeGreaterThan(
+      calculateTargetPriority(seeker, createTarget({ x: 14 }))
+    );
+  });
+
+  it('scores wounded targets higher', () => {
+    const seeker = createSeeker();
+
+    expect(calculateTargetPriority(seeker, createTarget({ health: 20 }))).toBeGreaterThan(
+      calculateTargetPriority(seeker, createTarget())
+    );
+  });
+
+  it('has defenders favour targets closer to the HQ', () => {
+    const seeker = createSeeker({ x: CORE_X, z: CORE_Z - 3, isDefender: true });
+    const nearHq = createTarget({ x: CORE_X, z: CORE_Z - 1 });
+    const awayFromHq = createTarget({ x: CORE_X, z: CORE_Z - 5 });
+
+    expect(calculateTargetPriority(seeker, nearHq)).toBeGreaterThan(
+      calculateTargetPriority(seeker, awayFromHq)
+    );
+  });
+});
+
+describe('selectTarget', () => {
+  const infantry = createTarget({ id: 'infantry', x: 11 });
+  const turret = createTarget({ id: 'turret', x: 13, category: 'turret', threat: 0 });
+  const tank = createTarget({ id: 'tank', x: 12, category: 'combat_vehicle' });
+
+  it('prefers units over turrets by default', () => {
+    expect(selectTarget(createSeeker(), [turret, infantry])?.id).toBe('infantry');
+  });
+
+  it('sends siege units after buildings', () => {
+    const siege = createSeeker({ priority: 'buildings' });
+
+    expect(selectTarget(siege, [infantry, tank, turret])?.id).toBe('turret');
+  });
+
+  it('sends anti-infantry turrets after infantry', () => {
+    const antiInfantry = createSeeker({ x: 16, priority: 'infantry', isDefender: true });
+
+    expect(selectTarget(antiInfantry, [tank, infantry])?.id).toBe('infantry');
+  });
+
+  it('ignores targets out of range', () => {
+    expect(selectTarget(createSeeker({ range: 1 }), [turret])).toBeNull();
+  });
+
+  it('reaches the HQ from any tile of its footprint', () => {
+    const hq = createTarget({ id: 'core', x: CORE_X + 0.5, z: CORE_Z + 0.5, size: 2 });
+    const seeker = createSeeker({ x: CORE_X + 2, z: CORE_Z, range: 1 });
+
+    expect(selectTarget(seeker, [hq])?.id).toBe('core');
+  });
+});
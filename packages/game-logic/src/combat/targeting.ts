@@ -0,0 +1,159 @@
+/**
+ * Target priority
+ *
+ * Scores potential targets for units and turrets (COMBAT-MODE-DESIGN 5.3.2).
+ * A score combines:
+ * - Category (HQ > units > turrets > walls by default)
+ * - Distance (closer = higher)
+ * - Remaining health (wounded = higher, to finish them off)
+ * - Threat (damage output, and for defenders how close the target is to the HQ)
+ *
+ * Presets reweight these terms so players can point units at what they
+ * counter, e.g. siege units at buildings and anti-infantry turrets at infantry.
+ */
+
+import type { TargetCategory, TargetPriorityPreset } from '@nova-fall/shared';
+import { ARENA_SIZE, CORE_X, CORE_Z } from './arena.js';
+import { euclideanDistance } from './damage.js';
+
+/**
+ * Something that can be attacked
+ */
+export interface TargetCandidate {
+  id: string;
+  x: number;
+  z: number;
+  size: number; // Footprint in tiles (the HQ is 2x2)
+  health: number;
+  maxHealth: number;
+  category: TargetCategory;
+  threat: number; // Damage per second the target deals
+}
+
+/**
+ * Unit or turret choosing a target
+ */
+export interface TargetSeeker {
+  x: number;
+  z: number;
+  range: number;
+  priority: TargetPriorityPreset;
+  isDefender: boolean;
+}
+
+/**
+ * How a preset weighs each part of the score
+ */
+export interface TargetPriorityWeights {
+  distance: number; // Subtracted per tile
+  health: number; // Added at 0% health, scaled by missing health
+  threat: number; // Added per point of target DPS
+  hqProximity: number; // Defenders only: added per tile the target is inside the arena radius
+  categories: Partial<Record<TargetCategory, number>>; // Added on top of the base score
+}
+
+// Base score by target category (COMBAT-MODE-DESIGN 5.3.2)
+export const BASE_TARGET_SCORES: Record<TargetCategory, number> = {
+  hq: 200,
+  infantry: 100,
+  combat_vehicle: 100,
+  support_vehicle: 100,
+  turret: 80,
+  structure: 50,
+  utility: 50,
+  wall: 30,
+  trap: 30,
+};
+
+// Big enough to outweigh every other term, so a preferred category always wins when in range
+const PREFERRED_CATEGORY_BONUS = 400;
+
+const BALANCED: TargetPriorityWeights = {
+  distance: 2,
+  health: 50,
+  threat: 1,
+  hqProximity: 3,
+  categories: {},
+};
+
+export const TARGET_PRIORITY_WEIGHTS: Record<TargetPriorityPreset, TargetPriorityWeights> = {
+  balanced: BALANCED,
+  closest: { ...BALANCED, distance: 1000, health: 0, threat: 0, hqProximity: 0 },
+  weakest: { ...BALANCED, health: 500 },
+  infantry: { ...BALANCED, categories: { infantry: PREFERRED_CATEGORY_BONUS } },
+  vehicles: {
+    ...BALANCED,
+    categories: {
+      combat_vehicle: PREFERRED_CATEGORY_BONUS,
+      support_vehicle: PREFERRED_CATEGORY_BONUS,
+    },
+  },
+  buildings: {
+    ...BALANCED,
+    categories: {
+      turret: PREFERRED_CATEGORY_BONUS,
+      wall: PREFERRED_CATEGORY_BONUS,
+      structure: PREFERRED_CATEGORY_BONUS,
+      utility: PREFERRED_CATEGORY_BONUS,
+      hq: PREFERRED_CATEGORY_BONUS,
+    },
+  },
+};
+
+/**
+ * Score a target for a seeker (higher = attack first)
+ */
+export function calculateTargetPriority(seeker: TargetSeeker, target: TargetCandidate): number {
+  const weights = TARGET_PRIORITY_WEIGHTS[seeker.priority];
+  let priority = BASE_TARGET_SCORES[target.category] + (weights.categories[target.category] ?? 0);
+
+  // Closer = higher priority
+  priority -= euclideanDistance(seeker.x, seeker.z, target.x, target.z) * weights.distance;
+
+  // Lower health = higher priority for finishing
+  const healthPercent = target.maxHealth > 0 ? target.health / target.maxHealth : 1;
+  priority += (1 - healthPercent) * weights.health;
+
+  priority += target.threat * weights.threat;
+
+  // Defenders go after whatever is closest to the HQ
+  if (seeker.isDefender) {
+    const distToHQ = euclideanDistance(target.x, target.z, CORE_X + 0.5, CORE_Z + 0.5);
+    priority += (ARENA_SIZE / 2 - distToHQ) * weights.hqProximity;
+  }
+
+  return priority;
+}
+
+/**
+ * Check if a target is within the seeker's attack range
+ * Uses Chebyshev distance to the nearest tile of the target's footprint
+ */
+export function isTargetInRange(seeker: TargetSeeker, target: TargetCandidate): boolean {
+  const reach = seeker.range + (target.size - 1) / 2;
+  return Math.max(Math.abs(target.x - seeker.x), Math.abs(target.z - seeker.z)) <= reach;
+}
+
+/**
+ * Pick the highest priority target in range, or null if none is
+ * Ties go to the lowest ID so the choice is deterministic
+ */
+export function selectTarget<T extends TargetCandidate>(
+  seeker: TargetSeeker,
+  candidates: readonly T[]
+): T | null {
+  let best: T | null = null;
+  let bestScore = -Infinity;
+
+  for (const candidate of candidates) {
+    if (!isTargetInRange(seeker, candidate)) continue;
+
+    const score = calculateTargetPriority(seeker, candidate);
+    if (score > bestScore || (score === bestScore && best && candidate.id < best.id)) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
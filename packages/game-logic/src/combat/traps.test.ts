@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { canRevealTrap, getFootprintTiles, isOnFootprint, isPassableCategory } from './traps.js';
+
+describe('isPassableCategory', () => {
+  it('only lets units walk over traps', () => {
+    expect(isPassableCategory('trap')).toBe(true);
+    expect(isPassableCategory('wall')).toBe(false);
+    expect(isPassableCategory('turret')).toBe(false);
+  });
+});
+
+describe('getFootprintTiles', () => {
+  it('lists every tile under a footprint', () => {
+    expect(getFootprintTiles({ position: { x: 4, z: 7 }, width: 2, height: 1 })).toEqual([
+      { x: 4, z: 7 },
+      { x: 5, z: 7 },
+    ]);
+  });
+});
+
+describe('isOnFootprint', () => {
+  const footprint = { position: { x: 10, z: 10 }, width: 2, height: 2 };
+
+  it('checks the tile a unit is standing on', () => {
+    expect(isOnFootprint(footprint, 11.3, 10.4)).toBe(true);
+    expect(isOnFootprint(footprint, 9.6, 10)).toBe(true);
+    expect(isOnFootprint(footprint, 9.4, 10)).toBe(false);
+    expect(isOnFootprint(footprint, 11, 12)).toBe(false);
+  });
+});
+
+describe('canRevealTrap', () => {
+  const trap = { position: { x: 10, z: 10 }, width: 3, height: 1 };
+
+  it('spots traps within the reveal radius of their nearest edge', () => {
+    expect(canRevealTrap({ x: 15, z: 10, revealRadius: 3 }, trap)).toBe(true);
+    expect(canRevealTrap({ x: 16, z: 10, revealRadius: 3 }, trap)).toBe(false);
+    expect(canRevealTrap({ x: 11, z: 13, revealRadius: 3 }, trap)).toBe(true);
+  });
+
+  it('never spots traps without a reveal radius', () => {
+    expect(canRevealTrap({ x: 10, z: 10, revealRadius: 0 }, trap)).toBe(false);
+  });
+});
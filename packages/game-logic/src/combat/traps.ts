@@ -0,0 +1,76 @@
+/**
+ * Walls and traps
+ *
+ * Defender buildings block the tiles under their footprint, so walls (and
+ * every other standing building) shape the attackers' flow field. Destroying
+ * one reopens its whole footprint mid-battle.
+ *
+ * Traps are the exception: attackers walk over them rather than around them.
+ * A trap is hidden from the attacker until a recon unit (revealRadius > 0)
+ * comes close enough to spot it, and goes off once when an attacker unit
+ * steps onto its footprint.
+ */
+
+import type { ArenaPosition } from '@nova-fall/shared';
+import type { ArenaFootprint } from './arena.js';
+import { euclideanDistance } from './damage.js';
+import { toTile } from './pathfinding.js';
+
+/**
+ * Whether buildings of a category stay off the pathing grid
+ */
+export function isPassableCategory(category: string): boolean {
+  return category === 'trap';
+}
+
+/**
+ * Tiles covered by a footprint
+ */
+export function getFootprintTiles(footprint: ArenaFootprint): ArenaPosition[] {
+  const tiles: ArenaPosition[] = [];
+  for (let dx = 0; dx < footprint.width; dx++) {
+    for (let dz = 0; dz < footprint.height; dz++) {
+      tiles.push({ x: footprint.position.x + dx, z: footprint.position.z + dz });
+    }
+  }
+  return tiles;
+}
+
+/**
+ * Centre of a footprint in tile coordinates
+ */
+export function getFootprintCenter(footprint: ArenaFootprint): { x: number; z: number } {
+  return {
+    x: footprint.position.x + (footprint.width - 1) / 2,
+    z: footprint.position.z + (footprint.height - 1) / 2,
+  };
+}
+
+/**
+ * Whether a unit at (x, z) is standing on a footprint
+ */
+export function isOnFootprint(footprint: ArenaFootprint, x: number, z: number): boolean {
+  const tile = toTile(x, z);
+  const { position, width, height } = footprint;
+  return (
+    tile.x >= position.x &&
+    tile.x < position.x + width &&
+    tile.z >= position.z &&
+    tile.z < position.z + height
+  );
+}
+
+/**
+ * Whether a recon unit at (x, z) spots a trap
+ * Measured to the nearest edge of the trap's footprint
+ */
+export function canRevealTrap(
+  revealer: { x: number; z: number; revealRadius: number },
+  trap: ArenaFootprint
+): boolean {
+  if (revealer.revealRadius <= 0) return false;
+  const center = getFootprintCenter(trap);
+  const dx = Math.max(0, Math.abs(revealer.x - center.x) - (trap.width - 1) / 2);
+  const dz = Math.max(0, Math.abs(revealer.z - center.z) - (trap.height - 1) / 2);
+  return euclideanDistance(0, 0, dx, dz) <= revealer.revealRadius;
+}
@@ -8,3 +8,6 @@ export * from './economy';
 
 // Combat calculations
 export * from './combat';
+
+// Balance lab (headless battle runs)
+export * from './balance';
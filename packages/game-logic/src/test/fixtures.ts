@@ -0,0 +1,103 @@
+/**
+ * Shared combat test fixtures
+ *
+ * A small battle (militia attacking a node held by guards and a turret) that
+ * runner, report, delta and forecast tests build on through overrides.
+ */
+
+import type { CombatResult, UnitStats } from '@nova-fall/shared';
+import { buildArenaLayout } from '../combat/arena.js';
+import {
+  CombatRunner,
+  type CombatBuildingConfig,
+  type CombatRunnerConfig,
+  type CombatStepResult,
+} from '../combat/runner.js';
+
+export function createStats(overrides: Partial<UnitStats> = {}): UnitStats {
+  return {
+    health: 100,
+    shield: 0,
+    shieldRange: 0,
+    damage: 10,
+    armor: 0,
+    speed: 600,
+    range: 2,
+    attackSpeed: 1,
+    ...overrides,
+  };
+}
+
+export function createTurret(overrides: Partial<CombatBuildingConfig> = {}): CombatBuildingConfig {
+  return {
+    id: 'turret-1',
+    buildingTypeId: 'turret',
+    position: { x: 25, z: 25 },
+    rotation: 0,
+    health: 500,
+    shield: 0,
+    armor: 2,
+    damage: 15,
+    range: 5,
+    attackSpeed: 0.5,
+    ...overrides,
+  };
+}
+
+export function createConfig(overrides: Partial<CombatRunnerConfig> = {}): CombatRunnerConfig {
+  return {
+    battleId: 'battle-1',
+    attackerId: 'attacker-1',
+    defenderId: 'defender-1',
+    nodeId: 'node-1',
+    nodeType: 'SETTLEMENT',
+    layout: buildArenaLayout([{ position: { x: 25, z: 25 }, width: 2, height: 2 }]),
+    hqMaxHealth: 2000,
+    durationMs: 120_000,
+    seed: 1234,
+    attackerUnits: [
+      { itemId: 'item-militia', unitTypeId: 'militia', count: 8, stats: createStats() },
+    ],
+    defenderUnits: [
+      {
+        itemId: 'item-guard',
+        unitTypeId: 'guard',
+        count: 4,
+        stats: createStats({ health: 150, speed: 0 }),
+      },
+    ],
+    buildings: [createTurret()],
+    ...overrides,
+  };
+}
+
+/**
+ * Deploy militia along the west edge a few ticks apart, then run to completion
+ * onStep sees every step, as a live session would
+ */
+export function runBattle(
+  config: CombatRunnerConfig,
+  onStep?: (step: CombatStepResult) => void
+): {
+  runner: CombatRunner;
+  result: CombatResult | null;
+} {
+  const runner = new CombatRunner(config);
+  let result: CombatResult | null = null;
+
+  for (let i = 0; !result && i < 10_000; i++) {
+    if (i % 5 === 0 && i < 40) {
+      runner.queueInput(config.attackerId, {
+        type: 'deploy',
+        unitType: 'militia',
+        position: { x: 0, z: 20 + i / 5 },
+        timestamp: i,
+      });
+    }
+    const step = runner.step();
+    onStep?.(step);
+    result = step.result;
+  }
+
+  return { runner, result };
+}
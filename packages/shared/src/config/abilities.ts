@@ -0,0 +1,277 @@
+/**
+ * Ability templates and validation
+ * Templates cover the GDD roster and are offered in the dev page editors as
+ * starting points; the copy stored on a definition can be freely tuned
+ */
+
+import type {
+  AbilityAffects,
+  AbilityDefinition,
+  AbilityEffectType,
+  AbilityTargeting,
+} from '../types/ability.js';
+import type { TargetCategory } from '../types/combat.js';
+
+export const ABILITY_TARGETINGS: readonly AbilityTargeting[] = ['self', 'unit', 'point', 'area'];
+
+export const ABILITY_AFFECTS: readonly AbilityAffects[] = ['allies', 'enemies'];
+
+export const ABILITY_EFFECT_TYPES: readonly AbilityEffectType[] = [
+  'heal',
+  'stun',
+  'shield_burst',
+  'damage_over_time',
+  'speed_buff',
+  'stealth',
+  'slow',
+  'burn',
+  'disable',
+];
+
+export const TARGET_CATEGORIES: readonly TargetCategory[] = [
+  'infantry',
+  'combat_vehicle',
+  'support_vehicle',
+  'turret',
+  'wall',
+  'structure',
+  'utility',
+  'trap',
+  'hq',
+];
+
+export const ABILITY_EFFECT_NAMES: Record<AbilityEffectType, string> = {
+  heal: 'Heal / Repair',
+  stun: 'Stun',
+  shield_burst: 'Shield Burst',
+  damage_over_time: 'Damage Over Time',
+  speed_buff: 'Speed Buff',
+  stealth: 'Stealth',
+  slow: 'Slow',
+  burn: 'Burn',
+  disable: 'Disable',
+};
+
+/**
+ * Ability templates keyed by ID
+ */
+export const ABILITY_TEMPLATES: Record<string, AbilityDefinition> = {
+  // Engineers - repair allied units and structures
+  repair: {
+    id: 'repair',
+    name: 'Field Repair',
+    description: 'Restores health to a damaged ally or structure.',
+    targeting: 'unit',
+    affects: 'allies',
+    range: 2,
+    radius: 0,
+    cooldown: 8,
+    energyCost: 20,
+    effects: [{ type: 'heal', value: 60, duration: 0 }],
+    autoCast: true,
+  },
+
+  // Engineers - disable a turret
+  sabotage: {
+    id: 'sabotage',
+    name: 'Sabotage',
+    description: 'Disables an enemy turret for a few seconds.',
+    targeting: 'unit',
+    affects: 'enemies',
+    range: 1,
+    radius: 0,
+    cooldown: 20,
+    energyCost: 40,
+    effects: [{ type: 'stun', value: 0, duration: 4 }],
+    targetCategories: ['turret'],
+    autoCast: true,
+  },
+
+  // EMP Tower - stun vehicles in an area
+  emp: {
+    id: 'emp',
+    name: 'EMP Pulse',
+    description: 'Stuns enemy vehicles around the target point.',
+    targeting: 'point',
+    affects: 'enemies',
+    range: 6,
+    radius: 2,
+    cooldown: 12,
+    energyCost: 30,
+    effects: [{ type: 'stun', value: 0, duration: 3 }],
+    targetCategories: ['combat_vehicle', 'support_vehicle'],
+    autoCast: true,
+  },
+
+  // Commando - vanish from enemy targeting
+  stealth: {
+    id: 'stealth',
+    name: 'Cloak',
+    description: 'Cannot be targeted until the cloak ends or the unit attacks.',
+    targeting: 'self',
+    affects: 'allies',
+    range: 0,
+    radius: 0,
+    cooldown: 30,
+    energyCost: 50,
+    effects: [{ type: 'stealth', value: 0, duration: 8 }],
+    autoCast: false,
+  },
+
+  // Shield Pylon - shield bubble over nearby allies
+  shield_burst: {
+    id: 'shield_burst',
+    name: 'Shield Burst',
+    description: 'Grants temporary shields to nearby allies.',
+    targeting: 'area',
+    affects: 'allies',
+    range: 0,
+    radius: 3,
+    cooldown: 25,
+    energyCost: 40,
+    effects: [{ type: 'shield_burst', value: 100, duration: 10 }],
+    autoCast: true,
+  },
+
+  // Missile Battery - burning area denial
+  incendiary: {
+    id: 'incendiary',
+    name: 'Incendiary Strike',
+    description: 'Sets an area on fire, burning everything inside.',
+    targeting: 'point',
+    affects: 'enemies',
+    range: 6,
+    radius: 1.5,
+    cooldown: 15,
+    energyCost: 35,
+    effects: [{ type: 'damage_over_time', value: 10, duration: 5 }],
+    autoCast: true,
+  },
+
+  // Rangers - burst of speed
+  overdrive: {
+    id: 'overdrive',
+    name: 'Overdrive',
+    description: 'Greatly increases movement speed for a short time.',
+    targeting: 'self',
+    affects: 'allies',
+    range: 0,
+    radius: 0,
+    cooldown: 20,
+    energyCost: 25,
+    effects: [{ type: 'speed_buff', value: 1.5, duration: 6 }],
+    autoCast: false,
+  },
+
+  // Rogue Drone - knock a building offline
+  jam: {
+    id: 'jam',
+    name: 'Signal Jam',
+    description: 'Stops an enemy building from firing, casting or projecting shields.',
+    targeting: 'unit',
+    affects: 'enemies',
+    range: 4,
+    radius: 0,
+    cooldown: 15,
+    energyCost: 30,
+    effects: [{ type: 'disable', value: 0, duration: 5 }],
+    targetCategories: ['turret', 'structure', 'utility'],
+    autoCast: true,
+  },
+
+  // Radiation Emitter - lingering radiation that builds up on repeat exposure
+  irradiate: {
+    id: 'irradiate',
+    name: 'Irradiate',
+    description: 'Irradiates an area. Repeated exposure stacks the damage.',
+    targeting: 'area',
+    affects: 'enemies',
+    range: 0,
+    radius: 2.5,
+    cooldown: 4,
+    energyCost: 15,
+    effects: [{ type: 'burn', value: 4, duration: 6 }],
+    autoCast: true,
+  },
+
+  // Cryo Tower - slow attackers down
+  cryo: {
+    id: 'cryo',
+    name: 'Cryo Blast',
+    description: 'Slows enemy movement and attacks around the target point.',
+    targeting: 'point',
+    affects: 'enemies',
+    range: 6,
+    radius: 2,
+    cooldown: 10,
+    energyCost: 25,
+    effects: [{ type: 'slow', value: 0.6, duration: 4 }],
+    autoCast: true,
+  },
+};
+
+function isNonNegativeNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+/**
+ * Validate abilities before storing them on a definition
+ * Returns an error message, or null if they're valid
+ */
+export function validateAbilities(abilities: unknown): string | null {
+  if (!Array.isArray(abilities)) return 'Abilities must be a list';
+
+  const ids = new Set<string>();
+  for (const ability of abilities as Partial<AbilityDefinition>[]) {
+    if (!ability.id || !ability.name) return 'Every ability needs an id and a name';
+    if (ids.has(ability.id)) return `Duplicate ability id: ${ability.id}`;
+    ids.add(ability.id);
+
+    const label = `Ability ${ability.id}`;
+    if (!ability.targeting || !ABILITY_TARGETINGS.includes(ability.targeting)) {
+      return `${label}: invalid targeting`;
+    }
+    if (!ability.affects || !ABILITY_AFFECTS.includes(ability.affects)) {
+      return `${label}: invalid affects`;
+    }
+    if (ability.targeting === 'self' && ability.affects !== 'allies') {
+      return `${label}: self abilities must affect allies`;
+    }
+    if (
+      !isNonNegativeNumber(ability.range) ||
+      !isNonNegativeNumber(ability.radius) ||
+      !isNonNegativeNumber(ability.cooldown) ||
+      !isNonNegativeNumber(ability.energyCost)
+    ) {
+      return `${label}: range, radius, cooldown and energy cost must be non-negative numbers`;
+    }
+    if ((ability.targeting === 'point' || ability.targeting === 'area') && ability.radius <= 0) {
+      return `${label}: area abilities need a radius`;
+    }
+    if (typeof ability.autoCast !== 'boolean') return `${label}: autoCast must be true or false`;
+    if (
+      ability.targetCategories &&
+      !ability.targetCategories.every((c) => TARGET_CATEGORIES.includes(c))
+    ) {
+      return `${label}: invalid target category`;
+    }
+
+    if (!Array.isArray(ability.effects) || ability.effects.length === 0) {
+      return `${label}: needs at least one effect`;
+    }
+    for (const effect of ability.effects) {
+      if (!ABILITY_EFFECT_TYPES.includes(effect.type)) return `${label}: invalid effect type`;
+      if (!isNonNegativeNumber(effect.value) || !isNonNegativeNumber(effect.duration)) {
+        return `${label}: effect values must be non-negative numbers`;
+      }
+      if (effect.type !== 'heal' && effect.duration <= 0) {
+        return `${label}: ${effect.type} needs a duration`;
+      }
+      if (effect.type === 'slow' && effect.value > 1) {
+        return `${label}: slow must be a multiplier of 1 or less`;
+      }
+    }
+  }
+
+  return null;
+}
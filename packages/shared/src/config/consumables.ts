@@ -0,0 +1,66 @@
+// Combat consumables (COMMANDER ABILITIES in COMBAT-MODE-DESIGN 9.3)
+// Bought at the HQ, loaded into a battle from node storage during prep,
+// and dropped on the arena by the attacker or defender during combat
+
+import type { AbilityAffects, AbilityEffect } from '../types/ability.js';
+import type { TargetCategory } from '../types/combat.js';
+
+export type ConsumableId = 'emp_bomb' | 'repair_drones' | 'shield_booster';
+
+export interface ConsumableDefinition {
+  id: ConsumableId;
+  name: string;
+  description: string;
+  icon: string;
+  color: string;
+  cost: number; // Credits to purchase from HQ
+  affects: AbilityAffects;
+  radius: number; // Tiles around the drop point
+  cooldown: number; // Seconds before the same player can use this consumable again
+  effects: AbilityEffect[];
+  targetCategories?: TargetCategory[]; // Only affect these
+}
+
+export const CONSUMABLES: Record<ConsumableId, ConsumableDefinition> = {
+  emp_bomb: {
+    id: 'emp_bomb',
+    name: 'EMP Bomb',
+    description: 'Stuns every enemy unit and turret in the blast.',
+    icon: '⚡',
+    color: '#38bdf8',
+    cost: 500,
+    affects: 'enemies',
+    radius: 4,
+    cooldown: 60,
+    effects: [{ type: 'stun', value: 0, duration: 3 }],
+  },
+  repair_drones: {
+    id: 'repair_drones',
+    name: 'Repair Drones',
+    description: 'Restores health to allied units and structures in the area.',
+    icon: '🔧',
+    color: '#4ade80',
+    cost: 300,
+    affects: 'allies',
+    radius: 5,
+    cooldown: 90,
+    effects: [{ type: 'heal', value: 150, duration: 0 }],
+  },
+  shield_booster: {
+    id: 'shield_booster',
+    name: 'Shield Booster',
+    description: 'Grants temporary shields to allies in the area.',
+    icon: '🛡️',
+    color: '#a78bfa',
+    cost: 400,
+    affects: 'allies',
+    radius: 4,
+    cooldown: 45,
+    effects: [{ type: 'shield_burst', value: 100, duration: 15 }],
+  },
+};
+
+// Get a consumable by item ID
+export function getConsumableDefinition(itemId: string): ConsumableDefinition | undefined {
+  return itemId in CONSUMABLES ? CONSUMABLES[itemId as ConsumableId] : undefined;
+}
@@ -4,8 +4,10 @@ export * from './resources.js';
 export * from './terrain.js';
 export * from './items.js';
 export * from './nodeCores.js';
+export * from './consumables.js';
 export * from './blueprints.js';
 export * from './itemDefinitions.js';
 export * from './units.js';
 export * from './buildings.js';
+export * from './abilities.js';
 export * from './transfers.js';
@@ -3,6 +3,7 @@
 
 import { RESOURCES, type ResourceType } from './resources.js';
 import { NODE_CORES, type NodeCoreId } from './nodeCores.js';
+import { CONSUMABLES, type ConsumableId } from './consumables.js';
 
 // Item categories
 export type ItemCategory = 'resource' | 'core' | 'equipment' | 'consumable';
@@ -18,8 +19,8 @@ export interface ItemDefinition {
   stackSize: number; // 0 = unlimited
 }
 
-// ItemType includes resources and node cores
-export type ItemType = ResourceType | NodeCoreId;
+// ItemType includes resources, node cores and consumables
+export type ItemType = ResourceType | NodeCoreId | ConsumableId;
 
 // Flexible storage type - can hold any item type
 export type ItemStorage = Partial<Record<string, number>>;
@@ -55,6 +56,20 @@ export function getItemDefinition(itemId: string): ItemDefinition | undefined {
     };
   }
 
+  // Check if it's a combat consumable
+  if (itemId in CONSUMABLES) {
+    const consumable = CONSUMABLES[itemId as ConsumableId];
+    return {
+      id: consumable.id,
+      name: consumable.name,
+      description: consumable.description,
+      icon: consumable.icon,
+      color: consumable.color,
+      category: 'consumable',
+      stackSize: 100,
+    };
+  }
+
   return undefined;
 }
 
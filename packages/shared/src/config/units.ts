@@ -17,6 +17,9 @@ export interface UnitStats {
   speed: number; // Movement speed (tiles per minute)
   range: number; // Attack range in tiles
   attackSpeed: number; // Attacks per second
+  projectileSpeed?: number; // Tiles per second (omitted or 0 = instant hit)
+  splashRadius?: number; // Area damage radius in tiles (omitted or 0 = single target)
+  revealRadius?: number; // Hidden trap detection radius in tiles (omitted or 0 = no detection)
 }
 
 /**
@@ -78,6 +81,42 @@ export const VETERANCY_THRESHOLDS: Record<Veterancy, number> = {
   [Veterancy.LEGENDARY]: 1500,
 };
 
+/**
+ * Experience earned in combat (COMBAT-MODE-DESIGN 5.5)
+ */
+export const VETERANCY_XP = {
+  DAMAGE_PER_XP: 10, // 1 XP per 10 damage dealt
+  KILL: 10,
+  STRUCTURE_DESTROYED: 20,
+  SURVIVAL: 25, // Deployed and still alive at the end
+} as const;
+
+/**
+ * Veterancy at which a unit can choose a specialization
+ */
+export const SPECIALIZATION_VETERANCY = Veterancy.VETERAN;
+
+const VETERANCY_ORDER: Veterancy[] = [
+  Veterancy.ROOKIE,
+  Veterancy.REGULAR,
+  Veterancy.VETERAN,
+  Veterancy.ELITE,
+  Veterancy.LEGENDARY,
+];
+
+/**
+ * Progress toward the next veterancy level
+ */
+export interface VeterancyProgress {
+  experience: number;
+  veterancy: Veterancy;
+  nextVeterancy: Veterancy | null; // null at the top level
+  currentThreshold: number;
+  nextThreshold: number | null;
+  progress: number; // 0-1 toward the next level (1 at the top level)
+  specializationUnlocked: boolean;
+}
+
 /**
  * Unit type definitions
  * These are the base templates - actual units are created in the database
@@ -177,6 +216,7 @@ export function getUnitType(typeId: string): UnitTypeDefinition | undefined {
 export function calculateUnitStats(baseStats: UnitStats, veterancy: Veterancy): UnitStats {
   const multiplier = VETERANCY_MULTIPLIERS[veterancy];
   return {
+    ...baseStats,
     health: Math.floor(baseStats.health * multiplier),
     shield: Math.floor(baseStats.shield * multiplier),
     shieldRange: baseStats.shieldRange, // Shield range doesn't scale with veterancy
@@ -199,6 +239,56 @@ export function getVeterancyFromExperience(experience: number): Veterancy {
   return Veterancy.ROOKIE;
 }
 
+/**
+ * Experience a unit earned in one battle
+ * Units that die keep nothing; survivors also earn the survival bonus if they fought
+ */
+export function calculateCombatExperience(record: {
+  damageDealt: number;
+  kills: number;
+  structuresDestroyed: number;
+  deployed: boolean;
+  survived: boolean;
+}): number {
+  if (!record.survived || !record.deployed) return 0;
+  return (
+    Math.floor(record.damageDealt / VETERANCY_XP.DAMAGE_PER_XP) +
+    record.kills * VETERANCY_XP.KILL +
+    record.structuresDestroyed * VETERANCY_XP.STRUCTURE_DESTROYED +
+    VETERANCY_XP.SURVIVAL
+  );
+}
+
+/**
+ * Check if a veterancy level has unlocked the specialization choice
+ */
+export function isSpecializationUnlocked(veterancy: Veterancy): boolean {
+  return VETERANCY_ORDER.indexOf(veterancy) >= VETERANCY_ORDER.indexOf(SPECIALIZATION_VETERANCY);
+}
+
+/**
+ * Get veterancy level and progress toward the next one from experience
+ */
+export function getVeterancyProgress(experience: number): VeterancyProgress {
+  const veterancy = getVeterancyFromExperience(experience);
+  const nextVeterancy = VETERANCY_ORDER[VETERANCY_ORDER.indexOf(veterancy) + 1] ?? null;
+  const currentThreshold = VETERANCY_THRESHOLDS[veterancy];
+  const nextThreshold = nextVeterancy ? VETERANCY_THRESHOLDS[nextVeterancy] : null;
+
+  return {
+    experience,
+    veterancy,
+    nextVeterancy,
+    currentThreshold,
+    nextThreshold,
+    progress:
+      nextThreshold === null
+        ? 1
+        : (experience - currentThreshold) / (nextThreshold - currentThreshold),
+    specializationUnlocked: isSpecializationUnlocked(veterancy),
+  };
+}
+
 /**
  * Get all unit types trainable at a given node tier
  */
@@ -16,6 +16,16 @@ export const COMBAT = {
   COMBAT_DURATION: 30 * 60 * 1000, // 30 minutes
   POST_BATTLE_IMMUNITY: 3 * 60 * 1000, // 3 minutes
   ATTACK_COOLDOWN: 3 * 24 * 60 * 60 * 1000, // 3 days
+  TICK_RATE: 20, // Server simulation ticks per second
+  HQ_BASE_HEALTH: 10000, // Tier 1 HQ, +50% per tier above 1
+  MAX_ENERGY: 100, // Ability energy pool per unit/building
+  ENERGY_REGEN: 5, // Energy regained per second
+  SHIELD_REGEN_DELAY: 5000, // ms after a projected shield pool last absorbed damage
+  SHIELD_REGEN_RATE: 0.1, // Fraction of a projected pool's max regained per second
+  COVER_DAMAGE_REDUCTION: 0.25, // Weapon damage reduction for units standing on cover tiles
+  SPECTATOR_DELAY: 0, // ms spectators lag behind a battle, unless the spectatorDelaySeconds setting is set
+  MAX_INPUTS_PER_SECOND: 20, // Combat commands accepted from each player per second
+  STATE_REQUEST_COOLDOWN: 2000, // ms between keyframes a socket may ask for
 } as const;
 
 // Free tier limitations
@@ -0,0 +1,69 @@
+/**
+ * Ability types for units and buildings
+ * Abilities are stored with unit/building definitions (edited in the dev page)
+ * and executed by the combat simulator
+ */
+
+import type { TargetCategory } from './combat.js';
+
+/**
+ * Where an ability lands
+ * - self: the caster only
+ * - unit: one unit or building within range
+ * - point: an area (radius) centred on a tile within range
+ * - area: an area (radius) centred on the caster
+ */
+export type AbilityTargeting = 'self' | 'point' | 'unit' | 'area';
+
+export type AbilityAffects = 'allies' | 'enemies';
+
+export type AbilityEffectType =
+  | 'heal'
+  | 'stun'
+  | 'shield_burst'
+  | 'damage_over_time'
+  | 'speed_buff'
+  | 'stealth'
+  | 'slow'
+  | 'burn'
+  | 'disable';
+
+/**
+ * Effects that linger on a unit or building after the cast
+ */
+export type StatusEffectType = Exclude<AbilityEffectType, 'heal'>;
+
+/**
+ * A single effect applied to everything an ability hits
+ * value meaning by type:
+ * - heal: health restored (also repairs buildings)
+ * - shield_burst: temporary shield points
+ * - damage_over_time: damage per second (ignores armor)
+ * - speed_buff: speed multiplier (1.5 = +50%)
+ * - slow: movement and attack speed multiplier (0.6 = -40%)
+ * - burn: damage per second per stack (ignores armor)
+ * - stun, stealth, disable: unused
+ */
+export interface AbilityEffect {
+  type: AbilityEffectType;
+  value: number;
+  duration: number; // Seconds (ignored for heal)
+}
+
+/**
+ * Ability definition as stored on a unit or building definition
+ */
+export interface AbilityDefinition {
+  id: string; // Unique within its definition (e.g. "repair")
+  name: string;
+  description?: string;
+  targeting: AbilityTargeting;
+  affects: AbilityAffects;
+  range: number; // Cast range in tiles (unit/point)
+  radius: number; // Area radius in tiles (point/area)
+  cooldown: number; // Seconds
+  energyCost: number;
+  effects: AbilityEffect[];
+  targetCategories?: TargetCategory[]; // Only affect these (e.g. EMP only stuns vehicles)
+  autoCast: boolean; // Cast automatically when a valid target is available
+}
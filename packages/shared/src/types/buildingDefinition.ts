@@ -3,9 +3,11 @@
  * These are configured in the dev page and linked from items
  */
 
+import type { AbilityDefinition } from './ability.js';
+import type { TargetPriorityPreset } from './combat.js';
 import type { BlueprintQuality } from './enums.js';
 
-export type BuildingCategory = 'turret' | 'wall' | 'structure' | 'utility';
+export type BuildingCategory = 'turret' | 'wall' | 'structure' | 'utility' | 'trap';
 
 /**
  * Building definition as stored in the database
@@ -23,16 +25,25 @@ export interface DbBuildingDefinition {
   // Base combat stats
   health: number;
   shield: number; // Shield hit points
+  shieldRange: number; // 0 = personal shield, >0 = AOE radius protecting nearby allies
   armor: number;
 
   // Combat capability (0 = non-combat building)
   damage: number;
   range: number; // Attack range in tiles
   attackSpeed: number; // Attacks per second
+  projectileSpeed: number; // Tiles per second (0 = instant hit)
+  splashRadius: number; // Area damage radius in tiles (0 = single target)
 
   // Category
   category: BuildingCategory;
 
+  // Default target priority in combat (overridable per battle)
+  targetPriority: TargetPriorityPreset;
+
+  // Special abilities (see ABILITY_TEMPLATES)
+  abilities: AbilityDefinition[];
+
   // Relations (item count for display)
   items?: { id: string; itemId: string; name: string; quality: BlueprintQuality }[];
 
@@ -51,9 +62,14 @@ export interface DbBuildingDefinitionInput {
   height?: number;
   health?: number;
   shield?: number;
+  shieldRange?: number;
   armor?: number;
   damage?: number;
   range?: number;
   attackSpeed?: number;
+  projectileSpeed?: number;
+  splashRadius?: number;
   category?: BuildingCategory;
+  targetPriority?: TargetPriorityPreset;
+  abilities?: AbilityDefinition[];
 }
@@ -1,6 +1,10 @@
 // Combat Mode Types
 // These types define the data structures for real-time 3D combat
 
+import type { StatusEffectType } from './ability.js';
+import type { BuildingCategory } from './buildingDefinition.js';
+import type { UnitCategory } from './unitDefinition.js';
+
 /**
  * Arena tile types that affect movement and visibility
  */
@@ -11,6 +15,7 @@ export enum TileType {
   HQ_ZONE = 'hq_zone', // HQ footprint
   SPAWN_ZONE = 'spawn_zone', // Attacker deployment area
   HAZARD = 'hazard', // Damage over time
+  COVER = 'cover', // Walkable, units on it take less weapon damage
 }
 
 /**
@@ -54,17 +59,66 @@ export interface WorldPosition {
 /**
  * Input commands sent from client to server
  */
-export type CombatInputType = 'deploy' | 'move' | 'attack' | 'ability' | 'target_priority';
+export type CombatInputType =
+  | 'deploy'
+  | 'move'
+  | 'attack'
+  | 'ability'
+  | 'target_priority'
+  | 'retreat'
+  | 'consumable';
 
 export interface CombatInput {
   type: CombatInputType;
-  unitIds?: string[];
+  unitType?: string; // Unit definition ID (deploy)
+  unitIds?: string[]; // retreat - omit to withdraw every attacker unit, reserves included
+  buildingIds?: string[]; // Defender buildings (target_priority, ability)
   targetId?: string;
   position?: ArenaPosition;
   abilityId?: string;
+  itemId?: string; // consumable - dropped at position
+  priority?: TargetPriorityPreset; // target_priority - omit unit/building IDs to apply to all
   timestamp: number;
 }
 
+/**
+ * Target priority presets for units and turrets (COMBAT-MODE-DESIGN 5.3.2)
+ * - balanced: design defaults (HQ > units > turrets > walls, nearby and wounded first)
+ * - closest: nearest target regardless of type
+ * - weakest: finish off damaged targets
+ * - infantry / vehicles / buildings: strongly prefer that category (anti-infantry, siege)
+ */
+export type TargetPriorityPreset =
+  | 'balanced'
+  | 'closest'
+  | 'weakest'
+  | 'infantry'
+  | 'vehicles'
+  | 'buildings';
+
+export const TARGET_PRIORITY_PRESETS: readonly TargetPriorityPreset[] = [
+  'balanced',
+  'closest',
+  'weakest',
+  'infantry',
+  'vehicles',
+  'buildings',
+];
+
+export const TARGET_PRIORITY_NAMES: Record<TargetPriorityPreset, string> = {
+  balanced: 'Balanced',
+  closest: 'Closest',
+  weakest: 'Weakest',
+  infantry: 'Anti-Infantry',
+  vehicles: 'Anti-Vehicle',
+  buildings: 'Siege (Buildings)',
+};
+
+/**
+ * What a target counts as when scoring priorities
+ */
+export type TargetCategory = UnitCategory | BuildingCategory | 'hq';
+
 /**
  * Unit state in combat (server-authoritative)
  */
@@ -81,16 +135,27 @@ export interface CombatUnitState {
   maxShield: number;
   state: UnitState;
   targetId?: string; // Current attack target
+  energy?: number; // Ability energy (only for units with abilities)
+  effects?: StatusEffectType[]; // Active status effects
+  effectStacks?: Partial<Record<StatusEffectType, number>>; // Stack counts above 1
+  shieldRange?: number; // Projected shield radius in tiles (only for shield projectors)
+  coveredBy?: string[]; // Shield projectors covering this unit
 }
 
 /**
- * Projectile state for visual rendering
+ * Projectile in flight
+ * Projectiles fly in a straight line to where they expect the target to be;
+ * missiles arc between origin and targetPosition when rendered
  */
 export interface ProjectileState {
   id: string;
   sourceId: string; // Unit/tower that fired
-  targetId: string; // Target unit/building
-  position: WorldPosition;
+  targetId: string; // Target unit/building/core
+  origin: ArenaPosition; // Where it was fired from
+  position: ArenaPosition;
+  targetPosition: ArenaPosition; // Impact point (leads moving targets)
+  speed: number; // Tiles per second
+  splashRadius: number; // Tiles (0 = single target)
   type: 'bullet' | 'missile' | 'laser';
   startTime: number;
 }
@@ -101,7 +166,8 @@ export interface ProjectileState {
 export interface EffectState {
   id: string;
   type: 'explosion' | 'shield_hit' | 'death' | 'spawn';
-  position: WorldPosition;
+  position: ArenaPosition;
+  radius?: number; // Tiles (explosions)
   startTime: number;
   duration: number;
 }
@@ -109,13 +175,25 @@ export interface EffectState {
 /**
  * Combat event for this tick (damage, kills, abilities)
  */
-export type CombatEventType = 'damage' | 'kill' | 'ability_used' | 'unit_spawned' | 'hq_damaged';
+export type CombatEventType =
+  | 'damage'
+  | 'kill'
+  | 'ability_used'
+  | 'unit_spawned'
+  | 'unit_retreated'
+  | 'consumable_used'
+  | 'trap_triggered'
+  | 'trap_revealed'
+  | 'hq_damaged';
 
 export interface CombatEvent {
   type: CombatEventType;
   sourceId?: string;
   targetId?: string;
-  value?: number; // Damage amount, etc.
+  value?: number; // Damage amount, ability radius, etc.
+  abilityId?: string; // ability_used
+  itemId?: string; // consumable_used
+  position?: ArenaPosition; // Where an ability or consumable landed
   timestamp: number;
 }
 
@@ -134,6 +212,12 @@ export interface CombatBuildingState {
   maxShield: number;
   targetId?: string;
   isActive: boolean;
+  energy?: number; // Ability energy (only for buildings with abilities)
+  effects?: StatusEffectType[]; // Active status effects
+  effectStacks?: Partial<Record<StatusEffectType, number>>; // Stack counts above 1
+  shieldRange?: number; // Projected shield radius in tiles (only for shield projectors)
+  coveredBy?: string[]; // Shield projectors covering this building
+  hidden?: boolean; // Trap the attacker hasn't revealed yet, only shown to the defender
 }
 
 /**
@@ -143,6 +227,7 @@ export interface HQState {
   health: number;
   maxHealth: number;
   damageState: 'healthy' | 'damaged' | 'critical';
+  coveredBy?: string[]; // Shield projectors covering the HQ
 }
 
 /**
@@ -162,6 +247,58 @@ export interface CombatState {
   events: CombatEvent[]; // Events that occurred this tick
 }
 
+/**
+ * Changed fields of one entity since the previous state
+ * Optional fields that were cleared are sent as null
+ */
+export type CombatEntityPatch<T extends { id: string }> = { id: string } & {
+  [K in keyof T]?: T[K] | null;
+};
+
+/**
+ * Changes to one entity list (units, buildings, projectiles, effects)
+ */
+export interface CombatEntityDelta<T extends { id: string }> {
+  added?: T[];
+  changed?: CombatEntityPatch<T>[];
+  removed?: string[]; // Entity IDs
+}
+
+/**
+ * Full state, sent periodically and whenever a client asks for one
+ */
+export interface CombatStateKeyframe {
+  type: 'keyframe';
+  battleId: string;
+  seq: number; // Increases by one per message in a battle
+  state: CombatState;
+}
+
+/**
+ * Changes since the message with seq - 1
+ * Lists and fields that didn't change are omitted
+ */
+export interface CombatStateDelta {
+  type: 'delta';
+  battleId: string;
+  seq: number;
+  tick: number;
+  timestamp: number;
+  timeRemaining: number;
+  phase?: CombatPhase;
+  hq?: HQState;
+  units?: CombatEntityDelta<CombatUnitState>;
+  buildings?: CombatEntityDelta<CombatBuildingState>;
+  projectiles?: CombatEntityDelta<ProjectileState>;
+  effects?: CombatEntityDelta<EffectState>;
+  events: CombatEvent[];
+}
+
+/**
+ * State update streamed to the battle room (combat:state)
+ */
+export type CombatStateMessage = CombatStateKeyframe | CombatStateDelta;
+
 /**
  * Initial combat setup sent when entering combat
  */
@@ -171,7 +308,7 @@ export interface CombatSetup {
   defenderId: string;
   nodeId: string;
   nodeType: string;
-  arenaLayout: TileType[][]; // 40x40 grid
+  arenaLayout: TileType[][]; // 60x60 grid, generated from the node
   attackerUnits: {
     unitTypeId: string;
     count: number;
@@ -185,9 +322,12 @@ export interface CombatSetup {
     buildingTypeId: string;
     position: ArenaPosition;
     rotation: number;
+    hidden?: boolean; // Trap, only shown to the defender until revealed
   }[];
   hqMaxHealth: number;
   combatDuration: number; // Seconds (1800 = 30 min)
+  attackerConsumables: Record<string, number>; // itemId -> count loaded for the battle
+  defenderConsumables: Record<string, number>;
 }
 
 /**
@@ -196,11 +336,67 @@ export interface CombatSetup {
 export interface CombatResult {
   battleId: string;
   winnerId: string | null; // null = draw/timeout
-  reason: 'hq_destroyed' | 'attackers_eliminated' | 'timeout' | 'surrender';
+  reason: 'hq_destroyed' | 'attackers_eliminated' | 'attackers_retreated' | 'timeout' | 'surrender';
   attackerLosses: Record<string, number>; // unitTypeId -> count
+  attackerRetreated: Record<string, number>; // unitTypeId -> count that left the field alive
   defenderLosses: Record<string, number>;
+  attackerConsumablesUsed: Record<string, number>; // itemId -> count used
+  defenderConsumablesUsed: Record<string, number>;
   duration: number; // Seconds
   finalHqHealth: number;
+  unitRecords: CombatUnitRecord[]; // Per-unit performance, for veterancy
+}
+
+/**
+ * How a unit did in a battle
+ * Every deployed unit is recorded, plus undeployed units that have a Unit row
+ */
+export interface CombatUnitRecord {
+  unitId: string; // Combat unit ID (the Unit row ID for undeployed units)
+  veteranId?: string; // Unit row the unit fought as, if it had one
+  ownerId: string;
+  unitTypeId: string;
+  maxHealth: number;
+  damageDealt: number;
+  kills: number;
+  structuresDestroyed: number;
+  deployed: boolean;
+  survived: boolean;
+  retreated: boolean; // Left the field through the deploy edge
+}
+
+/**
+ * Unit group in a locked battle snapshot
+ */
+export interface BattleUnitGroup {
+  itemId: string; // Storage item the units were drawn from
+  unitTypeId: string; // UnitDefinition ID
+  count: number;
+}
+
+/**
+ * Attacker forces locked into Battle.attackForce
+ */
+export interface BattleAttackForce {
+  units: BattleUnitGroup[];
+  targetPriorities?: Record<string, TargetPriorityPreset>; // unitTypeId -> preset set during prep
+  consumables?: Record<string, number>; // itemId -> count loaded during prep
+}
+
+/**
+ * Defender state locked into Battle.defenseState
+ */
+export interface BattleDefenseState {
+  units: BattleUnitGroup[];
+  buildings: {
+    id: string; // Building row ID
+    buildingTypeId: string; // BuildingDefinition ID
+    position: ArenaPosition;
+    rotation: number;
+  }[];
+  hqMaxHealth: number;
+  targetPriorities?: Record<string, TargetPriorityPreset>; // unitTypeId or building ID -> preset set during prep
+  consumables?: Record<string, number>; // itemId -> count loaded during prep
 }
 
 /**
@@ -212,6 +408,21 @@ export interface FlowField {
   directions: number[][]; // Direction in radians per tile, -1 = blocked
 }
 
+/**
+ * How a socket is in a battle
+ * Participants fight it; spectators (session members) watch read-only
+ */
+export type CombatRole = 'participant' | 'spectator';
+
+/**
+ * Sent to a socket once its join or spectate request is accepted
+ */
+export interface CombatJoinedEvent {
+  battleId: string;
+  role: CombatRole;
+  delayMs: number; // How far behind the battle a spectator's view runs (0 for participants)
+}
+
 /**
  * WebSocket event names for combat
  */
@@ -221,8 +432,10 @@ export const COMBAT_EVENTS = {
   LEAVE_COMBAT: 'combat:leave',
   SEND_INPUT: 'combat:input',
   REQUEST_STATE: 'combat:request_state',
+  SPECTATE_COMBAT: 'combat:spectate',
 
   // Server -> Client
+  COMBAT_JOINED: 'combat:joined',
   COMBAT_SETUP: 'combat:setup',
   STATE_UPDATE: 'combat:state',
   COMBAT_END: 'combat:end',
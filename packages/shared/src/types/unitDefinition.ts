@@ -3,6 +3,8 @@
  * These are configured in the dev page and linked from items
  */
 
+import type { AbilityDefinition } from './ability.js';
+import type { TargetPriorityPreset } from './combat.js';
 import type { BlueprintQuality } from './enums.js';
 
 export type UnitCategory = 'infantry' | 'combat_vehicle' | 'support_vehicle';
@@ -28,10 +30,19 @@ export interface DbUnitDefinition {
   speed: number; // Movement speed (tiles per minute)
   range: number; // Attack range in tiles
   attackSpeed: number; // Attacks per second
+  projectileSpeed: number; // Tiles per second (0 = instant hit)
+  splashRadius: number; // Area damage radius in tiles (0 = single target)
+  revealRadius: number; // Hidden trap detection radius in tiles (0 = no detection)
 
   // Category
   category: UnitCategory;
 
+  // Default target priority in combat (overridable per battle)
+  targetPriority: TargetPriorityPreset;
+
+  // Special abilities (see ABILITY_TEMPLATES)
+  abilities: AbilityDefinition[];
+
   // Relations (item count for display)
   items?: { id: string; itemId: string; name: string; quality: BlueprintQuality }[];
 
@@ -55,7 +66,12 @@ export interface DbUnitDefinitionInput {
   speed?: number;
   range?: number;
   attackSpeed?: number;
+  projectileSpeed?: number;
+  splashRadius?: number;
+  revealRadius?: number;
   category?: UnitCategory;
+  targetPriority?: TargetPriorityPreset;
+  abilities?: AbilityDefinition[];
 }
 
 /**